@@ -8,16 +8,22 @@ import { Redirect, Route } from 'react-router';
 
 import Loader from './components/Loader';
 import { PinModalClaimPegin } from './components/PinModal/PinModalClaimPegin';
+import { PinModalLimitOrder } from './components/PinModal/PinModalLimitOrder';
 import { Toasts } from './components/Toasts';
+import { useAutoLock } from './hooks/useAutoLock';
 import BackupOnboarding from './pages/Backup/backup-onboarding';
 import Homescreen from './pages/Homescreen';
+import { LockScreen } from './pages/LockScreen';
 import PinSetting from './pages/PinSetting';
 import { RestoreWallet } from './pages/RestoreWallet';
 import { ShowMnemonicOnboarding } from './pages/ShowMnemonic/ShowMnemonicOnboarding';
 import Tabs from './pages/Tabs';
+import { WatchOnlyWallet } from './pages/WatchOnlyWallet';
 import { chainSource } from './services/chainSource';
 import { useAppStore } from './store/appStore';
+import { useLimitOrderStore } from './store/limitOrderStore';
 import { useWalletStore } from './store/walletStore';
+import { LIMIT_ORDERS_POLLING_INTERVAL } from './utils/constants';
 
 setupIonicReact();
 
@@ -26,16 +32,21 @@ export const App: React.FC = () => {
   const isSignedUp = useAppStore.getState().isSignedUp;
   const setIsSignedUp = useAppStore((state) => state.setIsSignedUp);
   const setIsAppInitialized = useAppStore((state) => state.setIsAppInitialized);
+  const isLocked = useAppStore((state) => state.isLocked);
   const isAuthorized = useWalletStore((state) => state.isAuthorized);
   const unlockOutpoints = useWalletStore((state) => state.unlockOutpoints);
+  const checkLimitOrders = useLimitOrderStore((state) => state.checkLimitOrders);
   //
   const appState = useAppState();
+  const lock = useAutoLock();
 
   useEffect(() => {
     if (!appState.state) {
       unlockOutpoints();
+      // the state of the app is unknown on the web
+      if (appState.isAvailable) lock();
     }
-  }, [appState.state, unlockOutpoints]);
+  }, [appState.isAvailable, appState.state, lock, unlockOutpoints]);
 
   useEffect(() => {
     (async () => {
@@ -77,6 +88,15 @@ export const App: React.FC = () => {
     }
   }, [isAppInitialized, isSignedUp]);
 
+  // Poll the price of open limit orders while the wallet is unlocked
+  useEffect(() => {
+    if (!isAuthorized) return;
+    const interval = setInterval(() => {
+      checkLimitOrders().catch(console.error);
+    }, LIMIT_ORDERS_POLLING_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isAuthorized, checkLimitOrders]);
+
   return (
     <IonApp>
       <IonReactRouter>
@@ -84,6 +104,11 @@ export const App: React.FC = () => {
         {/* RouterOutlet will render depending on path */}
         {isAuthorized ? (
           <Tabs />
+        ) : isLocked ? (
+          <IonRouterOutlet animated={false}>
+            {/* any path, the page shown being the one locked once unlocked */}
+            <Route component={LockScreen} />
+          </IonRouterOutlet>
         ) : (
           <IonRouterOutlet animated={false}>
             <Redirect exact from="/" to="/homescreen" />
@@ -92,11 +117,15 @@ export const App: React.FC = () => {
             <Route path="/onboarding/backup" component={BackupOnboarding} />
             <Route path="/onboarding/pin-setting" component={PinSetting} />
             <Route path="/onboarding/show-mnemonic" component={ShowMnemonicOnboarding} />
+            <Route path="/watch-only" component={WatchOnlyWallet} />
+            {/* pages of a wallet erased after failed PIN attempts */}
+            <Route render={() => <Redirect to="/homescreen" />} />
           </IonRouterOutlet>
         )}
         {/* Toasts component displays toasts from store */}
         <Toasts />
         <PinModalClaimPegin />
+        <PinModalLimitOrder />
       </IonReactRouter>
     </IonApp>
   );
@@ -0,0 +1,37 @@
+/**
+ * @jest-environment node
+ */
+import * as assert from 'assert';
+
+import { joinQrFrames, parseQrFrame, toQrFrames } from '../utils/animatedQr';
+
+const payload = 'cHNldP8BAgQCAAAAAQQBAQEFAQIB+wQCAAAAAAEOIA'.repeat(30);
+
+describe('animated QR codes', () => {
+  test('should leave a small payload in a single code', () => {
+    assert.deepStrictEqual(toQrFrames('cHNldP8B'), ['cHNldP8B']);
+    assert.strictEqual(parseQrFrame('cHNldP8B'), undefined);
+  });
+
+  test('should split a large payload into numbered frames', () => {
+    const frames = toQrFrames(payload, 500);
+    assert.strictEqual(frames.length, Math.ceil(payload.length / 500));
+    assert.ok(frames[0].startsWith(`p1of${frames.length} `));
+    assert.deepStrictEqual(parseQrFrame(frames[1]), {
+      index: 2,
+      total: frames.length,
+      chunk: payload.slice(500, 1000),
+    });
+  });
+
+  test('should join frames scanned in any order once all of them are there', () => {
+    const frames = toQrFrames(payload, 500).map((frame) => parseQrFrame(frame)!);
+    const shuffled = [frames[2], frames[0], frames[1]];
+    assert.strictEqual(joinQrFrames(shuffled.slice(0, 2)), undefined);
+    assert.strictEqual(joinQrFrames(shuffled), payload);
+  });
+
+  test('should reject frames of different payloads', () => {
+    assert.throws(() => joinQrFrames([parseQrFrame('p1of2 ab')!, parseQrFrame('p2of3 cd')!]));
+  });
+});
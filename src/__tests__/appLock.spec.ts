@@ -0,0 +1,55 @@
+/**
+ * @jest-environment node
+ */
+import * as assert from 'assert';
+
+import { useAppStore } from '../store/appStore';
+import { useWalletStore } from '../store/walletStore';
+
+jest.mock('../services/chainSource', () => ({ chainSource: {} }));
+// the persisted stores, as left by the last run of the app
+const mockPersisted = new Map<string, string>();
+jest.mock('../store/capacitorPersistentStorage', () => ({
+  storage: {
+    getItem: async (name: string) => mockPersisted.get(name) ?? null,
+    setItem: async () => undefined,
+    removeItem: async () => undefined,
+  },
+}));
+
+const encryptedMnemonic = { data: 'data', iv: 'iv', salt: 'salt' };
+
+const persist = (name: string, state: Record<string, unknown>) =>
+  mockPersisted.set(name, JSON.stringify({ state, version: 0 }));
+
+describe('app start', () => {
+  beforeEach(() => {
+    mockPersisted.clear();
+    useAppStore.setState({ isLocked: false });
+    useWalletStore.setState({ isAuthorized: false, encryptedMnemonic: undefined, walletsData: {} });
+  });
+
+  test('should lock a wallet protected by a PIN left unlocked', async () => {
+    persist('app', { isLocked: false });
+    persist('wallet', { isAuthorized: true, encryptedMnemonic });
+    await useWalletStore.persist.rehydrate();
+    // the app store restored last does not unlock it
+    await useAppStore.persist.rehydrate();
+    assert.strictEqual(useWalletStore.getState().isAuthorized, false);
+    assert.strictEqual(useAppStore.getState().isLocked, true);
+  });
+
+  test('should lock an inactive wallet protected by a PIN', async () => {
+    persist('wallet', { isAuthorized: true, walletsData: { other: { encryptedMnemonic } } });
+    await useWalletStore.persist.rehydrate();
+    assert.strictEqual(useWalletStore.getState().isAuthorized, false);
+    assert.strictEqual(useAppStore.getState().isLocked, true);
+  });
+
+  test('should not lock a watch-only wallet', async () => {
+    persist('wallet', { isAuthorized: true, walletsData: { watchOnly: {} } });
+    await useWalletStore.persist.rehydrate();
+    assert.strictEqual(useWalletStore.getState().isAuthorized, true);
+    assert.strictEqual(useAppStore.getState().isLocked, false);
+  });
+});
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+
+import type { Asset } from '../store/assetStore';
+import { parseBatchCsv } from '../utils/batch';
+
+const LBTC = '5ac9f65c0efcc4775e0baec4ec03abdde22473cd3cf33c0419ca290e0751b225';
+const USDT = 'f3d1ec678811398cd2ae277cbe3849c6f6dbd72c74bc542f7c4b11ff0e820958';
+
+const assets: Record<string, Asset> = {
+  [LBTC]: { assetHash: LBTC, ticker: 'L-BTC', precision: 8 },
+  [USDT]: { assetHash: USDT, ticker: 'USDt', precision: 8 },
+};
+
+const rows = [
+  { address: 'ex1qfirst', asset: LBTC, amount: '0.001' },
+  { address: 'ex1qsecond', asset: USDT, amount: '25' },
+];
+
+describe('batch CSV', () => {
+  test('should parse tickers and hashes, with either separator and quotes', () => {
+    const csv = `ex1qfirst,l-btc,0.001\n"ex1qsecond";"${USDT}";"25"`;
+    assert.deepStrictEqual(parseBatchCsv(csv, assets), rows);
+  });
+
+  test('should skip the header after a byte order mark and blank lines', () => {
+    const csv = '\uFEFF\r\n\r\naddress,asset,amount\r\nex1qfirst,L-BTC,0.001\r\n\r\nex1qsecond,USDt,25\r\n';
+    assert.deepStrictEqual(parseBatchCsv(csv, assets), rows);
+  });
+
+  test('should only skip the first line as a header', () => {
+    const csv = 'address,asset,amount\nex1qfirst,L-BTC,0.001\naddress,asset,amount';
+    assert.deepStrictEqual(parseBatchCsv(csv, assets), [
+      rows[0],
+      { address: 'address', asset: 'asset', amount: 'amount' },
+    ]);
+  });
+
+  test('should tell the line missing a column', () => {
+    assert.throws(() => parseBatchCsv('\nex1qfirst,L-BTC,0.001\nex1qsecond,25', assets), /^Error: Line 3:/);
+  });
+});
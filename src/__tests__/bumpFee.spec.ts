@@ -0,0 +1,122 @@
+/**
+ * @jest-environment node
+ */
+import * as assert from 'assert';
+import { address, networks, Transaction } from 'liquidjs-lib';
+
+import type { FundedCoin } from '../../test/fixtures/wallet';
+import { lbtc, setupWallet, unconfidentialOutput } from '../../test/fixtures/wallet';
+import type { ScriptDetails, SentRecipient } from '../store/walletStore';
+import { useWalletStore } from '../store/walletStore';
+import { FeeBumpTooHighError } from '../utils/errors';
+import { makeBumpFeePset } from '../utils/transaction';
+
+jest.mock('../services/chainSource', () => ({
+  chainSource: {
+    subscribeScriptStatus: async () => undefined,
+    // 1 sat/vB
+    getRelayFee: async () => 0.00001,
+  },
+}));
+jest.mock('../store/capacitorPersistentStorage', () => ({
+  storage: { getItem: async () => null, setItem: async () => undefined, removeItem: async () => undefined },
+}));
+
+const ZERO = '00'.repeat(32);
+const OLD_FEE = 300;
+
+// Unconfirmed transaction of ours spending coin, outputs being either a recipient or our change
+function addSentTx(coin: FundedCoin, outputs: { script: Buffer; value: number; isChange?: boolean }[]): string {
+  const tx = new Transaction();
+  tx.addInput(Buffer.from(coin.txid, 'hex').reverse(), coin.vout);
+  for (const { script, value } of outputs) {
+    const output = unconfidentialOutput(script, lbtc, value);
+    tx.addOutput(output.script, output.value, output.asset, output.nonce);
+  }
+  const fee = unconfidentialOutput(Buffer.alloc(0), lbtc, OLD_FEE);
+  tx.addOutput(fee.script, fee.value, fee.asset, fee.nonce);
+  const txid = tx.getId();
+  const outputHistory = { ...useWalletStore.getState().outputHistory };
+  for (const [vout, { value, isChange }] of outputs.entries()) {
+    if (!isChange) continue;
+    outputHistory[`${txid}:${vout}`] = {
+      txid,
+      vout,
+      blindingData: { asset: lbtc, value, assetBlindingFactor: ZERO, valueBlindingFactor: ZERO },
+    };
+  }
+  useWalletStore.setState((state) => ({
+    txs: { ...state.txs, [txid]: { hex: tx.toHex(), height: 0 } },
+    outputHistory,
+  }));
+  return txid;
+}
+
+describe('fee bump', () => {
+  let coin: FundedCoin;
+  let change: ScriptDetails;
+  let changeAddress: string;
+
+  beforeEach(async () => {
+    [coin] = await setupWallet([{ asset: lbtc, value: 100_000 }]);
+    change = await useWalletStore.getState().getNextAddress(true);
+    changeAddress = address.fromOutputScript(Buffer.from(change.script, 'hex'), networks.regtest);
+  });
+
+  test('should tell the recipient apart from the change paid to the same address', async () => {
+    const changeScript = Buffer.from(change.script, 'hex');
+    const txid = addSentTx(coin, [
+      { script: changeScript, value: 1000 },
+      { script: changeScript, value: 100_000 - 1000 - OLD_FEE, isChange: true },
+    ]);
+    const recipient: SentRecipient = { address: changeAddress, asset: lbtc, value: 1000, vout: 0 };
+    useWalletStore.getState().addSentRecipients(txid, [recipient]);
+
+    const { pset, feeAmount, recipients } = await makeBumpFeePset(txid, 2);
+    assert.deepStrictEqual(recipients, [recipient]);
+    assert.strictEqual(pset.outputs.length, 3);
+    assert.strictEqual(pset.outputs[0].value, 1000);
+    // the fee increase is taken from the change only
+    assert.strictEqual(pset.outputs[1].value, 100_000 - 1000 - OLD_FEE - (feeAmount - OLD_FEE));
+    assert.ok(!pset.outputs[2].script?.length);
+    assert.strictEqual(pset.outputs[2].value, feeAmount);
+    assert.ok(feeAmount > OLD_FEE);
+  });
+
+  test('should drop a change spent by the fee increase and move the recipients after it', async () => {
+    const recipientScript = Buffer.from(change.script, 'hex');
+    const changeScript = Buffer.from((await useWalletStore.getState().getNextAddress(true)).script, 'hex');
+    const recipientValue = 90_000;
+    // same transaction size for both, the dry run tells the fee increase
+    const dryRunTxid = addSentTx(coin, [
+      { script: changeScript, value: 100_000 - recipientValue - OLD_FEE, isChange: true },
+      { script: recipientScript, value: recipientValue },
+    ]);
+    useWalletStore
+      .getState()
+      .addSentRecipients(dryRunTxid, [{ address: changeAddress, asset: lbtc, value: recipientValue, vout: 1 }]);
+    const { feeAmount } = await makeBumpFeePset(dryRunTxid, 2);
+
+    const txid = addSentTx(coin, [
+      { script: changeScript, value: feeAmount - OLD_FEE, isChange: true },
+      { script: recipientScript, value: recipientValue },
+    ]);
+    useWalletStore
+      .getState()
+      .addSentRecipients(txid, [{ address: changeAddress, asset: lbtc, value: recipientValue, vout: 1 }]);
+    const bump = await makeBumpFeePset(txid, 2);
+    assert.strictEqual(bump.feeAmount, feeAmount);
+    assert.strictEqual(bump.pset.outputs.length, 2);
+    assert.strictEqual(bump.pset.outputs[0].value, recipientValue);
+    assert.ok(!bump.pset.outputs[1].script?.length);
+    assert.deepStrictEqual(bump.recipients, [{ address: changeAddress, asset: lbtc, value: recipientValue, vout: 0 }]);
+  });
+
+  test('should not bump a transaction without L-BTC change', async () => {
+    const txid = addSentTx(coin, [{ script: Buffer.from(change.script, 'hex'), value: 100_000 - OLD_FEE }]);
+    useWalletStore
+      .getState()
+      .addSentRecipients(txid, [{ address: changeAddress, asset: lbtc, value: 100_000 - OLD_FEE, vout: 0 }]);
+    await assert.rejects(makeBumpFeePset(txid, 2), (err) => err === FeeBumpTooHighError);
+  });
+});
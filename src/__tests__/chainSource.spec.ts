@@ -0,0 +1,231 @@
+/**
+ * @jest-environment node
+ */
+import * as assert from 'assert';
+import * as http from 'http';
+import { address, crypto, networks } from 'liquidjs-lib';
+import type { AddressInfo } from 'net';
+
+import type { ChainSource } from '../services/chainSource';
+import { computeScriptStatus, EsploraChainSource } from '../services/esploraChainSource';
+import { FailoverChainSource } from '../services/failoverChainSource';
+
+const script = Buffer.from('0014' + '11'.repeat(20), 'hex');
+const scriptHash = crypto.sha256(script).reverse().toString('hex');
+const txid = (i: number) => i.toString(16).padStart(64, '0');
+const esploraTx = (i: number, height?: number) => ({
+  txid: txid(i),
+  status: height ? { confirmed: true, block_height: height } : { confirmed: false },
+});
+
+type Route = (body: string) => { status?: number; body: unknown };
+
+// Minimal Esplora / electrs-batch-server mock
+function startMockServer(routes: Record<string, Route>): Promise<{ url: string; server: http.Server }> {
+  return new Promise((resolve) => {
+    const server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const route = routes[`${req.method} ${req.url}`];
+        if (!route) {
+          res.statusCode = 404;
+          res.end('not found');
+          return;
+        }
+        const { status = 200, body: resBody } = route(body);
+        res.statusCode = status;
+        res.end(typeof resBody === 'string' ? resBody : JSON.stringify(resBody));
+      });
+    });
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ url: `http://127.0.0.1:${port}`, server });
+    });
+  });
+}
+
+// ChainSource always failing, as the electrum source does without websocket
+class UnavailableChainSource implements ChainSource {
+  healthy = false;
+  subscribed: string[] = [];
+  private fail = async (): Promise<never> => {
+    if (this.healthy) throw new Error('not implemented');
+    throw new Error('unavailable');
+  };
+  subscribeScriptStatus = async (s: Buffer): Promise<void> => {
+    if (!this.healthy) return this.fail();
+    this.subscribed.push(s.toString('hex'));
+  };
+  unsubscribeScriptStatus = async (): Promise<void> => undefined;
+  fetchHistories = this.fail;
+  fetchTransactions = this.fail;
+  fetchBlockHeader = this.fail;
+  estimateFees = this.fail;
+  broadcastTransaction = this.fail;
+  getRelayFee = this.fail;
+  isHealthy = async (): Promise<boolean> => this.healthy;
+  createWebsocketInstance = (): void => undefined;
+}
+
+describe('EsploraChainSource', () => {
+  let server: http.Server;
+  let url: string;
+  const broadcasted: string[] = [];
+  const firstPage = Array.from({ length: 25 }, (_, i) => esploraTx(i + 1, 100 + i));
+
+  beforeAll(async () => {
+    ({ url, server } = await startMockServer({
+      [`GET /scripthash/${scriptHash}/txs`]: () => ({ body: [esploraTx(0), ...firstPage] }),
+      [`GET /scripthash/${scriptHash}/txs/chain/${txid(25)}`]: () => ({ body: [esploraTx(26, 90)] }),
+      [`GET /tx/${txid(1)}/hex`]: () => ({ body: 'aabb' }),
+      'GET /block-height/100': () => ({ body: 'blockhash' }),
+      'GET /block/blockhash': () => ({
+        body: {
+          id: 'blockhash',
+          height: 100,
+          version: 536870912,
+          timestamp: 1680000000,
+          previousblockhash: 'prev',
+          merkle_root: 'merkle',
+        },
+      }),
+      'GET /fee-estimates': () => ({ body: { '1': 0.2, '6': 0.15, '144': 0.1 } }),
+      'POST /tx': (body) => {
+        broadcasted.push(body);
+        return { body: txid(42) };
+      },
+      'GET /blocks/tip/height': () => ({ body: '100' }),
+    }));
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  it('should fetch the whole script history following esplora pagination', async () => {
+    const esplora = new EsploraChainSource(() => ({ explorerUrl: url, network: 'regtest' }));
+    const [history] = await esplora.fetchHistories([script]);
+    assert.strictEqual(history.length, 27);
+    assert.deepStrictEqual(history[0], { tx_hash: txid(0), height: 0 });
+    assert.deepStrictEqual(history[26], { tx_hash: txid(26), height: 90 });
+  });
+
+  it('should fetch transactions, block headers, fees and broadcast', async () => {
+    const esplora = new EsploraChainSource(() => ({ explorerUrl: `${url}/`, network: 'regtest' }));
+    assert.deepStrictEqual(await esplora.fetchTransactions([txid(1)]), [{ txid: txid(1), hex: 'aabb' }]);
+    assert.deepStrictEqual(await esplora.fetchBlockHeader(100), {
+      version: 536870912,
+      previousBlockHash: 'prev',
+      merkleRoot: 'merkle',
+      timestamp: 1680000000,
+      height: 100,
+    });
+    // 0.15 sat/vB => 0.0000015 BTC/kB
+    assert.strictEqual(await esplora.estimateFees(10), 0.0000015);
+    assert.strictEqual(await esplora.estimateFees(1), 0.000002);
+    assert.strictEqual(await esplora.getRelayFee(), 0.000001);
+    assert.strictEqual(await esplora.broadcastTransaction('ccdd'), txid(42));
+    assert.deepStrictEqual(broadcasted, ['ccdd']);
+    assert.strictEqual(await esplora.isHealthy(), true);
+  });
+
+  it('should notify the current script status on subscription', async () => {
+    const esplora = new EsploraChainSource(() => ({ explorerUrl: url, network: 'regtest' }));
+    const notifications: (string | null)[] = [];
+    await esplora.subscribeScriptStatus(script, async (hash, status) => {
+      assert.strictEqual(hash, scriptHash);
+      notifications.push(status);
+    });
+    await esplora.unsubscribeScriptStatus(script);
+    const [history] = await esplora.fetchHistories([script]);
+    assert.deepStrictEqual(notifications, [computeScriptStatus(history)]);
+  });
+
+  it('should be unhealthy if the explorer is unreachable', async () => {
+    const esplora = new EsploraChainSource(() => ({ explorerUrl: 'http://127.0.0.1:1', network: 'regtest' }));
+    assert.strictEqual(await esplora.isHealthy(), false);
+  });
+});
+
+describe('EsploraChainSource with electrs batch server', () => {
+  let server: http.Server;
+  let url: string;
+  const addr = address.fromOutputScript(script, networks.regtest);
+
+  beforeAll(async () => {
+    ({ url, server } = await startMockServer({
+      'POST /addresses/transactions': (body) => {
+        assert.deepStrictEqual(JSON.parse(body), { addresses: [addr] });
+        return { body: [{ address: addr, transaction: [esploraTx(7, 120)] }] };
+      },
+      [`GET /scripthash/${scriptHash}/txs`]: () => ({ body: [esploraTx(8, 130)] }),
+    }));
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  it('should fetch histories from the batch server', async () => {
+    const esplora = new EsploraChainSource(() => ({ explorerUrl: url, batchServerUrl: url, network: 'regtest' }));
+    assert.deepStrictEqual(await esplora.fetchHistories([script]), [[{ tx_hash: txid(7), height: 120 }]]);
+  });
+
+  it('should fallback to esplora if the batch server fails', async () => {
+    const esplora = new EsploraChainSource(() => ({
+      explorerUrl: url,
+      batchServerUrl: 'http://127.0.0.1:1',
+      network: 'regtest',
+    }));
+    assert.deepStrictEqual(await esplora.fetchHistories([script]), [[{ tx_hash: txid(8), height: 130 }]]);
+  });
+});
+
+describe('FailoverChainSource', () => {
+  let server: http.Server;
+  let url: string;
+
+  beforeAll(async () => {
+    ({ url, server } = await startMockServer({
+      [`GET /scripthash/${scriptHash}/txs`]: () => ({ body: [esploraTx(1, 100)] }),
+      'POST /tx': () => ({ status: 400, body: 'sendrawtransaction RPC error' }),
+      'GET /blocks/tip/height': () => ({ body: '100' }),
+    }));
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  it('should fail over to the next source and switch back once the preferred one recovers', async () => {
+    const electrum = new UnavailableChainSource();
+    const esplora = new EsploraChainSource(() => ({ explorerUrl: url, network: 'regtest' }));
+    const failover = new FailoverChainSource([electrum, esplora]);
+    assert.strictEqual(failover.activeSource, electrum);
+    // requests are served by esplora
+    assert.deepStrictEqual(await failover.fetchHistories([script]), [[{ tx_hash: txid(1), height: 100 }]]);
+    assert.strictEqual(failover.activeSource, esplora);
+    // subscriptions are made on the active source
+    const notifications: (string | null)[] = [];
+    await failover.subscribeScriptStatus(script, async (_, status) => {
+      notifications.push(status);
+    });
+    assert.strictEqual(notifications.length, 1);
+    // health check switches back to electrum and moves the subscriptions
+    electrum.healthy = true;
+    await failover.checkHealth();
+    assert.strictEqual(failover.activeSource, electrum);
+    assert.deepStrictEqual(electrum.subscribed, [script.toString('hex')]);
+    await failover.unsubscribeScriptStatus(script);
+    assert.strictEqual(await failover.isHealthy(), true);
+  });
+
+  it('should throw the error of the active source if all sources fail', async () => {
+    const electrum = new UnavailableChainSource();
+    const esplora = new EsploraChainSource(() => ({ explorerUrl: url, network: 'regtest' }));
+    const failover = new FailoverChainSource([electrum, esplora]);
+    await assert.rejects(failover.broadcastTransaction('aa'), /unavailable/);
+    assert.strictEqual(failover.activeSource, electrum);
+  });
+});
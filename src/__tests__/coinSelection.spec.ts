@@ -0,0 +1,74 @@
+/**
+ * @jest-environment node
+ */
+import * as assert from 'assert';
+
+import type { SelectableCoin } from '../utils/coinSelection';
+import { avoidAddressMixing, blackjack, branchAndBound, largestFirst } from '../utils/coinSelection';
+
+const coin = (index: number, value: number, script = 'a'): SelectableCoin => ({
+  outpoint: `${index.toString(16).padStart(64, '0')}:0`,
+  value,
+  script,
+});
+
+const outpointsOf = (result?: { coins: SelectableCoin[] }) => result?.coins.map(({ outpoint }) => outpoint);
+
+// fixture coins, three of them received on address a
+const coins = [coin(1, 5_000), coin(2, 20_000, 'b'), coin(3, 1_000), coin(4, 12_000), coin(5, 7_000, 'c')];
+
+describe('coin selection', () => {
+  test('largest first spends the fewest coins', () => {
+    const result = largestFirst(coins, 25_000);
+    assert.deepStrictEqual(outpointsOf(result), outpointsOf({ coins: [coins[1], coins[3]] }));
+    assert.strictEqual(result?.change, 7_000);
+  });
+
+  test('largest first breaks ties by outpoint', () => {
+    const result = largestFirst([coin(2, 1_000), coin(1, 1_000)], 1_000);
+    assert.deepStrictEqual(outpointsOf(result), [coin(1, 0).outpoint]);
+  });
+
+  test('selectors return undefined when the coins are not enough', () => {
+    for (const selector of [largestFirst, branchAndBound, avoidAddressMixing, blackjack]) {
+      assert.strictEqual(selector(coins, 46_000), undefined);
+    }
+  });
+
+  test('branch and bound finds an exact match without change', () => {
+    const result = branchAndBound(coins, 13_000);
+    assert.deepStrictEqual(outpointsOf(result), outpointsOf({ coins: [coins[3], coins[2]] }));
+    assert.strictEqual(result?.change, 0);
+  });
+
+  test('branch and bound falls back to largest first', () => {
+    const result = branchAndBound(coins, 30_500);
+    assert.deepStrictEqual(outpointsOf(result), outpointsOf(largestFirst(coins, 30_500)));
+    assert.strictEqual(result?.change, 1_500);
+  });
+
+  test('avoid address mixing spends the smallest address covering the target', () => {
+    // address a holds 18_000, b 20_000 and c 7_000
+    const result = avoidAddressMixing(coins, 15_000);
+    assert.deepStrictEqual(outpointsOf(result), outpointsOf({ coins: [coins[3], coins[0], coins[2]] }));
+    assert.strictEqual(result?.change, 3_000);
+  });
+
+  test('avoid address mixing adds whole addresses when one is not enough', () => {
+    const result = avoidAddressMixing(coins, 30_000);
+    assert.deepStrictEqual(outpointsOf(result), outpointsOf({ coins: [coins[1], coins[3], coins[0], coins[2]] }));
+    assert.strictEqual(result?.change, 8_000);
+  });
+
+  test('blackjack adds the largest coins not overshooting the target', () => {
+    const result = blackjack(coins, 13_000);
+    assert.deepStrictEqual(outpointsOf(result), outpointsOf({ coins: [coins[3], coins[2]] }));
+    assert.strictEqual(result?.change, 0);
+  });
+
+  test('blackjack falls back to accumulating the largest coins', () => {
+    const result = blackjack(coins, 6_900);
+    assert.deepStrictEqual(outpointsOf(result), [coins[1].outpoint]);
+    assert.strictEqual(result?.change, 13_100);
+  });
+});
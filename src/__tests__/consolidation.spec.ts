@@ -0,0 +1,105 @@
+/**
+ * @jest-environment node
+ */
+import * as assert from 'assert';
+import type { Pset } from 'liquidjs-lib';
+
+import { lbtc, setupWallet } from '../../test/fixtures/wallet';
+import { useWalletStore } from '../store/walletStore';
+import { NothingToConsolidateError } from '../utils/errors';
+import { outpointToString } from '../utils/helpers';
+import { estimateVirtualSize, makeConsolidationPset } from '../utils/transaction';
+
+jest.mock('../services/chainSource', () => ({ chainSource: { subscribeScriptStatus: async () => undefined } }));
+jest.mock('../store/capacitorPersistentStorage', () => ({
+  storage: { getItem: async () => null, setItem: async () => undefined, removeItem: async () => undefined },
+}));
+
+const USDT = 'f3d1ec678811398cd2ae277cbe3849c6f6dbd72c74bc542f7c4b11ff0e820958';
+const SATS_PER_VBYTE = 2;
+
+// txid:vout of the inputs of a pset
+const inputsOf = (pset: Pset) =>
+  pset.inputs.map((input) =>
+    outpointToString({ txid: Buffer.from(input.previousTxid).reverse().toString('hex'), vout: input.previousTxIndex })
+  );
+
+// fee at SATS_PER_VBYTE of a pset whose last output is its fee, estimated as while building it
+const feeAtRate = (pset: Pset) => {
+  const withoutFee = pset.copy();
+  withoutFee.outputs.pop();
+  withoutFee.globals.outputCount -= 1;
+  return Math.ceil(estimateVirtualSize(withoutFee, true) * SATS_PER_VBYTE);
+};
+
+describe('consolidation', () => {
+  // the coins locked by the consolidation are unlocked by a timer, cleared not to keep jest running
+  let setTimeoutSpy: jest.SpyInstance;
+
+  beforeAll(() => {
+    setTimeoutSpy = jest.spyOn(global, 'setTimeout');
+  });
+
+  afterAll(() => {
+    setTimeoutSpy.mock.results.forEach(({ value }) => clearTimeout(value));
+    setTimeoutSpy.mockRestore();
+  });
+
+  test('should sweep the L-BTC coins into a single output paying the fee', async () => {
+    const coins = await setupWallet([
+      { asset: lbtc, value: 10_000 },
+      { asset: lbtc, value: 20_000 },
+      { asset: lbtc, value: 30_000 },
+    ]);
+    const outpoints = coins.map(outpointToString);
+    const { nextInternalIndex } = useWalletStore.getState().accounts?.test ?? {};
+    const { pset, feeAmount, inputCount, outputCount } = await makeConsolidationPset(outpoints, SATS_PER_VBYTE);
+
+    assert.deepStrictEqual(inputsOf(pset).sort(), [...outpoints].sort());
+    assert.strictEqual(inputCount, 3);
+    assert.strictEqual(outputCount, 1);
+    assert.strictEqual(pset.outputs.length, 2);
+    const [swept, fee] = pset.outputs;
+    assert.strictEqual(swept.asset?.toString('hex'), Buffer.from(lbtc, 'hex').reverse().toString('hex'));
+    assert.ok(swept.script?.length);
+    assert.ok(swept.blindingPubkey);
+    assert.strictEqual(swept.value + feeAmount, 60_000);
+    assert.ok(!fee.script?.length);
+    assert.strictEqual(fee.value, feeAmount);
+    assert.strictEqual(feeAmount, feeAtRate(pset));
+    // a fresh internal address, and the coins locked until broadcast
+    assert.strictEqual(useWalletStore.getState().accounts?.test?.nextInternalIndex, (nextInternalIndex ?? 0) + 1);
+    assert.deepStrictEqual([...useWalletStore.getState().lockedOutpoints].sort(), [...outpoints].sort());
+  });
+
+  test('should pay the fee of other assets with more L-BTC coins, their change being swept too', async () => {
+    const [first, second, feeCoin] = await setupWallet([
+      { asset: USDT, value: 1000 },
+      { asset: USDT, value: 2000 },
+      { asset: lbtc, value: 50_000 },
+    ]);
+    const { pset, feeAmount, inputCount, outputCount } = await makeConsolidationPset(
+      [outpointToString(first), outpointToString(second)],
+      SATS_PER_VBYTE,
+      true
+    );
+    assert.deepStrictEqual(inputsOf(pset), [first, second, feeCoin].map(outpointToString));
+    assert.strictEqual(inputCount, 3);
+    assert.strictEqual(outputCount, 2);
+    assert.deepStrictEqual(
+      pset.outputs.map(({ value }) => value),
+      [3000, 50_000 - feeAmount, feeAmount]
+    );
+    assert.strictEqual(feeAmount, feeAtRate(pset));
+    // a dry run locks nothing
+    assert.deepStrictEqual(useWalletStore.getState().lockedOutpoints, []);
+  });
+
+  test('should not consolidate a single coin', async () => {
+    const [coin] = await setupWallet([{ asset: lbtc, value: 10_000 }]);
+    await assert.rejects(
+      makeConsolidationPset([outpointToString(coin)], SATS_PER_VBYTE),
+      (err) => err === NothingToConsolidateError
+    );
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * @jest-environment node
+ */
+import * as assert from 'assert';
+
+import * as tdex from '../services/tdexService';
+import type { TDEXMarket } from '../services/tdexService/v2/tradeCore';
+import { usePriceHistoryStore } from '../store/priceHistoryStore';
+import { useTdexStore } from '../store/tdexStore';
+import { InvalidUrl, ProviderAlreadyExistsError, ProviderUnreachableError } from '../utils/errors';
+
+jest.mock('../services/chainSource', () => ({ chainSource: {} }));
+jest.mock('../store/capacitorPersistentStorage', () => ({
+  storage: { getItem: async () => null, setItem: async () => undefined, removeItem: async () => undefined },
+}));
+
+const LBTC = '5ac9f65c0efcc4775e0baec4ec03abdde22473cd3cf33c0419ca290e0751b225';
+const USDT = 'f3d1ec678811398cd2ae277cbe3849c6f6dbd72c74bc542f7c4b11ff0e820958';
+const ENDPOINT = 'https://provider.example.com';
+
+const market: TDEXMarket = {
+  provider: { name: 'Provider', endpoint: ENDPOINT, version: 'v2', isUserAdded: true },
+  baseAsset: LBTC,
+  quoteAsset: USDT,
+  percentageFee: { baseAsset: '25', quoteAsset: '25' },
+};
+
+describe('custom providers', () => {
+  // mocks are reset before each test
+  beforeEach(() => {
+    useTdexStore.getState().resetTdexStore();
+    useTdexStore.setState({ getProtoVersion: async () => 'v2' });
+    // the prices of the markets fetched are not recorded
+    usePriceHistoryStore.setState({ recordMarketSnapshots: async () => undefined });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => jest.restoreAllMocks());
+
+  test('should only add https or onion providers, once', async () => {
+    const { addCustomProvider } = useTdexStore.getState();
+    jest.spyOn(tdex, 'getMarketsFromProviderV2').mockImplementation(async () => [market]);
+    await assert.rejects(addCustomProvider('Provider', 'not an url'), (err) => err === InvalidUrl);
+    await assert.rejects(addCustomProvider('Provider', 'http://provider.example.com'), (err) => err === InvalidUrl);
+
+    const provider = await addCustomProvider(' Provider ', ` ${ENDPOINT}/ `);
+    assert.deepStrictEqual(provider, { name: 'Provider', endpoint: ENDPOINT, version: 'v2', isUserAdded: true });
+    assert.deepStrictEqual(useTdexStore.getState().providers, [provider]);
+    assert.deepStrictEqual(useTdexStore.getState().markets.v2, [market]);
+    await assert.rejects(addCustomProvider('Again', `${ENDPOINT}/`), (err) => err === ProviderAlreadyExistsError);
+
+    const onion = await addCustomProvider('Onion', 'http://provider.onion');
+    assert.strictEqual(onion.endpoint, 'http://provider.onion');
+    // user-added providers are kept when refetching the registry
+    const registryProvider = { name: 'Registry', endpoint: 'https://registry.example.com', version: 'v2' as const };
+    useTdexStore.setState({ providers: [...useTdexStore.getState().providers, registryProvider] });
+    useTdexStore.getState().clearProviders();
+    assert.deepStrictEqual(useTdexStore.getState().providers, [provider, onion]);
+  });
+
+  test('should not add a provider not listing its markets', async () => {
+    jest.spyOn(tdex, 'getMarketsFromProviderV2').mockImplementation(async () => {
+      throw new Error('unavailable');
+    });
+    await assert.rejects(
+      useTdexStore.getState().addCustomProvider('Provider', ENDPOINT),
+      (err) => err === ProviderUnreachableError
+    );
+    assert.deepStrictEqual(useTdexStore.getState().providers, []);
+    assert.strictEqual(useTdexStore.getState().providerHealth[ENDPOINT].lastError, 'unavailable');
+  });
+
+  test('should record the health of the providers when fetching their markets', async () => {
+    const down = { ...market.provider, endpoint: 'https://down.example.com' };
+    useTdexStore.setState({ providers: [market.provider, down] });
+    jest.spyOn(tdex, 'getMarketsFromProviderV2').mockImplementation(async (p) => {
+      if (p.endpoint === down.endpoint) throw new Error('unavailable');
+      return [market];
+    });
+    jest.spyOn(Date, 'now').mockReturnValue(1000);
+
+    await useTdexStore.getState().fetchMarkets();
+    assert.deepStrictEqual(useTdexStore.getState().markets.v2, [market]);
+    assert.deepStrictEqual(useTdexStore.getState().providerHealth, {
+      [ENDPOINT]: { latency: 0, lastSuccessAt: 1000 },
+      [down.endpoint]: { lastErrorAt: 1000, lastError: 'unavailable' },
+    });
+    // a later success keeps the last error
+    jest.spyOn(tdex, 'getMarketsFromProviderV2').mockImplementation(async () => [market]);
+    jest.spyOn(Date, 'now').mockReturnValue(2000);
+    await useTdexStore.getState().fetchMarkets();
+    assert.deepStrictEqual(useTdexStore.getState().providerHealth[down.endpoint], {
+      latency: 0,
+      lastSuccessAt: 2000,
+      lastErrorAt: 1000,
+      lastError: 'unavailable',
+    });
+
+    useTdexStore.getState().deleteProvider(down);
+    assert.deepStrictEqual(Object.keys(useTdexStore.getState().providerHealth), [ENDPOINT]);
+  });
+});
@@ -1,10 +1,27 @@
 import * as assert from 'assert';
 
-import { decrypt, encrypt } from '../utils/crypto';
+import type { Encrypted } from '../utils/crypto';
+import { decrypt, encrypt, ENCRYPTION_VERSION, isOutdatedEncryption } from '../utils/crypto';
 
 const PIN = '666666';
 const data = 'secret data';
 
+const scryptOptions = { N: 16384, r: 8, p: 1, klen: 32 };
+
+// aes-256-cbc with the static IV, as written before the format was versioned
+const v0Vector: Encrypted = {
+  data: 'RJZyEkxLqjZk3mxWsasb7g==',
+  options: { ...scryptOptions, salt: 'Qm3xK9pLw2ZtV7nR4cYhJ8sD1fGa6eUb' },
+};
+
+const v1Vector: Encrypted = {
+  data: 'Bvd7NUQ0t6+4cEs=',
+  options: { ...scryptOptions, salt: '9f2c4e1a7b3d5f60c8e2a4b6d8f0e1c3a5b7d9f1e3c5a7b9d1f3e5c7a9b1d3f5' },
+  version: 1,
+  iv: 'a1b2c3d4e5f60718293a4b5c',
+  tag: '22ae0e430bfc0c8d7043e9584e99f4df',
+};
+
 jest.setTimeout(15000);
 
 describe('encryption', () => {
@@ -13,4 +30,27 @@ describe('encryption', () => {
     const decrypted = await decrypt(encrypted, PIN);
     assert.deepStrictEqual(decrypted, data);
   });
+
+  it('should encrypt with a random IV and salt in the current version', async () => {
+    const [first, second] = await Promise.all([encrypt(data, PIN), encrypt(data, PIN)]);
+    assert.strictEqual(first.version, ENCRYPTION_VERSION);
+    assert.strictEqual(isOutdatedEncryption(first), false);
+    assert.notStrictEqual(first.iv, second.iv);
+    assert.notStrictEqual(first.options.salt, second.options.salt);
+  });
+
+  it('should decrypt the v0 format', async () => {
+    assert.strictEqual(isOutdatedEncryption(v0Vector), true);
+    assert.strictEqual(await decrypt(v0Vector, PIN), data);
+  });
+
+  it('should decrypt the v1 format', async () => {
+    assert.strictEqual(await decrypt(v1Vector, PIN), data);
+  });
+
+  it('should reject altered v1 data or a wrong PIN', async () => {
+    const altered = { ...v1Vector, data: Buffer.from(v1Vector.data, 'base64').fill(0, 0, 1).toString('base64') };
+    await assert.rejects(decrypt(altered, PIN));
+    await assert.rejects(decrypt(v1Vector, '123456'));
+  });
 });
@@ -0,0 +1,36 @@
+/**
+ * @jest-environment node
+ */
+import * as assert from 'assert';
+
+import { PasswordTooShortError, PinDigitsError, PinLengthError } from '../utils/errors';
+import { passwordStrength, pinLockoutDelay, validatePassword } from '../utils/password';
+
+describe('lock modes', () => {
+  test('should validate PINs of the configured length', () => {
+    assert.strictEqual(validatePassword('123456', { type: 'pin', length: 6 }), undefined);
+    assert.strictEqual(validatePassword('12345a', { type: 'pin', length: 6 }), PinDigitsError);
+    assert.strictEqual(validatePassword('1234567890', { type: 'pin', length: 10 }), undefined);
+    assert.strictEqual(validatePassword('123456', { type: 'pin', length: 10 }), PinLengthError);
+  });
+
+  test('should validate passwords of the minimum length', () => {
+    assert.strictEqual(validatePassword('correct horse', { type: 'password' }), undefined);
+    assert.strictEqual(validatePassword('short', { type: 'password' }), PasswordTooShortError);
+  });
+
+  test('should rate longer and more varied passwords as stronger', () => {
+    assert.strictEqual(passwordStrength('').score, 0);
+    assert.strictEqual(passwordStrength('123456').score, 0);
+    assert.strictEqual(passwordStrength('123456789012').score, 2);
+    assert.ok(passwordStrength('Tr0ub4dor&3').score > passwordStrength('troubadour').score);
+    assert.strictEqual(passwordStrength('correct horse battery staple').label, 'Very strong');
+  });
+
+  test('should double the lockout after the free attempts', () => {
+    assert.strictEqual(pinLockoutDelay(2), 0);
+    assert.strictEqual(pinLockoutDelay(3), 30_000);
+    assert.strictEqual(pinLockoutDelay(5), 120_000);
+    assert.strictEqual(pinLockoutDelay(50), 24 * 60 * 60 * 1000);
+  });
+});
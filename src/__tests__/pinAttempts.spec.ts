@@ -0,0 +1,65 @@
+/**
+ * @jest-environment node
+ */
+import * as assert from 'assert';
+
+import { useAppStore } from '../store/appStore';
+import { useSettingsStore } from '../store/settingsStore';
+import { useWalletStore } from '../store/walletStore';
+import { checkPin } from '../utils/actions';
+import { encrypt } from '../utils/crypto';
+import { PinLockedOutError } from '../utils/errors';
+
+jest.mock('../services/chainSource', () => ({ chainSource: {} }));
+jest.mock('../store/capacitorPersistentStorage', () => ({
+  storage: { getItem: async () => null, setItem: async () => undefined, removeItem: async () => undefined },
+}));
+
+const wrongPin = () => Promise.reject(new Error('Invalid PIN'));
+const rightPin = () => Promise.resolve('signer');
+
+describe('failed PIN attempts', () => {
+  beforeEach(() => {
+    useAppStore.getState().resetFailedPinAttempts();
+    useSettingsStore.setState({ wipeAfterFailedAttempts: undefined });
+  });
+
+  test('should count the wrong PINs and reset the count on the right one', async () => {
+    await assert.rejects(checkPin(wrongPin));
+    await assert.rejects(checkPin(wrongPin));
+    assert.strictEqual(useAppStore.getState().failedPinAttempts, 2);
+    assert.strictEqual(await checkPin(rightPin), 'signer');
+    assert.strictEqual(useAppStore.getState().failedPinAttempts, 0);
+  });
+
+  test('should not count a failure of the broadcast after the right PIN', async () => {
+    const signAndBroadcast = async () => {
+      await checkPin(rightPin);
+      throw new Error('broadcast failed');
+    };
+    await assert.rejects(checkPin(wrongPin));
+    await assert.rejects(signAndBroadcast(), /broadcast failed/);
+    assert.strictEqual(useAppStore.getState().failedPinAttempts, 0);
+    assert.strictEqual(useAppStore.getState().pinLockedUntil, undefined);
+  });
+
+  test('should not check any PIN during a lockout', async () => {
+    const check = jest.fn(rightPin);
+    useAppStore.setState({ pinLockedUntil: Date.now() + 60_000 });
+    await assert.rejects(checkPin(check), (err) => err === PinLockedOutError);
+    assert.strictEqual(check.mock.calls.length, 0);
+    assert.strictEqual(useAppStore.getState().failedPinAttempts, 0);
+    // once the lockout is over
+    useAppStore.setState({ pinLockedUntil: Date.now() - 1 });
+    assert.strictEqual(await checkPin(check), 'signer');
+  });
+
+  test('should erase the wallet after the configured failed attempts', async () => {
+    useSettingsStore.setState({ wipeAfterFailedAttempts: 2 });
+    useWalletStore.setState({ encryptedMnemonic: await encrypt('mnemonic', '123456') });
+    await assert.rejects(checkPin(wrongPin));
+    assert.ok(useWalletStore.getState().encryptedMnemonic);
+    await assert.rejects(checkPin(wrongPin));
+    assert.strictEqual(useWalletStore.getState().encryptedMnemonic, undefined);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * @jest-environment node
+ */
+import * as assert from 'assert';
+import { address, Creator, networks, payments, Pset, Transaction, Updater } from 'liquidjs-lib';
+
+import type { FundedCoin } from '../../test/fixtures/wallet';
+import { lbtc, pin, setupWallet } from '../../test/fixtures/wallet';
+import { SignerService } from '../services/signerService';
+import type { ScriptDetails } from '../store/walletStore';
+import { useWalletStore } from '../store/walletStore';
+import { decodePsetDetails, extractSignedTransaction, hasUnsafeSighash } from '../utils/transaction';
+
+jest.mock('../services/chainSource', () => ({ chainSource: { subscribeScriptStatus: async () => undefined } }));
+jest.mock('../store/capacitorPersistentStorage', () => ({
+  storage: { getItem: async () => null, setItem: async () => undefined, removeItem: async () => undefined },
+}));
+
+jest.setTimeout(15000);
+
+const FEE = 500;
+const recipientScript = payments.p2wpkh({ hash: Buffer.alloc(20, 1), network: networks.regtest }).output!;
+
+// Unsigned pset spending coin to a foreign recipient, with our change and the fee, as imported from base64
+function makeImportedPset(
+  coin: FundedCoin,
+  change: ScriptDetails,
+  recipientBlindingPubkey?: Buffer,
+  sighashType = Transaction.SIGHASH_ALL
+): Pset {
+  const updater = new Updater(Creator.newPset())
+    .addInputs([
+      {
+        txid: coin.txid,
+        txIndex: coin.vout,
+        sighashType,
+        witnessUtxo: useWalletStore.getState().getWitnessUtxo(coin.txid, coin.vout),
+      },
+    ])
+    .addOutputs([
+      {
+        asset: lbtc,
+        amount: 10_000,
+        script: recipientScript,
+        blindingPublicKey: recipientBlindingPubkey,
+        blinderIndex: 0,
+      },
+      { asset: lbtc, amount: coin.value - 10_000 - FEE, script: Buffer.from(change.script, 'hex') },
+      { asset: lbtc, amount: FEE },
+    ]);
+  return Pset.fromBase64(updater.pset.toBase64());
+}
+
+describe('imported psets', () => {
+  let coin: FundedCoin;
+  let change: ScriptDetails;
+
+  beforeEach(async () => {
+    [coin] = await setupWallet([{ asset: lbtc, value: 100_000 }]);
+    change = await useWalletStore.getState().getNextAddress(true);
+  });
+
+  test('should tell our coins and outputs from the foreign ones', async () => {
+    // the generator point, the recipient output is not blinded here
+    const blindingPubkey = Buffer.from('0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798', 'hex');
+    const pset = makeImportedPset(coin, change, blindingPubkey);
+    const { inputs, outputs } = decodePsetDetails(pset);
+    assert.deepStrictEqual(inputs, [
+      {
+        txid: coin.txid,
+        vout: coin.vout,
+        asset: lbtc,
+        value: coin.value,
+        isOwned: true,
+        isSigned: false,
+        sighashType: Transaction.SIGHASH_ALL,
+      },
+    ]);
+    const recipientAddress = address.fromOutputScript(recipientScript, networks.regtest);
+    assert.deepStrictEqual(outputs, [
+      {
+        address: address.toConfidential(recipientAddress, blindingPubkey),
+        asset: lbtc,
+        value: 10_000,
+        isOwned: false,
+        isFee: false,
+      },
+      { address: change.confidentialAddress, asset: lbtc, value: 89_500, isOwned: true, isFee: false },
+      { address: undefined, asset: lbtc, value: FEE, isOwned: false, isFee: true },
+    ]);
+  });
+
+  test('should not sign our inputs with a sighash not committing to the whole transaction', async () => {
+    assert.ok(!decodePsetDetails(makeImportedPset(coin, change)).inputs.some(hasUnsafeSighash));
+    for (const sighashType of [
+      Transaction.SIGHASH_NONE,
+      Transaction.SIGHASH_SINGLE,
+      Transaction.SIGHASH_ALL | Transaction.SIGHASH_ANYONECANPAY,
+    ]) {
+      const [input] = decodePsetDetails(makeImportedPset(coin, change, undefined, sighashType)).inputs;
+      assert.strictEqual(input.sighashType, sighashType);
+      assert.ok(hasUnsafeSighash(input));
+      // foreign inputs are not ours to sign
+      assert.ok(!hasUnsafeSighash({ ...input, isOwned: false }));
+    }
+  });
+
+  test('should extract the transaction of a signed pset, leaving it untouched', async () => {
+    const pset = makeImportedPset(coin, change);
+    const signer = await SignerService.fromPassword(pin);
+    const signed = Pset.fromBase64(await signer.signPset(pset));
+    assert.ok(decodePsetDetails(signed).inputs[0].isSigned);
+
+    const tx = Transaction.fromHex(extractSignedTransaction(signed));
+    assert.strictEqual(signed.inputs[0].finalScriptWitness, undefined);
+    assert.strictEqual(Buffer.from(tx.ins[0].hash).reverse().toString('hex'), coin.txid);
+    assert.strictEqual(tx.ins[0].witness.length, 2);
+    assert.deepStrictEqual(
+      tx.outs.map(({ script }) => script.toString('hex')),
+      [recipientScript.toString('hex'), change.script, '']
+    );
+    // the same transaction as the one the signer extracts before broadcasting
+    assert.strictEqual(tx.toHex(), signer.finalizeAndExtract(signed.toBase64()));
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * @jest-environment node
+ */
+import * as assert from 'assert';
+
+import { discoverBestOrder } from '../services/tdexService';
+import type { TDEXMarket } from '../services/tdexService/v2/tradeCore';
+import { getReputationDiscoveryOpts, getReputationScore, useReputationStore } from '../store/reputationStore';
+import { useSettingsStore } from '../store/settingsStore';
+import { MIN_PROVIDER_REPUTATION } from '../utils/constants';
+import { NoMarketsAvailableForSelectedPairError } from '../utils/errors';
+
+jest.mock('../services/chainSource', () => ({ chainSource: {} }));
+jest.mock('../store/capacitorPersistentStorage', () => ({
+  storage: { getItem: async () => null, setItem: async () => undefined, removeItem: async () => undefined },
+}));
+
+const LBTC = '5ac9f65c0efcc4775e0baec4ec03abdde22473cd3cf33c0419ca290e0751b225';
+const USDT = 'f3d1ec678811398cd2ae277cbe3849c6f6dbd72c74bc542f7c4b11ff0e820958';
+
+const market = (endpoint: string): TDEXMarket => ({
+  provider: { name: endpoint, endpoint, version: 'v2' },
+  baseAsset: LBTC,
+  quoteAsset: USDT,
+  percentageFee: { baseAsset: '25', quoteAsset: '25' },
+});
+
+describe('provider reputation', () => {
+  beforeEach(() => useReputationStore.getState().resetReputationStore());
+
+  test('should score unknown providers 100 and lower the failing ones', () => {
+    const { recordTradeOutcome } = useReputationStore.getState();
+    assert.strictEqual(getReputationScore(undefined), 100);
+    recordTradeOutcome('https://failing', 'failed');
+    recordTradeOutcome('https://failing', 'failed');
+    recordTradeOutcome('https://failing', 'timeout');
+    const reputation = useReputationStore.getState().reputations['https://failing'];
+    assert.strictEqual(reputation.failedProposals, 2);
+    assert.strictEqual(reputation.timeouts, 1);
+    // a virtual completed trade over four
+    assert.strictEqual(getReputationScore(reputation), 25);
+  });
+
+  test('should average the deviations of the completed trades', () => {
+    const { recordTradeOutcome } = useReputationStore.getState();
+    recordTradeOutcome('https://deviating', 'completed', 2);
+    recordTradeOutcome('https://deviating', 'completed');
+    recordTradeOutcome('https://deviating', 'completed', 4);
+    const reputation = useReputationStore.getState().reputations['https://deviating'];
+    assert.strictEqual(reputation.completedTrades, 3);
+    assert.strictEqual(reputation.deviationSamples, 2);
+    assert.strictEqual(reputation.averageDeviation, 3);
+    assert.strictEqual(getReputationScore(reputation), 70);
+  });
+
+  test('should skip low scores only when set in the settings', () => {
+    useReputationStore.getState().recordTradeOutcome('https://failing', 'failed');
+    useSettingsStore.setState({ skipLowReputationProviders: false });
+    assert.strictEqual(getReputationDiscoveryOpts().minScore, undefined);
+    useSettingsStore.setState({ skipLowReputationProviders: true });
+    const { getScore, minScore } = getReputationDiscoveryOpts();
+    assert.strictEqual(minScore, MIN_PROVIDER_REPUTATION);
+    assert.strictEqual(getScore('https://failing'), 50);
+    assert.strictEqual(getScore('https://unknown'), 100);
+  });
+});
+
+describe('discovery of the best order', () => {
+  const reputation = {
+    getScore: (endpoint: string) => (endpoint === 'https://skipped' ? 10 : 90),
+    minScore: MIN_PROVIDER_REPUTATION,
+  };
+  const markets = { v1: [], v2: [market('https://skipped'), market('https://reputable')] };
+
+  test('should not return a skipped provider for an empty amount', async () => {
+    const order = await discoverBestOrder(markets, LBTC, USDT, reputation)(0, LBTC);
+    assert.strictEqual(order.market.provider.endpoint, 'https://reputable');
+  });
+
+  test('should not return a skipped provider when a single one is left', async () => {
+    const order = await discoverBestOrder(markets, LBTC, USDT, reputation)(1000, LBTC);
+    assert.strictEqual(order.market.provider.endpoint, 'https://reputable');
+  });
+
+  test('should keep every provider when low scores are not skipped', async () => {
+    const order = await discoverBestOrder(markets, LBTC, USDT, { ...reputation, minScore: undefined })(0, LBTC);
+    assert.strictEqual(order.market.provider.endpoint, 'https://skipped');
+  });
+
+  test('should throw when every provider is skipped', () => {
+    assert.throws(
+      () => discoverBestOrder({ v1: [], v2: [market('https://skipped')] }, LBTC, USDT, reputation),
+      (err) => err === NoMarketsAvailableForSelectedPairError
+    );
+  });
+});
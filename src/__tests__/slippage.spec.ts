@@ -0,0 +1,236 @@
+/**
+ * @jest-environment node
+ */
+import * as assert from 'assert';
+import { address, AssetHash, ElementsValue, networks, Pset } from 'liquidjs-lib';
+
+import { SwapAccept, SwapRequest } from '../api-spec/protobuf/gen/js/tdex/v2/swap_pb';
+import type { TradeType } from '../api-spec/protobuf/gen/js/tdex/v2/types_pb';
+import { Preview } from '../api-spec/protobuf/gen/js/tdex/v2/types_pb';
+import type { SignerInterface } from '../services/signerService';
+import { computeSlippage } from '../services/tdexService/slippage';
+import type TraderClientInterface from '../services/tdexService/v2/clientInterface';
+import type { TradeOpts } from '../services/tdexService/v2/tradeCore';
+import { TradeCore } from '../services/tdexService/v2/tradeCore';
+import { SlippageExceededError, SwapAcceptMismatchError } from '../utils/errors';
+
+// helpers and transaction utils depend on the stores, only the functions used by the swap protocol are needed
+jest.mock('../utils/helpers', () => ({
+  makeid: (length: number) =>
+    Math.random()
+      .toString(36)
+      .slice(2, 2 + length),
+  isConfidentialOutput: () => false,
+}));
+jest.mock('../utils/transaction', () => {
+  const { Pset, Transaction } = jest.requireActual('liquidjs-lib');
+  return {
+    isValidAmount: (amount: number) => amount > 0 && Number.isSafeInteger(amount),
+    decodePset: (psetBase64: string) => Pset.fromBase64(psetBase64),
+    isRawTransaction: (hex: string) => {
+      try {
+        Transaction.fromHex(hex);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+  };
+});
+
+// palindromic hashes, unconfidential utxos are compared with the asset hash bytes as-is
+const LBTC = 'bb'.repeat(32);
+const USDT = 'aa'.repeat(32);
+const market = { baseAsset: LBTC, quoteAsset: USDT };
+const script = Buffer.from('0014' + '11'.repeat(20), 'hex');
+const scriptDetails = {
+  confidentialAddress: address.fromOutputScript(script, networks.regtest),
+  blindingPrivateKey: '',
+  script: script.toString('hex'),
+};
+const TXID = 'ff'.repeat(32);
+
+// Provider previewing and accepting trades without any network call
+class FakeTraderClient implements TraderClientInterface {
+  providerUrl = 'http://fake.provider';
+  client = undefined;
+  clientType = 'fake';
+  proposed: SwapRequest[] = [];
+  completed = 0;
+  previewAmount: number;
+  feeAmount: number;
+  wrongRequestId: boolean;
+  // changes the transaction of the trader before accepting it
+  tamper?: (pset: Pset) => void;
+
+  constructor(previewAmount: number, feeAmount: number, wrongRequestId = false) {
+    this.previewAmount = previewAmount;
+    this.feeAmount = feeAmount;
+    this.wrongRequestId = wrongRequestId;
+  }
+
+  async previewTrade({ asset }: { asset: string }) {
+    return [
+      Preview.create({
+        amount: this.previewAmount.toString(),
+        asset: asset === LBTC ? USDT : LBTC,
+        feeAmount: this.feeAmount.toString(),
+      }),
+    ];
+  }
+
+  async proposeTrade(_: unknown, __: TradeType, swapRequestSerialized: Uint8Array): Promise<Uint8Array> {
+    const request = SwapRequest.fromBinary(swapRequestSerialized);
+    this.proposed.push(request);
+    const pset = Pset.fromBase64(request.transaction);
+    this.tamper?.(pset);
+    const accept = SwapAccept.create({
+      id: 'accept',
+      requestId: this.wrongRequestId ? 'unknown' : request.id,
+      transaction: pset.toBase64(),
+    });
+    return SwapAccept.toBinary(accept);
+  }
+
+  async completeTrade(): Promise<string> {
+    this.completed++;
+    return TXID;
+  }
+
+  async listMarkets() {
+    return [];
+  }
+
+  async getMarketBalance() {
+    return undefined;
+  }
+
+  async getMarketPrice() {
+    return { spotPrice: this.previewAmount / 100_000, minTradableAmount: '0' };
+  }
+}
+
+const makeSigner = (): SignerInterface & { signed: number } => ({
+  signed: 0,
+  async signPset(pset: Pset) {
+    this.signed++;
+    return pset.toBase64();
+  },
+  finalizeAndExtract: (psetBase64: string) => psetBase64,
+  signPsbt: async () => '',
+});
+
+const makeTradeCore = (
+  client: TraderClientInterface,
+  signer: SignerInterface,
+  slippageCheck?: TradeOpts['slippageCheck']
+) =>
+  new TradeCore(
+    {
+      providerUrl: client.providerUrl,
+      explorerUrl: 'http://fake.explorer',
+      chain: 'regtest',
+      masterBlindingKey: '11'.repeat(32),
+      signer,
+      slippageCheck,
+      coinSelectionForTrade: {
+        witnessUtxos: {
+          [`${'ee'.repeat(32)}:0`]: {
+            asset: AssetHash.fromHex(LBTC).bytes,
+            value: ElementsValue.fromNumber(100_000).bytes,
+            script,
+            nonce: Buffer.of(0x00),
+          },
+        },
+        unblindedInputs: [],
+      },
+    },
+    () => client
+  );
+
+const sell = (tradeCore: TradeCore) =>
+  tradeCore.sell({
+    market,
+    amount: 100_000,
+    asset: LBTC,
+    addressForChangeOutput: scriptDetails,
+    addressForSwapOutput: scriptDetails,
+  });
+
+// 100_000 sats of LBTC previewed for 2_000_000 USDT, 10_000 of trade fee
+const expected = { amountToBeSent: 100_000, amountToReceive: 2_000_000, tradeFeeAmount: 10_000 };
+
+describe('computeSlippage', () => {
+  it('should only count deviations at the expense of the trader', () => {
+    assert.strictEqual(computeSlippage(expected, expected), 0);
+    assert.strictEqual(computeSlippage(expected, { ...expected, amountToReceive: 2_100_000 }), 0);
+    assert.strictEqual(computeSlippage(expected, { ...expected, amountToBeSent: 90_000 }), 0);
+    // receiving 1_980_000 - 10_000 instead of 2_000_000 - 10_000
+    assert.strictEqual(computeSlippage(expected, { ...expected, amountToReceive: 1_980_000 }).toFixed(4), '1.0050');
+    assert.strictEqual(computeSlippage(expected, { ...expected, amountToBeSent: 102_000 }), 2);
+  });
+});
+
+describe('TradeCore slippage protection', () => {
+  it('should complete the trade if the previewed amounts are within the maximum slippage', async () => {
+    const client = new FakeTraderClient(1_990_000, 10_000);
+    const signer = makeSigner();
+    const txid = await sell(makeTradeCore(client, signer, { expected, maxSlippage: 1 }));
+    assert.strictEqual(txid, TXID);
+    assert.strictEqual(client.proposed[0].amountR, '1990000');
+    assert.strictEqual(signer.signed, 1);
+    assert.strictEqual(client.completed, 1);
+  });
+
+  it('should abort before proposing if the price moved beyond the maximum slippage', async () => {
+    const client = new FakeTraderClient(1_950_000, 10_000);
+    const signer = makeSigner();
+    await assert.rejects(sell(makeTradeCore(client, signer, { expected, maxSlippage: 1 })), SlippageExceededError);
+    assert.strictEqual(client.proposed.length, 0);
+    assert.strictEqual(signer.signed, 0);
+    assert.strictEqual(client.completed, 0);
+  });
+
+  it('should abort before signing if the accepted transaction does not pay the requested amounts', async () => {
+    const otherScript = Buffer.from('0014' + '22'.repeat(20), 'hex');
+    const tamperings = [
+      // less of the asset to receive
+      (pset: Pset) => {
+        pset.outputs[0].value -= 1;
+      },
+      // another asset
+      (pset: Pset) => {
+        pset.outputs[0].asset = AssetHash.fromHex(LBTC).bytes.slice(1);
+      },
+      // to someone else
+      (pset: Pset) => {
+        pset.outputs[0].script = otherScript;
+      },
+    ];
+    for (const tamper of tamperings) {
+      const client = new FakeTraderClient(2_000_000, 10_000);
+      client.tamper = tamper;
+      const signer = makeSigner();
+      await assert.rejects(
+        sell(makeTradeCore(client, signer, { expected, maxSlippage: 1 })),
+        (err) => err === SwapAcceptMismatchError
+      );
+      assert.strictEqual(client.proposed.length, 1);
+      assert.strictEqual(signer.signed, 0);
+      assert.strictEqual(client.completed, 0);
+    }
+  });
+
+  it('should abort if the SwapAccept does not match the SwapRequest', async () => {
+    const client = new FakeTraderClient(2_000_000, 10_000, true);
+    const signer = makeSigner();
+    await assert.rejects(sell(makeTradeCore(client, signer, { expected, maxSlippage: 1 })), /request_id/);
+    assert.strictEqual(signer.signed, 0);
+  });
+
+  it('should not check slippage without expected amounts', async () => {
+    const client = new FakeTraderClient(1_000_000, 10_000);
+    const signer = makeSigner();
+    assert.strictEqual(await sell(makeTradeCore(client, signer)), TXID);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * @jest-environment node
+ */
+import * as assert from 'assert';
+
+import { Preview, TradeType } from '../api-spec/protobuf/gen/js/tdex/v2/types_pb';
+import type TraderClientInterface from '../services/tdexService/v2/clientInterface';
+import { splitOrderDiscovery } from '../services/tdexService/v2/discovery';
+import type { TradeOrder } from '../services/tdexService/v2/tradeCore';
+
+const LBTC = '5ac9f65c0efcc4775e0baec4ec03abdde22473cd3cf33c0419ca290e0751b225';
+const USDT = 'f3d1ec678811398cd2ae277cbe3849c6f6dbd72c74bc542f7c4b11ff0e820958';
+
+// Provider buying L-BTC at `price` USDT per sat, and at `slippedPrice` past `depth` sats
+class FakeTraderClient implements TraderClientInterface {
+  providerUrl: string;
+  client = undefined;
+  clientType = 'fake';
+  quoteBalance: number | Error;
+  price: number;
+  slippedPrice: number;
+  depth: number;
+
+  constructor(
+    providerUrl: string,
+    quoteBalance: number | Error,
+    price: number,
+    slippedPrice = price,
+    depth = Infinity
+  ) {
+    this.providerUrl = providerUrl;
+    this.quoteBalance = quoteBalance;
+    this.price = price;
+    this.slippedPrice = slippedPrice;
+    this.depth = depth;
+  }
+
+  async previewTrade({ amount }: { amount?: string }) {
+    const sats = Number(amount);
+    const filled = Math.min(sats, this.depth);
+    const received = filled * this.price + (sats - filled) * this.slippedPrice;
+    return [Preview.create({ amount: received.toString(), asset: USDT, feeAmount: '0' })];
+  }
+
+  async getMarketBalance() {
+    if (this.quoteBalance instanceof Error) throw this.quoteBalance;
+    return { baseAmount: '0', quoteAmount: this.quoteBalance.toString() };
+  }
+
+  async proposeTrade(): Promise<Uint8Array> {
+    throw new Error('not implemented');
+  }
+
+  async completeTrade(): Promise<string> {
+    throw new Error('not implemented');
+  }
+
+  async listMarkets() {
+    return [];
+  }
+
+  async getMarketPrice() {
+    return { spotPrice: this.price, minTradableAmount: '0' };
+  }
+}
+
+const sellOrder = (traderClient: FakeTraderClient): TradeOrder => ({
+  type: TradeType.SELL,
+  market: {
+    provider: { name: traderClient.providerUrl, endpoint: traderClient.providerUrl, version: 'v2' },
+    baseAsset: LBTC,
+    quoteAsset: USDT,
+    percentageFee: { baseAsset: '0', quoteAsset: '0' },
+  },
+  traderClient,
+});
+
+const allocatedAmounts = (splits: Awaited<ReturnType<typeof splitOrderDiscovery>>) =>
+  Object.fromEntries(splits.map(({ order, amount }) => [order.traderClient.providerUrl, amount]));
+
+describe('split order discovery', () => {
+  test('should give each chunk to the provider with the best marginal price', async () => {
+    const deep = sellOrder(new FakeTraderClient('https://deep', 1_000_000, 90));
+    const shallow = sellOrder(new FakeTraderClient('https://shallow', 1_000_000, 100, 80, 50));
+    const splits = await splitOrderDiscovery([deep, shallow], { amount: 100, asset: LBTC });
+    assert.deepStrictEqual(allocatedAmounts(splits), { 'https://shallow': 50, 'https://deep': 50 });
+    assert.strictEqual(
+      splits.reduce((sum, { previewAmount }) => sum + previewAmount, 0),
+      50 * 100 + 50 * 90
+    );
+  });
+
+  test('should not give a provider more than its balance can pay', async () => {
+    const deep = sellOrder(new FakeTraderClient('https://deep', 1_000_000, 90));
+    const poor = sellOrder(new FakeTraderClient('https://poor', 4000, 100));
+    const splits = await splitOrderDiscovery([deep, poor], { amount: 100, asset: LBTC });
+    assert.deepStrictEqual(allocatedAmounts(splits), { 'https://poor': 25, 'https://deep': 75 });
+  });
+
+  test('should report the failing providers and throw without liquidity', async () => {
+    const errors: unknown[] = [];
+    const failing = [
+      sellOrder(new FakeTraderClient('https://down', new Error('unavailable'), 100)),
+      sellOrder(new FakeTraderClient('https://empty', 0, 100)),
+    ];
+    await assert.rejects(
+      splitOrderDiscovery(failing, { amount: 100, asset: LBTC }, async (err) => {
+        errors.push(err);
+      }),
+      /Not enough liquidity/
+    );
+    assert.strictEqual(errors.length, 1);
+  });
+});
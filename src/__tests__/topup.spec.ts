@@ -0,0 +1,151 @@
+/**
+ * @jest-environment node
+ */
+import * as assert from 'assert';
+import type { TxOutput } from 'liquidjs-lib';
+import { AssetHash, ElementsValue, networks, payments, Pset, script as bscript, Transaction } from 'liquidjs-lib';
+import * as ecc from 'tiny-secp256k1';
+
+import { lbtc, pin, setupWallet, unconfidentialOutput } from '../../test/fixtures/wallet';
+import { BlinderService } from '../services/blinderService';
+import { LocalTopupClient } from '../services/localTopupClient';
+import { SignerService } from '../services/signerService';
+import { TopupAboveQuoteError } from '../utils/errors';
+import { makeSendPset, quoteTopupFee } from '../utils/transaction';
+
+jest.mock('../services/chainSource', () => ({ chainSource: { subscribeScriptStatus: async () => undefined } }));
+jest.mock('../store/capacitorPersistentStorage', () => ({
+  storage: { getItem: async () => null, setItem: async () => undefined, removeItem: async () => undefined },
+}));
+
+const USDT = 'f3d1ec678811398cd2ae277cbe3849c6f6dbd72c74bc542f7c4b11ff0e820958';
+const privateKey = Buffer.alloc(32, 1);
+// p2wpkh script of the private key above
+const script = Buffer.from('001479b000887626b294a914501a4cd226b58b235983', 'hex');
+// confidential address of the recipient
+const recipientAddress = payments.p2wpkh({
+  pubkey: Buffer.from(ecc.pointFromScalar(Buffer.alloc(32, 2))!),
+  blindkey: Buffer.from(ecc.pointFromScalar(Buffer.alloc(32, 3))!),
+  network: networks.regtest,
+}).confidentialAddress!;
+
+jest.setTimeout(15000);
+
+// Checks the p2wpkh signature of each input against the transaction, with the sighash type it commits to
+function assertSignaturesValid(tx: Transaction, prevouts: TxOutput[]) {
+  for (const [index, input] of tx.ins.entries()) {
+    const [encodedSignature, pubkey] = input.witness;
+    const { signature, hashType } = bscript.signature.decode(encodedSignature);
+    const scriptCode = payments.p2pkh({ pubkey }).output!;
+    const hash = tx.hashForWitnessV0(index, scriptCode, prevouts[index].value, hashType);
+    assert.ok(ecc.verify(hash, pubkey, signature), `invalid signature of input ${index}`);
+  }
+}
+
+describe('LocalTopupClient', () => {
+  const client = new LocalTopupClient({
+    network: 'regtest',
+    privateKey,
+    utxos: [
+      {
+        txid: '00'.repeat(32),
+        vout: 0,
+        witnessUtxo: {
+          asset: AssetHash.fromHex(networks.regtest.assetHash).bytes,
+          value: ElementsValue.fromNumber(10_000).bytes,
+          script,
+          nonce: Buffer.of(0x00),
+        },
+      },
+    ],
+    // 1 sat of L-BTC for 2 sats of USDt
+    rates: { [USDT]: 2 },
+    spread: 0.1,
+  });
+
+  it('should list the assets it has a rate for', async () => {
+    assert.deepStrictEqual(await client.listAssets(), [USDT]);
+  });
+
+  it('should pay the fee in exchange for the asset, with a signed input', async () => {
+    const topup = await client.topupWithAsset({ assetHash: USDT, estimatedTxSize: 2000, millisatsPerByte: 150 });
+    assert.strictEqual(topup.assetAmount, 660);
+    assert.strictEqual(topup.assetSpread, 60);
+    const pset = Pset.fromBase64(topup.partial);
+    assert.strictEqual(pset.inputs.length, 1);
+    assert.ok(pset.inputs[0].isFinalized());
+    assert.strictEqual(pset.inputs[0].sighashType, Transaction.SIGHASH_SINGLE | Transaction.SIGHASH_ANYONECANPAY);
+    // the service is paid at the index of its input
+    assert.strictEqual(AssetHash.fromBytes(pset.outputs[0].asset!).hex, USDT);
+    assert.strictEqual(pset.outputs[0].value, 660);
+    assert.strictEqual(pset.outputs[1].value, 10_000 - 300);
+    // the fee output has no script
+    assert.ok(!pset.outputs[2].script?.length);
+    assert.strictEqual(pset.outputs[2].value, 300);
+  });
+
+  it('should reject unsupported assets', async () => {
+    await assert.rejects(
+      client.topupWithAsset({ assetHash: '00'.repeat(32), estimatedTxSize: 2000, millisatsPerByte: 150 })
+    );
+  });
+});
+
+describe('send paying the fee with a topup', () => {
+  const client = new LocalTopupClient({
+    network: 'regtest',
+    privateKey,
+    utxos: [
+      {
+        txid: '00'.repeat(32),
+        vout: 0,
+        witnessUtxo: unconfidentialOutput(script, lbtc, 10_000),
+      },
+    ],
+    rates: { [USDT]: 2 },
+  });
+  const recipient = { address: recipientAddress, asset: USDT, value: 50_000 };
+
+  // the coins locked by the coin selection are unlocked by a timer, cleared not to keep jest running
+  let setTimeoutSpy: jest.SpyInstance;
+
+  beforeAll(() => {
+    setTimeoutSpy = jest.spyOn(global, 'setTimeout');
+  });
+
+  afterAll(() => {
+    setTimeoutSpy.mock.results.forEach(({ value }) => clearTimeout(value));
+    setTimeoutSpy.mockRestore();
+  });
+
+  it('should be blinded and signed without spending any L-BTC of the wallet', async () => {
+    const [coin] = await setupWallet([{ asset: USDT, value: 100_000 }]);
+    const quote = await quoteTopupFee([recipient], USDT, 0.1, undefined, client);
+    const { pset, feeAmount } = await makeSendPset([recipient], USDT, false, 0.1, undefined, quote, client);
+    assert.strictEqual(feeAmount, quote);
+    const blindedPset = await new BlinderService().blindPset(pset);
+    const signer = await SignerService.fromPassword(pin);
+    const tx = Transaction.fromHex(signer.finalizeAndExtract(await signer.signPset(blindedPset)));
+    // the topup input and the output paying the service keep index 0
+    assert.strictEqual(tx.ins.length, 2);
+    assert.strictEqual(Buffer.from(tx.ins[1].hash).reverse().toString('hex'), coin.txid);
+    assert.strictEqual(AssetHash.fromBytes(tx.outs[0].asset).hex, USDT);
+    assert.strictEqual(ElementsValue.fromBytes(tx.outs[0].value).number, quote);
+    // the recipient and the change are blinded
+    const ourOutputs = tx.outs.slice(pset.outputs.length - 2);
+    assert.ok(ourOutputs.every((out) => out.rangeProof && out.rangeProof.length > 0));
+    assertSignaturesValid(tx, [
+      unconfidentialOutput(script, lbtc, 10_000),
+      unconfidentialOutput(Buffer.from(coin.scriptDetails.script, 'hex'), USDT, 100_000),
+    ]);
+  });
+
+  it('should reject a topup above the quoted fee', async () => {
+    await setupWallet([{ asset: USDT, value: 100_000 }]);
+    const quote = await quoteTopupFee([recipient], USDT, 0.1, undefined, client);
+    await assert.rejects(
+      makeSendPset([recipient], USDT, false, 0.1, undefined, quote - 1, client),
+      (err) => err === TopupAboveQuoteError
+    );
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * @jest-environment node
+ */
+import * as assert from 'assert';
+
+import type { PreviewTradeRequest } from '../api-spec/protobuf/gen/js/tdex/v2/trade_pb';
+import { Preview } from '../api-spec/protobuf/gen/js/tdex/v2/types_pb';
+import * as tdex from '../services/tdexService';
+import { discoverBestRoute, getNetReceivedSats, getRoutableAssets, hasDirectMarket } from '../services/tdexService';
+import type TraderClientInterface from '../services/tdexService/v2/clientInterface';
+import type { TDEXMarket } from '../services/tdexService/v2/tradeCore';
+import { NoTradeRouteAvailableError } from '../utils/errors';
+
+jest.mock('../services/chainSource', () => ({ chainSource: {} }));
+jest.mock('../store/capacitorPersistentStorage', () => ({
+  storage: { getItem: async () => null, setItem: async () => undefined, removeItem: async () => undefined },
+}));
+
+const LBTC = '5ac9f65c0efcc4775e0baec4ec03abdde22473cd3cf33c0419ca290e0751b225';
+const USDT = 'f3d1ec678811398cd2ae277cbe3849c6f6dbd72c74bc542f7c4b11ff0e820958';
+const EURX = '18729918ab4bca843656f08d4dd877bed6641fbd596a0a963abbf199cfeb3cec';
+const ABC = 'a'.repeat(64);
+const XYZ = 'b'.repeat(64);
+
+// Provider trading at `price` quote sats per base sat, taking 1% of the received amount as fee
+class FakeTraderClient implements TraderClientInterface {
+  providerUrl: string;
+  client = undefined;
+  clientType = 'fake';
+  price: number;
+  isDown = false;
+
+  constructor(providerUrl: string, price: number) {
+    this.providerUrl = providerUrl;
+    this.price = price;
+  }
+
+  async previewTrade({ market, amount, asset }: PreviewTradeRequest) {
+    if (!market || this.isDown) throw new Error('unavailable');
+    const sats = Number(amount);
+    const isBaseKnown = asset === market.baseAsset;
+    const other = isBaseKnown ? Math.floor(sats * this.price) : Math.floor(sats / this.price);
+    return [
+      Preview.create({
+        amount: other.toString(),
+        asset: isBaseKnown ? market.quoteAsset : market.baseAsset,
+        feeAmount: Math.floor(other / 100).toString(),
+      }),
+    ];
+  }
+
+  async getMarketBalance() {
+    return { baseAmount: '1000000000', quoteAmount: '1000000000' };
+  }
+
+  async proposeTrade(): Promise<Uint8Array> {
+    throw new Error('not implemented');
+  }
+
+  async completeTrade(): Promise<string> {
+    throw new Error('not implemented');
+  }
+
+  async listMarkets() {
+    return [];
+  }
+
+  async getMarketPrice() {
+    return { spotPrice: this.price, minTradableAmount: '0' };
+  }
+}
+
+const clients: Record<string, FakeTraderClient> = {
+  'https://cheap': new FakeTraderClient('https://cheap', 2),
+  'https://expensive': new FakeTraderClient('https://expensive', 2.5),
+  'https://eurx': new FakeTraderClient('https://eurx', 3),
+  'https://abc-usdt': new FakeTraderClient('https://abc-usdt', 1),
+  'https://abc-eurx': new FakeTraderClient('https://abc-eurx', 1),
+  'https://xyz': new FakeTraderClient('https://xyz', 1),
+};
+
+const market = (endpoint: string, baseAsset: string, quoteAsset: string): TDEXMarket => ({
+  provider: { name: endpoint, endpoint, version: 'v2' },
+  baseAsset,
+  quoteAsset,
+  percentageFee: { baseAsset: '100', quoteAsset: '100' },
+});
+
+// USDT and EURX are only tradable through L-BTC or ABC, XYZ only for ABC
+const markets = {
+  v1: [],
+  v2: [
+    market('https://cheap', LBTC, USDT),
+    market('https://expensive', LBTC, USDT),
+    market('https://eurx', LBTC, EURX),
+    market('https://abc-usdt', ABC, USDT),
+    market('https://abc-eurx', ABC, EURX),
+    market('https://xyz', XYZ, ABC),
+  ],
+};
+
+describe('trade routes', () => {
+  // mocks are reset before each test
+  beforeEach(() => {
+    jest
+      .spyOn(tdex, 'createTraderClientV2')
+      .mockImplementation(
+        (endpoint: string) => clients[endpoint] as unknown as ReturnType<typeof tdex.createTraderClientV2>
+      );
+  });
+
+  afterAll(() => jest.restoreAllMocks());
+
+  test('should trade a pair of a direct market without routing it', () => {
+    assert.ok(hasDirectMarket(markets, USDT, LBTC));
+    assert.ok(!hasDirectMarket(markets, USDT, EURX));
+    assert.deepStrictEqual(getRoutableAssets(markets, USDT).sort(), [ABC, EURX, LBTC, XYZ].sort());
+    // the route of a direct pair is its market, there is no intermediate asset to route it through
+    assert.throws(
+      () => discoverBestRoute({ v1: [], v2: [market('https://cheap', LBTC, USDT)] }, USDT, LBTC),
+      (err) => err === NoTradeRouteAvailableError
+    );
+  });
+
+  test('should route through the intermediate asset receiving the most', async () => {
+    const route = await discoverBestRoute(markets, USDT, EURX)(10_000, USDT);
+    assert.strictEqual(route.legs.length, 2);
+    const [first, second] = route.legs;
+    // USDT buys the most L-BTC from the provider with the lowest price
+    assert.strictEqual(first.order.market.provider.endpoint, 'https://cheap');
+    assert.deepStrictEqual(first.send, { asset: USDT, sats: 10_000 });
+    assert.deepStrictEqual(first.receive, { asset: LBTC, sats: 5000 });
+    // the second leg sends what the first one receives, fees deducted
+    assert.strictEqual(second.order.market.provider.endpoint, 'https://eurx');
+    assert.deepStrictEqual(second.send, { asset: LBTC, sats: getNetReceivedSats(first) });
+    assert.deepStrictEqual(second.receive, { asset: EURX, sats: 4950 * 3 });
+  });
+
+  test('should size the first leg to deliver what the second one sends, fees deducted', async () => {
+    const route = await discoverBestRoute(markets, USDT, EURX)(9900, EURX);
+    const [first, second] = route.legs;
+    assert.strictEqual(second.order.market.provider.endpoint, 'https://eurx');
+    assert.deepStrictEqual(second.send, { asset: LBTC, sats: 3300 });
+    assert.deepStrictEqual(second.receive, { asset: EURX, sats: 9900 });
+    // 3300 L-BTC received would only deliver 3218 once the fee of the first leg is deducted
+    assert.strictEqual(first.order.market.provider.endpoint, 'https://expensive');
+    assert.deepStrictEqual(first.receive, { asset: LBTC, sats: 3384 });
+    assert.deepStrictEqual(first.send, { asset: USDT, sats: 8460 });
+    assert.strictEqual(getNetReceivedSats(first), second.send.sats);
+  });
+
+  test('should not route an unreachable pair', async () => {
+    assert.throws(
+      () => discoverBestRoute(markets, XYZ, LBTC),
+      (err) => err === NoTradeRouteAvailableError
+    );
+    // routes whose previews all fail
+    clients['https://eurx'].isDown = true;
+    clients['https://abc-eurx'].isDown = true;
+    try {
+      await assert.rejects(
+        discoverBestRoute(markets, EURX, USDT)(10_000, EURX),
+        (err) => err === NoTradeRouteAvailableError
+      );
+    } finally {
+      clients['https://eurx'].isDown = false;
+      clients['https://abc-eurx'].isDown = false;
+    }
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * @jest-environment node
+ */
+import * as assert from 'assert';
+
+import { useWalletStore } from '../store/walletStore';
+import type { Encrypted } from '../utils/crypto';
+import { decrypt, ENCRYPTION_VERSION } from '../utils/crypto';
+
+jest.mock('../services/chainSource', () => ({ chainSource: {} }));
+jest.mock('../store/capacitorPersistentStorage', () => ({
+  storage: { getItem: async () => null, setItem: async () => undefined, removeItem: async () => undefined },
+}));
+
+const PIN = '666666';
+
+// aes-256-cbc with the static IV of 'secret data', as written before the format was versioned
+const v0Vector: Encrypted = {
+  data: 'RJZyEkxLqjZk3mxWsasb7g==',
+  options: { N: 16384, r: 8, p: 1, klen: 32, salt: 'Qm3xK9pLw2ZtV7nR4cYhJ8sD1fGa6eUb' },
+};
+
+jest.setTimeout(30000);
+
+describe('migration of the wallet encryption', () => {
+  test('should migrate the blobs of every wallet once the PIN is known to be right', async () => {
+    const { resetWalletStore, createWallet } = useWalletStore.getState();
+    resetWalletStore();
+    useWalletStore.setState({ encryptedMnemonic: v0Vector, encryptedPassphrase: v0Vector });
+    const walletId = await createWallet('Second wallet');
+    useWalletStore.setState({ encryptedMnemonic: v0Vector });
+
+    assert.strictEqual(await useWalletStore.getState().decryptMnemonic(PIN), 'secret data');
+    const { encryptedMnemonic, encryptedPassphrase, walletsData } = useWalletStore.getState();
+    assert.strictEqual(encryptedPassphrase, undefined);
+    const migrated = [
+      encryptedMnemonic,
+      walletsData.default.encryptedMnemonic,
+      walletsData.default.encryptedPassphrase,
+    ] as Encrypted[];
+    for (const blob of migrated) {
+      assert.strictEqual(blob.version, ENCRYPTION_VERSION);
+      assert.strictEqual(await decrypt(blob, PIN), 'secret data');
+    }
+    assert.strictEqual(useWalletStore.getState().activeWalletId, walletId);
+  });
+
+  test('should not migrate anything with a wrong PIN', async () => {
+    useWalletStore.getState().resetWalletStore();
+    useWalletStore.setState({ encryptedMnemonic: v0Vector, encryptedPassphrase: v0Vector });
+    await assert.rejects(useWalletStore.getState().decryptMnemonic('123456'));
+    assert.strictEqual(useWalletStore.getState().encryptedMnemonic, v0Vector);
+    assert.strictEqual(useWalletStore.getState().encryptedPassphrase, v0Vector);
+  });
+});
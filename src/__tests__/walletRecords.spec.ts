@@ -0,0 +1,71 @@
+/**
+ * @jest-environment node
+ */
+import * as assert from 'assert';
+
+import { useBitcoinStore } from '../store/bitcoinStore';
+import type { LimitOrder } from '../store/limitOrderStore';
+import { useLimitOrderStore } from '../store/limitOrderStore';
+import { useTradeStore } from '../store/tradeStore';
+import { DEFAULT_WALLET_ID, useWalletStore } from '../store/walletStore';
+import { resetAllStores } from '../utils/actions';
+
+jest.mock('../services/chainSource', () => ({ chainSource: {} }));
+jest.mock('../store/capacitorPersistentStorage', () => ({
+  storage: { getItem: async () => null, setItem: async () => undefined, removeItem: async () => undefined },
+}));
+
+const LBTC = '5ac9f65c0efcc4775e0baec4ec03abdde22473cd3cf33c0419ca290e0751b225';
+const USDT = 'f3d1ec678811398cd2ae277cbe3849c6f6dbd72c74bc542f7c4b11ff0e820958';
+
+const order: Pick<LimitOrder, 'send' | 'receiveAsset' | 'minReceiveSats' | 'expiresAt'> = {
+  send: { asset: LBTC, sats: 1000 },
+  receiveAsset: USDT,
+  minReceiveSats: 300_000,
+  expiresAt: Date.now() + 60_000,
+};
+
+describe('records of the wallets', () => {
+  beforeEach(() => {
+    resetAllStores();
+    // the wallets have no script to sync nor to subscribe
+    useWalletStore.setState({ sync: async () => undefined, subscribeAllScripts: async () => undefined });
+  });
+
+  test('should keep the trades, limit orders and pegins of each wallet apart', async () => {
+    const tradeId = useTradeStore.getState().addTrade({
+      provider: { name: 'provider', endpoint: 'https://provider' },
+      protoVersion: 'v2',
+      market: { baseAsset: LBTC, quoteAsset: USDT },
+      type: 'SELL',
+      preview: { sent: { asset: LBTC, sats: 1000 }, received: { asset: USDT, sats: 300_000 } },
+    });
+    const orderId = useLimitOrderStore.getState().addLimitOrder(order);
+    useLimitOrderStore.getState().setModalLimitOrder({ isOpen: true, orderId });
+    const depositAddress = { address: 'bcrt1q', claimScript: 'claimScript', derivationPath: "m/84'/1'/0'/0/0" };
+    useBitcoinStore.getState().upsertPegins({ claimScript: { depositAddress } });
+
+    const walletId = await useWalletStore.getState().createWallet('Second wallet');
+    assert.deepStrictEqual(useTradeStore.getState().trades, {});
+    assert.deepStrictEqual(useLimitOrderStore.getState().limitOrders, {});
+    assert.strictEqual(useLimitOrderStore.getState().modalLimitOrder.isOpen, false);
+    assert.deepStrictEqual(useBitcoinStore.getState().pegins, {});
+
+    await useWalletStore.getState().switchWallet(DEFAULT_WALLET_ID);
+    assert.ok(useTradeStore.getState().trades[tradeId]);
+    assert.ok(useLimitOrderStore.getState().limitOrders[orderId]);
+    assert.ok(useBitcoinStore.getState().pegins.claimScript);
+    assert.deepStrictEqual(useTradeStore.getState().walletsTrades[walletId], {});
+  });
+
+  test('should drop the records of a removed wallet', async () => {
+    const walletId = await useWalletStore.getState().createWallet('Second wallet');
+    useLimitOrderStore.getState().addLimitOrder(order);
+    await useWalletStore.getState().switchWallet(DEFAULT_WALLET_ID);
+    assert.ok(useLimitOrderStore.getState().walletsLimitOrders[walletId]);
+    useWalletStore.getState().removeWallet(walletId);
+    assert.strictEqual(useLimitOrderStore.getState().walletsLimitOrders[walletId], undefined);
+    assert.strictEqual(useTradeStore.getState().walletsTrades[walletId], undefined);
+    assert.strictEqual(useBitcoinStore.getState().walletsPegins[walletId], undefined);
+  });
+});
@@ -3,27 +3,34 @@ import React, { useEffect, useState } from 'react';
 import PinModal from '../../components/PinModal';
 import { useToastStore } from '../../store/toastStore';
 import { useWalletStore } from '../../store/walletStore';
+import { checkPin } from '../../utils/actions';
+import type { LockMode } from '../../utils/constants';
 import { PIN_TIMEOUT_FAILURE, PIN_TIMEOUT_SUCCESS } from '../../utils/constants';
 import { decrypt } from '../../utils/crypto';
 import type { AppError } from '../../utils/errors';
-import { IncorrectPINError } from '../../utils/errors';
+import { IncorrectPINError, PINsDoNotMatchError } from '../../utils/errors';
 import Loader from '../Loader';
 
 interface ChangePinModalsProps {
   open: boolean;
   onDeleted: () => void;
   onClose: () => void;
+  // mode of the new PIN or password, the current one if not given
+  lockMode?: LockMode;
 }
 
-const ChangePinModals: React.FC<ChangePinModalsProps> = ({ open, onDeleted, onClose }) => {
+const ChangePinModals: React.FC<ChangePinModalsProps> = ({ open, onDeleted, onClose, lockMode }) => {
   const addErrorToast = useToastStore((state) => state.addErrorToast);
   const addSuccessToast = useToastStore((state) => state.addSuccessToast);
   const changePin = useWalletStore((state) => state.changePin);
   const encryptedMnemonic = useWalletStore((state) => state.encryptedMnemonic);
+  const currentLockMode = useWalletStore((state) => state.lockMode);
   //
-  const [modalOpen, setModalOpen] = useState<'first' | 'second'>();
+  const newLockMode = lockMode ?? currentLockMode;
+  const [modalOpen, setModalOpen] = useState<'first' | 'second' | 'repeat'>();
   const [loading, setLoading] = useState(false);
   const [currentPin, setCurrentPin] = useState('');
+  const [newPin, setNewPin] = useState('');
   const [isWrongPin, setIsWrongPin] = useState<boolean | null>(null);
   const [needReset, setNeedReset] = useState<boolean>(false);
 
@@ -45,6 +52,7 @@ const ChangePinModals: React.FC<ChangePinModalsProps> = ({ open, onDeleted, onCl
     if (!open) {
       setModalOpen(undefined);
       setCurrentPin('');
+      setNewPin('');
     }
   }, [modalOpen, open]);
 
@@ -52,7 +60,7 @@ const ChangePinModals: React.FC<ChangePinModalsProps> = ({ open, onDeleted, onCl
     setLoading(true);
     if (!encryptedMnemonic) throw new Error('No mnemonic found in wallet');
     try {
-      await decrypt(encryptedMnemonic, firstPin);
+      await checkPin(() => decrypt(encryptedMnemonic, firstPin));
       setCurrentPin(firstPin);
       setIsWrongPin(false);
       setTimeout(() => {
@@ -68,10 +76,33 @@ const ChangePinModals: React.FC<ChangePinModalsProps> = ({ open, onDeleted, onCl
   };
 
   const onSecondPinConfirm = (secondPin: string) => {
+    setNewPin(secondPin);
+    setIsWrongPin(false);
+    setTimeout(() => {
+      setModalOpen('repeat');
+      setIsWrongPin(null);
+      setNeedReset(true);
+    }, PIN_TIMEOUT_SUCCESS);
+  };
+
+  const onRepeatPinConfirm = (repeatedPin: string) => {
+    if (repeatedPin !== newPin) {
+      // back to the choice of the new PIN, the current one being still valid
+      addErrorToast(PINsDoNotMatchError);
+      setIsWrongPin(true);
+      setTimeout(() => {
+        setIsWrongPin(null);
+        setNewPin('');
+        setModalOpen('second');
+        setNeedReset(true);
+      }, PIN_TIMEOUT_FAILURE);
+      return;
+    }
     setLoading(true);
-    changePin(currentPin, secondPin)
+    // the mnemonics are encrypted again, with the new PIN or password
+    changePin(currentPin, newPin, newLockMode)
       .then(() => {
-        addSuccessToast('PIN has been changed.');
+        addSuccessToast(newLockMode.type === 'password' ? 'Password has been set.' : 'PIN has been changed.');
         onDeleted();
       })
       .catch(() => {
@@ -91,7 +122,7 @@ const ChangePinModals: React.FC<ChangePinModalsProps> = ({ open, onDeleted, onCl
         setNeedReset={setNeedReset}
         open={open && modalOpen === 'first'}
         title="Unlock wallet"
-        description="Enter your current PIN."
+        description={currentLockMode.type === 'password' ? 'Enter your current password.' : 'Enter your current PIN.'}
         onConfirm={onFirstPinConfirm}
         onClose={onClose}
         isWrongPin={isWrongPin}
@@ -101,12 +132,32 @@ const ChangePinModals: React.FC<ChangePinModalsProps> = ({ open, onDeleted, onCl
         needReset={needReset}
         setNeedReset={setNeedReset}
         open={open && modalOpen === 'second'}
-        title="New PIN"
-        description="Set up the new PIN."
+        title={newLockMode.type === 'password' ? 'New password' : 'New PIN'}
+        description={
+          newLockMode.type === 'password'
+            ? 'Set up the new password, it encrypts the secret phrase of your wallets.'
+            : `Set up the new ${newLockMode.length}-digit PIN.`
+        }
         onConfirm={onSecondPinConfirm}
         onClose={onClose}
         isWrongPin={isWrongPin}
         setIsWrongPin={setIsWrongPin}
+        lockMode={newLockMode}
+        showStrength={true}
+        isNewPin={true}
+      />
+      <PinModal
+        needReset={needReset}
+        setNeedReset={setNeedReset}
+        open={open && modalOpen === 'repeat'}
+        title={newLockMode.type === 'password' ? 'Repeat password' : 'Repeat PIN'}
+        description="It must match the previous entry."
+        onConfirm={onRepeatPinConfirm}
+        onClose={onClose}
+        isWrongPin={isWrongPin}
+        setIsWrongPin={setIsWrongPin}
+        lockMode={newLockMode}
+        isNewPin={true}
       />
     </div>
   );
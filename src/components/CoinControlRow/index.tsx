@@ -0,0 +1,47 @@
+import { IonButton, IonCol, IonRow, IonText } from '@ionic/react';
+import React from 'react';
+import { useHistory } from 'react-router';
+
+import { useWalletStore } from '../../store/walletStore';
+
+interface CoinControlRowProps {
+  // asset to send
+  asset?: string;
+}
+
+// Coins picked to send the asset, chosen on the coins page
+const CoinControlRow: React.FC<CoinControlRowProps> = ({ asset }) => {
+  const selectedOutpoints = useWalletStore((state) => state.selectedOutpoints);
+  const outputHistory = useWalletStore((state) => state.outputHistory);
+  const setSelectedOutpoints = useWalletStore((state) => state.setSelectedOutpoints);
+  const history = useHistory();
+
+  if (!asset) return null;
+  const picked = selectedOutpoints.filter((outpointStr) => outputHistory[outpointStr]?.blindingData?.asset === asset);
+
+  return (
+    <IonRow className="ion-align-items-center ion-margin-horizontal">
+      <IonCol size="6">
+        <IonText className="time">
+          {picked.length > 0 ? `${picked.length} coins picked` : 'Coins selected automatically'}
+        </IonText>
+      </IonCol>
+      <IonCol size="6" className="ion-text-right">
+        {picked.length > 0 && (
+          <IonButton
+            fill="clear"
+            className="sub-button"
+            onClick={() => setSelectedOutpoints(selectedOutpoints.filter((outpoint) => !picked.includes(outpoint)))}
+          >
+            Clear
+          </IonButton>
+        )}
+        <IonButton fill="clear" className="sub-button" onClick={() => history.push('/coins', { asset })}>
+          Choose coins
+        </IonButton>
+      </IonCol>
+    </IonRow>
+  );
+};
+
+export default CoinControlRow;
@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+
+import type { FeeRate } from '../../store/settingsStore';
+import { useSettingsStore } from '../../store/settingsStore';
+import type { FeePreset } from '../../utils/constants';
+import { FEE_PRESETS } from '../../utils/constants';
+import { estimateFeeRate } from '../../utils/transaction';
+
+// estimated fee rate of each preset and of the current choice, in sat/vB
+export function useFeeRateEstimation(feeRate: FeeRate): {
+  presetRates: Partial<Record<FeePreset, number>>;
+  satsPerVByte?: number;
+} {
+  const network = useSettingsStore((state) => state.network);
+  const [presetRates, setPresetRates] = useState<Partial<Record<FeePreset, number>>>({});
+  const [satsPerVByte, setSatsPerVByte] = useState<number>();
+
+  useEffect(() => {
+    Promise.all(FEE_PRESETS.map(({ preset }) => estimateFeeRate({ preset })))
+      .then((rates) => setPresetRates(Object.fromEntries(FEE_PRESETS.map(({ preset }, i) => [preset, rates[i]]))))
+      .catch(console.error);
+  }, [network]);
+
+  const { preset, satsPerVByte: customFeeRate } = feeRate;
+  useEffect(() => {
+    estimateFeeRate({ preset, satsPerVByte: customFeeRate })
+      .then(setSatsPerVByte)
+      .catch((err) => {
+        console.error(err);
+        setSatsPerVByte(undefined);
+      });
+  }, [preset, customFeeRate, network]);
+
+  return { presetRates, satsPerVByte };
+}
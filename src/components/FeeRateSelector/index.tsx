@@ -0,0 +1,89 @@
+import './style.scss';
+import { IonInput, IonItem, IonLabel, IonSegment, IonSegmentButton, IonText } from '@ionic/react';
+import React from 'react';
+
+import type { FeeRate } from '../../store/settingsStore';
+import { useSettingsStore } from '../../store/settingsStore';
+import type { FeePreset } from '../../utils/constants';
+import { DEFAULT_FEE_PRESET, FEE_PRESETS } from '../../utils/constants';
+import { fromSatoshiFixed } from '../../utils/unitConversion';
+
+interface FeeRateSelectorProps {
+  feeRate: FeeRate;
+  onFeeRateChange: (feeRate: FeeRate) => void;
+  // from useFeeRateEstimation
+  presetRates: Partial<Record<FeePreset, number>>;
+  satsPerVByte?: number;
+  // size of the transaction to preview the fee of
+  virtualSize?: number;
+  // appended to the fee preview
+  feeNote?: string;
+}
+
+const formatFeeRate = (rate: number) => Number(rate.toFixed(2));
+
+// Fee rate presets with their estimated rate, or a custom rate in sat/vB
+const FeeRateSelector: React.FC<FeeRateSelectorProps> = ({
+  feeRate,
+  onFeeRateChange,
+  presetRates,
+  satsPerVByte,
+  virtualSize,
+  feeNote,
+}) => {
+  const lbtcUnit = useSettingsStore((state) => state.lbtcUnit);
+
+  return (
+    <div className="fee-rate ion-margin-horizontal">
+      <IonSegment
+        value={feeRate.preset}
+        onIonChange={(e) =>
+          onFeeRateChange({
+            preset: e.detail.value as FeeRate['preset'],
+            satsPerVByte: feeRate.satsPerVByte ?? presetRates[DEFAULT_FEE_PRESET],
+          })
+        }
+      >
+        {FEE_PRESETS.map(({ preset, label }) => (
+          <IonSegmentButton key={preset} value={preset}>
+            <IonLabel>
+              {label}
+              {presetRates[preset] !== undefined && (
+                <div className="rate">{`${formatFeeRate(presetRates[preset]!)} sat/vB`}</div>
+              )}
+            </IonLabel>
+          </IonSegmentButton>
+        ))}
+        <IonSegmentButton value="custom">
+          <IonLabel>Custom</IonLabel>
+        </IonSegmentButton>
+      </IonSegment>
+      {feeRate.preset === 'custom' && (
+        <IonItem className="input">
+          <IonInput
+            inputmode="decimal"
+            placeholder="sat/vB"
+            value={feeRate.satsPerVByte?.toString()}
+            onIonChange={(e) =>
+              onFeeRateChange({ preset: 'custom', satsPerVByte: Number(e.detail.value) || undefined })
+            }
+          />
+          <IonLabel slot="end">sat/vB</IonLabel>
+        </IonItem>
+      )}
+      {satsPerVByte !== undefined && virtualSize !== undefined && (
+        <IonText className="fee-preview">
+          {`Network fee ≈ ${fromSatoshiFixed(
+            Math.ceil(virtualSize * satsPerVByte),
+            8,
+            undefined,
+            lbtcUnit
+          )} ${lbtcUnit} (${formatFeeRate(satsPerVByte)} sat/vB)`}
+          {feeNote}
+        </IonText>
+      )}
+    </div>
+  );
+};
+
+export default FeeRateSelector;
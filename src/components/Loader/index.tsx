@@ -1,6 +1,8 @@
 import { IonLoading } from '@ionic/react';
+import { useEffect } from 'react';
 
 import { useDelayedRender } from '../../hooks/useDelayedRender';
+import { useAppStore } from '../../store/appStore';
 
 interface LoaderProps {
   showLoading: boolean;
@@ -19,6 +21,16 @@ const Loader: React.FC<LoaderProps> = ({
   message,
   showLoading,
 }) => {
+  const addPendingOperation = useAppStore((state) => state.addPendingOperation);
+  const removePendingOperation = useAppStore((state) => state.removePendingOperation);
+
+  // the user cannot be active while the loader is shown, the auto-lock waits for the operation to settle
+  useEffect(() => {
+    if (!showLoading) return;
+    addPendingOperation();
+    return () => removePendingOperation();
+  }, [addPendingOperation, removePendingOperation, showLoading]);
+
   return useDelayedRender(
     delay ?? 500,
     showLoading
@@ -42,6 +42,7 @@ const OperationListItem: React.FC<SwapProps> = ({ tx, listType }) => {
   const addSuccessToast = useToastStore((state) => state.addSuccessToast);
   const lbtcUnit = useSettingsStore((state) => state.lbtcUnit);
   const txs = useWalletStore((state) => state.txs);
+  const isWatchOnly = useWalletStore((state) => state.isWatchOnly);
   const setModalClaimPegin = useBitcoinStore((state) => state.setModalClaimPegin);
 
   const isSwap = tx.type === TxType.Swap;
@@ -169,7 +170,7 @@ const OperationListItem: React.FC<SwapProps> = ({ tx, listType }) => {
                 </IonCol>
               )}
             </IonRow>
-            {checkIfPeginIsClaimable(tx) && (
+            {checkIfPeginIsClaimable(tx) && !isWatchOnly && (
               <IonRow className="ion-margin-top">
                 <IonCol size="11" offset="0.5">
                   <IonButton
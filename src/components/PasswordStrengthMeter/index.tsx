@@ -0,0 +1,21 @@
+import './style.scss';
+import classNames from 'classnames';
+
+import { passwordStrength } from '../../utils/password';
+
+// Estimated strength of a new PIN or password, the key encrypting the mnemonic
+const PasswordStrengthMeter: React.FC<{ password: string }> = ({ password }) => {
+  const { score, label } = passwordStrength(password);
+  return (
+    <div className="password-strength ion-margin-horizontal" data-testid="password-strength">
+      <div className="bars">
+        {[1, 2, 3, 4].map((bar) => (
+          <div key={bar} className={classNames('bar', { [`score-${score}`]: password && bar <= Math.max(score, 1) })} />
+        ))}
+      </div>
+      <div className={classNames('label', `score-${score}`)}>{password ? label : ''}</div>
+    </div>
+  );
+};
+
+export default PasswordStrengthMeter;
@@ -7,14 +7,16 @@ import './style.scss';
 
 interface PinInputProps {
   onPin: (newPin: string) => void;
-  on6digits: () => void;
+  onComplete: () => void;
   isWrongPin: boolean | null;
   inputRef: React.RefObject<HTMLIonInputElement>;
   pin: string;
   isLocked?: boolean;
+  // number of digits
+  length?: number;
 }
 
-const PinInput: React.FC<PinInputProps> = ({ onPin, on6digits, isWrongPin, inputRef, pin, isLocked }) => {
+const PinInput: React.FC<PinInputProps> = ({ onPin, onComplete, isWrongPin, inputRef, pin, isLocked, length = 6 }) => {
   useEffect(() => {
     setTimeout(() => {
       if (inputRef?.current) {
@@ -24,7 +26,7 @@ const PinInput: React.FC<PinInputProps> = ({ onPin, on6digits, isWrongPin, input
   });
 
   /**
-   * Set new pin digit until 6
+   * Set new pin digit until length
    * @param newPin
    */
   const handleNewPinDigit = (newPin: string | null | undefined) => {
@@ -36,8 +38,8 @@ const PinInput: React.FC<PinInputProps> = ({ onPin, on6digits, isWrongPin, input
       onPin('');
       return;
     }
-    if (newPin.length > 6) {
-      onPin(newPin.slice(6));
+    if (newPin.length > length) {
+      onPin(newPin.slice(length));
       return;
     }
     //
@@ -50,7 +52,7 @@ const PinInput: React.FC<PinInputProps> = ({ onPin, on6digits, isWrongPin, input
         <IonCol offset="1" size="10">
           <IonGrid className="pin-wrapper">
             <IonRow>
-              {[...new Array(6)].map((_, index) => (
+              {[...new Array(length)].map((_, index) => (
                 <IonCol key={index}>
                   <div
                     className={classNames('pin-input', {
@@ -68,13 +70,13 @@ const PinInput: React.FC<PinInputProps> = ({ onPin, on6digits, isWrongPin, input
               ref={inputRef}
               data-testid="pin-input"
               enterkeyhint="done"
-              onKeyDown={onPressEnterKeyFactory(on6digits)}
+              onKeyDown={onPressEnterKeyFactory(onComplete)}
               inputmode={isPlatform('android') ? 'tel' : 'numeric'}
               type={isPlatform('android') ? 'tel' : 'number'}
               value={pin}
               required={true}
               onIonChange={(e) => handleNewPinDigit(e.detail.value)}
-              maxlength={6}
+              maxlength={length}
             />
           </IonGrid>
         </IonCol>
@@ -5,9 +5,11 @@ import { useBitcoinStore } from '../../store/bitcoinStore';
 import { useSettingsStore } from '../../store/settingsStore';
 import { useToastStore } from '../../store/toastStore';
 import { useWalletStore } from '../../store/walletStore';
+import { checkPin } from '../../utils/actions';
 import { PIN_TIMEOUT_FAILURE, PIN_TIMEOUT_SUCCESS } from '../../utils/constants';
-import { ClaimPeginError, IncorrectPINError, NoClaimFoundError, PinDigitsError } from '../../utils/errors';
+import { ClaimPeginError, IncorrectPINError, NoClaimFoundError } from '../../utils/errors';
 import { sleep } from '../../utils/helpers';
+import { validatePassword } from '../../utils/password';
 import Loader from '../Loader';
 
 import PinModal from './index';
@@ -26,6 +28,7 @@ export const PinModalClaimPegin: React.FC = () => {
   const addSuccessToast = useToastStore((state) => state.addSuccessToast);
   const removeToastByType = useToastStore((state) => state.removeToastByType);
   const subscribeAllScripts = useWalletStore((state) => state.subscribeAllScripts);
+  const lockMode = useWalletStore((state) => state.lockMode);
   //
   const [needReset, setNeedReset] = useState<boolean>(false);
   const [isWrongPin, setIsWrongPin] = useState<boolean | null>(null);
@@ -57,9 +60,9 @@ export const PinModalClaimPegin: React.FC = () => {
 
   const handleClaimModalConfirm = async (pin: string) => {
     setIsLoading(true);
-    const validRegexp = new RegExp('\\d{6}');
-    if (!validRegexp.test(pin)) {
-      addErrorToast(PinDigitsError);
+    const pinError = validatePassword(pin, lockMode);
+    if (pinError) {
+      addErrorToast(pinError);
       await managePinError();
     }
     try {
@@ -69,7 +72,7 @@ export const PinModalClaimPegin: React.FC = () => {
             [modalClaimPegin.claimScriptToClaim]: pegins[modalClaimPegin.claimScriptToClaim],
           }
         : pegins;
-      const bitcoinService = await BitcoinService.fromPin(pin);
+      const bitcoinService = await checkPin(() => BitcoinService.fromPin(pin));
       bitcoinService
         .claimPegins(explorerBitcoinAPI, explorerLiquidAPI, pendingPegins, currentBtcBlockHeight, network)
         .then(async (successPegins) => {
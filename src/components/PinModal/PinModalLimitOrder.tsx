@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+
+import { SignerService } from '../../services/signerService';
+import { getNetReceivedSats } from '../../services/tdexService';
+import { useAssetStore } from '../../store/assetStore';
+import { previewLimitOrder, useLimitOrderStore } from '../../store/limitOrderStore';
+import { useToastStore } from '../../store/toastStore';
+import { useWalletStore } from '../../store/walletStore';
+import { checkPin } from '../../utils/actions';
+import { PIN_TIMEOUT_FAILURE, PIN_TIMEOUT_SUCCESS } from '../../utils/constants';
+import { AppError, IncorrectPINError, LimitOrderTargetNotMetError, MakeTradeError } from '../../utils/errors';
+import { sleep } from '../../utils/helpers';
+import { makeTrade, selectCoinsForTrade } from '../../utils/trade';
+import { fromSatoshiFixed } from '../../utils/unitConversion';
+import Loader from '../Loader';
+
+import PinModal from './index';
+
+export const PinModalLimitOrder: React.FC = () => {
+  const assets = useAssetStore((state) => state.assets);
+  const limitOrders = useLimitOrderStore((state) => state.limitOrders);
+  const modalLimitOrder = useLimitOrderStore((state) => state.modalLimitOrder);
+  const setModalLimitOrder = useLimitOrderStore((state) => state.setModalLimitOrder);
+  const reopenLimitOrder = useLimitOrderStore((state) => state.reopenLimitOrder);
+  const setLimitOrderExecuted = useLimitOrderStore((state) => state.setLimitOrderExecuted);
+  const setLimitOrderError = useLimitOrderStore((state) => state.setLimitOrderError);
+  const addErrorToast = useToastStore((state) => state.addErrorToast);
+  const addSuccessToast = useToastStore((state) => state.addSuccessToast);
+  const unlockOutpoints = useWalletStore((state) => state.unlockOutpoints);
+  //
+  const [needReset, setNeedReset] = useState<boolean>(false);
+  const [isWrongPin, setIsWrongPin] = useState<boolean | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const order = modalLimitOrder.orderId ? limitOrders[modalLimitOrder.orderId] : undefined;
+
+  const managePinError = async (closeModal = false) => {
+    setIsLoading(false);
+    setIsWrongPin(true);
+    setTimeout(() => {
+      setIsWrongPin(null);
+      setNeedReset(true);
+    }, PIN_TIMEOUT_FAILURE);
+    if (closeModal) {
+      await sleep(PIN_TIMEOUT_FAILURE);
+      setModalLimitOrder({ isOpen: false });
+    }
+  };
+
+  const managePinSuccess = async () => {
+    setIsLoading(false);
+    setIsWrongPin(false);
+    setTimeout(() => {
+      setIsWrongPin(null);
+      setNeedReset(true);
+    }, PIN_TIMEOUT_SUCCESS);
+    await sleep(PIN_TIMEOUT_SUCCESS);
+    setModalLimitOrder({ isOpen: false });
+  };
+
+  const handleLimitOrderModalConfirm = async (pin: string) => {
+    if (!order) return;
+    setIsLoading(true);
+    let signer;
+    try {
+      signer = await checkPin(() => SignerService.fromPassword(pin));
+    } catch (err) {
+      console.error(err);
+      addErrorToast(IncorrectPINError);
+      await managePinError();
+      return;
+    }
+    try {
+      // the price may have moved since the trigger
+      const best = await previewLimitOrder(order);
+      if (!best || getNetReceivedSats(best) < order.minReceiveSats) {
+        reopenLimitOrder(order.id);
+        throw LimitOrderTargetNotMetError;
+      }
+      const coinSelectionForTrade = await selectCoinsForTrade(order.send.sats, order.send.asset);
+      const { txid } = await makeTrade(
+        best.order,
+        { amount: order.send.sats, asset: order.send.asset },
+        coinSelectionForTrade,
+        signer,
+        { preview: { sent: best.send, received: best.receive, fee: best.fee } }
+      );
+      // Persist trade addresses
+      await useWalletStore.getState().getNextAddress(false);
+      await useWalletStore.getState().getNextAddress(true);
+      setLimitOrderExecuted(order.id, txid);
+      addSuccessToast('Limit order successfully executed');
+      await managePinSuccess();
+    } catch (err) {
+      console.error(err);
+      setLimitOrderError(order.id, (err as Error).message);
+      addErrorToast(err instanceof AppError ? err : MakeTradeError);
+      await unlockOutpoints();
+      await managePinError(true);
+    }
+  };
+
+  const describeOrder = () => {
+    if (!order) return '';
+    const sendAsset = assets[order.send.asset];
+    const receiveAsset = assets[order.receiveAsset];
+    return `${fromSatoshiFixed(order.send.sats, sendAsset?.precision ?? 8, sendAsset?.precision ?? 8)} ${
+      sendAsset?.ticker ?? ''
+    } for at least ${fromSatoshiFixed(
+      order.minReceiveSats,
+      receiveAsset?.precision ?? 8,
+      receiveAsset?.precision ?? 8
+    )} ${receiveAsset?.ticker ?? ''}`;
+  };
+
+  return (
+    <>
+      <Loader showLoading={isLoading} delay={0} />
+      <PinModal
+        open={(modalLimitOrder.isOpen && !!order) ?? false}
+        title="Limit order triggered"
+        description={`Enter your secret PIN to trade ${describeOrder()}`}
+        onConfirm={handleLimitOrderModalConfirm}
+        onClose={() => setModalLimitOrder({ isOpen: false })}
+        isWrongPin={isWrongPin}
+        needReset={needReset}
+        setNeedReset={setNeedReset}
+        setIsWrongPin={setIsWrongPin}
+      />
+    </>
+  );
+};
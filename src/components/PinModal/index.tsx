@@ -1,13 +1,33 @@
-import { IonContent, IonGrid, IonModal, useIonViewWillEnter, useIonViewWillLeave } from '@ionic/react';
+import {
+  IonButton,
+  IonCol,
+  IonContent,
+  IonGrid,
+  IonInput,
+  IonItem,
+  IonModal,
+  IonRow,
+  IonText,
+  useIonViewWillEnter,
+  useIonViewWillLeave,
+} from '@ionic/react';
 import React, { useCallback, useEffect, useRef, useState } from 'react';
 
+import { useAppStore } from '../../store/appStore';
 import { useToastStore } from '../../store/toastStore';
+import { useWalletStore } from '../../store/walletStore';
+import type { LockMode } from '../../utils/constants';
 import { PIN_TIMEOUT_FAILURE } from '../../utils/constants';
-import { PinDigitsError } from '../../utils/errors';
+import { PinLockedOutError } from '../../utils/errors';
+import { onPressEnterKeyFactory } from '../../utils/keyboard';
+import { validatePassword } from '../../utils/password';
 import Header from '../Header';
 import PageDescription from '../PageDescription';
+import PasswordStrengthMeter from '../PasswordStrengthMeter';
 import PinInput from '../PinInput';
 
+const formatDelay = (ms: number) => (ms > 60_000 ? `${Math.ceil(ms / 60_000)} min` : `${Math.ceil(ms / 1000)} s`);
+
 interface PinModalProps {
   open: boolean;
   title: string;
@@ -20,6 +40,12 @@ interface PinModalProps {
   setIsWrongPin: (b: boolean | null) => void;
   needReset: boolean;
   setNeedReset: (b: boolean) => void;
+  // the one of the wallet if not given, to set a new PIN or password in another mode
+  lockMode?: LockMode;
+  // rate the strength of a new PIN or password
+  showStrength?: boolean;
+  // a new PIN or password is set, which the lockout does not apply to
+  isNewPin?: boolean;
 }
 
 const PinModal: React.FC<PinModalProps> = ({
@@ -33,21 +59,32 @@ const PinModal: React.FC<PinModalProps> = ({
   setIsWrongPin,
   needReset,
   setNeedReset,
+  lockMode,
+  showStrength,
+  isNewPin,
 }) => {
+  const pinLockedUntil = useAppStore((state) => state.pinLockedUntil);
   const addErrorToast = useToastStore((state) => state.addErrorToast);
+  const walletLockMode = useWalletStore((state) => state.lockMode);
   //
+  const mode = lockMode ?? walletLockMode;
   const [pin, setPin] = useState('');
   const [isPinInputLocked, setIsPinInputLocked] = useState<boolean>(false);
+  const [now, setNow] = useState(Date.now());
   const inputRef = useRef<any>(null);
   const modalRef = useRef<any>(null);
 
+  const lockoutRemaining = !isNewPin && pinLockedUntil ? Math.max(pinLockedUntil - now, 0) : 0;
+
   const handleConfirm = useCallback(() => {
-    const validRegexp = new RegExp('\\d{6}');
-    if (validRegexp.test(pin)) {
+    // the time the modal was rendered at may be stale
+    const isLockedOut = !isNewPin && !!pinLockedUntil && pinLockedUntil > Date.now();
+    const error = isLockedOut ? PinLockedOutError : validatePassword(pin, mode);
+    if (!error) {
       setIsPinInputLocked(true);
       onConfirm(pin);
     } else {
-      addErrorToast(PinDigitsError);
+      addErrorToast(error);
       setIsWrongPin(true);
       setTimeout(() => {
         setIsWrongPin(null);
@@ -55,7 +92,16 @@ const PinModal: React.FC<PinModalProps> = ({
       }, PIN_TIMEOUT_FAILURE);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [pin]);
+  }, [pin, mode, pinLockedUntil, isNewPin]);
+
+  // Countdown of the lockout, refreshed on opening as it may have expired while closed
+  useEffect(() => {
+    if (!open) return;
+    setNow(Date.now());
+    if (!pinLockedUntil || pinLockedUntil <= Date.now()) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [open, pinLockedUntil]);
 
   // Make sure PIN input always has focus when clicking anywhere
   const handleClick = () => {
@@ -80,8 +126,9 @@ const PinModal: React.FC<PinModalProps> = ({
   });
 
   useEffect(() => {
-    if (pin.trim().length === 6) handleConfirm();
-  }, [handleConfirm, pin]);
+    // passwords are confirmed by the user, their length being unknown
+    if (mode.type === 'pin' && pin.trim().length === mode.length) handleConfirm();
+  }, [handleConfirm, mode, pin]);
 
   useEffect(() => {
     if (needReset) {
@@ -108,16 +155,58 @@ const PinModal: React.FC<PinModalProps> = ({
     >
       <IonContent scrollY={false}>
         <IonGrid className="ion-text-center ion-justify-content-center">
-          <Header title="INSERT PIN" hasBackButton={false} hasCloseButton={!!onClose} handleClose={onClose} />
-          <PageDescription centerDescription={true} description={description} title={title} />
-          <PinInput
-            isLocked={isPinInputLocked}
-            inputRef={inputRef}
-            isWrongPin={isWrongPin}
-            on6digits={handleConfirm}
-            onPin={setPin}
-            pin={pin}
+          <Header
+            title={mode.type === 'password' ? 'INSERT PASSWORD' : 'INSERT PIN'}
+            hasBackButton={false}
+            hasCloseButton={!!onClose}
+            handleClose={onClose}
           />
+          <PageDescription centerDescription={true} description={description} title={title} />
+          {mode.type === 'pin' ? (
+            <PinInput
+              isLocked={isPinInputLocked || !!lockoutRemaining}
+              inputRef={inputRef}
+              isWrongPin={isWrongPin}
+              onComplete={handleConfirm}
+              onPin={setPin}
+              pin={pin}
+              length={mode.length}
+            />
+          ) : (
+            <IonItem className="input ion-margin" color={isWrongPin ? 'danger' : undefined}>
+              <IonInput
+                ref={inputRef}
+                data-testid="password-input"
+                type="password"
+                autocomplete="off"
+                enterkeyhint="done"
+                placeholder="Password"
+                disabled={isPinInputLocked || !!lockoutRemaining}
+                value={pin}
+                onIonChange={(e) => setPin(e.detail.value ?? '')}
+                onKeyDown={onPressEnterKeyFactory(handleConfirm)}
+              />
+            </IonItem>
+          )}
+          {lockoutRemaining > 0 && (
+            <IonText color="danger" data-testid="pin-lockout">
+              <p>{`Too many failed attempts, try again in ${formatDelay(lockoutRemaining)}`}</p>
+            </IonText>
+          )}
+          {showStrength && <PasswordStrengthMeter password={pin} />}
+          {mode.type === 'password' && (
+            <IonRow className="ion-margin-vertical-x2">
+              <IonCol size="9" offset="1.5" sizeMd="6" offsetMd="3">
+                <IonButton
+                  className="main-button"
+                  disabled={!pin || isPinInputLocked || !!lockoutRemaining}
+                  onClick={handleConfirm}
+                >
+                  CONFIRM
+                </IonButton>
+              </IonCol>
+            </IonRow>
+          )}
         </IonGrid>
       </IonContent>
     </IonModal>
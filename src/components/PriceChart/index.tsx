@@ -0,0 +1,116 @@
+import './style.scss';
+import { IonCol, IonLabel, IonRow, IonSegment, IonSegmentButton, IonText } from '@ionic/react';
+import React, { useMemo, useState } from 'react';
+
+import { useAssetStore } from '../../store/assetStore';
+import { usePriceHistoryStore } from '../../store/priceHistoryStore';
+import { PRICE_CHART_RANGES } from '../../utils/constants';
+
+interface PriceChartProps {
+  // the two assets of the pair, in any order
+  assets: [string, string];
+}
+
+const WIDTH = 300;
+const HEIGHT = 120;
+const COLORS = ['#0fff00', '#ffd000', '#00c2ff', '#ff5c8a', '#b28dff'];
+
+// Spot price of every provider of the pair, recorded locally each time markets are fetched
+const PriceChart: React.FC<PriceChartProps> = ({ assets: [assetA, assetB] }) => {
+  const assets = useAssetStore((state) => state.assets);
+  const histories = usePriceHistoryStore((state) => state.histories);
+  const [range, setRange] = useState(PRICE_CHART_RANGES[0].duration);
+
+  const pairHistories = useMemo(
+    () =>
+      Object.values(histories).filter(
+        ({ baseAsset, quoteAsset }) =>
+          (baseAsset === assetA && quoteAsset === assetB) || (baseAsset === assetB && quoteAsset === assetA)
+      ),
+    [histories, assetA, assetB]
+  );
+
+  // All series are drawn as quote per base of the first market found
+  const [baseAsset, quoteAsset] = pairHistories.length
+    ? [pairHistories[0].baseAsset, pairHistories[0].quoteAsset]
+    : [assetA, assetB];
+
+  const series = useMemo(() => {
+    const since = Date.now() - range;
+    return pairHistories
+      .map((history) => ({
+        providerName: history.providerName,
+        points: history.snapshots
+          .filter((snapshot) => snapshot.timestamp >= since && snapshot.spotPrice)
+          .map(({ timestamp, spotPrice }) => ({
+            timestamp,
+            price: history.baseAsset === baseAsset ? spotPrice! : 1 / spotPrice!,
+          })),
+      }))
+      .filter(({ points }) => points.length > 1);
+  }, [pairHistories, range, baseAsset]);
+
+  const allPoints = series.flatMap(({ points }) => points);
+  const minPrice = Math.min(...allPoints.map(({ price }) => price));
+  const maxPrice = Math.max(...allPoints.map(({ price }) => price));
+  const minTimestamp = Math.min(...allPoints.map(({ timestamp }) => timestamp));
+  const maxTimestamp = Math.max(...allPoints.map(({ timestamp }) => timestamp));
+
+  const toCoordinates = ({ timestamp, price }: { timestamp: number; price: number }) => {
+    const x = maxTimestamp === minTimestamp ? 0 : ((timestamp - minTimestamp) / (maxTimestamp - minTimestamp)) * WIDTH;
+    const y = maxPrice === minPrice ? HEIGHT / 2 : HEIGHT - ((price - minPrice) / (maxPrice - minPrice)) * HEIGHT;
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  };
+
+  const formatPrice = (price: number) => `${Number(price.toPrecision(6))} ${assets[quoteAsset]?.ticker ?? ''}`;
+
+  return (
+    <div className="price-chart ion-margin-vertical">
+      <IonSegment value={String(range)} onIonChange={(e) => setRange(Number(e.detail.value))}>
+        {PRICE_CHART_RANGES.map(({ label, duration }) => (
+          <IonSegmentButton key={label} value={String(duration)}>
+            <IonLabel>{label}</IonLabel>
+          </IonSegmentButton>
+        ))}
+      </IonSegment>
+      {series.length === 0 ? (
+        <IonRow className="ion-text-center">
+          <IonCol>
+            <IonText className="price-chart-legend">
+              Not enough price history yet. Prices are recorded each time markets are refreshed.
+            </IonText>
+          </IonCol>
+        </IonRow>
+      ) : (
+        <>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none">
+            {series.map(({ providerName, points }, index) => (
+              <polyline
+                key={providerName + index}
+                points={points.map(toCoordinates).join(' ')}
+                stroke={COLORS[index % COLORS.length]}
+              />
+            ))}
+          </svg>
+          <IonRow className="price-chart-legend">
+            <IonCol size="6">{`Low ${formatPrice(minPrice)}`}</IonCol>
+            <IonCol size="6" className="ion-text-right">{`High ${formatPrice(maxPrice)}`}</IonCol>
+          </IonRow>
+          {series.map(({ providerName, points }, index) => (
+            <IonRow className="price-chart-legend" key={providerName + index}>
+              <IonCol size="7">
+                <span className="dot" style={{ backgroundColor: COLORS[index % COLORS.length] }} />
+                {providerName}
+              </IonCol>
+              <IonCol size="5" className="ion-text-right">
+                {`${formatPrice(points[points.length - 1].price)} per ${assets[baseAsset]?.ticker ?? ''}`}
+              </IonCol>
+            </IonRow>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PriceChart;
@@ -0,0 +1,84 @@
+import './style.scss';
+import { QRCodeImg } from '@cheprasov/react-qrcode';
+import { IonButton, IonCol, IonRow, IonText } from '@ionic/react';
+import React, { useEffect, useMemo, useState } from 'react';
+
+import { toQrFrames } from '../../utils/animatedQr';
+import { clipboardCopy } from '../../utils/clipboard';
+
+// delay between the frames of an animated QR code
+const QR_FRAME_INTERVAL = 300;
+
+interface PsetExportProps {
+  // base64
+  pset: string;
+  fileName?: string;
+}
+
+// PSET as base64 text, file and (animated) QR code, to be signed by another wallet or device
+const PsetExport: React.FC<PsetExportProps> = ({ pset, fileName = 'transaction.pset' }) => {
+  const frames = useMemo(() => toQrFrames(pset), [pset]);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    setFrameIndex(0);
+    if (frames.length < 2) return;
+    const interval = setInterval(() => setFrameIndex((index) => (index + 1) % frames.length), QR_FRAME_INTERVAL);
+    return () => clearInterval(interval);
+  }, [frames]);
+
+  const downloadFile = () => {
+    const url = URL.createObjectURL(new Blob([pset], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="pset-export">
+      <IonRow>
+        <IonCol size="8" offset="2">
+          <div className="qr-code-container">
+            <QRCodeImg value={frames[frameIndex] ?? ''} size={256} level="L" />
+          </div>
+          {frames.length > 1 && (
+            <IonText className="frame-counter">{`Animated QR code, frame ${frameIndex + 1} of ${
+              frames.length
+            }`}</IonText>
+          )}
+        </IonCol>
+      </IonRow>
+      <IonRow>
+        <IonCol>
+          <div className="pset-base64" data-testid="pset-base64">
+            {pset}
+          </div>
+        </IonCol>
+      </IonRow>
+      <IonRow className="ion-text-center">
+        <IonCol>
+          <IonButton
+            fill="clear"
+            className="sub-button"
+            onClick={() =>
+              clipboardCopy(pset, () => {
+                setCopied(true);
+                setTimeout(() => setCopied(false), 2000);
+              })
+            }
+          >
+            {copied ? 'Copied' : 'Copy'}
+          </IonButton>
+          <IonButton fill="clear" className="sub-button" onClick={downloadFile}>
+            Save file
+          </IonButton>
+        </IonCol>
+      </IonRow>
+    </div>
+  );
+};
+
+export default PsetExport;
@@ -1,8 +1,19 @@
 import { useEffect, useState } from 'react';
 
-import { discoverBestOrder, isTradeOrderV2, previewTradeV1, previewTradeV2 } from '../../services/tdexService';
+import {
+  canSplitOrder,
+  discoverBestOrder,
+  discoverBestRoute,
+  discoverBestSplit,
+  hasDirectMarket,
+  isTradeOrderV2,
+  previewTradeV1,
+  previewTradeV2,
+} from '../../services/tdexService';
+import type { TradeRoute, TradeSplit } from '../../services/tdexService';
 import type { TDEXMarket as TDEXMarketV1, TradeOrder as TradeOrderV1 } from '../../services/tdexService/v1/tradeCore';
 import type { TDEXMarket as TDEXMarketV2, TradeOrder as TradeOrderV2 } from '../../services/tdexService/v2/tradeCore';
+import { getReputationDiscoveryOpts } from '../../store/reputationStore';
 import { useWalletStore } from '../../store/walletStore';
 import { NoMarketsAvailableForAllPairsError } from '../../utils/errors';
 
@@ -24,6 +35,10 @@ export function useTradeState(markets: { v1: TDEXMarketV1[]; v2: TDEXMarketV2[]
     markets.v1.length > 0 ? markets.v1[0].quoteAsset : markets.v2.length > 0 ? markets.v2[0].quoteAsset : undefined
   );
   const [bestOrder, setBestOrder] = useState<TradeOrderV1 | TradeOrderV2>();
+  // only set if there is no direct market for the pair
+  const [bestRoute, setBestRoute] = useState<TradeRoute>();
+  // only set if no single provider can fill the order
+  const [bestSplit, setBestSplit] = useState<TradeSplit>();
   const [sendLoader, setSendLoader] = useState<boolean>(false);
   const [receiveLoader, setReceiveLoader] = useState<boolean>(false);
   const [focus, setFocus] = useState<'send' | 'receive'>();
@@ -52,6 +67,10 @@ export function useTradeState(markets: { v1: TDEXMarketV1[]; v2: TDEXMarketV2[]
     resetErrors();
   };
 
+  // sum of the parts of a split trade
+  const sumSplit = (split: TradeSplit, side: 'send' | 'receive' | 'fee') =>
+    split.parts.reduce((total, part) => total + part[side].sats, 0);
+
   const updateReceiveSats = async (newSendSats: number) => {
     if (newSendSats === 0) return;
     if (receiveAssetHasChanged) {
@@ -62,21 +81,60 @@ export function useTradeState(markets: { v1: TDEXMarketV1[]; v2: TDEXMarketV2[]
     try {
       setReceiveLoader(true);
       if (newSendSats > (sendBalance?.sats ?? 0)) throw new Error(`not enough balance`);
-      let preview;
-      const bestOrder = await discoverBestOrder(
-        markets,
-        sendAsset,
-        receiveAsset
-      )(newSendSats ?? 0, sendAsset as string);
-      if (isTradeOrderV2(bestOrder)) {
-        preview = await previewTradeV2(bestOrder, newSendSats, sendAsset as string);
-        if (!preview) throw new Error('no preview available');
-        // fee amount only available in v2
-        setTradeFeeSats(Number(preview.feeAmount));
-        setTradeFeeAsset(preview.feeAsset);
-      } else {
-        preview = await previewTradeV1(bestOrder, newSendSats, sendAsset as string);
+      if (!hasDirectMarket(markets, sendAsset, receiveAsset)) {
+        const route = await discoverBestRoute(
+          markets,
+          sendAsset,
+          receiveAsset,
+          getReputationDiscoveryOpts()
+        )(newSendSats, sendAsset);
+        const lastLeg = route.legs[route.legs.length - 1];
+        setTradeFeeSats(lastLeg.fee.sats);
+        setTradeFeeAsset(lastLeg.fee.asset);
+        setBestRoute(route);
+        setBestSplit(undefined);
+        setBestOrder(route.legs[0].order);
+        setReceiveSats(lastLeg.receive.sats);
+        resetErrors();
+        return;
+      }
+      let preview, bestOrder;
+      try {
+        bestOrder = await discoverBestOrder(
+          markets,
+          sendAsset,
+          receiveAsset,
+          getReputationDiscoveryOpts()
+        )(newSendSats ?? 0, sendAsset as string);
+        if (isTradeOrderV2(bestOrder)) {
+          preview = await previewTradeV2(bestOrder, newSendSats, sendAsset as string);
+          if (!preview) throw new Error('no preview available');
+          // fee amount only available in v2
+          setTradeFeeSats(Number(preview.feeAmount));
+          setTradeFeeAsset(preview.feeAsset);
+        } else {
+          preview = await previewTradeV1(bestOrder, newSendSats, sendAsset as string);
+        }
+      } catch (err) {
+        if (!canSplitOrder(markets, sendAsset, receiveAsset)) throw err;
+        console.debug('no provider can fill the order alone, splitting it', err);
+        const split = await discoverBestSplit(
+          markets,
+          sendAsset,
+          receiveAsset,
+          getReputationDiscoveryOpts()
+        )(newSendSats, sendAsset);
+        setTradeFeeSats(sumSplit(split, 'fee'));
+        setTradeFeeAsset(receiveAsset ?? '');
+        setBestRoute(undefined);
+        setBestSplit(split);
+        setBestOrder(split.parts[0].order);
+        setReceiveSats(sumSplit(split, 'receive'));
+        resetErrors();
+        return;
       }
+      setBestRoute(undefined);
+      setBestSplit(undefined);
       setBestOrder(bestOrder);
       setReceiveSats(Number(preview?.amount ?? 0));
       resetErrors();
@@ -94,18 +152,59 @@ export function useTradeState(markets: { v1: TDEXMarketV1[]; v2: TDEXMarketV2[]
     }
     try {
       setSendLoader(true);
+      if (!hasDirectMarket(markets, sendAsset, receiveAsset)) {
+        const route = await discoverBestRoute(
+          markets,
+          sendAsset,
+          receiveAsset,
+          getReputationDiscoveryOpts()
+        )(newReceiveSats ?? 0, receiveAsset);
+        const lastLeg = route.legs[route.legs.length - 1];
+        if (route.legs[0].send.sats > (sendBalance?.sats ?? 0)) throw new Error(`not enough balance`);
+        setTradeFeeSats(lastLeg.fee.sats);
+        setTradeFeeAsset(lastLeg.fee.asset);
+        setBestRoute(route);
+        setBestSplit(undefined);
+        setBestOrder(route.legs[0].order);
+        setSendSats(route.legs[0].send.sats);
+        resetErrors();
+        return;
+      }
       let bestOrder, preview;
-      bestOrder = await discoverBestOrder(
-        markets,
-        sendAsset,
-        receiveAsset
-      )(newReceiveSats ?? 0, receiveAsset as string);
-      if (isTradeOrderV2(bestOrder)) {
-        preview = await previewTradeV2(bestOrder, newReceiveSats ?? 0, receiveAsset as string);
-      } else {
-        preview = await previewTradeV1(bestOrder, newReceiveSats ?? 0, receiveAsset as string);
+      try {
+        bestOrder = await discoverBestOrder(
+          markets,
+          sendAsset,
+          receiveAsset,
+          getReputationDiscoveryOpts()
+        )(newReceiveSats ?? 0, receiveAsset as string);
+        if (isTradeOrderV2(bestOrder)) {
+          preview = await previewTradeV2(bestOrder, newReceiveSats ?? 0, receiveAsset as string);
+        } else {
+          preview = await previewTradeV1(bestOrder, newReceiveSats ?? 0, receiveAsset as string);
+        }
+      } catch (err) {
+        if (!canSplitOrder(markets, sendAsset, receiveAsset)) throw err;
+        console.debug('no provider can fill the order alone, splitting it', err);
+        const split = await discoverBestSplit(
+          markets,
+          sendAsset,
+          receiveAsset,
+          getReputationDiscoveryOpts()
+        )(newReceiveSats ?? 0, receiveAsset);
+        if (sumSplit(split, 'send') > (sendBalance?.sats ?? 0)) throw new Error(`not enough balance`);
+        setTradeFeeSats(sumSplit(split, 'fee'));
+        setTradeFeeAsset(receiveAsset);
+        setBestRoute(undefined);
+        setBestSplit(split);
+        setBestOrder(split.parts[0].order);
+        setSendSats(sumSplit(split, 'send'));
+        resetErrors();
+        return;
       }
       if (Number(preview?.amount ?? 0) > (sendBalance?.sats ?? 0)) throw new Error(`not enough balance`);
+      setBestRoute(undefined);
+      setBestSplit(undefined);
       setBestOrder(bestOrder);
       setSendSats(Number(preview?.amount ?? 0));
       resetErrors();
@@ -200,5 +299,7 @@ export function useTradeState(markets: { v1: TDEXMarketV1[]; v2: TDEXMarketV2[]
     setReceiveAssetHasChanged,
     tradeFeeSats,
     tradeFeeAsset,
+    bestRoute,
+    bestSplit,
   ] as const;
 }
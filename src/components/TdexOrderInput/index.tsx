@@ -4,7 +4,8 @@ import type { Dispatch, SetStateAction } from 'react';
 import React, { useEffect } from 'react';
 
 import swap from '../../assets/img/swap.svg';
-import { getTradablesAssets } from '../../services/tdexService';
+import { getRoutableAssets, getTradablesAssets } from '../../services/tdexService';
+import type { TradeRoute, TradeSplit } from '../../services/tdexService';
 import type { TDEXMarket as TDEXMarketV1, TradeOrder as TradeOrderV1 } from '../../services/tdexService/v1/tradeCore';
 import type { TDEXMarket as TDEXMarketV2, TradeOrder as TradeOrderV2 } from '../../services/tdexService/v2/tradeCore';
 import { useAssetStore } from '../../store/assetStore';
@@ -32,12 +33,18 @@ export interface TdexOrderInputResult {
   send: SatsAsset & AmountAndUnit;
   receive: SatsAsset & AmountAndUnit;
   providerVersion: 'v1' | 'v2';
+  // set for multi-hop trades, `order` is then the order of the first leg
+  route?: TradeRoute;
+  // set for trades split across providers, `order` is then the order of the first part
+  split?: TradeSplit;
 }
 
 type Props = {
   markets: { v1: TDEXMarketV1[]; v2: TDEXMarketV2[] };
   onInput: Dispatch<SetStateAction<TdexOrderInputResult | undefined>>;
   bestOrder?: TradeOrderV1 | TradeOrderV2;
+  bestRoute?: TradeRoute;
+  bestSplit?: TradeSplit;
   sendAsset?: string;
   sendSats?: number;
   receiveAsset?: string;
@@ -61,10 +68,13 @@ type Props = {
 // let the user chooses a tradable asset pair
 // and inputs an amount of satoshis to sell or to buy
 // if found, it returns best orders via `onInput` property
+// pairs without direct market are traded through an intermediate asset (see `bestRoute`)
 export const TdexOrderInput: React.FC<Props> = ({
   markets,
   onInput,
   bestOrder,
+  bestRoute,
+  bestSplit,
   sendAsset,
   sendSats,
   receiveAsset,
@@ -150,11 +160,13 @@ export const TdexOrderInput: React.FC<Props> = ({
           send: { ...sendValues, ...createAmountAndUnit(sendValues) },
           receive: { ...receiveValues, ...createAmountAndUnit(receiveValues) },
           providerVersion: version,
+          route: bestRoute,
+          split: bestSplit,
         });
       }
     })();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [bestOrder]);
+  }, [bestOrder, bestRoute, bestSplit]);
 
   return (
     <div className="container">
@@ -172,7 +184,7 @@ export const TdexOrderInput: React.FC<Props> = ({
           setHasBeenSwapped(false);
           setSendAmount(sats).catch(console.error);
         }}
-        searchableAssets={receiveAsset ? getTradablesAssets(markets, receiveAsset).map((h) => assets[h]) : []}
+        searchableAssets={receiveAsset ? getRoutableAssets(markets, receiveAsset).map((h) => assets[h]) : []}
         onFocus={() => setFocus('send')}
       />
       <div className="exchange-divider ion-activatable" onClick={swapAssets}>
@@ -193,7 +205,7 @@ export const TdexOrderInput: React.FC<Props> = ({
           setHasBeenSwapped(false);
           setReceiveAmount(sats).catch(console.error);
         }}
-        searchableAssets={sendAsset ? getTradablesAssets(markets, sendAsset).map((h) => assets[h]) : []}
+        searchableAssets={sendAsset ? getRoutableAssets(markets, sendAsset).map((h) => assets[h]) : []}
         onFocus={() => setFocus('receive')}
       />
     </div>
@@ -0,0 +1,111 @@
+import '../OperationListItem/style.scss';
+import { IonCol, IonItem, IonRow, IonText } from '@ionic/react';
+import classNames from 'classnames';
+import moment from 'moment';
+import { useHistory } from 'react-router';
+
+import { useAssetStore } from '../../store/assetStore';
+import { useSettingsStore } from '../../store/settingsStore';
+import type { TradeRecord } from '../../store/tradeStore';
+import { summarizeTrades, TradeState } from '../../store/tradeStore';
+import { isLbtc, isLbtcTicker } from '../../utils/helpers';
+import { fromSatoshiFixed } from '../../utils/unitConversion';
+import CurrencyIcon from '../CurrencyIcon';
+
+interface TradeListItemProps {
+  // a single trade or all the trades of a route or split order, sorted by creation
+  trades: TradeRecord[];
+}
+
+// The state of a group is the one of its less advanced trade, failed trades apart
+const getGroupState = (trades: TradeRecord[]): TradeState => {
+  const succeeded = trades.filter((trade) => trade.state !== TradeState.Failed);
+  if (succeeded.length === 0) return TradeState.Failed;
+  const order = Object.values(TradeState);
+  return succeeded.map((trade) => trade.state).sort((a, b) => order.indexOf(a) - order.indexOf(b))[0];
+};
+
+const TradeListItem: React.FC<TradeListItemProps> = ({ trades }) => {
+  const network = useSettingsStore((state) => state.network);
+  const assets = useAssetStore((state) => state.assets);
+  const lbtcUnit = useSettingsStore((state) => state.lbtcUnit);
+  const history = useHistory();
+
+  const [first] = trades;
+  const last = trades[trades.length - 1];
+  const { sent, received } = summarizeTrades(trades);
+  const state = getGroupState(trades);
+  const providers = Array.from(new Set(trades.map((trade) => trade.provider.name)));
+
+  const formatAmount = ({ sats, asset }: { sats: number; asset: string }) =>
+    fromSatoshiFixed(
+      sats,
+      assets[asset]?.precision ?? 8,
+      assets[asset]?.precision ?? 8,
+      isLbtcTicker(assets[asset]?.ticker) ? lbtcUnit : undefined
+    );
+
+  return (
+    <IonItem
+      className="list-item transaction-item open"
+      onClick={() => history.push(`/tradesummary/${last.txid ?? last.id}`)}
+    >
+      <IonRow>
+        <IonCol className="icon" size="1">
+          <CurrencyIcon assetHash={sent.asset} />
+          <CurrencyIcon assetHash={received.asset} />
+        </IonCol>
+        <IonCol size="5">
+          <div className="asset">{`${assets[sent.asset]?.ticker}/${assets[received.asset]?.ticker}`}</div>
+        </IonCol>
+        <IonCol size="6">
+          <IonRow>
+            <IonCol className="justify-end trade-amount d-flex">
+              {`+${formatAmount(received)}`}
+              <span className="ticker">{assets[received.asset]?.ticker}</span>
+            </IonCol>
+          </IonRow>
+          <IonRow>
+            <IonCol className="justify-end trade-amount d-flex">
+              {`-${formatAmount(sent)}`}
+              <span className="ticker">{isLbtc(sent.asset, network) ? lbtcUnit : assets[sent.asset]?.ticker}</span>
+            </IonCol>
+          </IonRow>
+        </IonCol>
+      </IonRow>
+
+      <div className="extra-infos">
+        <IonRow className="mt-1">
+          <IonCol offset="1">
+            <div className="time">{moment(first.createdAt).format('DD MMM YYYY HH:mm:ss')}</div>
+          </IonCol>
+        </IonRow>
+        <IonRow className="mt-1">
+          <IonCol offset="1">
+            {first.group?.kind === 'split' ? `Split across ${providers.join(', ')}` : providers.join(' → ')}
+          </IonCol>
+          <IonCol className="ion-text-right" size="5" offset="1">
+            <IonText>
+              <span
+                className={classNames('status-text', {
+                  confirmed: state === TradeState.Confirmed,
+                  pending: state !== TradeState.Confirmed && state !== TradeState.Failed,
+                  failed: state === TradeState.Failed,
+                })}
+              >
+                {state}
+              </span>
+            </IonText>
+          </IonCol>
+        </IonRow>
+        {last.txid && (
+          <IonRow className="mt-1">
+            <IonCol offset="1">TxID: {last.txid}</IonCol>
+          </IonRow>
+        )}
+      </div>
+    </IonItem>
+  );
+};
+
+export default TradeListItem;
@@ -0,0 +1,18 @@
+import { IonCol, IonRow, IonText } from '@ionic/react';
+
+import { useWalletStore } from '../../store/walletStore';
+
+// Shown in place of the signing actions of a watch-only wallet
+const WatchOnlyNotice: React.FC = () => {
+  const isWatchOnly = useWalletStore((state) => state.isWatchOnly);
+  if (!isWatchOnly) return null;
+  return (
+    <IonRow className="ion-text-center ion-margin-top" data-testid="watch-only-notice">
+      <IonCol>
+        <IonText color="warning">This wallet is watch-only, transactions cannot be signed from this device.</IonText>
+      </IonCol>
+    </IonRow>
+  );
+};
+
+export default WatchOnlyNotice;
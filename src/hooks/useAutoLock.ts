@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+import { useAppStore } from '../store/appStore';
+import { useSettingsStore } from '../store/settingsStore';
+import { useWalletStore } from '../store/walletStore';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart', 'wheel'];
+
+// Locks the wallet after the auto-lock timeout without user activity, the returned function locking it at once
+// Only wallets protected by a PIN are locked, a watch-only wallet having none
+// The idle time is counted from the end of the operations in flight, a lock requested meanwhile waiting for them
+export function useAutoLock(): () => void {
+  const autoLockTimeout = useSettingsStore((state) => state.autoLockTimeout);
+  const setIsLocked = useAppStore((state) => state.setIsLocked);
+  const hasPendingOperations = useAppStore((state) => state.pendingOperations > 0);
+  const isAuthorized = useWalletStore((state) => state.isAuthorized);
+  const setIsAuthorized = useWalletStore((state) => state.setIsAuthorized);
+  const hasPin = useWalletStore(
+    (state) => !!state.encryptedMnemonic || Object.values(state.walletsData).some((data) => data.encryptedMnemonic)
+  );
+  const canLock = isAuthorized && hasPin && autoLockTimeout !== null;
+  const isLockDeferredRef = useRef(false);
+
+  const lock = useCallback(() => {
+    if (!canLock) return;
+    if (useAppStore.getState().pendingOperations > 0) {
+      isLockDeferredRef.current = true;
+      return;
+    }
+    // locked first, the wallet not being seen as a new one if the app is killed in between
+    setIsLocked(true);
+    setIsAuthorized(false);
+  }, [canLock, setIsAuthorized, setIsLocked]);
+
+  useEffect(() => {
+    if (hasPendingOperations || !isLockDeferredRef.current) return;
+    isLockDeferredRef.current = false;
+    lock();
+  }, [hasPendingOperations, lock]);
+
+  useEffect(() => {
+    if (!canLock || autoLockTimeout === null || hasPendingOperations) return;
+    let timeout = setTimeout(lock, autoLockTimeout);
+    const onActivity = () => {
+      clearTimeout(timeout);
+      timeout = setTimeout(lock, autoLockTimeout);
+    };
+    ACTIVITY_EVENTS.forEach((event) => document.addEventListener(event, onActivity, { passive: true }));
+    return () => {
+      clearTimeout(timeout);
+      ACTIVITY_EVENTS.forEach((event) => document.removeEventListener(event, onActivity));
+    };
+  }, [autoLockTimeout, canLock, hasPendingOperations, lock]);
+
+  return lock;
+}
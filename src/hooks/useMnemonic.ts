@@ -1,21 +1,29 @@
 import { useState } from 'react';
 
+import type { MnemonicWordCount } from '../utils/constants';
+import { MNEMONIC_WORD_COUNTS } from '../utils/constants';
+
+const isWordCount = (count: number): count is MnemonicWordCount =>
+  (MNEMONIC_WORD_COUNTS as readonly number[]).includes(count);
+
 export const useMnemonic = (
   initialMnemonic: string[] = Array(12).fill('')
-): [string[], (word: string, index: number) => void] => {
+): [string[], (word: string, index: number) => void, (wordCount: MnemonicWordCount) => void] => {
   const [mnemonic, setMnemonic] = useState<string[]>(initialMnemonic);
   const setMnemonicWord = (word: string, index: number) => {
-    const mnemonicCopy = [...mnemonic];
     // Check if string has multiple words
-    const wordsArray = word.trim().split(' ').slice(0, 12);
+    const wordsArray = word.trim().split(/\s+/);
     if (wordsArray.length > 1) {
-      wordsArray.forEach((w, i) => {
-        mnemonicCopy[i] = w.trim().toLowerCase();
-      });
+      // a whole pasted mnemonic sets the number of words
+      const length = isWordCount(wordsArray.length) ? wordsArray.length : mnemonic.length;
+      setMnemonic(Array.from({ length }, (_, i) => wordsArray[i]?.toLowerCase() ?? mnemonic[i] ?? ''));
     } else {
+      const mnemonicCopy = [...mnemonic];
       mnemonicCopy[index] = word.trim().toLowerCase();
+      setMnemonic(mnemonicCopy);
     }
-    setMnemonic(mnemonicCopy);
   };
-  return [mnemonic, setMnemonicWord];
+  const setWordCount = (wordCount: MnemonicWordCount) =>
+    setMnemonic((prev) => Array.from({ length: wordCount }, (_, i) => prev[i] ?? ''));
+  return [mnemonic, setMnemonicWord, setWordCount];
 };
@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+
+import { useWalletStore } from '../store/walletStore';
+import { outpointToString } from '../utils/helpers';
+
+export interface WalletCoin {
+  outpointStr: string;
+  asset: string;
+  value: number;
+  // undefined while unconfirmed
+  height?: number;
+  address?: string;
+  derivationPath?: string;
+}
+
+// Unlocked coins of the wallet by asset, largest first
+export const useWalletCoins = (): Record<string, WalletCoin[]> => {
+  const txs = useWalletStore((state) => state.txs);
+  const outputHistory = useWalletStore((state) => state.outputHistory);
+  const lockedOutpoints = useWalletStore((state) => state.lockedOutpoints);
+  const scriptDetails = useWalletStore((state) => state.scriptDetails);
+  const [coinsByAsset, setCoinsByAsset] = useState<Record<string, WalletCoin[]>>({});
+
+  // coins are computed from the wallet state, recompute them when it changes
+  useEffect(() => {
+    const { computeUtxosFromTxs, getWitnessUtxo } = useWalletStore.getState();
+    const byAsset: Record<string, WalletCoin[]> = {};
+    for (const utxo of computeUtxosFromTxs()) {
+      if (!utxo?.blindingData) continue;
+      const script = getWitnessUtxo(utxo.txid, utxo.vout)?.script.toString('hex');
+      const details = script ? scriptDetails[script] : undefined;
+      const coin: WalletCoin = {
+        outpointStr: outpointToString(utxo),
+        asset: utxo.blindingData.asset,
+        value: utxo.blindingData.value,
+        height: txs[utxo.txid]?.height || undefined,
+        address: details?.confidentialAddress,
+        derivationPath: details?.derivationPath,
+      };
+      byAsset[coin.asset] = [...(byAsset[coin.asset] ?? []), coin];
+    }
+    for (const coins of Object.values(byAsset)) coins.sort((a, b) => b.value - a.value);
+    setCoinsByAsset(byAsset);
+  }, [txs, outputHistory, lockedOutpoints, scriptDetails]);
+
+  return coinsByAsset;
+};
@@ -12,6 +12,7 @@ import { routerLinks } from '../../routes';
 import { useAppStore } from '../../store/appStore';
 import { useToastStore } from '../../store/toastStore';
 import { useWalletStore } from '../../store/walletStore';
+import { checkPin } from '../../utils/actions';
 import { PIN_TIMEOUT_FAILURE, PIN_TIMEOUT_SUCCESS } from '../../utils/constants';
 import { IncorrectPINError } from '../../utils/errors';
 
@@ -27,7 +28,7 @@ export const Backup: React.FC<RouteComponentProps> = ({ history }) => {
 
   const handlePinConfirm = async (pin: string) => {
     try {
-      const mnemonic = await decryptMnemonic(pin);
+      const mnemonic = await checkPin(() => decryptMnemonic(pin));
       setIsWrongPin(false);
       setTimeout(() => {
         history.push({
@@ -0,0 +1,369 @@
+import './style.scss';
+import {
+  IonButton,
+  IonCol,
+  IonContent,
+  IonGrid,
+  IonIcon,
+  IonInput,
+  IonItem,
+  IonLabel,
+  IonList,
+  IonListHeader,
+  IonPage,
+  IonRow,
+  IonSelect,
+  IonSelectOption,
+  IonText,
+  useIonViewDidLeave,
+} from '@ionic/react';
+import { addCircleOutline, cloudUploadOutline, trashOutline } from 'ionicons/icons';
+import type { Pset } from 'liquidjs-lib';
+import { address as laddress, networks } from 'liquidjs-lib';
+import React, { useRef, useState } from 'react';
+import type { RouteComponentProps } from 'react-router';
+
+import ButtonsMainSub from '../../components/ButtonsMainSub';
+import Header from '../../components/Header';
+import Loader from '../../components/Loader';
+import PageDescription from '../../components/PageDescription';
+import PinModal from '../../components/PinModal';
+import WatchOnlyNotice from '../../components/WatchOnlyNotice';
+import { BlinderService } from '../../services/blinderService';
+import { chainSource } from '../../services/chainSource';
+import { SignerService } from '../../services/signerService';
+import { useAssetStore } from '../../store/assetStore';
+import { useSettingsStore } from '../../store/settingsStore';
+import { useToastStore } from '../../store/toastStore';
+import type { Recipient, SentRecipient } from '../../store/walletStore';
+import { useWalletStore } from '../../store/walletStore';
+import { checkPin } from '../../utils/actions';
+import type { BatchRow } from '../../utils/batch';
+import { parseBatchCsv } from '../../utils/batch';
+import { LBTC_ASSET, PIN_TIMEOUT_FAILURE, PIN_TIMEOUT_SUCCESS } from '../../utils/constants';
+import { decrypt } from '../../utils/crypto';
+import { IncorrectPINError, WithdrawTxError } from '../../utils/errors';
+import { isLbtcTicker } from '../../utils/helpers';
+import { makeSendPset } from '../../utils/transaction';
+import { fromSatoshiFixed, toSatoshi } from '../../utils/unitConversion';
+
+const emptyRow: BatchRow = { address: '', asset: '', amount: '' };
+
+export const BatchSend: React.FC<RouteComponentProps> = ({ history }) => {
+  const assets = useAssetStore((state) => state.assets);
+  const network = useSettingsStore((state) => state.network);
+  const lbtcUnit = useSettingsStore((state) => state.lbtcUnit);
+  const addErrorToast = useToastStore((state) => state.addErrorToast);
+  const addSuccessToast = useToastStore((state) => state.addSuccessToast);
+  const balances = useWalletStore((state) => state.balances);
+  const encryptedMnemonic = useWalletStore((state) => state.encryptedMnemonic);
+  const unlockOutpoints = useWalletStore((state) => state.unlockOutpoints);
+  const sync = useWalletStore((state) => state.sync);
+  const subscribeAllScripts = useWalletStore((state) => state.subscribeAllScripts);
+  const addSentRecipients = useWalletStore((state) => state.addSentRecipients);
+  const isWatchOnly = useWalletStore((state) => state.isWatchOnly);
+  //
+  const [rows, setRows] = useState<BatchRow[]>([emptyRow]);
+  const [csvError, setCsvError] = useState('');
+  // Pset built for review, its inputs are locked by the coin selection for a minute at most
+  const [review, setReview] = useState<{ pset: Pset; feeAmount: number; recipients: SentRecipient[] }>();
+  const [loading, setLoading] = useState(false);
+  const [modalOpen, setModalOpen] = useState(false);
+  const [needReset, setNeedReset] = useState<boolean>(false);
+  const [isWrongPin, setIsWrongPin] = useState<boolean | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useIonViewDidLeave(() => {
+    if (review) unlockOutpoints();
+    setReview(undefined);
+  });
+
+  const unitOf = (asset: string) => (isLbtcTicker(assets[asset]?.ticker || '') ? lbtcUnit : undefined);
+  const tickerOf = (asset: string) => unitOf(asset) ?? assets[asset]?.ticker ?? asset.slice(0, 8);
+  const formatSats = (sats: number, asset: string) =>
+    fromSatoshiFixed(sats, assets[asset]?.precision, assets[asset]?.precision, unitOf(asset));
+
+  const toRecipient = (row: BatchRow): Recipient => ({
+    address: row.address.trim(),
+    asset: row.asset,
+    value: toSatoshi(Number(row.amount), assets[row.asset]?.precision, unitOf(row.asset)),
+  });
+
+  const getRowError = (row: BatchRow): string | undefined => {
+    if (!row.address || !row.asset || !row.amount) return;
+    try {
+      laddress.toOutputScript(row.address.trim(), networks[network]);
+    } catch (_) {
+      return 'Invalid address';
+    }
+    if (!balances?.[row.asset]) return 'Asset not in your wallet';
+    const value = Number(row.amount);
+    if (isNaN(value) || value <= 0) return 'Invalid amount';
+    if (!Number.isSafeInteger(toRecipient(row).value)) return 'Too many decimals';
+  };
+
+  // Total to send per asset, in satoshis
+  const totals: Record<string, number> = {};
+  for (const row of rows) {
+    if (!row.asset || !(Number(row.amount) > 0)) continue;
+    totals[row.asset] = (totals[row.asset] ?? 0) + toRecipient(row).value;
+  }
+
+  const getGlobalError = (): string | undefined => {
+    for (const [asset, sats] of Object.entries(totals)) {
+      if (sats > (balances?.[asset]?.sats ?? 0)) return `Total ${tickerOf(asset)} is greater than your balance`;
+    }
+    if (!balances?.[LBTC_ASSET[network].assetHash]?.sats) return 'You need LBTC to pay fees';
+  };
+  const globalError = getGlobalError();
+
+  const isValid =
+    rows.length > 0 && rows.every((row) => row.address && row.asset && row.amount && !getRowError(row)) && !globalError;
+
+  const updateRow = (index: number, update: Partial<BatchRow>) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...update } : row)));
+  };
+
+  const handleCsvFile = async (file?: File) => {
+    if (!file) return;
+    try {
+      const imported = parseBatchCsv(await file.text(), assets);
+      if (imported.length === 0) throw new Error('No recipient found in file');
+      // Replace the form if it has not been filled yet
+      setRows((prev) => [...prev.filter((row) => row.address || row.amount), ...imported]);
+      setCsvError('');
+    } catch (err) {
+      setCsvError((err as Error).message);
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleReview = async () => {
+    if (!isValid) return;
+    try {
+      setLoading(true);
+      const recipients = rows.map(toRecipient);
+      const { pset, feeAmount, recipientVouts } = await makeSendPset(recipients, LBTC_ASSET[network].assetHash);
+      setReview({
+        pset,
+        feeAmount,
+        recipients: recipients.map((recipient, index) => ({ ...recipient, vout: recipientVouts[index] })),
+      });
+    } catch (err) {
+      console.error(err);
+      addErrorToast(WithdrawTxError);
+      unlockOutpoints();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = () => {
+    unlockOutpoints();
+    setReview(undefined);
+  };
+
+  const signAndBroadcast = async (pin: string) => {
+    if (!review) return;
+    try {
+      setLoading(true);
+      try {
+        // Check pin
+        if (!encryptedMnemonic) throw new Error('No mnemonic found in wallet');
+        await checkPin(() => decrypt(encryptedMnemonic, pin));
+        setIsWrongPin(false);
+        setTimeout(() => {
+          setIsWrongPin(null);
+          setNeedReset(true);
+        }, PIN_TIMEOUT_SUCCESS);
+      } catch (_) {
+        throw IncorrectPINError;
+      }
+      const blinder = new BlinderService();
+      const blindedPset = await blinder.blindPset(review.pset);
+      const signer = await SignerService.fromPassword(pin);
+      const signedPset = await signer.signPset(blindedPset);
+      const toBroadcast = signer.finalizeAndExtract(signedPset);
+      const txid = await chainSource.broadcastTransaction(toBroadcast);
+      addSentRecipients(txid, review.recipients);
+      addSuccessToast(`Transaction broadcasted. ${review.recipients.length} recipients paid.`);
+      setReview(undefined);
+      setRows([emptyRow]);
+      history.replace(`/transaction/${txid}`);
+    } catch (err) {
+      console.error(err);
+      setIsWrongPin(true);
+      setTimeout(() => {
+        setIsWrongPin(null);
+        setNeedReset(true);
+      }, PIN_TIMEOUT_FAILURE);
+      addErrorToast(err === IncorrectPINError ? IncorrectPINError : WithdrawTxError);
+      if (err !== IncorrectPINError) {
+        // Revert to previous state
+        setReview(undefined);
+        unlockOutpoints();
+        await sync();
+        await subscribeAllScripts();
+      }
+    } finally {
+      setModalOpen(false);
+      setLoading(false);
+    }
+  };
+
+  const renderReview = (current: NonNullable<typeof review>) => (
+    <>
+      <IonList>
+        <IonListHeader>Recipients</IonListHeader>
+        {current.recipients.map((recipient, index) => (
+          <IonItem className="list-item" key={index}>
+            <IonGrid>
+              <IonRow>
+                <IonCol size="7" className="batch-address">
+                  {recipient.address}
+                </IonCol>
+                <IonCol size="5" className="ion-text-right">
+                  {`${formatSats(recipient.value, recipient.asset)} ${tickerOf(recipient.asset)}`}
+                </IonCol>
+              </IonRow>
+            </IonGrid>
+          </IonItem>
+        ))}
+        <IonListHeader>Total</IonListHeader>
+        {Object.entries(totals).map(([asset, sats]) => (
+          <IonItem className="list-item" key={asset}>
+            <IonLabel>{tickerOf(asset)}</IonLabel>
+            <IonText slot="end">{formatSats(sats, asset)}</IonText>
+          </IonItem>
+        ))}
+        <IonItem className="list-item">
+          <IonLabel>Network fee</IonLabel>
+          <IonText slot="end">
+            {`${formatSats(current.feeAmount, LBTC_ASSET[network].assetHash)} ${tickerOf(
+              LBTC_ASSET[network].assetHash
+            )}`}
+          </IonText>
+        </IonItem>
+      </IonList>
+      <IonRow className="ion-margin-vertical-x2">
+        <IonCol>
+          <ButtonsMainSub
+            mainTitle="CONFIRM"
+            subTitle="EDIT"
+            mainOnClick={() => setModalOpen(true)}
+            subOnClick={handleEdit}
+          />
+        </IonCol>
+      </IonRow>
+    </>
+  );
+
+  const renderForm = () => (
+    <>
+      <PageDescription
+        description="Pay several recipients in a single transaction. Import a CSV file of address, asset and amount lines, the asset being its ticker or hash and L-BTC amounts being in your preferred unit."
+        title="Recipients"
+      />
+      {rows.map((row, index) => (
+        <div className="batch-row" key={index}>
+          <IonItem className="input">
+            <IonInput
+              inputmode="text"
+              placeholder="Address"
+              value={row.address}
+              onIonChange={(e) => updateRow(index, { address: e.detail.value || '' })}
+            />
+            <IonButton
+              fill="clear"
+              slot="end"
+              disabled={rows.length === 1}
+              onClick={() => setRows((prev) => prev.filter((_, i) => i !== index))}
+            >
+              <IonIcon icon={trashOutline} slot="icon-only" />
+            </IonButton>
+          </IonItem>
+          <IonItem className="input">
+            <IonSelect
+              placeholder="Asset"
+              value={row.asset}
+              onIonChange={(e) => updateRow(index, { asset: e.detail.value })}
+            >
+              {Object.keys(balances ?? {}).map((asset) => (
+                <IonSelectOption key={asset} value={asset}>
+                  {tickerOf(asset)}
+                </IonSelectOption>
+              ))}
+            </IonSelect>
+            <IonInput
+              inputmode="decimal"
+              placeholder="Amount"
+              value={row.amount}
+              onIonChange={(e) => updateRow(index, { amount: e.detail.value || '' })}
+            />
+          </IonItem>
+          {getRowError(row) && <IonText color="danger">{getRowError(row)}</IonText>}
+        </div>
+      ))}
+      <IonRow className="ion-justify-content-between ion-margin-horizontal">
+        <IonButton fill="clear" onClick={() => setRows((prev) => [...prev, emptyRow])}>
+          <IonIcon icon={addCircleOutline} slot="start" />
+          Add recipient
+        </IonButton>
+        <IonButton fill="clear" onClick={() => fileInputRef.current?.click()}>
+          <IonIcon icon={cloudUploadOutline} slot="start" />
+          Import CSV
+        </IonButton>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv,text/plain"
+          hidden
+          onChange={(e) => handleCsvFile(e.target.files?.[0])}
+        />
+      </IonRow>
+      {(csvError || globalError) && (
+        <IonRow className="ion-margin-horizontal">
+          <IonText color="danger">{csvError || globalError}</IonText>
+        </IonRow>
+      )}
+      <WatchOnlyNotice />
+      <IonRow className="ion-margin-vertical-x2">
+        <IonCol>
+          <ButtonsMainSub
+            mainTitle="REVIEW"
+            subTitle="CANCEL"
+            mainOnClick={handleReview}
+            mainDisabled={!isValid || isWatchOnly}
+            subOnClick={history.goBack}
+          />
+        </IonCol>
+      </IonRow>
+    </>
+  );
+
+  return (
+    <IonPage id="batch-send">
+      <PinModal
+        open={modalOpen}
+        title="Unlock your seed"
+        description={`Enter your secret PIN to pay ${review?.recipients.length ?? 0} recipients.`}
+        onConfirm={signAndBroadcast}
+        onClose={() => {
+          setModalOpen(false);
+        }}
+        isWrongPin={isWrongPin}
+        needReset={needReset}
+        setNeedReset={setNeedReset}
+        setIsWrongPin={setIsWrongPin}
+      />
+      <Loader showLoading={loading} delay={0} />
+      <IonContent>
+        <IonGrid>
+          <Header title="BATCH SEND" hasBackButton={true} />
+          {review ? renderReview(review) : renderForm()}
+        </IonGrid>
+      </IonContent>
+    </IonPage>
+  );
+};
@@ -7,21 +7,18 @@ import Header from '../../components/Header';
 import Loader from '../../components/Loader';
 import PageDescription from '../../components/PageDescription';
 import PinModal from '../../components/PinModal';
+import WatchOnlyNotice from '../../components/WatchOnlyNotice';
 import { BitcoinService } from '../../services/bitcoinService';
 import type { Pegins } from '../../store/bitcoinStore';
 import { useBitcoinStore } from '../../store/bitcoinStore';
 import { useSettingsStore } from '../../store/settingsStore';
 import { useToastStore } from '../../store/toastStore';
 import { useWalletStore } from '../../store/walletStore';
+import { checkPin } from '../../utils/actions';
 import { getBitcoinJSNetwork, PIN_TIMEOUT_FAILURE, PIN_TIMEOUT_SUCCESS } from '../../utils/constants';
-import {
-  ClaimPeginError,
-  IncorrectPINError,
-  InvalidBitcoinAddress,
-  NoClaimFoundError,
-  PinDigitsError,
-} from '../../utils/errors';
+import { ClaimPeginError, IncorrectPINError, InvalidBitcoinAddress, NoClaimFoundError } from '../../utils/errors';
 import { sleep } from '../../utils/helpers';
+import { validatePassword } from '../../utils/password';
 
 // Claim Pegin Settings Page
 export const ClaimPegin: React.FC = () => {
@@ -38,7 +35,9 @@ export const ClaimPegin: React.FC = () => {
   const addErrorToast = useToastStore((state) => state.addErrorToast);
   const addSuccessToast = useToastStore((state) => state.addSuccessToast);
   const decryptMnemonic = useWalletStore((state) => state.decryptMnemonic);
+  const lockMode = useWalletStore((state) => state.lockMode);
   const subscribeAllScripts = useWalletStore((state) => state.subscribeAllScripts);
+  const isWatchOnly = useWalletStore((state) => state.isWatchOnly);
   // Pin Modal
   const [pin, setPin] = useState<string>('');
   const [needReset, setNeedReset] = useState<boolean>(false);
@@ -123,14 +122,14 @@ export const ClaimPegin: React.FC = () => {
   };
 
   const handleClaimModalConfirm = async (pin: string) => {
-    const validRegexp = new RegExp('\\d{6}');
-    if (!validRegexp.test(pin)) {
-      addErrorToast(PinDigitsError);
+    const pinError = validatePassword(pin, lockMode);
+    if (pinError) {
+      addErrorToast(pinError);
       await managePinError();
     }
     let decryptedMnemonic;
     try {
-      decryptedMnemonic = await decryptMnemonic(pin);
+      decryptedMnemonic = await checkPin(() => decryptMnemonic(pin));
       setPin(pin);
     } catch (err) {
       console.error(err);
@@ -175,6 +174,7 @@ export const ClaimPegin: React.FC = () => {
             title="Claim your Liquid Bitcoin"
           />
           {/**/}
+          <WatchOnlyNotice />
           <IonRow className="ion-margin-vertical-x2">
             <IonCol size="10" offset="1">
               <IonItem className="input">
@@ -194,7 +194,7 @@ export const ClaimPegin: React.FC = () => {
               <IonRow className="ion-justify-content-center">
                 <IonButton
                   className="main-button"
-                  disabled={!inputBtcPeginAddress}
+                  disabled={!inputBtcPeginAddress || isWatchOnly}
                   onClick={() => {
                     setModalOpen(true);
                   }}
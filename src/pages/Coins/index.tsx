@@ -0,0 +1,196 @@
+import '../../components/OperationListItem/style.scss';
+import './style.scss';
+import {
+  IonButton,
+  IonCheckbox,
+  IonCol,
+  IonContent,
+  IonGrid,
+  IonIcon,
+  IonInput,
+  IonItem,
+  IonList,
+  IonListHeader,
+  IonPage,
+  IonRow,
+  IonText,
+} from '@ionic/react';
+import classNames from 'classnames';
+import { lockClosedOutline, lockOpenOutline } from 'ionicons/icons';
+import React, { useState } from 'react';
+import type { RouteComponentProps } from 'react-router';
+
+import ButtonsMainSub from '../../components/ButtonsMainSub';
+import CurrencyIcon from '../../components/CurrencyIcon';
+import Header from '../../components/Header';
+import PageDescription from '../../components/PageDescription';
+import type { WalletCoin } from '../../hooks/useWalletCoins';
+import { useWalletCoins } from '../../hooks/useWalletCoins';
+import { routerLinks } from '../../routes';
+import { useAssetStore } from '../../store/assetStore';
+import { useSettingsStore } from '../../store/settingsStore';
+import { useWalletStore } from '../../store/walletStore';
+import { isLbtcTicker } from '../../utils/helpers';
+import { fromSatoshiFixed } from '../../utils/unitConversion';
+
+type LocationState = {
+  // coins are picked to send this asset
+  asset?: string;
+};
+
+export const Coins: React.FC<RouteComponentProps<any, any, LocationState>> = ({ history, location }) => {
+  const assets = useAssetStore((state) => state.assets);
+  const lbtcUnit = useSettingsStore((state) => state.lbtcUnit);
+  const frozenOutpoints = useWalletStore((state) => state.frozenOutpoints);
+  const selectedOutpoints = useWalletStore((state) => state.selectedOutpoints);
+  const utxoLabels = useWalletStore((state) => state.utxoLabels);
+  const freezeOutpoint = useWalletStore((state) => state.freezeOutpoint);
+  const unfreezeOutpoint = useWalletStore((state) => state.unfreezeOutpoint);
+  const setSelectedOutpoints = useWalletStore((state) => state.setSelectedOutpoints);
+  const setUtxoLabel = useWalletStore((state) => state.setUtxoLabel);
+  const isWatchOnly = useWalletStore((state) => state.isWatchOnly);
+  //
+  const selectForAsset = location.state?.asset;
+  const [picked, setPicked] = useState<string[]>(selectedOutpoints);
+
+  const coinsByAsset = useWalletCoins();
+
+  const assetsToShow = selectForAsset ? [selectForAsset] : Object.keys(coinsByAsset);
+  const unitOf = (asset: string) => (isLbtcTicker(assets[asset]?.ticker || '') ? lbtcUnit : undefined);
+  const formatCoin = (coin: WalletCoin) =>
+    `${fromSatoshiFixed(coin.value, assets[coin.asset]?.precision, undefined, unitOf(coin.asset))} ${
+      unitOf(coin.asset) ?? assets[coin.asset]?.ticker ?? ''
+    }`;
+
+  const togglePicked = (outpointStr: string) =>
+    setPicked((prev) =>
+      prev.includes(outpointStr) ? prev.filter((outpoint) => outpoint !== outpointStr) : [...prev, outpointStr]
+    );
+
+  const pickedOfAsset = selectForAsset
+    ? picked.filter((outpointStr) => coinsByAsset[selectForAsset]?.some((coin) => coin.outpointStr === outpointStr))
+    : [];
+  const pickedTotal = (coinsByAsset[selectForAsset ?? ''] ?? [])
+    .filter((coin) => pickedOfAsset.includes(coin.outpointStr))
+    .reduce((total, coin) => total + coin.value, 0);
+
+  const renderCoin = (coin: WalletCoin) => {
+    const isFrozen = frozenOutpoints.includes(coin.outpointStr);
+    return (
+      <IonItem className={classNames('list-item', 'coin', { frozen: isFrozen })} key={coin.outpointStr}>
+        <IonGrid>
+          <IonRow>
+            {selectForAsset && (
+              <IonCol size="1">
+                <IonCheckbox
+                  disabled={isFrozen}
+                  checked={picked.includes(coin.outpointStr)}
+                  onIonChange={() => togglePicked(coin.outpointStr)}
+                />
+              </IonCol>
+            )}
+            <IonCol size={selectForAsset ? '8' : '9'}>
+              <div className="asset">{formatCoin(coin)}</div>
+              <div className="time">{coin.height ? `Confirmed at block ${coin.height}` : 'Unconfirmed'}</div>
+            </IonCol>
+            <IonCol size="3" className="ion-text-right">
+              <IonButton
+                fill="clear"
+                className="sub-button"
+                onClick={() => (isFrozen ? unfreezeOutpoint(coin.outpointStr) : freezeOutpoint(coin.outpointStr))}
+              >
+                <IonIcon icon={isFrozen ? lockClosedOutline : lockOpenOutline} slot="start" />
+                {isFrozen ? 'Frozen' : 'Freeze'}
+              </IonButton>
+            </IonCol>
+          </IonRow>
+          <IonRow>
+            <IonCol offset={selectForAsset ? '1' : '0'}>
+              <div className="coin-details">{coin.address ?? coin.outpointStr}</div>
+              {coin.derivationPath && <div className="coin-details">{coin.derivationPath}</div>}
+              <IonItem className="input">
+                <IonInput
+                  debounce={500}
+                  placeholder="Add a label"
+                  value={utxoLabels[coin.outpointStr] ?? ''}
+                  onIonChange={(e) => setUtxoLabel(coin.outpointStr, e.detail.value?.trim() ?? '')}
+                />
+              </IonItem>
+            </IonCol>
+          </IonRow>
+        </IonGrid>
+      </IonItem>
+    );
+  };
+
+  return (
+    <IonPage id="coins">
+      <IonContent>
+        <IonGrid>
+          <Header hasBackButton={true} title={selectForAsset ? 'CHOOSE COINS' : 'COINS'} />
+          <PageDescription
+            description={
+              selectForAsset
+                ? 'All the coins picked are spent, the remainder going back to your wallet as change. Without picked coins they are selected automatically.'
+                : 'Frozen coins are never selected automatically to send or trade.'
+            }
+            title={selectForAsset ? 'Pick the coins to spend' : 'Your coins'}
+          />
+          {assetsToShow.map((asset) => (
+            <IonList key={asset}>
+              <IonListHeader>
+                <CurrencyIcon assetHash={asset} />
+                <span className="ion-margin-start">{unitOf(asset) ?? assets[asset]?.ticker ?? asset.slice(0, 8)}</span>
+              </IonListHeader>
+              {(coinsByAsset[asset] ?? []).map(renderCoin)}
+            </IonList>
+          ))}
+          {assetsToShow.length === 0 && (
+            <IonRow className="ion-text-center ion-margin">
+              <IonCol>
+                <IonText>No coins in your wallet</IonText>
+              </IonCol>
+            </IonRow>
+          )}
+          {!selectForAsset && !isWatchOnly && assetsToShow.length > 0 && (
+            <IonRow className="ion-margin-vertical-x2">
+              <IonCol size="9" offset="1.5" sizeMd="6" offsetMd="3">
+                <IonButton className="main-button" onClick={() => history.push(routerLinks.consolidate)}>
+                  CONSOLIDATE COINS
+                </IonButton>
+              </IonCol>
+            </IonRow>
+          )}
+          {selectForAsset && (
+            <IonRow className="ion-margin-vertical-x2">
+              <IonCol>
+                {pickedOfAsset.length > 0 && (
+                  <p className="ion-text-center">
+                    {`${pickedOfAsset.length} coins picked, ${formatCoin({
+                      outpointStr: '',
+                      asset: selectForAsset,
+                      value: pickedTotal,
+                    })}`}
+                  </p>
+                )}
+                <ButtonsMainSub
+                  mainTitle={pickedOfAsset.length > 0 ? 'USE PICKED COINS' : 'SELECT AUTOMATICALLY'}
+                  subTitle="CANCEL"
+                  mainOnClick={() => {
+                    // coins picked for other assets are kept
+                    const others = selectedOutpoints.filter(
+                      (outpointStr) => !coinsByAsset[selectForAsset]?.some((coin) => coin.outpointStr === outpointStr)
+                    );
+                    setSelectedOutpoints([...others, ...pickedOfAsset]);
+                    history.goBack();
+                  }}
+                  subOnClick={history.goBack}
+                />
+              </IonCol>
+            </IonRow>
+          )}
+        </IonGrid>
+      </IonContent>
+    </IonPage>
+  );
+};
@@ -0,0 +1,254 @@
+import '../../components/OperationListItem/style.scss';
+import './style.scss';
+import {
+  IonCheckbox,
+  IonCol,
+  IonContent,
+  IonGrid,
+  IonItem,
+  IonLabel,
+  IonList,
+  IonListHeader,
+  IonPage,
+  IonRow,
+  IonSelect,
+  IonSelectOption,
+  IonText,
+} from '@ionic/react';
+import React, { useEffect, useState } from 'react';
+import type { RouteComponentProps } from 'react-router';
+
+import ButtonsMainSub from '../../components/ButtonsMainSub';
+import FeeRateSelector from '../../components/FeeRateSelector';
+import { useFeeRateEstimation } from '../../components/FeeRateSelector/hooks';
+import Header from '../../components/Header';
+import Loader from '../../components/Loader';
+import PageDescription from '../../components/PageDescription';
+import PinModal from '../../components/PinModal';
+import WatchOnlyNotice from '../../components/WatchOnlyNotice';
+import type { WalletCoin } from '../../hooks/useWalletCoins';
+import { useWalletCoins } from '../../hooks/useWalletCoins';
+import { BlinderService } from '../../services/blinderService';
+import { chainSource } from '../../services/chainSource';
+import { SignerService } from '../../services/signerService';
+import { useAssetStore } from '../../store/assetStore';
+import type { FeeRate } from '../../store/settingsStore';
+import { useSettingsStore } from '../../store/settingsStore';
+import { useToastStore } from '../../store/toastStore';
+import { useWalletStore } from '../../store/walletStore';
+import { checkPin } from '../../utils/actions';
+import { PIN_TIMEOUT_FAILURE, PIN_TIMEOUT_SUCCESS } from '../../utils/constants';
+import { decrypt } from '../../utils/crypto';
+import { AppError, IncorrectPINError, WithdrawTxError } from '../../utils/errors';
+import { isLbtcTicker } from '../../utils/helpers';
+import { makeConsolidationPset } from '../../utils/transaction';
+import { fromSatoshiFixed } from '../../utils/unitConversion';
+
+type LocationState = {
+  // asset to consolidate, all assets if undefined
+  asset?: string;
+};
+
+const ALL_ASSETS = 'all';
+
+export const Consolidate: React.FC<RouteComponentProps<any, any, LocationState>> = ({ history, location }) => {
+  const assets = useAssetStore((state) => state.assets);
+  const lbtcUnit = useSettingsStore((state) => state.lbtcUnit);
+  const addErrorToast = useToastStore((state) => state.addErrorToast);
+  const addSuccessToast = useToastStore((state) => state.addSuccessToast);
+  const encryptedMnemonic = useWalletStore((state) => state.encryptedMnemonic);
+  const frozenOutpoints = useWalletStore((state) => state.frozenOutpoints);
+  const unlockOutpoints = useWalletStore((state) => state.unlockOutpoints);
+  const sync = useWalletStore((state) => state.sync);
+  const subscribeAllScripts = useWalletStore((state) => state.subscribeAllScripts);
+  const isWatchOnly = useWalletStore((state) => state.isWatchOnly);
+  //
+  const coinsByAsset = useWalletCoins();
+  const [scope, setScope] = useState<string>(location.state?.asset ?? ALL_ASSETS);
+  const [picked, setPicked] = useState<string[]>([]);
+  // consolidation is rarely urgent
+  const [feeRate, setFeeRate] = useState<FeeRate>({ preset: 'slow' });
+  const { presetRates, satsPerVByte } = useFeeRateEstimation(feeRate);
+  const [preview, setPreview] = useState<{ inputCount: number; outputCount: number; feeAmount: number }>();
+  const [previewError, setPreviewError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [modalOpen, setModalOpen] = useState(false);
+  const [needReset, setNeedReset] = useState<boolean>(false);
+  const [isWrongPin, setIsWrongPin] = useState<boolean | null>(null);
+
+  const coinsInScope = (scope === ALL_ASSETS ? Object.values(coinsByAsset).flat() : coinsByAsset[scope] ?? []).filter(
+    (coin) => !frozenOutpoints.includes(coin.outpointStr)
+  );
+  const walletCoinCount = Object.values(coinsByAsset).flat().length;
+
+  // all the coins of the scope are picked by default
+  useEffect(() => {
+    setPicked(
+      (scope === ALL_ASSETS ? Object.values(coinsByAsset).flat() : coinsByAsset[scope] ?? [])
+        .filter((coin) => !frozenOutpoints.includes(coin.outpointStr))
+        .map((coin) => coin.outpointStr)
+    );
+  }, [scope, coinsByAsset, frozenOutpoints]);
+
+  // dry run of the consolidation to preview its fee and the coins left
+  useEffect(() => {
+    if (picked.length < 2 || satsPerVByte === undefined) {
+      setPreview(undefined);
+      setPreviewError(picked.length < 2 ? 'Pick at least two coins' : '');
+      return;
+    }
+    makeConsolidationPset(picked, satsPerVByte, true)
+      .then(({ inputCount, outputCount, feeAmount }) => {
+        setPreview({ inputCount, outputCount, feeAmount });
+        setPreviewError('');
+      })
+      .catch((err) => {
+        console.error(err);
+        setPreview(undefined);
+        setPreviewError(err instanceof AppError ? err.message : 'Cannot consolidate these coins');
+      });
+  }, [picked, satsPerVByte]);
+
+  const unitOf = (asset: string) => (isLbtcTicker(assets[asset]?.ticker || '') ? lbtcUnit : undefined);
+  const tickerOf = (asset: string) => unitOf(asset) ?? assets[asset]?.ticker ?? asset.slice(0, 8);
+  const formatCoin = (coin: WalletCoin) =>
+    `${fromSatoshiFixed(coin.value, assets[coin.asset]?.precision, undefined, unitOf(coin.asset))} ${tickerOf(
+      coin.asset
+    )}`;
+
+  const togglePicked = (outpointStr: string) =>
+    setPicked((prev) =>
+      prev.includes(outpointStr) ? prev.filter((outpoint) => outpoint !== outpointStr) : [...prev, outpointStr]
+    );
+
+  const consolidate = async (pin: string) => {
+    try {
+      setLoading(true);
+      try {
+        // Check pin
+        if (!encryptedMnemonic) throw new Error('No mnemonic found in wallet');
+        await checkPin(() => decrypt(encryptedMnemonic, pin));
+        setIsWrongPin(false);
+        setTimeout(() => {
+          setIsWrongPin(null);
+          setNeedReset(true);
+        }, PIN_TIMEOUT_SUCCESS);
+      } catch (_) {
+        throw IncorrectPINError;
+      }
+      const { pset, inputCount } = await makeConsolidationPset(picked, satsPerVByte);
+      const blinder = new BlinderService();
+      const blindedPset = await blinder.blindPset(pset);
+      const signer = await SignerService.fromPassword(pin);
+      const signedPset = await signer.signPset(blindedPset);
+      const toBroadcast = signer.finalizeAndExtract(signedPset);
+      const txid = await chainSource.broadcastTransaction(toBroadcast);
+      addSuccessToast(`Transaction broadcasted. ${inputCount} coins consolidated.`);
+      history.replace(`/transaction/${txid}`);
+    } catch (err) {
+      console.error(err);
+      setIsWrongPin(true);
+      setTimeout(() => {
+        setIsWrongPin(null);
+        setNeedReset(true);
+      }, PIN_TIMEOUT_FAILURE);
+      addErrorToast(err instanceof AppError ? err : WithdrawTxError);
+      if (err !== IncorrectPINError) {
+        // Revert to previous state
+        unlockOutpoints();
+        await sync();
+        await subscribeAllScripts();
+      }
+    } finally {
+      setModalOpen(false);
+      setLoading(false);
+    }
+  };
+
+  return (
+    <IonPage id="consolidate">
+      <PinModal
+        open={modalOpen}
+        title="Unlock your seed"
+        description={`Enter your secret PIN to consolidate ${picked.length} coins.`}
+        onConfirm={consolidate}
+        onClose={() => {
+          setModalOpen(false);
+        }}
+        isWrongPin={isWrongPin}
+        needReset={needReset}
+        setNeedReset={setNeedReset}
+        setIsWrongPin={setIsWrongPin}
+      />
+      <Loader showLoading={loading} delay={0} />
+      <IonContent>
+        <IonGrid>
+          <Header title="CONSOLIDATE" hasBackButton={true} />
+          <PageDescription
+            description="Sweep many small coins into one coin per asset on a fresh address of your wallet, so that later transactions are smaller and cheaper. Frozen coins are left untouched."
+            title="Consolidate coins"
+          />
+          <IonItem className="input ion-margin-horizontal">
+            <IonLabel>Assets</IonLabel>
+            <IonSelect value={scope} onIonChange={(e) => setScope(e.detail.value)}>
+              <IonSelectOption value={ALL_ASSETS}>All assets</IonSelectOption>
+              {Object.keys(coinsByAsset).map((asset) => (
+                <IonSelectOption key={asset} value={asset}>
+                  {tickerOf(asset)}
+                </IonSelectOption>
+              ))}
+            </IonSelect>
+          </IonItem>
+          <IonList>
+            <IonListHeader>{`${picked.length} of ${coinsInScope.length} coins picked`}</IonListHeader>
+            {coinsInScope.map((coin) => (
+              <IonItem className="list-item" key={coin.outpointStr}>
+                <IonCheckbox
+                  slot="start"
+                  checked={picked.includes(coin.outpointStr)}
+                  onIonChange={() => togglePicked(coin.outpointStr)}
+                />
+                <IonLabel>
+                  <div className="asset">{formatCoin(coin)}</div>
+                  <div className="coin-details">{coin.address ?? coin.outpointStr}</div>
+                </IonLabel>
+              </IonItem>
+            ))}
+          </IonList>
+          <FeeRateSelector
+            feeRate={feeRate}
+            onFeeRateChange={setFeeRate}
+            presetRates={presetRates}
+            satsPerVByte={satsPerVByte}
+          />
+          <IonRow className="ion-margin">
+            <IonCol>
+              {preview ? (
+                <IonText className="consolidation-preview">
+                  <p>{`Coins in wallet: ${walletCoinCount} → ${
+                    walletCoinCount - preview.inputCount + preview.outputCount
+                  }`}</p>
+                  <p>{`Network fee: ${fromSatoshiFixed(preview.feeAmount, 8, undefined, lbtcUnit)} ${lbtcUnit}`}</p>
+                </IonText>
+              ) : (
+                previewError && <IonText color="danger">{previewError}</IonText>
+              )}
+            </IonCol>
+          </IonRow>
+          <WatchOnlyNotice />
+          <IonRow className="ion-margin-vertical-x2">
+            <IonCol>
+              <ButtonsMainSub
+                mainTitle="CONSOLIDATE"
+                subTitle="CANCEL"
+                mainOnClick={() => setModalOpen(true)}
+                mainDisabled={!preview || isWatchOnly}
+                subOnClick={history.goBack}
+              />
+            </IonCol>
+          </IonRow>
+        </IonGrid>
+      </IonContent>
+    </IonPage>
+  );
+};
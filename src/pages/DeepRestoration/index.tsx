@@ -8,6 +8,7 @@ import PinModal from '../../components/PinModal';
 import { useRateStore } from '../../store/rateStore';
 import { useToastStore } from '../../store/toastStore';
 import { useWalletStore } from '../../store/walletStore';
+import { checkPin } from '../../utils/actions';
 import { PIN_TIMEOUT_FAILURE, PIN_TIMEOUT_SUCCESS } from '../../utils/constants';
 import { DeepRestorationError, IncorrectPINError } from '../../utils/errors';
 
@@ -28,7 +29,7 @@ const DeepRestoration: React.FC = () => {
 
   const handlePinConfirm = async (pin: string) => {
     try {
-      const mnemonic = await decryptMnemonic(pin);
+      const mnemonic = await checkPin(() => decryptMnemonic(pin));
       setIsWrongPin(false);
       setTimeout(async () => {
         setNeedReset(true);
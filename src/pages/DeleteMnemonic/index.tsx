@@ -14,6 +14,7 @@ interface LocationState {
 
 const DeleteMnemonic: React.FC<RouteComponentProps> = ({ history }) => {
   const decryptMnemonic = useWalletStore((state) => state.decryptMnemonic);
+  const isWatchOnly = useWalletStore((state) => state.isWatchOnly);
   //
   const { state } = useLocation<LocationState>();
   const [isLoading, setIsLoading] = useState(false);
@@ -22,7 +23,7 @@ const DeleteMnemonic: React.FC<RouteComponentProps> = ({ history }) => {
   const deleteMnemonic = async () => {
     setIsLoading(true);
     try {
-      await decryptMnemonic(state?.pin);
+      if (!isWatchOnly) await decryptMnemonic(state?.pin);
     } catch (err) {
       setErrorMsg('Error: your key has not been deleted. Please contact support.');
       setIsLoading(false);
@@ -39,8 +40,12 @@ const DeleteMnemonic: React.FC<RouteComponentProps> = ({ history }) => {
         <IonGrid>
           <Header hasBackButton={true} title="CLEAR MY KEY" />
           <PageDescription
-            description='Clicking on "Delete" will delete your mnemonic on this device. Be sure to back it up!'
-            title="Delete your mnemonic"
+            description={
+              isWatchOnly
+                ? 'Clicking on "Delete" will remove the watch-only wallet from this device.'
+                : 'Clicking on "Delete" will delete your mnemonic on this device. Be sure to back it up!'
+            }
+            title={isWatchOnly ? 'Remove your watch-only wallet' : 'Delete your mnemonic'}
           />
           <IonRow className="ion-margin-vertical-x2">
             <IonCol size="9" offset="1.5" sizeMd="8" offsetMd="2">
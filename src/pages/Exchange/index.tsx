@@ -13,40 +13,50 @@ import {
   IonAlert,
   IonSpinner,
 } from '@ionic/react';
-import { Buffer } from 'buffer';
 import classNames from 'classnames';
-import { closeOutline } from 'ionicons/icons';
+import { closeOutline, statsChartOutline, timerOutline } from 'ionicons/icons';
+import { Transaction } from 'liquidjs-lib';
 import React, { useCallback, useEffect, useState } from 'react';
 import type { RouteComponentProps } from 'react-router';
 
-import type { UnblindedInput } from '../../api-spec/protobuf/gen/js/tdex/v2/types_pb';
 import tradeHistory from '../../assets/img/trade-history.svg';
+import CoinControlRow from '../../components/CoinControlRow';
 import Header from '../../components/Header';
 import Loader from '../../components/Loader';
 import PinModal from '../../components/PinModal';
+import PriceChart from '../../components/PriceChart';
 import Refresher from '../../components/Refresher';
 import type { TdexOrderInputResult } from '../../components/TdexOrderInput';
 import { TdexOrderInput } from '../../components/TdexOrderInput';
 import { useTradeState } from '../../components/TdexOrderInput/hooks';
+import WatchOnlyNotice from '../../components/WatchOnlyNotice';
 import { routerLinks } from '../../routes';
+import { chainSource } from '../../services/chainSource';
+import type { SignerInterface } from '../../services/signerService';
 import { SignerService } from '../../services/signerService';
-import { getTradablesAssets, makeTradeV1, makeTradeV2 } from '../../services/tdexService';
-import type {
-  TDEXMarket as TDEXMarketV1,
-  TDEXProvider,
-  TradeOrder as TradeOrderV1,
-} from '../../services/tdexService/v1/tradeCore';
-import type { TDEXMarket as TDEXMarketV2, TradeOrder as TradeOrderV2 } from '../../services/tdexService/v2/tradeCore';
+import { getNetReceivedSats, getTradablesAssets } from '../../services/tdexService';
+import type { TradeRoute, TradeRouteLeg, TradeSplit } from '../../services/tdexService';
+import type { TDEXMarket as TDEXMarketV1, TDEXProvider } from '../../services/tdexService/v1/tradeCore';
+import type { TDEXMarket as TDEXMarketV2 } from '../../services/tdexService/v2/tradeCore';
 import { useAppStore } from '../../store/appStore';
 import { useAssetStore } from '../../store/assetStore';
 import { useSettingsStore } from '../../store/settingsStore';
 import { useTdexStore } from '../../store/tdexStore';
 import { useToastStore } from '../../store/toastStore';
-import type { CoinSelectionForTrade } from '../../store/walletStore';
-import { useWalletStore } from '../../store/walletStore';
+import { makeTradeGroupId } from '../../store/tradeStore';
+import type { CoinSelectionForTrade, ScriptDetails } from '../../store/walletStore';
+import { clearSelectedOutpointsOfAsset, getSelectedOutpointsOfAsset, useWalletStore } from '../../store/walletStore';
+import { checkPin } from '../../utils/actions';
 import { defaultPrecision, PIN_TIMEOUT_FAILURE } from '../../utils/constants';
-import { AppError, NoMarketsAvailableForSelectedPairError, NoOtherProvider } from '../../utils/errors';
+import {
+  AppError,
+  NoMarketsAvailableForSelectedPairError,
+  NoOtherProvider,
+  SplitTradeIncompleteError,
+  TradeRouteIncompleteError,
+} from '../../utils/errors';
 import { isLbtc, outpointToString } from '../../utils/helpers';
+import { makeTrade, selectCoinsForTrade, toUnblindedInput } from '../../utils/trade';
 import { createAmountAndUnit, fromSatoshi } from '../../utils/unitConversion';
 import type { PreviewData } from '../TradeSummary';
 
@@ -54,17 +64,15 @@ import ExchangeErrorModal from './ExchangeErrorModal';
 
 export const Exchange: React.FC<RouteComponentProps> = ({ history }) => {
   const isFetchingMarkets = useAppStore((state) => state.isFetchingMarkets);
-  const explorerLiquidAPI = useSettingsStore((state) => state.explorerLiquidAPI);
   const network = useSettingsStore((state) => state.network);
-  const torProxy = useSettingsStore((state) => state.torProxy);
-  const getProtoVersion = useTdexStore((state) => state.getProtoVersion);
   const markets = useTdexStore((state) => state.markets);
   const providers = useTdexStore((state) => state.providers);
   const refetchTdexProvidersAndMarkets = useTdexStore((state) => state.refetchTdexProvidersAndMarkets);
   const addErrorToast = useToastStore((state) => state.addErrorToast);
   const addSuccessToast = useToastStore((state) => state.addSuccessToast);
-  const masterBlindingKey = useWalletStore((state) => state.masterBlindingKey);
+  const unlockOutpoint = useWalletStore((state) => state.unlockOutpoint);
   const unlockOutpoints = useWalletStore((state) => state.unlockOutpoints);
+  const isWatchOnly = useWalletStore((state) => state.isWatchOnly);
   //
   const [tdexOrderInputResult, setTdexOrderInputResult] = useState<TdexOrderInputResult>();
   const [excludedProviders, setExcludedProviders] = useState<TDEXProvider[]>([]);
@@ -83,13 +91,40 @@ export const Exchange: React.FC<RouteComponentProps> = ({ history }) => {
     const receiveAmountMinusFees = Number(tdexOrderInputResult?.receive.amount ?? 0) - tradeFeeAmount;
     return `Enter your secret PIN to send ${tdexOrderInputResult?.send.amount} ${tdexOrderInputResult?.send.unit} and
           receive ${receiveAmountMinusFees.toFixed(8)} ${tdexOrderInputResult?.receive.unit}
+    ${tdexOrderInputResult.route ? `through ${tdexOrderInputResult.route.legs.length} consecutive swaps ` : ''}
+    ${tdexOrderInputResult.split ? `split across ${tdexOrderInputResult.split.parts.length} providers ` : ''}
     ${
-      tdexOrderInputResult.providerVersion === 'v2'
+      tdexOrderInputResult.route || tdexOrderInputResult.split || tdexOrderInputResult.providerVersion === 'v2'
         ? `(${tdexOrderInputResult?.receive.amount} ${tdexOrderInputResult?.receive.unit} minus ${tradeFeeAmount} ${tdexOrderInputResult?.receive.unit} of trading fees)`
         : ''
     }`;
   };
 
+  // Combined price and fees of a multi-hop trade
+  const getRouteDescription = (route: TradeRoute) => {
+    const assets = useAssetStore.getState().assets;
+    const [firstLeg] = route.legs;
+    const lastLeg = route.legs[route.legs.length - 1];
+    const path = [firstLeg.send.asset, ...route.legs.map((leg) => leg.receive.asset)]
+      .map((asset) => assets[asset]?.ticker ?? asset.slice(0, 4).toUpperCase())
+      .join(' → ');
+    const send = createAmountAndUnit(firstLeg.send);
+    const receive = createAmountAndUnit({ sats: getNetReceivedSats(lastLeg), asset: lastLeg.receive.asset });
+    const price = Number(receive.amount) / Number(send.amount);
+    const fees = route.legs
+      .filter((leg) => leg.fee.sats > 0)
+      .map((leg) => {
+        const fee = createAmountAndUnit(leg.fee);
+        return `${fee.amount} ${fee.unit}`;
+      })
+      .join(' + ');
+    return {
+      path,
+      price: `1 ${send.unit} = ${Number.isFinite(price) ? price.toFixed(8) : '??'} ${receive.unit}`,
+      fees: fees || '0',
+    };
+  };
+
   const getProviderName = (endpoint: string) => {
     return (
       markets.v1.find((m) => m.provider.endpoint === endpoint)?.provider.name ||
@@ -190,22 +225,36 @@ export const Exchange: React.FC<RouteComponentProps> = ({ history }) => {
     setReceiveAssetHasChanged,
     tradeFeeSats,
     tradeFeeAsset,
+    bestRoute,
+    bestSplit,
   ] = useTradeState(getAllMarketsFromNotExcludedProviders());
 
-  const handleSuccess = async (txid: string) => {
+  // `sent` and `received` default to the amounts previewed for the whole trade
+  const handleSuccess = async (
+    txid: string,
+    opts: {
+      sent?: { sats: number; asset: string };
+      received?: { sats: number; asset: string };
+    } = {}
+  ) => {
     if (!tdexOrderInputResult) return;
+    const { sent, received } = opts;
     // Persist trade addresses
     await useWalletStore.getState().getNextAddress(false);
     await useWalletStore.getState().getNextAddress(true);
     addSuccessToast('Trade successfully computed');
-    const sendAmountAndUnit = createAmountAndUnit({
-      sats: tdexOrderInputResult.send.sats,
-      asset: tdexOrderInputResult.send.asset,
-    });
-    const receiveAmountAndUnit = createAmountAndUnit({
-      sats: (tdexOrderInputResult.receive.sats ?? 0) - (tradeFeeSats ?? 0),
-      asset: tdexOrderInputResult.receive.asset,
-    });
+    const sendAmountAndUnit = createAmountAndUnit(
+      sent ?? {
+        sats: tdexOrderInputResult.send.sats,
+        asset: tdexOrderInputResult.send.asset,
+      }
+    );
+    const receiveAmountAndUnit = createAmountAndUnit(
+      received ?? {
+        sats: (tdexOrderInputResult.receive.sats ?? 0) - (tradeFeeSats ?? 0),
+        asset: tdexOrderInputResult.receive.asset,
+      }
+    );
     const preview: PreviewData = {
       sent: {
         asset: tdexOrderInputResult.send.asset ?? '',
@@ -213,7 +262,7 @@ export const Exchange: React.FC<RouteComponentProps> = ({ history }) => {
         amount: `-${sendAmountAndUnit.amount || '??'}`,
       },
       received: {
-        asset: tdexOrderInputResult.receive.asset ?? '',
+        asset: received?.asset ?? tdexOrderInputResult.receive.asset ?? '',
         ticker: receiveAmountAndUnit.unit || 'unknown',
         amount: receiveAmountAndUnit.amount || '??',
       },
@@ -221,6 +270,72 @@ export const Exchange: React.FC<RouteComponentProps> = ({ history }) => {
     history.replace(`/tradesummary/${txid}`, { preview });
   };
 
+  // spend the swap output of a previous trade, not yet synced by the wallet
+  const selectSwapOutputForTrade = async (
+    txid: string,
+    addressForSwapOutput: ScriptDetails
+  ): Promise<{ sats: number; coinSelectionForTrade: CoinSelectionForTrade }> => {
+    const [{ hex }] = await chainSource.fetchTransactions([txid]);
+    const tx = Transaction.fromHex(hex);
+    const vout = tx.outs.findIndex((out) => out.script.toString('hex') === addressForSwapOutput.script);
+    if (vout === -1) throw new Error('Swap output not found');
+    const [unblinded] = await useWalletStore.getState().unblindUtxos([tx.outs[vout]]);
+    if (unblinded instanceof Error) throw unblinded;
+    return {
+      sats: unblinded.value,
+      coinSelectionForTrade: {
+        witnessUtxos: { [outpointToString({ txid, vout })]: tx.outs[vout] },
+        changeOutputs: [],
+        unblindedInputs: [toUnblindedInput(unblinded, 0)],
+      },
+    };
+  };
+
+  // Trade split across providers: coins of all parts are selected upfront, then each part is traded
+  const makeSplitTrade = async (split: TradeSplit, signer: SignerInterface) => {
+    const group = { id: makeTradeGroupId(), kind: 'split' as const };
+    const coinSelections: CoinSelectionForTrade[] = [];
+    for (const part of split.parts) {
+      const coinSelection = await selectCoinsForTrade(part.send.sats, part.send.asset);
+      if (Object.keys(coinSelection.witnessUtxos).length === 0) {
+        throw new Error('Not enough coins to split the trade across providers');
+      }
+      coinSelections.push(coinSelection);
+    }
+    const completed: { txid: string; part: TradeRouteLeg }[] = [];
+    for (const [index, part] of split.parts.entries()) {
+      try {
+        const { txid } = await makeTrade(
+          part.order,
+          { amount: part.send.sats, asset: part.send.asset },
+          coinSelections[index],
+          signer,
+          { preview: { sent: part.send, received: part.receive, fee: part.fee }, group }
+        );
+        completed.push({ txid, part });
+        // Persist trade addresses before the next part, the last ones are persisted by handleSuccess
+        if (index < split.parts.length - 1) {
+          await useWalletStore.getState().getNextAddress(false);
+          await useWalletStore.getState().getNextAddress(true);
+        }
+      } catch (err) {
+        if (completed.length === 0) throw err;
+        console.error(err);
+        // coins of the failed part and of the aborted ones are not spent, the traded ones stay locked
+        for (const { witnessUtxos } of coinSelections.slice(index)) {
+          Object.keys(witnessUtxos).forEach((outpointStr) => unlockOutpoint(outpointStr));
+        }
+        addErrorToast(SplitTradeIncompleteError);
+        break;
+      }
+    }
+    const sum = (side: 'send' | 'receive' | 'fee') => completed.reduce((total, { part }) => total + part[side].sats, 0);
+    await handleSuccess(completed[0].txid, {
+      sent: { sats: sum('send'), asset: split.parts[0].send.asset },
+      received: { sats: sum('receive') - sum('fee'), asset: split.parts[0].receive.asset },
+    });
+  };
+
   // make and broadcast trade, then push to trade summary page
   const onPinConfirm = async (pin: string) => {
     setPINModalOpen(false);
@@ -230,91 +345,78 @@ export const Exchange: React.FC<RouteComponentProps> = ({ history }) => {
     }
     setIsBusyMakingTrade(true);
     try {
-      const signer = await SignerService.fromPassword(pin);
+      // the modal is already closed, the wrong PIN is counted all the same
+      const signer = await checkPin(() => SignerService.fromPassword(pin));
       if (!tdexOrderInputResult.send.asset) {
         throw new Error('No send asset');
       }
-      const { utxos, changeOutputs } = await useWalletStore.getState().selectUtxos(
-        [
-          {
-            address: '',
-            value: tdexOrderInputResult?.send.sats ?? 0,
-            asset: tdexOrderInputResult.send.asset,
-          },
-        ],
-        true
+      if (tdexOrderInputResult.split) {
+        await makeSplitTrade(tdexOrderInputResult.split, signer);
+        return;
+      }
+      const routeGroup = { id: makeTradeGroupId(), kind: 'route' as const };
+      const sendSats = tdexOrderInputResult.send.sats ?? 0;
+      const coinSelectionForTrade = await selectCoinsForTrade(
+        sendSats,
+        tdexOrderInputResult.send.asset,
+        getSelectedOutpointsOfAsset(tdexOrderInputResult.send.asset)
       );
-      let witnessUtxos: CoinSelectionForTrade['witnessUtxos'] = {};
-      for (const utxo of utxos) {
-        const witnessUtxo = await useWalletStore.getState().getWitnessUtxo(utxo.txid, utxo.vout);
-        if (witnessUtxo) {
-          witnessUtxos[
-            outpointToString({
-              txid: utxo.txid,
-              vout: utxo.vout,
-            })
-          ] = witnessUtxo;
-        }
+      const route = tdexOrderInputResult.route;
+      const { txid, addressForSwapOutput } = await makeTrade(
+        tdexOrderInputResult.order,
+        { amount: sendSats, asset: tdexOrderInputResult.send.asset },
+        coinSelectionForTrade,
+        signer,
+        route
+          ? {
+              preview: { sent: route.legs[0].send, received: route.legs[0].receive, fee: route.legs[0].fee },
+              group: routeGroup,
+            }
+          : {
+              preview: {
+                sent: { asset: tdexOrderInputResult.send.asset, sats: sendSats },
+                received: {
+                  asset: tdexOrderInputResult.receive.asset ?? '',
+                  sats: tdexOrderInputResult.receive.sats ?? 0,
+                },
+                fee: tradeFeeSats ? { asset: tradeFeeAsset, sats: tradeFeeSats } : undefined,
+              },
+            }
+      );
+      clearSelectedOutpointsOfAsset(tdexOrderInputResult.send.asset);
+      if (!route) {
+        await handleSuccess(txid);
+        return;
       }
-      const unblindedWitnessUtxos = await useWalletStore.getState().unblindUtxos(Object.values(witnessUtxos));
-      const unblindedInputs = unblindedWitnessUtxos
-        .map((input, index) => {
-          if (!(input instanceof Error)) {
-            return {
-              index: index,
-              asset: input.asset,
-              amount: input.value.toString(),
-              assetBlinder: Buffer.from(input.assetBlindingFactor, 'hex').reverse().toString('hex'),
-              amountBlinder: Buffer.from(input.valueBlindingFactor, 'hex').reverse().toString('hex'),
-            };
-          }
-          return undefined;
-        })
-        .filter((input): input is UnblindedInput => !!input);
-      const coinSelectionForTrade: CoinSelectionForTrade = {
-        witnessUtxos,
-        changeOutputs,
-        unblindedInputs,
-      };
-
-      // Dry run address generation
-      const addressForChangeOutput = await useWalletStore.getState().getNextAddress(true, true);
-      if (!addressForChangeOutput.confidentialAddress) throw new Error('No address for change');
-      const addressForSwapOutput = await useWalletStore.getState().getNextAddress(false, true);
-      if (!addressForSwapOutput.confidentialAddress) throw new Error('No address for output');
-
-      // propose and complete tdex trade
-      // broadcast via liquid explorer
-      let txid;
-      const version = await getProtoVersion(tdexOrderInputResult.order.traderClient.providerUrl);
-      if (version === 'v1') {
-        txid = await makeTradeV1(
-          tdexOrderInputResult?.order as TradeOrderV1,
-          { amount: tdexOrderInputResult?.send.sats ?? 0, asset: tdexOrderInputResult?.send.asset ?? '' },
-          explorerLiquidAPI,
-          coinSelectionForTrade,
+      // Multi-hop trade: the swap output of the first leg is sent in the second one
+      const [firstLeg, secondLeg] = route.legs;
+      // Persist the first leg addresses so that the swap output can be signed
+      await useWalletStore.getState().getNextAddress(false);
+      await useWalletStore.getState().getNextAddress(true);
+      try {
+        const swapOutput = await selectSwapOutputForTrade(txid, addressForSwapOutput);
+        const secondTrade = await makeTrade(
+          secondLeg.order,
+          { amount: swapOutput.sats, asset: secondLeg.send.asset },
+          swapOutput.coinSelectionForTrade,
           signer,
-          masterBlindingKey,
-          network,
-          addressForChangeOutput,
-          addressForSwapOutput,
-          torProxy
-        );
-      } else {
-        txid = await makeTradeV2(
-          tdexOrderInputResult?.order as TradeOrderV2,
-          { amount: tdexOrderInputResult?.send.sats ?? 0, asset: tdexOrderInputResult?.send.asset ?? '' },
-          explorerLiquidAPI,
-          coinSelectionForTrade,
-          signer,
-          masterBlindingKey,
-          network,
-          addressForChangeOutput,
-          addressForSwapOutput,
-          torProxy
+          {
+            preview: {
+              sent: { asset: secondLeg.send.asset, sats: swapOutput.sats },
+              received: secondLeg.receive,
+              fee: secondLeg.fee,
+            },
+            group: routeGroup,
+          }
         );
+        await handleSuccess(secondTrade.txid);
+      } catch (err) {
+        console.error(err);
+        addErrorToast(TradeRouteIncompleteError);
+        await handleSuccess(txid, {
+          received: { sats: getNetReceivedSats(firstLeg), asset: firstLeg.receive.asset },
+        });
       }
-      await handleSuccess(txid);
     } catch (err) {
       console.error(err);
       setIsWrongPin(true);
@@ -359,6 +461,8 @@ export const Exchange: React.FC<RouteComponentProps> = ({ history }) => {
     }
   };
 
+  const routeDescription = tdexOrderInputResult?.route ? getRouteDescription(tdexOrderInputResult.route) : undefined;
+
   return (
     <IonPage id="exchange-page">
       <Loader showLoading={isBusyMakingTrade} delay={0} />
@@ -439,9 +543,17 @@ export const Exchange: React.FC<RouteComponentProps> = ({ history }) => {
               hasBackButton={false}
               hasCloseButton={true}
               customRightButton={
-                <IonButton className="custom-right-button" onClick={() => history.push('/history')}>
-                  <img src={tradeHistory} alt="trade history" />
-                </IonButton>
+                <>
+                  <IonButton className="custom-right-button" onClick={() => history.push(routerLinks.markets)}>
+                    <IonIcon slot="icon-only" icon={statsChartOutline} />
+                  </IonButton>
+                  <IonButton className="custom-right-button" onClick={() => history.push(routerLinks.limitOrders)}>
+                    <IonIcon slot="icon-only" icon={timerOutline} />
+                  </IonButton>
+                  <IonButton className="custom-right-button" onClick={() => history.push('/history')}>
+                    <img src={tradeHistory} alt="trade history" />
+                  </IonButton>
+                </>
               }
               title="Exchange"
               isTitleLarge={true}
@@ -479,6 +591,8 @@ export const Exchange: React.FC<RouteComponentProps> = ({ history }) => {
                   onInput={setTdexOrderInputResult}
                   markets={getAllMarketsFromNotExcludedProviders()}
                   bestOrder={bestOrder}
+                  bestRoute={bestRoute}
+                  bestSplit={bestSplit}
                   sendAsset={sendAsset}
                   sendSats={sendSats}
                   receiveAsset={receiveAsset}
@@ -500,6 +614,15 @@ export const Exchange: React.FC<RouteComponentProps> = ({ history }) => {
               </IonCol>
             </IonRow>
 
+            {!tdexOrderInputResult?.split && (
+              <IonRow>
+                <IonCol>
+                  <CoinControlRow asset={sendAsset} />
+                </IonCol>
+              </IonRow>
+            )}
+
+            <WatchOnlyNotice />
             <IonRow>
               <IonCol size="8.5" offset="1.75">
                 <IonButton
@@ -512,7 +635,8 @@ export const Exchange: React.FC<RouteComponentProps> = ({ history }) => {
                     sendSats === 0 ||
                     receiveSats === 0 ||
                     sendLoader ||
-                    receiveLoader
+                    receiveLoader ||
+                    isWatchOnly
                   }
                   onClick={async () => {
                     setPINModalOpen(true);
@@ -523,21 +647,86 @@ export const Exchange: React.FC<RouteComponentProps> = ({ history }) => {
               </IonCol>
             </IonRow>
 
-            {tdexOrderInputResult?.order.market && tdexOrderInputResult.order.traderClient && sendSats !== 0 && (
+            {tdexOrderInputResult?.route && sendSats !== 0 && (
+              <IonRow className="market-provider ion-margin-vertical-x2 ion-text-center">
+                <IonCol size="10" offset="1">
+                  {sendLoader || receiveLoader ? (
+                    <IonSpinner name="dots" className="vertical-middle" />
+                  ) : (
+                    <IonText className="trade-info" color="light">
+                      <p>Route: {routeDescription?.path}</p>
+                      <p>Price: {routeDescription?.price}</p>
+                      <p>Fees: {routeDescription?.fees}</p>
+                      {tdexOrderInputResult.route.legs.map((leg, index) => (
+                        <p key={index}>
+                          Swap {index + 1} provided by:{' '}
+                          <span className="provider-info">
+                            {`${getProviderName(leg.order.market.provider.endpoint)} - ${
+                              leg.order.traderClient.providerUrl
+                            }`}
+                          </span>
+                        </p>
+                      ))}
+                    </IonText>
+                  )}
+                </IonCol>
+              </IonRow>
+            )}
+
+            {tdexOrderInputResult?.split && sendSats !== 0 && (
               <IonRow className="market-provider ion-margin-vertical-x2 ion-text-center">
                 <IonCol size="10" offset="1">
-                  <IonText className="trade-info" color="light">
-                    Market provided by:{' '}
-                    {sendLoader || receiveLoader || !tdexOrderInputResult ? (
-                      <IonSpinner name="dots" className="vertical-middle" />
-                    ) : (
-                      <span className="provider-info">
-                        {`${getProviderName(tdexOrderInputResult.order.market.provider.endpoint)} - ${
-                          tdexOrderInputResult.order.traderClient.providerUrl
-                        }`}
-                      </span>
-                    )}
-                  </IonText>
+                  {sendLoader || receiveLoader ? (
+                    <IonSpinner name="dots" className="vertical-middle" />
+                  ) : (
+                    <IonText className="trade-info" color="light">
+                      <p>Trade split across {tdexOrderInputResult.split.parts.length} providers:</p>
+                      {tdexOrderInputResult.split.parts.map((part, index) => {
+                        const sent = createAmountAndUnit(part.send);
+                        return (
+                          <p key={index}>
+                            {`${sent.amount} ${sent.unit} with `}
+                            <span className="provider-info">
+                              {`${getProviderName(part.order.market.provider.endpoint)} - ${
+                                part.order.traderClient.providerUrl
+                              }`}
+                            </span>
+                          </p>
+                        );
+                      })}
+                    </IonText>
+                  )}
+                </IonCol>
+              </IonRow>
+            )}
+
+            {!tdexOrderInputResult?.route &&
+              !tdexOrderInputResult?.split &&
+              tdexOrderInputResult?.order.market &&
+              tdexOrderInputResult.order.traderClient &&
+              sendSats !== 0 && (
+                <IonRow className="market-provider ion-margin-vertical-x2 ion-text-center">
+                  <IonCol size="10" offset="1">
+                    <IonText className="trade-info" color="light">
+                      Market provided by:{' '}
+                      {sendLoader || receiveLoader || !tdexOrderInputResult ? (
+                        <IonSpinner name="dots" className="vertical-middle" />
+                      ) : (
+                        <span className="provider-info">
+                          {`${getProviderName(tdexOrderInputResult.order.market.provider.endpoint)} - ${
+                            tdexOrderInputResult.order.traderClient.providerUrl
+                          }`}
+                        </span>
+                      )}
+                    </IonText>
+                  </IonCol>
+                </IonRow>
+              )}
+
+            {sendAsset && receiveAsset && (
+              <IonRow>
+                <IonCol size="10" offset="1">
+                  <PriceChart assets={[sendAsset, receiveAsset]} />
                 </IonCol>
               </IonRow>
             )}
@@ -1,6 +1,6 @@
 import './style.scss';
 import { KeyboardStyle } from '@capacitor/keyboard';
-import { IonContent, IonPage, useIonViewWillEnter, IonGrid, IonRow, IonCol } from '@ionic/react';
+import { IonButton, IonContent, IonPage, useIonViewWillEnter, IonGrid, IonRow, IonCol } from '@ionic/react';
 import React, { useState } from 'react';
 
 import logo from '../../assets/img/tdex_3d_logo.svg';
@@ -79,13 +79,19 @@ const Homescreen: React.FC = () => {
             </IonCol>
           </IonRow>
 
-          <ButtonsMainSub
-            mainTitle="SETUP WALLET"
-            mainLink="/onboarding/backup"
-            subTitle="RESTORE WALLET"
-            subLink="/restore"
-            className="btn-container"
-          />
+          <div className="btn-container">
+            <ButtonsMainSub
+              mainTitle="SETUP WALLET"
+              mainLink="/onboarding/backup"
+              subTitle="RESTORE WALLET"
+              subLink="/restore"
+            />
+            <IonRow className="ion-justify-content-center">
+              <IonButton className="sub-button" fill="clear" routerLink="/watch-only" data-testid="watch-only-button">
+                WATCH-ONLY WALLET
+              </IonButton>
+            </IonRow>
+          </div>
         </IonGrid>
       </IonContent>
     </IonPage>
@@ -0,0 +1,281 @@
+import '../../components/OperationListItem/style.scss';
+import {
+  IonButton,
+  IonCol,
+  IonContent,
+  IonGrid,
+  IonInput,
+  IonItem,
+  IonLabel,
+  IonList,
+  IonListHeader,
+  IonPage,
+  IonRow,
+  IonSelect,
+  IonSelectOption,
+  IonText,
+} from '@ionic/react';
+import classNames from 'classnames';
+import moment from 'moment';
+import React, { useMemo, useState } from 'react';
+import { useHistory } from 'react-router';
+
+import CurrencyIcon from '../../components/CurrencyIcon';
+import Header from '../../components/Header';
+import PageDescription from '../../components/PageDescription';
+import { getTradablesAssets } from '../../services/tdexService';
+import { useAssetStore } from '../../store/assetStore';
+import type { LimitOrder } from '../../store/limitOrderStore';
+import { LimitOrderStatus, useLimitOrderStore } from '../../store/limitOrderStore';
+import { useTdexStore } from '../../store/tdexStore';
+import { useToastStore } from '../../store/toastStore';
+import { useWalletStore } from '../../store/walletStore';
+import { LIMIT_ORDER_EXPIRIES } from '../../utils/constants';
+import { fromSatoshiFixed, toSatoshi } from '../../utils/unitConversion';
+
+const SECTIONS = [
+  { status: LimitOrderStatus.Triggered, title: 'Triggered' },
+  { status: LimitOrderStatus.Open, title: 'Open' },
+  { status: LimitOrderStatus.Expired, title: 'Expired' },
+  { status: LimitOrderStatus.Cancelled, title: 'Cancelled' },
+];
+
+export const LimitOrders: React.FC = () => {
+  const assets = useAssetStore((state) => state.assets);
+  const balances = useWalletStore((state) => state.balances);
+  const markets = useTdexStore((state) => state.markets);
+  const limitOrders = useLimitOrderStore((state) => state.limitOrders);
+  const addLimitOrder = useLimitOrderStore((state) => state.addLimitOrder);
+  const cancelLimitOrder = useLimitOrderStore((state) => state.cancelLimitOrder);
+  const checkLimitOrders = useLimitOrderStore((state) => state.checkLimitOrders);
+  const setModalLimitOrder = useLimitOrderStore((state) => state.setModalLimitOrder);
+  const addSuccessToast = useToastStore((state) => state.addSuccessToast);
+  const history = useHistory();
+  //
+  const [sendAsset, setSendAsset] = useState<string>();
+  const [receiveAsset, setReceiveAsset] = useState<string>();
+  const [sendAmount, setSendAmount] = useState<string>('');
+  const [targetPrice, setTargetPrice] = useState<string>('');
+  const [expiry, setExpiry] = useState<number>(LIMIT_ORDER_EXPIRIES[1].duration);
+
+  const precisionOf = (asset?: string) => (asset ? assets[asset]?.precision ?? 8 : 8);
+  const formatSats = (sats: number, asset: string) => fromSatoshiFixed(sats, precisionOf(asset), precisionOf(asset));
+
+  // Only protos v2 providers are polled
+  const sendAssets = useMemo(
+    () =>
+      Object.keys(balances ?? {}).filter((asset) => getTradablesAssets({ v1: [], v2: markets.v2 }, asset).length > 0),
+    [balances, markets.v2]
+  );
+  const receiveAssets = useMemo(
+    () => (sendAsset ? getTradablesAssets({ v1: [], v2: markets.v2 }, sendAsset) : []),
+    [markets.v2, sendAsset]
+  );
+
+  const sendSats = sendAsset && Number(sendAmount) > 0 ? toSatoshi(Number(sendAmount), precisionOf(sendAsset)) : 0;
+  const minReceiveSats =
+    receiveAsset && Number(targetPrice) > 0
+      ? toSatoshi(Number(sendAmount) * Number(targetPrice), precisionOf(receiveAsset))
+      : 0;
+  const isValid =
+    !!sendAsset &&
+    !!receiveAsset &&
+    sendSats > 0 &&
+    sendSats <= (balances?.[sendAsset]?.sats ?? 0) &&
+    Number.isSafeInteger(minReceiveSats) &&
+    minReceiveSats > 0;
+
+  const ordersByStatus = useMemo(() => {
+    const sorted = Object.values(limitOrders).sort((a, b) => b.createdAt - a.createdAt);
+    return SECTIONS.map((section) => ({
+      ...section,
+      orders: sorted.filter((order) => order.status === section.status),
+    }));
+  }, [limitOrders]);
+
+  const handleCreate = () => {
+    if (!isValid) return;
+    addLimitOrder({
+      send: { asset: sendAsset, sats: sendSats },
+      receiveAsset,
+      minReceiveSats,
+      expiresAt: Date.now() + expiry,
+    });
+    setSendAmount('');
+    setTargetPrice('');
+    addSuccessToast('Limit order created');
+    checkLimitOrders().catch(console.error);
+  };
+
+  const renderOrder = (order: LimitOrder) => (
+    <IonItem className="list-item transaction-item" key={order.id}>
+      <IonGrid>
+        <IonRow>
+          <IonCol className="icon" size="1">
+            <CurrencyIcon assetHash={order.send.asset} />
+            <CurrencyIcon assetHash={order.receiveAsset} />
+          </IonCol>
+          <IonCol size="6">
+            <div className="asset">
+              {`${formatSats(order.send.sats, order.send.asset)} ${assets[order.send.asset]?.ticker}`}
+            </div>
+            <div className="time">
+              {`for at least ${formatSats(order.minReceiveSats, order.receiveAsset)} ${
+                assets[order.receiveAsset]?.ticker
+              }`}
+            </div>
+          </IonCol>
+          <IonCol size="5" className="ion-text-right">
+            <div className={classNames('status-text', { failed: !!order.error })}>{order.status}</div>
+            <div className="time">
+              {order.status === LimitOrderStatus.Open || order.status === LimitOrderStatus.Triggered
+                ? `expires ${moment(order.expiresAt).fromNow()}`
+                : moment(order.expiresAt).format('DD MMM YYYY HH:mm')}
+            </div>
+          </IonCol>
+        </IonRow>
+        {order.lastPreviewSats !== undefined && !order.txid && (
+          <IonRow>
+            <IonCol size="11" offset="1">
+              <IonText className="time">
+                {`Last preview ${formatSats(order.lastPreviewSats, order.receiveAsset)} ${
+                  assets[order.receiveAsset]?.ticker
+                } ${moment(order.lastCheckedAt).fromNow()}`}
+              </IonText>
+            </IonCol>
+          </IonRow>
+        )}
+        {order.error && (
+          <IonRow>
+            <IonCol size="11" offset="1">
+              <IonText color="danger">{order.error}</IonText>
+            </IonCol>
+          </IonRow>
+        )}
+        <IonRow className="ion-justify-content-end">
+          {order.status === LimitOrderStatus.Open && (
+            <IonButton className="sub-button" fill="outline" onClick={() => cancelLimitOrder(order.id)}>
+              Cancel
+            </IonButton>
+          )}
+          {order.status === LimitOrderStatus.Triggered && !order.txid && (
+            <IonButton className="sub-button" onClick={() => setModalLimitOrder({ isOpen: true, orderId: order.id })}>
+              Execute
+            </IonButton>
+          )}
+          {order.txid && (
+            <IonButton className="sub-button" fill="clear" onClick={() => history.push(`/tradesummary/${order.txid}`)}>
+              View trade
+            </IonButton>
+          )}
+        </IonRow>
+      </IonGrid>
+    </IonItem>
+  );
+
+  return (
+    <IonPage id="limit-orders">
+      <IonContent>
+        <IonGrid>
+          <Header hasBackButton={true} title="LIMIT ORDERS" />
+          <PageDescription
+            description="Trade automatically once the price reaches your target. Open orders are checked every minute while the app is open, you will be prompted for your PIN when the target is hit."
+            title="Create a limit order"
+          />
+          <IonRow className="ion-margin-vertical">
+            <IonCol size="11" offset="0.5">
+              <IonItem className="input">
+                <IonLabel>Send</IonLabel>
+                <IonSelect
+                  value={sendAsset}
+                  onIonChange={(e) => {
+                    setSendAsset(e.detail.value);
+                    setReceiveAsset(undefined);
+                  }}
+                >
+                  {sendAssets.map((asset) => (
+                    <IonSelectOption key={asset} value={asset}>
+                      {`${assets[asset]?.ticker ?? asset.slice(0, 8)} (${formatSats(
+                        balances?.[asset]?.sats ?? 0,
+                        asset
+                      )})`}
+                    </IonSelectOption>
+                  ))}
+                </IonSelect>
+              </IonItem>
+              <IonItem className="input">
+                <IonInput
+                  inputmode="decimal"
+                  onIonChange={(e) => setSendAmount(e.detail.value || '')}
+                  placeholder="Amount to send"
+                  value={sendAmount}
+                />
+              </IonItem>
+              <IonItem className="input">
+                <IonLabel>Receive</IonLabel>
+                <IonSelect
+                  disabled={!sendAsset}
+                  value={receiveAsset}
+                  onIonChange={(e) => setReceiveAsset(e.detail.value)}
+                >
+                  {receiveAssets.map((asset) => (
+                    <IonSelectOption key={asset} value={asset}>
+                      {assets[asset]?.ticker ?? asset.slice(0, 8)}
+                    </IonSelectOption>
+                  ))}
+                </IonSelect>
+              </IonItem>
+              <IonItem className="input">
+                <IonInput
+                  inputmode="decimal"
+                  onIonChange={(e) => setTargetPrice(e.detail.value || '')}
+                  placeholder={
+                    sendAsset && receiveAsset
+                      ? `Target price in ${assets[receiveAsset]?.ticker} per ${assets[sendAsset]?.ticker}`
+                      : 'Target price'
+                  }
+                  value={targetPrice}
+                />
+              </IonItem>
+              <IonItem className="input">
+                <IonLabel>Expires in</IonLabel>
+                <IonSelect value={expiry} onIonChange={(e) => setExpiry(e.detail.value)}>
+                  {LIMIT_ORDER_EXPIRIES.map(({ label, duration }) => (
+                    <IonSelectOption key={duration} value={duration}>
+                      {label}
+                    </IonSelectOption>
+                  ))}
+                </IonSelect>
+              </IonItem>
+              {minReceiveSats > 0 && receiveAsset && (
+                <IonText className="time">
+                  {`You will receive at least ${formatSats(minReceiveSats, receiveAsset)} ${
+                    assets[receiveAsset]?.ticker
+                  }, trading fees deducted`}
+                </IonText>
+              )}
+            </IonCol>
+          </IonRow>
+          <IonRow className="ion-margin-vertical">
+            <IonCol size="9" offset="1.5" sizeMd="6" offsetMd="3">
+              <IonRow className="ion-justify-content-center">
+                <IonButton className="main-button" disabled={!isValid} onClick={handleCreate}>
+                  CREATE LIMIT ORDER
+                </IonButton>
+              </IonRow>
+            </IonCol>
+          </IonRow>
+          {ordersByStatus.map(
+            ({ status, title, orders }) =>
+              orders.length > 0 && (
+                <IonList key={status}>
+                  <IonListHeader>{title}</IonListHeader>
+                  {orders.map(renderOrder)}
+                </IonList>
+              )
+          )}
+        </IonGrid>
+      </IonContent>
+    </IonPage>
+  );
+};
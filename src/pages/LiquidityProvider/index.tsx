@@ -2,6 +2,7 @@ import './style.scss';
 
 import {
   IonAlert,
+  IonBadge,
   IonButton,
   IonCol,
   IonContent,
@@ -18,15 +19,18 @@ import {
   IonText,
 } from '@ionic/react';
 import { addCircleOutline, refreshCircleOutline, trash } from 'ionicons/icons';
+import moment from 'moment';
 import React, { useState } from 'react';
 
 import ButtonsMainSub from '../../components/ButtonsMainSub';
 import Header from '../../components/Header';
-import type { TDEXProvider } from '../../services/tdexService/v1/tradeCore';
+import type { TDEXProvider, TDEXProviderWithVersion } from '../../services/tdexService/v1/tradeCore';
+import { getReputationScore, useReputationStore } from '../../store/reputationStore';
 import { useTdexStore } from '../../store/tdexStore';
 import { useToastStore } from '../../store/toastStore';
 import type { NetworkString } from '../../utils/constants';
-import { InvalidUrl } from '../../utils/errors';
+import { MIN_PROVIDER_REPUTATION } from '../../utils/constants';
+import { AppError, InvalidUrl } from '../../utils/errors';
 
 interface LiquidityProvidersProps {
   network: NetworkString;
@@ -34,24 +38,67 @@ interface LiquidityProvidersProps {
 }
 
 export const LiquidityProviders: React.FC<LiquidityProvidersProps> = () => {
-  const addProviders = useTdexStore((state) => state.addProviders);
+  const addCustomProvider = useTdexStore((state) => state.addCustomProvider);
   const clearMarkets = useTdexStore((state) => state.clearMarkets);
   const deleteProvider = useTdexStore((state) => state.deleteProvider);
   const providers = useTdexStore((state) => state.providers);
+  const providerHealth = useTdexStore((state) => state.providerHealth);
+  const reputations = useReputationStore((state) => state.reputations);
+  const resetProviderReputation = useReputationStore((state) => state.resetProviderReputation);
   const refetchTdexProvidersAndMarkets = useTdexStore((state) => state.refetchTdexProvidersAndMarkets);
   const addErrorToast = useToastStore((state) => state.addErrorToast);
+  const addSuccessToast = useToastStore((state) => state.addSuccessToast);
   //
   const [providerToDelete, setProviderToDelete] = useState<TDEXProvider>();
   const [newProvider, setNewProvider] = useState(false);
   const [newProviderName, setNewProviderName] = useState('');
   const [newProviderEndpoint, setNewProviderEndpoint] = useState('');
   const [registryFetching, setRegistryFetching] = useState(false);
+  const [isAddingProvider, setIsAddingProvider] = useState(false);
 
   const isDuplicateProviderEndpoint = () =>
     newProvider && providers.some((provider) => provider.endpoint === newProviderEndpoint);
   const isNewProviderInvalid = () =>
     newProviderName.trim() === '' || newProviderEndpoint.trim() === '' || isDuplicateProviderEndpoint();
 
+  const handleAddProvider = async () => {
+    setIsAddingProvider(true);
+    try {
+      const provider = await addCustomProvider(newProviderName, newProviderEndpoint);
+      setNewProvider(false);
+      addSuccessToast(`Provider ${provider.name} added (protos ${provider.version})`);
+    } catch (err) {
+      console.error(err);
+      addErrorToast(err instanceof AppError ? err : InvalidUrl);
+    } finally {
+      setIsAddingProvider(false);
+    }
+  };
+
+  // Healthy if the last markets fetch succeeded
+  const renderHealthBadge = (endpoint: string) => {
+    const health = providerHealth[endpoint];
+    if (!health) return <IonBadge color="medium">unknown</IonBadge>;
+    const isHealthy = (health.lastSuccessAt ?? 0) > (health.lastErrorAt ?? 0);
+    return (
+      <>
+        <IonBadge color={isHealthy ? 'success' : 'danger'}>
+          {isHealthy ? `${health.latency} ms` : 'unreachable'}
+        </IonBadge>
+        <p className="provider-health">
+          {health.lastSuccessAt ? `Last success ${moment(health.lastSuccessAt).fromNow()}` : 'Never reached'}
+        </p>
+        {health.lastErrorAt && (
+          <p className="provider-health">
+            <IonText color="danger">{`Last error ${moment(health.lastErrorAt).fromNow()}: ${
+              health.lastError
+            }`}</IonText>
+          </p>
+        )}
+      </>
+    );
+  };
+
   const alertButtons = [
     {
       text: 'Abort',
@@ -70,6 +117,23 @@ export const LiquidityProviders: React.FC<LiquidityProvidersProps> = () => {
     },
   ];
 
+  const renderReputation = (endpoint: string) => {
+    const reputation = reputations[endpoint];
+    if (!reputation) return null;
+    const score = getReputationScore(reputation);
+    return (
+      <p className="provider-health">
+        <IonText color={score < MIN_PROVIDER_REPUTATION ? 'danger' : undefined}>{`Reputation ${score}/100`}</IonText>
+        {` · ${reputation.completedTrades} trades, ${reputation.failedProposals} failed, ${
+          reputation.timeouts
+        } timeouts, ${reputation.averageDeviation.toFixed(2)}% deviation `}
+        <IonText color="tertiary" onClick={() => resetProviderReputation(endpoint)}>
+          <u>reset</u>
+        </IonText>
+      </p>
+    );
+  };
+
   return (
     <IonPage>
       <IonAlert
@@ -118,7 +182,7 @@ export const LiquidityProviders: React.FC<LiquidityProvidersProps> = () => {
                         value={newProviderEndpoint}
                         onIonChange={(e) => setNewProviderEndpoint(e.detail.value || '')}
                         inputmode="url"
-                        placeholder="i.e http://localhost:9945"
+                        placeholder="https or .onion URL, i.e https://provider.example.com"
                       />
                       {isDuplicateProviderEndpoint() && (
                         <span className="ion-text-right">
@@ -134,25 +198,8 @@ export const LiquidityProviders: React.FC<LiquidityProvidersProps> = () => {
                   <ButtonsMainSub
                     mainTitle="CONFIRM"
                     subTitle="CANCEL"
-                    mainDisabled={isNewProviderInvalid()}
-                    mainOnClick={() => {
-                      const url = new URL(newProviderEndpoint);
-                      if (
-                        newProviderEndpoint.includes('.onion') ||
-                        (!newProviderEndpoint.includes('.onion') && url.protocol === 'https:')
-                      ) {
-                        setNewProvider(false);
-                        addProviders([
-                          {
-                            endpoint: newProviderEndpoint.trim(),
-                            name: newProviderName.trim(),
-                            version: 'v2', // TODO: we consider new daemons are always v2
-                          },
-                        ]);
-                      } else {
-                        addErrorToast(InvalidUrl);
-                      }
-                    }}
+                    mainDisabled={isNewProviderInvalid() || isAddingProvider}
+                    mainOnClick={handleAddProvider}
                     subOnClick={() => setNewProvider(false)}
                   />
                 </IonCol>
@@ -165,12 +212,18 @@ export const LiquidityProviders: React.FC<LiquidityProvidersProps> = () => {
           <Header title="TDEX PROVIDERS" hasBackButton={true} />
           <IonList>
             <IonListHeader>Providers</IonListHeader>
-            {providers.map((provider: TDEXProvider, index: number) => {
+            {providers.map((provider: TDEXProviderWithVersion, index: number) => {
               return (
                 <IonItem className="provider-container" key={index}>
                   <div className="provider-data">
                     <h2 className="provider-name">{provider.name}</h2>
                     <p className="provider-endpoint">{provider.endpoint}</p>
+                    <p className="provider-endpoint">
+                      {`protos ${provider.version}`}
+                      {provider.isUserAdded && ' · added by you'}
+                    </p>
+                    {renderHealthBadge(provider.endpoint)}
+                    {renderReputation(provider.endpoint)}
                   </div>
                   <div className="button-delete ion-text-right">
                     <IonButton
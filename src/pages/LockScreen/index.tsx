@@ -0,0 +1,63 @@
+import { IonContent, IonPage } from '@ionic/react';
+import React, { useState } from 'react';
+
+import PinModal from '../../components/PinModal';
+import { useAppStore } from '../../store/appStore';
+import { useToastStore } from '../../store/toastStore';
+import { useWalletStore } from '../../store/walletStore';
+import { checkPin } from '../../utils/actions';
+import { PIN_TIMEOUT_FAILURE, PIN_TIMEOUT_SUCCESS } from '../../utils/constants';
+import { decrypt } from '../../utils/crypto';
+import { IncorrectPINError } from '../../utils/errors';
+
+// Full-screen lock of the auto-lock, no page of the wallet being rendered until the PIN is entered
+export const LockScreen: React.FC = () => {
+  const setIsLocked = useAppStore((state) => state.setIsLocked);
+  const addErrorToast = useToastStore((state) => state.addErrorToast);
+  const encryptedMnemonic = useWalletStore((state) => state.encryptedMnemonic);
+  const walletsData = useWalletStore((state) => state.walletsData);
+  const setIsAuthorized = useWalletStore((state) => state.setIsAuthorized);
+  //
+  const [isWrongPin, setIsWrongPin] = useState<boolean | null>(null);
+  const [needReset, setNeedReset] = useState<boolean>(false);
+
+  const onConfirmPin = async (pin: string) => {
+    try {
+      // all wallets share the PIN, the active one may be watch-only
+      const encrypted =
+        encryptedMnemonic ?? Object.values(walletsData).find((data) => data.encryptedMnemonic)?.encryptedMnemonic;
+      if (!encrypted) throw new Error('No mnemonic found in wallet');
+      await checkPin(() => decrypt(encrypted, pin));
+      setIsWrongPin(false);
+      setTimeout(() => {
+        setIsWrongPin(null);
+        setIsLocked(false);
+        setIsAuthorized(true);
+      }, PIN_TIMEOUT_SUCCESS);
+    } catch (err) {
+      console.error(err);
+      addErrorToast(IncorrectPINError);
+      setIsWrongPin(true);
+      setTimeout(() => {
+        setIsWrongPin(null);
+        setNeedReset(true);
+      }, PIN_TIMEOUT_FAILURE);
+    }
+  };
+
+  return (
+    <IonPage id="lock-screen">
+      <PinModal
+        open={true}
+        title="Wallet locked"
+        description="Enter your secret PIN to unlock your wallet"
+        onConfirm={onConfirmPin}
+        isWrongPin={isWrongPin}
+        setIsWrongPin={setIsWrongPin}
+        needReset={needReset}
+        setNeedReset={setNeedReset}
+      />
+      <IonContent />
+    </IonPage>
+  );
+};
@@ -0,0 +1,257 @@
+import '../../components/OperationListItem/style.scss';
+import {
+  IonChip,
+  IonCol,
+  IonContent,
+  IonGrid,
+  IonItem,
+  IonLabel,
+  IonList,
+  IonListHeader,
+  IonPage,
+  IonRow,
+  IonSelect,
+  IonSelectOption,
+  IonText,
+} from '@ionic/react';
+import React, { useEffect, useMemo, useState } from 'react';
+
+import CurrencyIcon from '../../components/CurrencyIcon';
+import Header from '../../components/Header';
+import PriceChart from '../../components/PriceChart';
+import Refresher from '../../components/Refresher';
+import { getMarketPriceV1, getMarketPriceV2 } from '../../services/tdexService';
+import { useAssetStore } from '../../store/assetStore';
+import { getMarketKey, usePriceHistoryStore } from '../../store/priceHistoryStore';
+import { useSettingsStore } from '../../store/settingsStore';
+import { useTdexStore } from '../../store/tdexStore';
+import { PRICE_HISTORY_RETENTIONS } from '../../utils/constants';
+import { fromSatoshiFixed } from '../../utils/unitConversion';
+
+type SortKey = 'price' | 'baseBalance' | 'quoteBalance' | 'fee';
+
+const SORT_KEYS: { key: SortKey; label: string }[] = [
+  { key: 'price', label: 'Price' },
+  { key: 'baseBalance', label: 'Base' },
+  { key: 'quoteBalance', label: 'Quote' },
+  { key: 'fee', label: 'Fee' },
+];
+
+// v1 and v2 markets flattened in a single shape
+interface MarketRow {
+  id: string;
+  baseAsset: string;
+  quoteAsset: string;
+  providerName: string;
+  version: 'v1' | 'v2';
+  baseAmount: number;
+  quoteAmount: number;
+  // basis points
+  percentageFee: { base: number; quote: number };
+  // satoshis
+  fixedFee: { base: number; quote: number };
+}
+
+export const Markets: React.FC = () => {
+  const assets = useAssetStore((state) => state.assets);
+  const markets = useTdexStore((state) => state.markets);
+  const torProxy = useSettingsStore((state) => state.torProxy);
+  const retention = usePriceHistoryStore((state) => state.retention);
+  const setRetention = usePriceHistoryStore((state) => state.setRetention);
+  //
+  const [spotPrices, setSpotPrices] = useState<Record<string, number | undefined>>({});
+  const [isLoadingPrices, setIsLoadingPrices] = useState(false);
+  // sort of each pair, by pair id
+  const [sorts, setSorts] = useState<Record<string, { key: SortKey; desc: boolean }>>({});
+
+  const rows = useMemo<MarketRow[]>(
+    () => [
+      ...markets.v1.map((market) => ({
+        id: getMarketKey(market.provider.endpoint, market.baseAsset, market.quoteAsset),
+        baseAsset: market.baseAsset,
+        quoteAsset: market.quoteAsset,
+        providerName: market.provider.name,
+        version: 'v1' as const,
+        baseAmount: Number(market.baseAmount ?? 0),
+        quoteAmount: Number(market.quoteAmount ?? 0),
+        percentageFee: { base: Number(market.basisPoint ?? 0), quote: Number(market.basisPoint ?? 0) },
+        fixedFee: { base: Number(market.fixed?.baseFee ?? 0), quote: Number(market.fixed?.quoteFee ?? 0) },
+      })),
+      ...markets.v2.map((market) => ({
+        id: getMarketKey(market.provider.endpoint, market.baseAsset, market.quoteAsset),
+        baseAsset: market.baseAsset,
+        quoteAsset: market.quoteAsset,
+        providerName: market.provider.name,
+        version: 'v2' as const,
+        baseAmount: Number(market.baseAmount ?? 0),
+        quoteAmount: Number(market.quoteAmount ?? 0),
+        percentageFee: {
+          base: Number(market.percentageFee?.baseAsset ?? 0),
+          quote: Number(market.percentageFee?.quoteAsset ?? 0),
+        },
+        fixedFee: { base: Number(market.fixedFee?.baseAsset ?? 0), quote: Number(market.fixedFee?.quoteAsset ?? 0) },
+      })),
+    ],
+    [markets]
+  );
+
+  useEffect(() => {
+    (async () => {
+      setIsLoadingPrices(true);
+      const prices = await Promise.allSettled([
+        ...markets.v1.map((market) => getMarketPriceV1(market, torProxy)),
+        ...markets.v2.map((market) => getMarketPriceV2(market, torProxy)),
+      ]);
+      const ids = [...markets.v1, ...markets.v2].map((market) =>
+        getMarketKey(market.provider.endpoint, market.baseAsset, market.quoteAsset)
+      );
+      const spotPricesById: Record<string, number | undefined> = {};
+      prices.forEach((price, index) => {
+        if (price.status === 'rejected') console.debug(price.reason);
+        spotPricesById[ids[index]] = price.status === 'fulfilled' ? price.value.spotPrice : undefined;
+      });
+      setSpotPrices(spotPricesById);
+      setIsLoadingPrices(false);
+    })();
+  }, [markets, torProxy]);
+
+  const pairs = useMemo(() => {
+    const byPair = new Map<string, MarketRow[]>();
+    for (const row of rows) {
+      const pairId = `${row.baseAsset}|${row.quoteAsset}`;
+      byPair.set(pairId, [...(byPair.get(pairId) ?? []), row]);
+    }
+    return Array.from(byPair.entries());
+  }, [rows]);
+
+  const getSortValue = (row: MarketRow, key: SortKey): number => {
+    switch (key) {
+      case 'price':
+        return spotPrices[row.id] ?? 0;
+      case 'baseBalance':
+        return row.baseAmount;
+      case 'quoteBalance':
+        return row.quoteAmount;
+      case 'fee':
+        return row.percentageFee.base + row.percentageFee.quote;
+    }
+  };
+
+  const sortRows = (pairId: string, pairRows: MarketRow[]) => {
+    const sort = sorts[pairId];
+    if (!sort) return pairRows;
+    return [...pairRows].sort((a, b) => {
+      const diff = getSortValue(a, sort.key) - getSortValue(b, sort.key);
+      return sort.desc ? -diff : diff;
+    });
+  };
+
+  // Clicking the active sort again reverses it
+  const toggleSort = (pairId: string, key: SortKey) => {
+    setSorts((prev) => ({
+      ...prev,
+      [pairId]: { key, desc: prev[pairId]?.key === key ? !prev[pairId].desc : true },
+    }));
+  };
+
+  const formatSats = (sats: number, asset: string) =>
+    fromSatoshiFixed(sats, assets[asset]?.precision ?? 8, assets[asset]?.precision ?? 8);
+  const tickerOf = (asset: string) => assets[asset]?.ticker ?? asset.slice(0, 4);
+
+  return (
+    <IonPage id="markets">
+      <IonContent>
+        <Refresher />
+        <IonGrid>
+          <Header hasBackButton={true} title="MARKETS" />
+          <IonRow className="ion-margin-vertical">
+            <IonCol size="11" offset="0.5">
+              <IonItem className="input">
+                <IonLabel>Keep price history for</IonLabel>
+                <IonSelect value={retention} onIonChange={(e) => setRetention(e.detail.value)}>
+                  {PRICE_HISTORY_RETENTIONS.map(({ label, duration }) => (
+                    <IonSelectOption key={duration} value={duration}>
+                      {label}
+                    </IonSelectOption>
+                  ))}
+                </IonSelect>
+              </IonItem>
+            </IonCol>
+          </IonRow>
+          {pairs.length === 0 && (
+            <IonRow className="ion-text-center ion-margin">
+              <IonCol size="10" offset="1">
+                <p>No markets available. Check your liquidity providers.</p>
+              </IonCol>
+            </IonRow>
+          )}
+          {pairs.map(([pairId, pairRows]) => {
+            const [baseAsset, quoteAsset] = pairId.split('|');
+            return (
+              <IonList key={pairId}>
+                <IonListHeader>
+                  <CurrencyIcon assetHash={baseAsset} />
+                  <CurrencyIcon assetHash={quoteAsset} />
+                  <IonLabel className="ion-margin-start">{`${tickerOf(baseAsset)}/${tickerOf(quoteAsset)}`}</IonLabel>
+                </IonListHeader>
+                <PriceChart assets={[baseAsset, quoteAsset]} />
+                <IonRow className="ion-margin-horizontal">
+                  {SORT_KEYS.map(({ key, label }) => (
+                    <IonChip key={key} outline={sorts[pairId]?.key !== key} onClick={() => toggleSort(pairId, key)}>
+                      {label}
+                      {sorts[pairId]?.key === key && (sorts[pairId].desc ? ' ↓' : ' ↑')}
+                    </IonChip>
+                  ))}
+                </IonRow>
+                {sortRows(pairId, pairRows).map((row) => (
+                  <IonItem className="list-item" key={row.id}>
+                    <IonGrid>
+                      <IonRow>
+                        <IonCol size="7">
+                          <div className="asset">{row.providerName}</div>
+                          <div className="time">{`protos ${row.version}`}</div>
+                        </IonCol>
+                        <IonCol size="5" className="ion-text-right">
+                          <div className="asset">
+                            {spotPrices[row.id] !== undefined
+                              ? `${spotPrices[row.id]} ${tickerOf(quoteAsset)}`
+                              : isLoadingPrices
+                              ? '...'
+                              : 'n/a'}
+                          </div>
+                          <div className="time">{`per ${tickerOf(baseAsset)}`}</div>
+                        </IonCol>
+                      </IonRow>
+                      <IonRow>
+                        <IonCol size="7">
+                          <IonText className="time">
+                            {`Balance ${formatSats(row.baseAmount, baseAsset)} ${tickerOf(baseAsset)} / ${formatSats(
+                              row.quoteAmount,
+                              quoteAsset
+                            )} ${tickerOf(quoteAsset)}`}
+                          </IonText>
+                        </IonCol>
+                        <IonCol size="5" className="ion-text-right">
+                          <IonText className="time">
+                            {`Fee ${row.percentageFee.base / 100}% / ${row.percentageFee.quote / 100}%`}
+                          </IonText>
+                          <br />
+                          <IonText className="time">
+                            {`+ ${formatSats(row.fixedFee.base, baseAsset)} / ${formatSats(
+                              row.fixedFee.quote,
+                              quoteAsset
+                            )}`}
+                          </IonText>
+                        </IonCol>
+                      </IonRow>
+                    </IonGrid>
+                  </IonItem>
+                ))}
+              </IonList>
+            );
+          })}
+        </IonGrid>
+      </IonContent>
+    </IonPage>
+  );
+};
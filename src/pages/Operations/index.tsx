@@ -44,6 +44,7 @@ export const Operations: React.FC<RouteComponentProps> = ({ history }) => {
   const computeHeuristicFromTx = useWalletStore((state) => state.computeHeuristicFromTx);
   const computeHeuristicFromPegins = useWalletStore((state) => state.computeHeuristicFromPegins);
   const txs = useWalletStore((state) => state.txs);
+  const isWatchOnly = useWalletStore((state) => state.isWatchOnly);
   //
   const { asset_id } = useParams<{ asset_id: string }>();
   const [txsToDisplay, setTxsToDisplay] = useState<TxHeuristic[]>([]);
@@ -124,29 +125,33 @@ export const Operations: React.FC<RouteComponentProps> = ({ history }) => {
                 Receive
               </div>
             </IonButton>
-            <IonButton
-              className="coin-action-button"
-              data-testid="button-send"
-              onClick={() => {
-                history.push(`/withdraw/${asset_id}`);
-              }}
-            >
-              <div>
-                <img src={depositIcon} alt="withdraw" className="icon-withdraw" />
-                Send
-              </div>
-            </IonButton>
-            <IonButton className="coin-action-button" routerLink="/exchange">
-              <div>
-                <img src={swapIcon} alt="swap" />
-                Swap
-              </div>
-            </IonButton>
+            {!isWatchOnly && (
+              <>
+                <IonButton
+                  className="coin-action-button"
+                  data-testid="button-send"
+                  onClick={() => {
+                    history.push(`/withdraw/${asset_id}`);
+                  }}
+                >
+                  <div>
+                    <img src={depositIcon} alt="withdraw" className="icon-withdraw" />
+                    Send
+                  </div>
+                </IonButton>
+                <IonButton className="coin-action-button" routerLink="/exchange">
+                  <div>
+                    <img src={swapIcon} alt="swap" />
+                    Swap
+                  </div>
+                </IonButton>
+              </>
+            )}
           </IonButtons>
         </IonCol>
       </IonRow>
     ),
-    [asset_id, assets, history, network]
+    [asset_id, assets, history, isWatchOnly, network]
   );
 
   const AssetBalance = useMemo(
@@ -217,7 +217,7 @@ const PinSetting: React.FC<RouteComponentProps> = ({ history }) => {
                 isLocked={isPinInputLocked}
                 inputRef={inputRef}
                 isWrongPin={isWrongPin}
-                on6digits={handleConfirm}
+                onComplete={handleConfirm}
                 onPin={isRepeatScreen ? setSecondPin : setFirstPin}
                 pin={isRepeatScreen ? secondPin : firstPin}
               />
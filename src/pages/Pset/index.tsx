@@ -0,0 +1,419 @@
+import '../../components/OperationListItem/style.scss';
+import './style.scss';
+import { Capacitor } from '@capacitor/core';
+import { BarcodeScanner } from '@capacitor-community/barcode-scanner';
+import {
+  IonButton,
+  IonCol,
+  IonContent,
+  IonGrid,
+  IonItem,
+  IonLabel,
+  IonList,
+  IonListHeader,
+  IonPage,
+  IonRow,
+  IonText,
+  IonTextarea,
+  useIonViewWillLeave,
+} from '@ionic/react';
+import classNames from 'classnames';
+import type { Pset as LiquidPset } from 'liquidjs-lib';
+import React, { useEffect, useState } from 'react';
+import type { RouteComponentProps } from 'react-router';
+
+import Header from '../../components/Header';
+import Loader from '../../components/Loader';
+import PageDescription from '../../components/PageDescription';
+import PinModal from '../../components/PinModal';
+import PsetExport from '../../components/PsetExport';
+import WatchOnlyNotice from '../../components/WatchOnlyNotice';
+import { chainSource } from '../../services/chainSource';
+import { SignerService } from '../../services/signerService';
+import { useAssetStore } from '../../store/assetStore';
+import { useSettingsStore } from '../../store/settingsStore';
+import { useToastStore } from '../../store/toastStore';
+import { useWalletStore } from '../../store/walletStore';
+import { checkPin } from '../../utils/actions';
+import type { QrFrame } from '../../utils/animatedQr';
+import { joinQrFrames, parseQrFrame } from '../../utils/animatedQr';
+import { PIN_TIMEOUT_FAILURE, PIN_TIMEOUT_SUCCESS } from '../../utils/constants';
+import { decrypt } from '../../utils/crypto';
+import {
+  AppError,
+  IncorrectPINError,
+  InvalidPsetError,
+  PsetNotSignedError,
+  PsetUnsafeSighashError,
+  PsetV0NotSupportedError,
+  QRCodeScanError,
+  WithdrawTxError,
+} from '../../utils/errors';
+import { isLbtcTicker } from '../../utils/helpers';
+import type { DecodedPsetInput, DecodedPsetOutput } from '../../utils/transaction';
+import {
+  decodePset,
+  decodePsetDetails,
+  extractSignedTransaction,
+  hasUnsafeSighash,
+  isPsetV0,
+  isRawTransaction,
+} from '../../utils/transaction';
+import { fromSatoshiFixed } from '../../utils/unitConversion';
+
+export type PsetLocationState = {
+  // base64 pset exported by another screen
+  pset?: string;
+};
+
+type Imported =
+  | { kind: 'pset'; pset: LiquidPset; inputs: DecodedPsetInput[]; outputs: DecodedPsetOutput[] }
+  | { kind: 'transaction'; hex: string };
+
+export const Pset: React.FC<RouteComponentProps<any, any, PsetLocationState>> = ({ history, location }) => {
+  const assets = useAssetStore((state) => state.assets);
+  const lbtcUnit = useSettingsStore((state) => state.lbtcUnit);
+  const addErrorToast = useToastStore((state) => state.addErrorToast);
+  const addSuccessToast = useToastStore((state) => state.addSuccessToast);
+  const encryptedMnemonic = useWalletStore((state) => state.encryptedMnemonic);
+  const isWatchOnly = useWalletStore((state) => state.isWatchOnly);
+  //
+  const [text, setText] = useState(location.state?.pset ?? '');
+  const [imported, setImported] = useState<Imported>();
+  const [importError, setImportError] = useState('');
+  const [scanProgress, setScanProgress] = useState<string>();
+  const [loading, setLoading] = useState(false);
+  const [modalOpen, setModalOpen] = useState(false);
+  const [needReset, setNeedReset] = useState<boolean>(false);
+  const [isWrongPin, setIsWrongPin] = useState<boolean | null>(null);
+
+  // Decode whatever has been pasted, scanned or exported by another screen
+  useEffect(() => {
+    const content = text.trim();
+    if (!content) {
+      setImported(undefined);
+      setImportError('');
+      return;
+    }
+    try {
+      if (isRawTransaction(content)) {
+        setImported({ kind: 'transaction', hex: content });
+      } else {
+        let pset: LiquidPset;
+        try {
+          pset = decodePset(content);
+        } catch (err) {
+          throw isPsetV0(content) ? PsetV0NotSupportedError : InvalidPsetError;
+        }
+        setImported({ kind: 'pset', pset, ...decodePsetDetails(pset) });
+      }
+      setImportError('');
+    } catch (err) {
+      console.error(err);
+      setImported(undefined);
+      setImportError(err instanceof AppError ? err.message : InvalidPsetError.message);
+    }
+  }, [text]);
+
+  const pasteFromClipboard = async () => {
+    try {
+      setText(await navigator.clipboard.readText());
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const stopScan = async () => {
+    setScanProgress(undefined);
+    document.body.classList.remove('bg-transparent');
+    if (Capacitor.isPluginAvailable('BarcodeScanner') && Capacitor.isNativePlatform()) {
+      try {
+        await BarcodeScanner.showBackground();
+        await BarcodeScanner.stopScan();
+      } catch (err) {
+        console.error(err);
+      }
+    }
+  };
+
+  // Scan a single QR code or every frame of an animated one
+  const scanQrCode = async () => {
+    try {
+      if (!Capacitor.isPluginAvailable('BarcodeScanner') || !Capacitor.isNativePlatform()) throw QRCodeScanError;
+      const granted = await BarcodeScanner.checkPermission({ force: true });
+      if (!granted) throw new Error('CAMERA permission not granted.');
+      await BarcodeScanner.hideBackground();
+      document.body.classList.add('bg-transparent');
+      setScanProgress('Scanning...');
+      const frames: QrFrame[] = [];
+      let payload: string | undefined;
+      while (payload === undefined) {
+        const result = await BarcodeScanner.startScan();
+        if (!result.hasContent || !result.content) break;
+        const frame = parseQrFrame(result.content);
+        if (!frame) {
+          payload = result.content;
+        } else if (!frames.some(({ index }) => index === frame.index)) {
+          frames.push(frame);
+          payload = joinQrFrames(frames);
+          setScanProgress(`${frames.length} of ${frame.total} frames scanned`);
+        }
+      }
+      if (payload !== undefined) {
+        setText(payload);
+        addSuccessToast('PSET scanned!');
+      }
+    } catch (err) {
+      console.error(err);
+      addErrorToast(QRCodeScanError);
+    } finally {
+      await stopScan();
+    }
+  };
+
+  useIonViewWillLeave(async () => {
+    await stopScan();
+  });
+
+  const broadcast = async (hex: string) => {
+    try {
+      setLoading(true);
+      const txid = await chainSource.broadcastTransaction(hex);
+      addSuccessToast('Transaction broadcasted.');
+      history.replace(`/transaction/${txid}`);
+    } catch (err) {
+      console.error(err);
+      addErrorToast(err instanceof AppError ? err : WithdrawTxError);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const finalizeAndBroadcast = async () => {
+    if (imported?.kind !== 'pset') return;
+    let hex: string;
+    try {
+      hex = extractSignedTransaction(imported.pset);
+    } catch (err) {
+      console.error(err);
+      addErrorToast(PsetNotSignedError);
+      return;
+    }
+    await broadcast(hex);
+  };
+
+  const signPset = async (pin: string) => {
+    if (imported?.kind !== 'pset') return;
+    try {
+      setLoading(true);
+      // the signatures of our inputs must commit to the whole transaction
+      if (imported.inputs.some(hasUnsafeSighash)) throw PsetUnsafeSighashError;
+      try {
+        // Check pin
+        if (!encryptedMnemonic) throw new Error('No mnemonic found in wallet');
+        await checkPin(() => decrypt(encryptedMnemonic, pin));
+        setIsWrongPin(false);
+        setTimeout(() => {
+          setIsWrongPin(null);
+          setNeedReset(true);
+        }, PIN_TIMEOUT_SUCCESS);
+      } catch (_) {
+        throw IncorrectPINError;
+      }
+      const signer = await SignerService.fromPassword(pin);
+      setText(await signer.signPset(imported.pset));
+      addSuccessToast('Inputs of your wallet signed.');
+    } catch (err) {
+      console.error(err);
+      setIsWrongPin(true);
+      setTimeout(() => {
+        setIsWrongPin(null);
+        setNeedReset(true);
+      }, PIN_TIMEOUT_FAILURE);
+      addErrorToast(err instanceof AppError ? err : WithdrawTxError);
+    } finally {
+      setModalOpen(false);
+      setLoading(false);
+    }
+  };
+
+  const formatAmount = (value?: number, asset?: string) => {
+    if (value === undefined || asset === undefined) return 'Confidential amount';
+    const unit = isLbtcTicker(assets[asset]?.ticker || '') ? lbtcUnit : undefined;
+    return `${fromSatoshiFixed(value, assets[asset]?.precision, undefined, unit)} ${
+      unit ?? assets[asset]?.ticker ?? asset.slice(0, 8)
+    }`;
+  };
+
+  const ownedUnsignedCount =
+    imported?.kind === 'pset' ? imported.inputs.filter((input) => input.isOwned && !input.isSigned).length : 0;
+  const signedCount = imported?.kind === 'pset' ? imported.inputs.filter((input) => input.isSigned).length : 0;
+  const unsafeCount = imported?.kind === 'pset' ? imported.inputs.filter(hasUnsafeSighash).length : 0;
+
+  if (scanProgress) {
+    return (
+      <IonPage id="pset-scanner">
+        <IonContent>
+          <Header title="SCAN PSET" hasBackButton={false} hasCloseButton={false} />
+          <IonGrid>
+            <IonRow className="ion-margin-vertical-x2">
+              <IonCol>
+                <div className="scan-box" />
+              </IonCol>
+            </IonRow>
+            <IonRow className="ion-text-center">
+              <IonCol>
+                <IonText>{scanProgress}</IonText>
+              </IonCol>
+            </IonRow>
+            <IonRow>
+              <IonCol size="8" offset="2">
+                <IonButton onClick={stopScan} className="sub-button">
+                  CLOSE
+                </IonButton>
+              </IonCol>
+            </IonRow>
+          </IonGrid>
+        </IonContent>
+      </IonPage>
+    );
+  }
+
+  return (
+    <IonPage id="pset">
+      <PinModal
+        open={modalOpen}
+        title="Unlock your seed"
+        description={`Enter your secret PIN to sign ${ownedUnsignedCount} inputs of your wallet.`}
+        onConfirm={signPset}
+        onClose={() => setModalOpen(false)}
+        isWrongPin={isWrongPin}
+        needReset={needReset}
+        setNeedReset={setNeedReset}
+        setIsWrongPin={setIsWrongPin}
+      />
+      <Loader showLoading={loading} delay={0} />
+      <IonContent>
+        <IonGrid>
+          <Header title="PSET" hasBackButton={true} />
+          <PageDescription
+            description="Review a partially signed transaction, sign the inputs of your wallet and broadcast it once complete, or export it to be signed elsewhere."
+            title="Sign a PSET"
+          />
+          <IonItem className="input ion-margin-horizontal">
+            <IonTextarea
+              data-testid="pset-input"
+              autoGrow={false}
+              rows={3}
+              placeholder="Base64 PSET or signed transaction hex"
+              value={text}
+              onIonChange={(e) => setText(e.detail.value ?? '')}
+            />
+          </IonItem>
+          <IonRow className="ion-text-center">
+            <IonCol>
+              <IonButton fill="clear" className="sub-button" onClick={pasteFromClipboard}>
+                Paste
+              </IonButton>
+              <IonButton fill="clear" className="sub-button" onClick={scanQrCode}>
+                Scan QR code
+              </IonButton>
+            </IonCol>
+          </IonRow>
+          {importError && (
+            <IonRow className="ion-text-center">
+              <IonCol>
+                <IonText color="danger">{importError}</IonText>
+              </IonCol>
+            </IonRow>
+          )}
+
+          {imported?.kind === 'transaction' && (
+            <IonRow className="ion-margin-vertical-x2">
+              <IonCol size="9" offset="1.5" sizeMd="6" offsetMd="3">
+                <IonButton className="main-button" onClick={() => broadcast(imported.hex)}>
+                  BROADCAST TRANSACTION
+                </IonButton>
+              </IonCol>
+            </IonRow>
+          )}
+
+          {imported?.kind === 'pset' && (
+            <>
+              <IonList>
+                <IonListHeader>{`Inputs, ${signedCount} of ${imported.inputs.length} signed`}</IonListHeader>
+                {imported.inputs.map((input) => (
+                  <IonItem className="list-item" key={`${input.txid}:${input.vout}`}>
+                    <IonLabel>
+                      <div className="asset">{formatAmount(input.value, input.asset)}</div>
+                      <div className="pset-details">{`${input.txid}:${input.vout}`}</div>
+                    </IonLabel>
+                    <div slot="end" className="ion-text-right">
+                      <div className={classNames('pset-owner', { owned: input.isOwned })}>
+                        {input.isOwned ? 'Your wallet' : 'Foreign'}
+                      </div>
+                      <div className="pset-details">{input.isSigned ? 'Signed' : 'Unsigned'}</div>
+                      {hasUnsafeSighash(input) && (
+                        <IonText color="danger" className="pset-details">
+                          {`Unsafe sighash ${input.sighashType}`}
+                        </IonText>
+                      )}
+                    </div>
+                  </IonItem>
+                ))}
+              </IonList>
+              <IonList>
+                <IonListHeader>Outputs</IonListHeader>
+                {imported.outputs.map((output, index) => (
+                  <IonItem className="list-item" key={index}>
+                    <IonLabel>
+                      <div className="asset">{formatAmount(output.value, output.asset)}</div>
+                      <div className="pset-details">
+                        {output.isFee ? 'Network fee' : output.address ?? 'Unknown script'}
+                      </div>
+                    </IonLabel>
+                    <div slot="end" className={classNames('pset-owner', { owned: output.isOwned })}>
+                      {output.isFee ? 'Fee' : output.isOwned ? 'Your wallet' : 'Foreign'}
+                    </div>
+                  </IonItem>
+                ))}
+              </IonList>
+
+              {unsafeCount > 0 && (
+                <IonRow className="ion-text-center">
+                  <IonCol>
+                    <IonText color="danger">{PsetUnsafeSighashError.description}</IonText>
+                  </IonCol>
+                </IonRow>
+              )}
+              <WatchOnlyNotice />
+              <IonRow className="ion-margin-vertical-x2">
+                <IonCol size="9" offset="1.5" sizeMd="6" offsetMd="3">
+                  <IonButton
+                    className="main-button"
+                    disabled={ownedUnsignedCount === 0 || unsafeCount > 0 || isWatchOnly}
+                    onClick={() => setModalOpen(true)}
+                  >
+                    SIGN
+                  </IonButton>
+                  <IonButton
+                    className="sub-button"
+                    disabled={signedCount < imported.inputs.length}
+                    onClick={finalizeAndBroadcast}
+                  >
+                    FINALIZE AND BROADCAST
+                  </IonButton>
+                </IonCol>
+              </IonRow>
+
+              <IonList>
+                <IonListHeader>Export</IonListHeader>
+              </IonList>
+              <PsetExport pset={imported.pset.toBase64()} />
+            </>
+          )}
+        </IonGrid>
+      </IonContent>
+    </IonPage>
+  );
+};
@@ -1,5 +1,17 @@
 import './style.scss';
-import { IonButton, IonCol, IonContent, IonGrid, IonInput, IonPage, IonRow } from '@ionic/react';
+import {
+  IonButton,
+  IonCol,
+  IonContent,
+  IonGrid,
+  IonInput,
+  IonItem,
+  IonLabel,
+  IonPage,
+  IonRow,
+  IonSegment,
+  IonSegmentButton,
+} from '@ionic/react';
 import * as bip39 from 'bip39';
 import classNames from 'classnames';
 import React, { useState } from 'react';
@@ -14,7 +26,8 @@ import { useMnemonic } from '../../hooks/useMnemonic';
 import { useAppStore } from '../../store/appStore';
 import { useToastStore } from '../../store/toastStore';
 import { useWalletStore } from '../../store/walletStore';
-import { PIN_TIMEOUT_FAILURE, PIN_TIMEOUT_SUCCESS } from '../../utils/constants';
+import type { MnemonicWordCount } from '../../utils/constants';
+import { MNEMONIC_WORD_COUNTS, PIN_TIMEOUT_FAILURE, PIN_TIMEOUT_SUCCESS } from '../../utils/constants';
 import type { AppError } from '../../utils/errors';
 import { InvalidMnemonicError, PINsDoNotMatchError } from '../../utils/errors';
 import { onPressEnterKeyFactory } from '../../utils/keyboard';
@@ -29,7 +42,9 @@ export const RestoreWallet: React.FC<RouteComponentProps> = ({ history }) => {
   const sync = useWalletStore((state) => state.sync);
   const subscribeAllScripts = useWalletStore((state) => state.subscribeAllScripts);
   //
-  const [mnemonic, setMnemonicWord] = useMnemonic();
+  const [mnemonic, setMnemonicWord, setWordCount] = useMnemonic();
+  // BIP39 passphrase, used as typed since any change leads to another wallet
+  const [passphrase, setPassphrase] = useState('');
   const [modalOpen, setModalOpen] = useState<'first' | 'second'>();
   const [firstPin, setFirstPin] = useState<string>();
   const [needReset, setNeedReset] = useState<boolean>(false);
@@ -44,8 +59,8 @@ export const RestoreWallet: React.FC<RouteComponentProps> = ({ history }) => {
     setModalOpen('first');
   };
 
-  // use for keyboard tricks
-  const [refs, setFocus] = useFocus(12, handleConfirm);
+  // use for keyboard tricks, as many inputs as the longest mnemonic
+  const [refs, setFocus] = useFocus(MNEMONIC_WORD_COUNTS[MNEMONIC_WORD_COUNTS.length - 1]);
 
   const onFirstPinConfirm = (newPin: string) => {
     setFirstPin(newPin);
@@ -61,12 +76,12 @@ export const RestoreWallet: React.FC<RouteComponentProps> = ({ history }) => {
     if (newPin === firstPin) {
       setLoading(true);
       const mnemonicStr = mnemonic.join(' ');
-      await setMnemonicEncrypted(mnemonicStr, newPin);
+      await setMnemonicEncrypted(mnemonicStr, newPin, passphrase);
       addSuccessToast('Mnemonic generated and encrypted with your PIN.');
       setIsWrongPin(false);
       setIsBackupDone(true);
       setIsAuthorized(true);
-      generateMasterKeysAndPaths(mnemonicStr);
+      generateMasterKeysAndPaths(mnemonicStr, 0, passphrase);
       await sync();
       await subscribeAllScripts();
       setTimeout(() => {
@@ -121,15 +136,27 @@ export const RestoreWallet: React.FC<RouteComponentProps> = ({ history }) => {
         needReset={needReset}
         setNeedReset={setNeedReset}
         setIsWrongPin={setIsWrongPin}
+        isNewPin={true}
       />
       <IonContent className="restore-wallet">
         <IonGrid className="ion-text-center">
           <Header hasBackButton={true} title="SECRET PHRASE" />
           <PageDescription
             centerDescription={true}
-            description="Paste your 12 words recovery phrase in the correct order"
+            description={`Paste your ${mnemonic.length} words recovery phrase in the correct order`}
             title="Restore Wallet"
           />
+          <IonSegment
+            className="ion-margin-horizontal"
+            value={String(mnemonic.length)}
+            onIonChange={(e) => setWordCount(Number(e.detail.value) as MnemonicWordCount)}
+          >
+            {MNEMONIC_WORD_COUNTS.map((wordCount) => (
+              <IonSegmentButton key={wordCount} value={String(wordCount)}>
+                <IonLabel>{`${wordCount} words`}</IonLabel>
+              </IonSegmentButton>
+            ))}
+          </IonSegment>
           <div className="restore-input-wrapper ion-margin-vertical">
             {mnemonic.map((item: string, index: number) => {
               return (
@@ -143,16 +170,31 @@ export const RestoreWallet: React.FC<RouteComponentProps> = ({ history }) => {
                   <IonInput
                     ref={refs[index]}
                     className="input-word"
-                    onKeyDown={onPressEnterKeyFactory(() => setFocus(index + 1))}
+                    onKeyDown={onPressEnterKeyFactory(() =>
+                      index === mnemonic.length - 1 ? handleConfirm() : setFocus(index + 1)
+                    )}
                     onIonChange={(e) => setMnemonicWord(e.detail.value || '', index)}
                     value={item}
                     type="text"
-                    enterkeyhint={index === refs.length - 1 ? 'done' : 'next'}
+                    enterkeyhint={index === mnemonic.length - 1 ? 'done' : 'next'}
                   />
                 </label>
               );
             })}
           </div>
+          <IonItem className="input ion-margin-horizontal">
+            <IonInput
+              type="password"
+              autocomplete="off"
+              placeholder="Passphrase (optional)"
+              value={passphrase}
+              onIonChange={(e) => setPassphrase(e.detail.value ?? '')}
+            />
+          </IonItem>
+          <p className="ion-margin-horizontal">
+            Only if your wallet was protected with a BIP39 passphrase, also known as the 25th word. A wrong passphrase
+            restores another, empty, wallet.
+          </p>
 
           <IonRow className="restore-btn-container">
             <IonCol size="9" offset="1.5" sizeMd="6" offsetMd="3">
@@ -6,10 +6,13 @@ import {
   IonGrid,
   IonIcon,
   IonItem,
+  IonLabel,
   IonList,
   IonListHeader,
   IonPage,
   IonRow,
+  IonSelect,
+  IonSelectOption,
   IonText,
 } from '@ionic/react';
 import { chevronForwardOutline, eye, lockOpen, trashOutline } from 'ionicons/icons';
@@ -21,18 +24,46 @@ import ChangePinModals from '../../../components/ChangePinModals';
 import Header from '../../../components/Header';
 import PinModal from '../../../components/PinModal';
 import { routerLinks } from '../../../routes';
+import { useSettingsStore } from '../../../store/settingsStore';
 import { useToastStore } from '../../../store/toastStore';
 import { useWalletStore } from '../../../store/walletStore';
-import { PIN_TIMEOUT_FAILURE, PIN_TIMEOUT_SUCCESS } from '../../../utils/constants';
+import { checkPin } from '../../../utils/actions';
+import type { LockMode } from '../../../utils/constants';
+import {
+  AUTO_LOCK_TIMEOUTS,
+  FREE_PIN_ATTEMPTS,
+  PIN_LENGTHS,
+  PIN_TIMEOUT_FAILURE,
+  PIN_TIMEOUT_SUCCESS,
+  WIPE_AFTER_FAILED_ATTEMPTS,
+} from '../../../utils/constants';
 import { decrypt } from '../../../utils/crypto';
 import { IncorrectPINError, NoMnemonicError } from '../../../utils/errors';
 
+// IonSelect values of the lock modes
+const lockModeKey = (lockMode: LockMode) => (lockMode.type === 'pin' ? `pin-${lockMode.length}` : 'password');
+const lockModeFromKey = (key: string): LockMode =>
+  key === 'password' ? { type: 'password' } : { type: 'pin', length: Number(key.replace('pin-', '')) };
+
 const Account: React.FC<RouteComponentProps> = ({ history }) => {
   const addErrorToast = useToastStore((state) => state.addErrorToast);
   const encryptedMnemonic = useWalletStore((state) => state.encryptedMnemonic);
+  const isWatchOnly = useWalletStore((state) => state.isWatchOnly);
+  const lockMode = useWalletStore((state) => state.lockMode);
+  const autoLockTimeout = useSettingsStore((state) => state.autoLockTimeout);
+  const setAutoLockTimeout = useSettingsStore((state) => state.setAutoLockTimeout);
+  const wipeAfterFailedAttempts = useSettingsStore((state) => state.wipeAfterFailedAttempts);
+  const setWipeAfterFailedAttempts = useSettingsStore((state) => state.setWipeAfterFailedAttempts);
   //
   const [routeToGo, setRouteToGo] = useState<string>();
   const [showChangePinModal, setShowChangePinModal] = useState(false);
+  // chosen in the select, applied once the mnemonics are encrypted again
+  const [newLockMode, setNewLockMode] = useState<LockMode>();
+
+  const closeChangePinModal = () => {
+    setShowChangePinModal(false);
+    setNewLockMode(undefined);
+  };
 
   // Pin modal
   const [isWrongPin, setIsWrongPin] = useState<boolean | null>(null);
@@ -45,7 +76,7 @@ const Account: React.FC<RouteComponentProps> = ({ history }) => {
       return;
     }
     try {
-      const decryptedMnemonic = await decrypt(encryptedMnemonic, pin);
+      const decryptedMnemonic = await checkPin(() => decrypt(encryptedMnemonic, pin));
       setIsWrongPin(false);
       setPinNeedReset(true);
       setTimeout(() => {
@@ -98,24 +129,26 @@ const Account: React.FC<RouteComponentProps> = ({ history }) => {
               {/* Show Mnemonic */}
               <IonList>
                 <IonListHeader>Identity</IonListHeader>
-                <IonItem
-                  className="list-item"
-                  onClick={() => {
-                    setPinModalOpen(true);
-                    setRouteToGo('/settings/show-mnemonic');
-                  }}
-                >
-                  <div className="item-main-info">
-                    <IonIcon icon={eye} />
-                    <div className="item-start">
-                      <div className="main-row">Show mnemonic</div>
-                      <IonText className="description">
-                        Display the secret mnemonic stored in your device's secure storage.
-                      </IonText>
+                {!isWatchOnly && (
+                  <IonItem
+                    className="list-item"
+                    onClick={() => {
+                      setPinModalOpen(true);
+                      setRouteToGo('/settings/show-mnemonic');
+                    }}
+                  >
+                    <div className="item-main-info">
+                      <IonIcon icon={eye} />
+                      <div className="item-start">
+                        <div className="main-row">Show mnemonic</div>
+                        <IonText className="description">
+                          Display the secret mnemonic stored in your device's secure storage.
+                        </IonText>
+                      </div>
+                      <IonIcon icon={chevronForwardOutline} />
                     </div>
-                    <IonIcon icon={chevronForwardOutline} />
-                  </div>
-                </IonItem>
+                  </IonItem>
+                )}
                 <IonItem className="list-item" onClick={() => history.push(routerLinks.walletInfo)}>
                   <div className="item-main-info">
                     <IonIcon icon={eye} />
@@ -131,28 +164,101 @@ const Account: React.FC<RouteComponentProps> = ({ history }) => {
               <IonList>
                 <IonListHeader>Security</IonListHeader>
                 {/* Change PIN */}
-                <IonItem
-                  className="list-item"
-                  onClick={() => {
-                    setShowChangePinModal(true);
-                  }}
-                >
-                  <div className="item-main-info">
-                    <IonIcon icon={lockOpen} />
+                {!isWatchOnly && (
+                  <IonItem
+                    className="list-item"
+                    onClick={() => {
+                      setShowChangePinModal(true);
+                    }}
+                  >
+                    <div className="item-main-info">
+                      <IonIcon icon={lockOpen} />
+                      <div className="item-start">
+                        <div className="main-row">
+                          {lockMode.type === 'password' ? 'Set new password' : 'Set new pin'}
+                        </div>
+                        <IonText className="description">
+                          Change the secure PIN using to encrypt your wallet's seed.
+                        </IonText>
+                      </div>
+                      <IonIcon icon={chevronForwardOutline} />
+                    </div>
+                  </IonItem>
+                )}
+                {/* Lock mode */}
+                {!isWatchOnly && (
+                  <IonItem className="list-item">
+                    <IonLabel>Unlock with</IonLabel>
+                    <IonSelect
+                      value={lockModeKey(newLockMode ?? lockMode)}
+                      onIonChange={(e) => {
+                        const chosen = lockModeFromKey(e.detail.value);
+                        if (lockModeKey(chosen) === lockModeKey(newLockMode ?? lockMode)) return;
+                        setNewLockMode(chosen);
+                        setShowChangePinModal(true);
+                      }}
+                    >
+                      {PIN_LENGTHS.map((length) => (
+                        <IonSelectOption key={length} value={`pin-${length}`}>
+                          {`${length}-digit PIN`}
+                        </IonSelectOption>
+                      ))}
+                      <IonSelectOption value="password">Password</IonSelectOption>
+                    </IonSelect>
+                  </IonItem>
+                )}
+                {/* Auto-lock */}
+                {!isWatchOnly && (
+                  <IonItem className="list-item">
                     <div className="item-start">
-                      <div className="main-row">Set new pin</div>
+                      <div className="main-row">Auto-lock</div>
                       <IonText className="description">
-                        Change the secure PIN using to encrypt your wallet's seed.
+                        Lock the wallet after this idle period and whenever the app goes to the background.
                       </IonText>
                     </div>
-                    <IonIcon icon={chevronForwardOutline} />
-                  </div>
-                </IonItem>
+                    <IonSelect
+                      value={autoLockTimeout ?? 'never'}
+                      onIonChange={(e) => setAutoLockTimeout(e.detail.value === 'never' ? null : e.detail.value)}
+                    >
+                      {AUTO_LOCK_TIMEOUTS.map(({ label, duration }) => (
+                        <IonSelectOption key={duration} value={duration}>
+                          {label}
+                        </IonSelectOption>
+                      ))}
+                      <IonSelectOption value="never">Never</IonSelectOption>
+                    </IonSelect>
+                  </IonItem>
+                )}
+                {/* Erase after failed attempts */}
+                {!isWatchOnly && (
+                  <IonItem className="list-item">
+                    <div className="item-start">
+                      <div className="main-row">Erase after failed attempts</div>
+                      <IonText className="description">
+                        {`After ${FREE_PIN_ATTEMPTS} wrong PINs in a row, each new attempt doubles the wait before the next one. Erasing the wallet requires its secret phrase to restore it.`}
+                      </IonText>
+                    </div>
+                    <IonSelect
+                      value={wipeAfterFailedAttempts ? String(wipeAfterFailedAttempts) : 'never'}
+                      onIonChange={(e) =>
+                        setWipeAfterFailedAttempts(e.detail.value === 'never' ? undefined : Number(e.detail.value))
+                      }
+                    >
+                      <IonSelectOption value="never">Never</IonSelectOption>
+                      {WIPE_AFTER_FAILED_ATTEMPTS.map((attempts) => (
+                        <IonSelectOption key={attempts} value={String(attempts)}>
+                          {`${attempts} attempts`}
+                        </IonSelectOption>
+                      ))}
+                    </IonSelect>
+                  </IonItem>
+                )}
                 <ChangePinModals
                   open={showChangePinModal}
-                  onClose={() => setShowChangePinModal(false)}
+                  lockMode={newLockMode}
+                  onClose={closeChangePinModal}
                   onDeleted={() => {
-                    setShowChangePinModal(false);
+                    closeChangePinModal();
                     history.push('/homescreen');
                   }}
                 />
@@ -161,6 +267,11 @@ const Account: React.FC<RouteComponentProps> = ({ history }) => {
                 <IonItem
                   className="list-item"
                   onClick={() => {
+                    // there is no PIN protecting a watch-only wallet
+                    if (isWatchOnly) {
+                      history.push(routerLinks.deleteMnemonic);
+                      return;
+                    }
                     setPinModalOpen(true);
                     setRouteToGo('/settings/delete-mnemonic');
                   }}
@@ -168,10 +279,11 @@ const Account: React.FC<RouteComponentProps> = ({ history }) => {
                   <div className="item-main-info">
                     <IonIcon icon={trashOutline} />
                     <div className="item-start">
-                      <div className="main-row">Delete Mnemonic</div>
+                      <div className="main-row">{isWatchOnly ? 'Remove watch-only wallet' : 'Delete Mnemonic'}</div>
                       <IonText className="description">
-                        Definitively removes your seed from this device. Be extremely careful, after deletion it will be
-                        impossible to retrieve your key from tdex-app.
+                        {isWatchOnly
+                          ? 'Removes the public keys of the watch-only wallet from this device.'
+                          : 'Definitively removes your seed from this device. Be extremely careful, after deletion it will be impossible to retrieve your key from tdex-app.'}
                       </IonText>
                     </div>
                     <IonIcon icon={chevronForwardOutline} />
@@ -0,0 +1,49 @@
+import { IonContent, IonGrid, IonIcon, IonItem, IonLabel, IonList, IonPage, IonText } from '@ionic/react';
+import { checkmarkOutline } from 'ionicons/icons';
+
+import Header from '../../components/Header';
+import PageDescription from '../../components/PageDescription';
+import { useSettingsStore } from '../../store/settingsStore';
+import { useToastStore } from '../../store/toastStore';
+import { COIN_SELECTION_STRATEGIES } from '../../utils/constants';
+
+const CoinSelection = (): JSX.Element => {
+  const coinSelectionStrategy = useSettingsStore((state) => state.coinSelectionStrategy);
+  const setCoinSelectionStrategy = useSettingsStore((state) => state.setCoinSelectionStrategy);
+  const addSuccessToast = useToastStore((state) => state.addSuccessToast);
+
+  return (
+    <IonPage id="settings-coin-selection">
+      <IonContent>
+        <IonGrid>
+          <Header title="COIN SELECTION" hasBackButton={true} hasCloseButton={false} />
+          <PageDescription
+            description="How the coins to send or trade are selected when you do not pick them yourself. Frozen coins are never selected."
+            title="Coin selection"
+          />
+          <IonList>
+            {COIN_SELECTION_STRATEGIES.map(({ strategy, label, description }) => (
+              <IonItem
+                key={strategy}
+                onClick={() => {
+                  setCoinSelectionStrategy(strategy);
+                  addSuccessToast(`Coin selection set to ${label}`);
+                }}
+              >
+                <IonLabel className="ion-text-wrap">
+                  <h2>{label}</h2>
+                  <IonText color="medium">
+                    <p>{description}</p>
+                  </IonText>
+                </IonLabel>
+                {strategy === coinSelectionStrategy && <IonIcon icon={checkmarkOutline} slot="end" color="success" />}
+              </IonItem>
+            ))}
+          </IonList>
+        </IonGrid>
+      </IonContent>
+    </IonPage>
+  );
+};
+
+export default CoinSelection;
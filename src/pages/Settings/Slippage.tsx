@@ -0,0 +1,78 @@
+import { IonButton, IonCol, IonContent, IonGrid, IonInput, IonItem, IonPage, IonRow } from '@ionic/react';
+import { useState } from 'react';
+
+import Header from '../../components/Header';
+import PageDescription from '../../components/PageDescription';
+import { useSettingsStore } from '../../store/settingsStore';
+import { useToastStore } from '../../store/toastStore';
+import { MAX_SLIPPAGE_PRESETS } from '../../utils/constants';
+
+// Above this value the slippage protection is meaningless
+const SLIPPAGE_UPPER_BOUND = 50;
+
+const Slippage = (): JSX.Element => {
+  const maxSlippage = useSettingsStore((state) => state.maxSlippage);
+  const setMaxSlippage = useSettingsStore((state) => state.setMaxSlippage);
+  const addSuccessToast = useToastStore((state) => state.addSuccessToast);
+  const [inputSlippage, setInputSlippage] = useState<string>(maxSlippage.toString());
+
+  const parsedSlippage = Number(inputSlippage);
+  const isValid =
+    inputSlippage !== '' && !isNaN(parsedSlippage) && parsedSlippage > 0 && parsedSlippage <= SLIPPAGE_UPPER_BOUND;
+
+  const saveSlippage = (slippage: number) => {
+    setMaxSlippage(slippage);
+    setInputSlippage(slippage.toString());
+    addSuccessToast(`Maximum slippage set to ${slippage}%`);
+  };
+
+  return (
+    <IonPage id="settings-slippage">
+      <IonContent>
+        <IonGrid>
+          <Header title="SLIPPAGE" hasBackButton={true} hasCloseButton={false} />
+          <PageDescription
+            description="The price of a trade can move between the preview and its completion. Trades are aborted before being proposed to the provider if you would send more or receive less than previewed by more than this percentage."
+            title="Maximum slippage"
+          />
+          <IonRow className="ion-margin-vertical ion-justify-content-center">
+            {MAX_SLIPPAGE_PRESETS.map((preset) => (
+              <IonButton
+                key={preset}
+                className="sub-button"
+                fill={preset === maxSlippage ? 'solid' : 'outline'}
+                onClick={() => saveSlippage(preset)}
+              >
+                {preset}%
+              </IonButton>
+            ))}
+          </IonRow>
+          <IonRow className="ion-margin-vertical-x2">
+            <IonCol size="10" offset="1">
+              <IonItem className="input">
+                <IonInput
+                  className="ion-text-left"
+                  inputmode="decimal"
+                  onIonChange={(e) => setInputSlippage(e.detail.value || '')}
+                  placeholder="Custom slippage in %"
+                  value={inputSlippage}
+                />
+              </IonItem>
+            </IonCol>
+          </IonRow>
+          <IonRow className="ion-margin-vertical-x2">
+            <IonCol size="9" offset="1.5" sizeMd="6" offsetMd="3">
+              <IonRow className="ion-justify-content-center">
+                <IonButton className="main-button" disabled={!isValid} onClick={() => saveSlippage(parsedSlippage)}>
+                  SAVE SLIPPAGE
+                </IonButton>
+              </IonRow>
+            </IonCol>
+          </IonRow>
+        </IonGrid>
+      </IonContent>
+    </IonPage>
+  );
+};
+
+export default Slippage;
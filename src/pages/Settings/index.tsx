@@ -4,7 +4,7 @@ import type { AppInfo } from '@capacitor/app';
 import { App } from '@capacitor/app';
 import { Device } from '@capacitor/device';
 import type { DeviceInfo } from '@capacitor/device/dist/esm/definitions';
-import { IonContent, IonGrid, IonIcon, IonItem, IonList, IonListHeader, IonPage } from '@ionic/react';
+import { IonContent, IonGrid, IonIcon, IonItem, IonList, IonListHeader, IonPage, IonToggle } from '@ionic/react';
 import { chevronForwardOutline } from 'ionicons/icons';
 import React, { useEffect, useState } from 'react';
 import type { RouteComponentProps } from 'react-router';
@@ -15,10 +15,15 @@ import DenominationSearch from '../../components/DenominationSearch';
 import Header from '../../components/Header';
 import { routerLinks } from '../../routes';
 import { useSettingsStore } from '../../store/settingsStore';
+import { COIN_SELECTION_STRATEGIES } from '../../utils/constants';
 
 const Settings: React.FC<RouteComponentProps> = ({ history }) => {
   const currency = useSettingsStore((state) => state.currency);
   const unitLBTC = useSettingsStore((state) => state.lbtcUnit);
+  const maxSlippage = useSettingsStore((state) => state.maxSlippage);
+  const coinSelectionStrategy = useSettingsStore((state) => state.coinSelectionStrategy);
+  const skipLowReputationProviders = useSettingsStore((state) => state.skipLowReputationProviders);
+  const setSkipLowReputationProviders = useSettingsStore((state) => state.setSkipLowReputationProviders);
   const [currencySearchOpen, setCurrencySearchOpen] = useState(false);
   const [LBTCUnitSearchOpen, setLBTCUnitSearchOpen] = useState(false);
   const [appVersion, setAppVersion] = useState<string>();
@@ -72,6 +77,43 @@ const Settings: React.FC<RouteComponentProps> = ({ history }) => {
               </IonItem>
             </IonItem>
 
+            <IonItem onClick={() => history.push(routerLinks.slippage)}>
+              <span>Maximum slippage</span>
+              <IonItem slot="end" className="ion-no-padding ion-no-margin">
+                <span className="chosen-currency green-label">{maxSlippage}%</span>
+                <IonIcon icon={chevronForwardOutline} color="text-color" className="ion-no-margin" />
+              </IonItem>
+            </IonItem>
+
+            <IonItem>
+              <span>Skip unreliable providers</span>
+              <IonToggle
+                slot="end"
+                checked={skipLowReputationProviders}
+                onIonChange={(e) => setSkipLowReputationProviders(e.detail.checked)}
+              />
+            </IonItem>
+
+            <IonItem onClick={() => history.push(routerLinks.coins)}>
+              <span>Coin control</span>
+              <IonIcon icon={chevronForwardOutline} color="text-color" slot="end" className="ion-no-margin" />
+            </IonItem>
+
+            <IonItem onClick={() => history.push(routerLinks.coinSelection)}>
+              <span>Coin selection</span>
+              <IonItem slot="end" className="ion-no-padding ion-no-margin">
+                <span className="chosen-currency green-label">
+                  {COIN_SELECTION_STRATEGIES.find(({ strategy }) => strategy === coinSelectionStrategy)?.label}
+                </span>
+                <IonIcon icon={chevronForwardOutline} color="text-color" className="ion-no-margin" />
+              </IonItem>
+            </IonItem>
+
+            <IonItem onClick={() => history.push(routerLinks.pset)}>
+              <span>Sign a PSET</span>
+              <IonIcon icon={chevronForwardOutline} color="text-color" slot="end" className="ion-no-margin" />
+            </IonItem>
+
             <IonItem onClick={() => history.push(routerLinks.explorers)}>
               <span>Explorers endpoints</span>
               <IonIcon icon={chevronForwardOutline} color="text-color" slot="end" className="ion-no-margin" />
@@ -1,4 +1,15 @@
-import { IonContent, IonPage, IonGrid, IonRow, IonButton, useIonViewWillEnter, IonCol } from '@ionic/react';
+import {
+  IonContent,
+  IonPage,
+  IonGrid,
+  IonRow,
+  IonButton,
+  useIonViewWillEnter,
+  IonCol,
+  IonLabel,
+  IonSegment,
+  IonSegmentButton,
+} from '@ionic/react';
 import * as bip39 from 'bip39';
 import React, { useState } from 'react';
 import { useLocation } from 'react-router';
@@ -9,6 +20,8 @@ import Header from '../../components/Header';
 import PageDescription from '../../components/PageDescription';
 import WordList from '../../components/WordList';
 import { useAppStore } from '../../store/appStore';
+import type { MnemonicWordCount } from '../../utils/constants';
+import { mnemonicStrength, MNEMONIC_WORD_COUNTS } from '../../utils/constants';
 
 interface LocationState {
   mnemonic: string;
@@ -21,10 +34,17 @@ export const ShowMnemonicOnboarding: React.FC<RouteComponentProps> = ({ history
   const { state } = useLocation<LocationState>();
   const [isSeedSaved, setIsSeedSaved] = useState(false);
   const [mnemonic, setMnemonic] = useState<string>('');
+  const [wordCount, setWordCount] = useState<MnemonicWordCount>(12);
+
+  const handleWordCountChange = (count: MnemonicWordCount) => {
+    setWordCount(count);
+    setMnemonic(bip39.generateMnemonic(mnemonicStrength(count)));
+    setIsSeedSaved(false);
+  };
 
   useIonViewWillEnter(() => {
     if (!isBackupDone || !state?.mnemonic) {
-      setMnemonic(bip39.generateMnemonic());
+      setMnemonic(bip39.generateMnemonic(mnemonicStrength(wordCount)));
     }
   }, [isBackupDone]);
 
@@ -35,9 +55,20 @@ export const ShowMnemonicOnboarding: React.FC<RouteComponentProps> = ({ history
           <Header hasBackButton={true} title="SHOW MNEMONIC" />
           <PageDescription
             centerDescription={true}
-            description="Save your 12 words recovery phrase in the correct order"
+            description={`Save your ${wordCount} words recovery phrase in the correct order`}
             title="Secret Phrase"
           />
+          <IonSegment
+            className="ion-margin-horizontal"
+            value={String(wordCount)}
+            onIonChange={(e) => handleWordCountChange(Number(e.detail.value) as MnemonicWordCount)}
+          >
+            {MNEMONIC_WORD_COUNTS.map((count) => (
+              <IonSegmentButton key={count} value={String(count)}>
+                <IonLabel>{`${count} words`}</IonLabel>
+              </IonSegmentButton>
+            ))}
+          </IonSegment>
           <IonRow>
             <IonCol>
               <WordList mnemonic={mnemonic} />
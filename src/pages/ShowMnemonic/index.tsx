@@ -27,7 +27,9 @@ export const ShowMnemonic: React.FC<RouteComponentProps> = ({ history }) => {
           <Header hasBackButton={false} title="SHOW MNEMONIC" />
           <PageDescription
             centerDescription={true}
-            description="Save your 12 words recovery phrase in the correct order"
+            description={`Save your ${
+              state?.mnemonic.split(' ').length ?? 12
+            } words recovery phrase in the correct order`}
             title="Secret Phrase"
           />
           <IonRow>
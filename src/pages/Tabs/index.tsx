@@ -6,14 +6,19 @@ import type { RouteComponentProps } from 'react-router';
 import { Redirect, Route, withRouter } from 'react-router';
 
 import { ROUTES, TABS } from '../../routes';
+import { useWalletStore } from '../../store/walletStore';
 
 const ROUTES_SORTED_BY_TAB: Record<string, string[]> = {
-  wallet: ['wallet', 'operations', 'qrscanner', 'receive', 'withdraw'],
-  exchange: ['exchange', 'tradesummary', 'history'],
+  wallet: ['wallet', 'operations', 'qrscanner', 'receive', 'withdraw', 'coins', 'consolidate', 'pset'],
+  exchange: ['exchange', 'tradesummary', 'history', 'limit-orders', 'markets'],
   settings: ['settings', 'account', 'liquidity-provider', 'faq', 'terms'],
 };
 
 const Tabs: React.FC<RouteComponentProps> = ({ history, location }) => {
+  const isWatchOnly = useWalletStore((state) => state.isWatchOnly);
+  // trading needs to sign, a watch-only wallet only has the wallet and settings tabs
+  const tabs = isWatchOnly ? TABS.filter(({ name }) => name !== 'exchange') : TABS;
+
   const isActive = (name: string) => {
     const routes = ROUTES_SORTED_BY_TAB[name];
     for (const routeName of routes) {
@@ -35,9 +40,10 @@ const Tabs: React.FC<RouteComponentProps> = ({ history, location }) => {
             <Redirect exact from="/homescreen" to="/wallet" />
             <Redirect exact from="/restore" to="/wallet" />
             <Redirect exact from="/onboarding/pin-setting" to="/wallet" />
+            <Redirect exact from="/watch-only" to="/wallet" />
           </IonRouterOutlet>
           <IonTabBar slot="bottom">
-            {TABS.map((item, index) => (
+            {tabs.map((item, index) => (
               <IonTabButton data-testid={`tab-${item.name}`} selected={isActive(item.name)} tab={item.path} key={index}>
                 <div className="tab-content" onClick={() => history.push(item.path)}>
                   <item.icon
@@ -1,8 +1,11 @@
 import { IonCol, IonContent, IonGrid, IonList, IonListHeader, IonPage, IonRow, IonSkeletonText } from '@ionic/react';
-import React, { useEffect } from 'react';
+import React, { useEffect, useMemo } from 'react';
 
 import Header from '../../components/Header';
 import OperationListItem from '../../components/OperationListItem';
+import TradeListItem from '../../components/TradeListItem';
+import type { TradeRecord } from '../../store/tradeStore';
+import { useTradeStore } from '../../store/tradeStore';
 import type { TxHeuristic } from '../../store/walletStore';
 import { TxType, useWalletStore } from '../../store/walletStore';
 
@@ -11,13 +14,28 @@ export const TradeHistory: React.FC = () => {
   //
   const computeHeuristicFromTx = useWalletStore((state) => state.computeHeuristicFromTx);
   const txs = useWalletStore((state) => state.txs);
+  const trades = useTradeStore((state) => state.trades);
   const [isLoading, setIsLoading] = React.useState<boolean>(false);
 
+  // Journal trades, one entry per route or split order, most recent first
+  const tradeGroups = useMemo(() => {
+    const groups = new Map<string, TradeRecord[]>();
+    const sorted = Object.values(trades).sort((a, b) => a.createdAt - b.createdAt);
+    for (const trade of sorted) {
+      const key = trade.group?.id ?? trade.id;
+      groups.set(key, [...(groups.get(key) ?? []), trade]);
+    }
+    return Array.from(groups.entries()).reverse();
+  }, [trades]);
+
   useEffect(() => {
     (async () => {
       setIsLoading(true);
+      const journalTxids = Object.values(trades).map((trade) => trade.txid);
       let swapsArr = [];
       for (const txid of Object.keys(txs)) {
+        // swaps made before the trade journal or restored from another device
+        if (journalTxids.includes(txid)) continue;
         const tx = await computeHeuristicFromTx(txs[txid]);
         if (!tx || tx.type !== TxType.Swap) continue;
         swapsArr.push(tx);
@@ -26,7 +44,7 @@ export const TradeHistory: React.FC = () => {
       setIsLoading(false);
     })();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [txs]);
+  }, [txs, trades]);
 
   return (
     <IonPage id="trade-history">
@@ -34,6 +52,14 @@ export const TradeHistory: React.FC = () => {
         <IonGrid>
           <Header hasBackButton={true} title="TRADE HISTORY" />
           <>
+            {tradeGroups.length > 0 && (
+              <IonList>
+                <IonListHeader>Trades</IonListHeader>
+                {tradeGroups.map(([key, groupTrades]) => (
+                  <TradeListItem trades={groupTrades} key={key} />
+                ))}
+              </IonList>
+            )}
             {isLoading ? (
               <>
                 <p>Loading...</p>
@@ -49,11 +75,13 @@ export const TradeHistory: React.FC = () => {
                     ))}
                   </IonList>
                 ) : (
-                  <IonRow className="ion-text-center ion-margin">
-                    <IonCol size="10" offset="1">
-                      <p>You don't have any trades transactions. They will appear here.</p>
-                    </IonCol>
-                  </IonRow>
+                  tradeGroups.length === 0 && (
+                    <IonRow className="ion-text-center ion-margin">
+                      <IonCol size="10" offset="1">
+                        <p>You don't have any trades transactions. They will appear here.</p>
+                      </IonCol>
+                    </IonRow>
+                  )
                 )}
               </>
             )}
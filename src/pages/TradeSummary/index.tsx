@@ -2,7 +2,8 @@ import './style.scss';
 import { IonPage, IonContent, IonItem, IonIcon, IonSkeletonText, IonRow, IonCol, IonGrid, IonText } from '@ionic/react';
 import { ellipsisHorizontal } from 'ionicons/icons';
 import { Transaction } from 'liquidjs-lib';
-import { useEffect, useState } from 'react';
+import moment from 'moment';
+import { useEffect, useMemo, useState } from 'react';
 import { useLocation, useParams } from 'react-router';
 
 import CurrencyIcon from '../../components/CurrencyIcon';
@@ -11,6 +12,8 @@ import Refresher from '../../components/Refresher';
 import type { AssetState } from '../../store/assetStore';
 import { useAssetStore } from '../../store/assetStore';
 import { useToastStore } from '../../store/toastStore';
+import type { TradeRecord } from '../../store/tradeStore';
+import { getTradeReceivedSats, summarizeTrades, TradeState, useTradeStore } from '../../store/tradeStore';
 import type { TxHeuristic } from '../../store/walletStore';
 import { useWalletStore } from '../../store/walletStore';
 import { clipboardCopy } from '../../utils/clipboard';
@@ -64,23 +67,62 @@ export const TradeSummary: React.FC = () => {
   const addSuccessToast = useToastStore((state) => state.addSuccessToast);
   const txs = useWalletStore((state) => state.txs);
   const computeHeuristicFromTx = useWalletStore((state) => state.computeHeuristicFromTx);
+  const trades = useTradeStore((state) => state.trades);
   const { state } = useLocation<TradeSummaryLocationState>();
-  //
-  const preview = state?.preview;
-  const { txid } = useParams<{ txid: string }>();
+  // the route param is the txid of the trade, or its journal id if not broadcasted
+  const { txid: txidOrTradeId } = useParams<{ txid: string }>();
   const [tx, setTransaction] = useState<TxHeuristic | undefined>();
   const [isLoading, setIsLoading] = useState<boolean>(false);
 
+  // journal trade and the other trades of its route or split order
+  const journal = useMemo(() => {
+    const trade = useTradeStore.getState().getTradeByIdOrTxid(txidOrTradeId);
+    if (!trade) return undefined;
+    const group = trade.group ? useTradeStore.getState().getTradesOfGroup(trade.group.id) : [trade];
+    return { trade, group };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [trades, txidOrTradeId]);
+  const txid = journal ? journal.trade.txid : txidOrTradeId;
+
+  const toPreviewAmount = ({ sats, asset }: { sats: number; asset: string }) => ({
+    asset,
+    ticker: assets[asset]?.ticker ?? 'unknown',
+    amount: fromSatoshiFixed(sats, assets[asset]?.precision ?? 8, assets[asset]?.precision ?? 8),
+  });
+
+  const journalPreview = useMemo((): PreviewData | undefined => {
+    if (!journal) return undefined;
+    const { sent, received } = summarizeTrades(journal.group);
+    const sentPreview = toPreviewAmount(sent);
+    return { sent: { ...sentPreview, amount: `-${sentPreview.amount}` }, received: toPreviewAmount(received) };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [journal, assets]);
+  const preview = state?.preview ?? journalPreview;
+  // amounts of a journal trade are the previewed ones, the tx only gives the fee and confirmation
+  const txHeuristic = preview ? undefined : tx;
+
   useEffect(() => {
     (async () => {
       setIsLoading(true);
-      const transaction = txs?.[txid];
+      const transaction = txid ? txs?.[txid] : undefined;
       const tx = transaction ? await computeHeuristicFromTx(transaction) : undefined;
       setTransaction(tx);
       setIsLoading(false);
     })();
   }, [txs, txid, computeHeuristicFromTx]);
 
+  const renderTradeState = (trade: TradeRecord) => (
+    <span className="transaction-col-value">
+      <IonText
+        color={
+          trade.state === TradeState.Failed ? 'danger' : trade.state === TradeState.Confirmed ? 'secondary' : 'warning'
+        }
+      >
+        {trade.state.toUpperCase()}
+      </IonText>
+    </span>
+  );
+
   return (
     <IonPage id="trade-summary">
       <IonContent>
@@ -97,10 +139,20 @@ export const TradeSummary: React.FC = () => {
                     <IonRow className="ion-margin-bottom ion-text-center">
                       <IonCol>
                         <div className="transaction-icons">
-                          <SentCurrencyIcon size={45} assets={assets} txHeuristic={tx} preview={preview} />
+                          <SentCurrencyIcon size={45} assets={assets} txHeuristic={txHeuristic} preview={preview} />
                           <div className="receive-icon-container">
-                            <ReceiveCurrencyIcon size={45} assets={assets} txHeuristic={tx} preview={preview} />
-                            <ReceiveCurrencyIcon size={55} assets={assets} txHeuristic={tx} preview={preview} />
+                            <ReceiveCurrencyIcon
+                              size={45}
+                              assets={assets}
+                              txHeuristic={txHeuristic}
+                              preview={preview}
+                            />
+                            <ReceiveCurrencyIcon
+                              size={55}
+                              assets={assets}
+                              txHeuristic={txHeuristic}
+                              preview={preview}
+                            />
                           </div>
                         </div>
                       </IonCol>
@@ -113,9 +165,16 @@ export const TradeSummary: React.FC = () => {
                             <div className="trade-items">
                               <div className="trade-item">
                                 <div className="name">
-                                  <SentCurrencyIcon size={24} assets={assets} txHeuristic={tx} preview={preview} />
+                                  <SentCurrencyIcon
+                                    size={24}
+                                    assets={assets}
+                                    txHeuristic={txHeuristic}
+                                    preview={preview}
+                                  />
                                   <span>
-                                    {tx?.swapSent?.asset ? assets[tx?.swapSent?.asset]?.ticker : preview?.sent.ticker}
+                                    {txHeuristic?.swapSent?.asset
+                                      ? assets[txHeuristic.swapSent.asset]?.ticker
+                                      : preview?.sent.ticker}
                                   </span>
                                 </div>
                                 <p className="trade-price" data-testid="trade-summary-sent-amount">
@@ -129,10 +188,15 @@ export const TradeSummary: React.FC = () => {
 
                               <div className="trade-item">
                                 <div className="name">
-                                  <ReceiveCurrencyIcon size={24} assets={assets} txHeuristic={tx} preview={preview} />
+                                  <ReceiveCurrencyIcon
+                                    size={24}
+                                    assets={assets}
+                                    txHeuristic={txHeuristic}
+                                    preview={preview}
+                                  />
                                   <span>
-                                    {tx?.swapReceived?.asset
-                                      ? assets[tx.swapReceived?.asset]?.ticker
+                                    {txHeuristic?.swapReceived?.asset
+                                      ? assets[txHeuristic.swapReceived.asset]?.ticker
                                       : preview?.received.ticker}
                                   </span>
                                 </div>
@@ -147,27 +211,45 @@ export const TradeSummary: React.FC = () => {
                             <div className="transaction-info">
                               <div className="transaction-info-date">
                                 {tx && <span>{tx.blockTime?.format('DD MMM YYYY HH:mm:ss')}</span>}
+                                {!tx && journal && (
+                                  <span>{moment(journal.trade.createdAt).format('DD MMM YYYY HH:mm:ss')}</span>
+                                )}
                                 {tx ? (
                                   <span>{fromSatoshiFixed(tx.fee, 8, 8)} Fee</span>
                                 ) : (
-                                  <IonSkeletonText animated style={{ width: '100%' }} />
+                                  !journal && <IonSkeletonText animated style={{ width: '100%' }} />
                                 )}
                               </div>
                               <div
                                 className="transaction-info-values"
                                 onClick={async () => {
+                                  if (!txid || !txs[txid]?.hex) return;
                                   clipboardCopy(await makeURLwithBlinders(Transaction.fromHex(txs[txid].hex)), () => {
                                     addSuccessToast('Transaction ID copied!');
                                   });
                                 }}
                               >
                                 <span className="transaction-col-name">TxID</span>
-                                <span className="transaction-col-value">{txid}</span>
+                                <span className="transaction-col-value">{txid ?? '-'}</span>
                               </div>
+                              {journal && (
+                                <div className="transaction-info-values">
+                                  <span className="transaction-col-name">Provider</span>
+                                  <span className="transaction-col-value">{journal.trade.provider.name}</span>
+                                </div>
+                              )}
+                              {journal?.trade.error && (
+                                <div className="transaction-info-values">
+                                  <span className="transaction-col-name">Error</span>
+                                  <span className="transaction-col-value">{journal.trade.error}</span>
+                                </div>
+                              )}
                               <div className="transaction-info-values">
                                 <span className="transaction-col-name">{''}</span>
-                                {tx?.blockTime ? (
+                                {tx?.blockTime || journal?.trade.state === TradeState.Confirmed ? (
                                   <></>
+                                ) : journal && journal.trade.state !== TradeState.Broadcast ? (
+                                  renderTradeState(journal.trade)
                                 ) : (
                                   <span className="transaction-col-value pending">
                                     <IonText color="warning">PENDING</IonText>
@@ -180,6 +262,51 @@ export const TradeSummary: React.FC = () => {
                         </IonItem>
                       </IonCol>
                     </IonRow>
+
+                    {journal && journal.group.length > 1 && (
+                      <IonRow className="ion-margin-bottom">
+                        <IonCol>
+                          <IonItem>
+                            <div className="trade-summary-item">
+                              <div className="transaction-info">
+                                <div className="transaction-info-date">
+                                  <span>
+                                    {journal.trade.group?.kind === 'split'
+                                      ? `Split across ${journal.group.length} providers`
+                                      : `Routed through ${journal.group.length} trades`}
+                                  </span>
+                                </div>
+                                {journal.group.map((trade) => {
+                                  const sent = toPreviewAmount(trade.preview.sent);
+                                  const received = toPreviewAmount({
+                                    sats: getTradeReceivedSats(trade),
+                                    asset: trade.preview.received.asset,
+                                  });
+                                  return (
+                                    <div key={trade.id} className="split-trade">
+                                      <div className="transaction-info-values">
+                                        <span className="transaction-col-name">{trade.provider.name}</span>
+                                        <span className="transaction-col-value">
+                                          -{sent.amount} {sent.ticker} / +{received.amount} {received.ticker}
+                                        </span>
+                                      </div>
+                                      <div className="transaction-info-values">
+                                        <span className="transaction-col-name">TxID</span>
+                                        <span className="transaction-col-value">{trade.txid ?? '-'}</span>
+                                      </div>
+                                      <div className="transaction-info-values">
+                                        <span className="transaction-col-name">State</span>
+                                        {renderTradeState(trade)}
+                                      </div>
+                                    </div>
+                                  );
+                                })}
+                              </div>
+                            </div>
+                          </IonItem>
+                        </IonCol>
+                      </IonRow>
+                    )}
                   </>
                 ) : (
                   <p>It seems you don't have any swap yet</p>
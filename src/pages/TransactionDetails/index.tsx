@@ -1,21 +1,36 @@
 import './style.scss';
-import { IonPage, IonContent, IonSkeletonText, IonGrid, IonRow, IonCol } from '@ionic/react';
+import { IonPage, IonContent, IonSkeletonText, IonGrid, IonRow, IonCol, IonButton, IonText } from '@ionic/react';
 import { Transaction } from 'liquidjs-lib';
 import React, { useEffect, useState } from 'react';
 import type { RouteComponentProps } from 'react-router';
 import { withRouter, useParams } from 'react-router';
 
+import ButtonsMainSub from '../../components/ButtonsMainSub';
 import CurrencyIcon from '../../components/CurrencyIcon';
+import FeeRateSelector from '../../components/FeeRateSelector';
+import { useFeeRateEstimation } from '../../components/FeeRateSelector/hooks';
 import Header from '../../components/Header';
+import Loader from '../../components/Loader';
+import PinModal from '../../components/PinModal';
 import Refresher from '../../components/Refresher';
+import { BlinderService } from '../../services/blinderService';
+import { chainSource } from '../../services/chainSource';
+import { SignerService } from '../../services/signerService';
 import { useAssetStore } from '../../store/assetStore';
+import type { FeeRate } from '../../store/settingsStore';
 import { useSettingsStore } from '../../store/settingsStore';
 import { useToastStore } from '../../store/toastStore';
 import type { TxHeuristic } from '../../store/walletStore';
-import { useWalletStore } from '../../store/walletStore';
+import { TxType, useWalletStore } from '../../store/walletStore';
+import { checkPin } from '../../utils/actions';
 import { clipboardCopy } from '../../utils/clipboard';
 import type { LbtcUnit } from '../../utils/constants';
+import { PIN_TIMEOUT_FAILURE, PIN_TIMEOUT_SUCCESS } from '../../utils/constants';
+import { decrypt } from '../../utils/crypto';
+import { AppError, IncorrectPINError, WithdrawTxError } from '../../utils/errors';
 import { isLbtc, makeURLwithBlinders } from '../../utils/helpers';
+import { makeBumpFeePset } from '../../utils/transaction';
+import { fromSatoshiFixed } from '../../utils/unitConversion';
 
 interface transactionDetailsLocationState {
   address: string;
@@ -24,18 +39,35 @@ interface transactionDetailsLocationState {
   lbtcUnit: LbtcUnit;
 }
 
-const TransactionDetails: React.FC<RouteComponentProps<any, any, transactionDetailsLocationState>> = ({ location }) => {
+const TransactionDetails: React.FC<RouteComponentProps<any, any, transactionDetailsLocationState>> = ({
+  history,
+  location,
+}) => {
   const { txid } = useParams<{ txid: string }>();
   const assets = useAssetStore((state) => state.assets);
   const explorerLiquidUI = useSettingsStore((state) => state.explorerLiquidUI);
   const lbtcUnit = useSettingsStore((state) => state.lbtcUnit);
   const network = useSettingsStore((state) => state.network);
   const addSuccessToast = useToastStore((state) => state.addSuccessToast);
+  const addErrorToast = useToastStore((state) => state.addErrorToast);
   const txs = useWalletStore((state) => state.txs);
+  const encryptedMnemonic = useWalletStore((state) => state.encryptedMnemonic);
   const computeHeuristicFromTx = useWalletStore((state) => state.computeHeuristicFromTx);
+  const replaceTransaction = useWalletStore((state) => state.replaceTransaction);
+  const isWatchOnly = useWalletStore((state) => state.isWatchOnly);
   //
   const [locationState, setLocationState] = useState<transactionDetailsLocationState>();
   const [transaction, setTransaction] = useState<TxHeuristic>();
+  // fee bumping
+  const [isBumping, setIsBumping] = useState(false);
+  const [feeRate, setFeeRate] = useState<FeeRate>({ preset: 'fast' });
+  const { presetRates, satsPerVByte } = useFeeRateEstimation(feeRate);
+  const [bumpFeeAmount, setBumpFeeAmount] = useState<number>();
+  const [bumpError, setBumpError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [modalOpen, setModalOpen] = useState(false);
+  const [needReset, setNeedReset] = useState<boolean>(false);
+  const [isWrongPin, setIsWrongPin] = useState<boolean | null>(null);
 
   useEffect(() => {
     if (location.state) {
@@ -57,6 +89,69 @@ const TransactionDetails: React.FC<RouteComponentProps<any, any, transactionDeta
     })();
   }, [computeHeuristicFromTx, locationState?.asset, txid, txs]);
 
+  // outgoing sends can be replaced until confirmed
+  const canBumpFee =
+    !isWatchOnly &&
+    !!transaction &&
+    !transaction.blockHeight &&
+    (transaction.type === TxType.Withdraw || transaction.type === TxType.SelfTransfer);
+
+  // dry run of the replacement to preview its fee
+  useEffect(() => {
+    if (!isBumping || satsPerVByte === undefined) return;
+    makeBumpFeePset(txid, satsPerVByte)
+      .then(({ feeAmount }) => {
+        setBumpFeeAmount(feeAmount);
+        setBumpError('');
+      })
+      .catch((err) => {
+        console.error(err);
+        setBumpFeeAmount(undefined);
+        setBumpError(err instanceof AppError ? err.message : 'Cannot bump the fee of this transaction');
+      });
+  }, [isBumping, satsPerVByte, txid, txs]);
+
+  const bumpFee = async (pin: string) => {
+    if (satsPerVByte === undefined) return;
+    try {
+      setLoading(true);
+      try {
+        // Check pin
+        if (!encryptedMnemonic) throw new Error('No mnemonic found in wallet');
+        await checkPin(() => decrypt(encryptedMnemonic, pin));
+        setIsWrongPin(false);
+        setTimeout(() => {
+          setIsWrongPin(null);
+          setNeedReset(true);
+        }, PIN_TIMEOUT_SUCCESS);
+      } catch (_) {
+        throw IncorrectPINError;
+      }
+      const { pset, recipients } = await makeBumpFeePset(txid, satsPerVByte);
+      const blinder = new BlinderService();
+      const blindedPset = await blinder.blindPset(pset);
+      const signer = await SignerService.fromPassword(pin);
+      const signedPset = await signer.signPset(blindedPset);
+      const toBroadcast = signer.finalizeAndExtract(signedPset);
+      const newTxid = await chainSource.broadcastTransaction(toBroadcast);
+      replaceTransaction(txid, newTxid, recipients);
+      addSuccessToast('Transaction replaced with a higher fee');
+      setIsBumping(false);
+      history.replace(`/transaction/${newTxid}`, locationState);
+    } catch (err) {
+      console.error(err);
+      setIsWrongPin(true);
+      setTimeout(() => {
+        setIsWrongPin(null);
+        setNeedReset(true);
+      }, PIN_TIMEOUT_FAILURE);
+      addErrorToast(err instanceof AppError ? err : WithdrawTxError);
+    } finally {
+      setModalOpen(false);
+      setLoading(false);
+    }
+  };
+
   const renderStatusText: any = (isConfirmed: boolean) => {
     if (isConfirmed) {
       return <span className="status-text confirmed">completed</span>;
@@ -69,6 +164,20 @@ const TransactionDetails: React.FC<RouteComponentProps<any, any, transactionDeta
 
   return (
     <IonPage id="transaction-details">
+      <PinModal
+        open={modalOpen}
+        title="Unlock your seed"
+        description="Enter your secret PIN to replace the transaction with a higher fee."
+        onConfirm={bumpFee}
+        onClose={() => {
+          setModalOpen(false);
+        }}
+        isWrongPin={isWrongPin}
+        needReset={needReset}
+        setNeedReset={setNeedReset}
+        setIsWrongPin={setIsWrongPin}
+      />
+      <Loader showLoading={loading} delay={0} />
       <IonContent>
         <Refresher />
         <IonGrid>
@@ -143,6 +252,43 @@ const TransactionDetails: React.FC<RouteComponentProps<any, any, transactionDeta
               </div>
             </IonCol>
           </IonRow>
+
+          {canBumpFee && !isBumping && (
+            <IonRow className="ion-justify-content-center ion-margin-vertical">
+              <IonButton className="sub-button" fill="outline" onClick={() => setIsBumping(true)}>
+                BUMP FEE
+              </IonButton>
+            </IonRow>
+          )}
+
+          {canBumpFee && isBumping && (
+            <div className="bump-fee">
+              <FeeRateSelector
+                feeRate={feeRate}
+                onFeeRateChange={setFeeRate}
+                presetRates={presetRates}
+                satsPerVByte={satsPerVByte}
+              />
+              <IonRow className="ion-margin">
+                <IonCol>
+                  {bumpFeeAmount !== undefined ? (
+                    <IonText>
+                      {`New network fee: ${fromSatoshiFixed(bumpFeeAmount, 8, undefined, lbtcUnit)} ${lbtcUnit}`}
+                    </IonText>
+                  ) : (
+                    bumpError && <IonText color="danger">{bumpError}</IonText>
+                  )}
+                </IonCol>
+              </IonRow>
+              <ButtonsMainSub
+                mainTitle="REPLACE"
+                subTitle="CANCEL"
+                mainOnClick={() => setModalOpen(true)}
+                mainDisabled={bumpFeeAmount === undefined}
+                subOnClick={() => setIsBumping(false)}
+              />
+            </div>
+          )}
         </IonGrid>
       </IonContent>
     </IonPage>
@@ -11,6 +11,8 @@ import {
   IonRow,
   IonCol,
   IonSpinner,
+  IonSelect,
+  IonSelectOption,
   useIonLoading,
 } from '@ionic/react';
 import { addCircleOutline } from 'ionicons/icons';
@@ -26,10 +28,12 @@ import { useAppStore } from '../../store/appStore';
 import { useAssetStore } from '../../store/assetStore';
 import { useSettingsStore } from '../../store/settingsStore';
 import { useTdexStore } from '../../store/tdexStore';
+import { useToastStore } from '../../store/toastStore';
 import type { Balance } from '../../store/walletStore';
 import { useWalletStore } from '../../store/walletStore';
 import type { NetworkString } from '../../utils/constants';
 import { LBTC_ASSET, MAIN_ASSETS } from '../../utils/constants';
+import { AppError, AppIsBusy } from '../../utils/errors';
 import { capitalizeFirstLetter, isLbtc, isLbtcTicker } from '../../utils/helpers';
 
 export const Wallet: React.FC<RouteComponentProps> = ({ history }) => {
@@ -50,6 +54,10 @@ export const Wallet: React.FC<RouteComponentProps> = ({ history }) => {
   const network = useSettingsStore((state) => state.network);
   const balances = useWalletStore((state) => state.balances);
   const totalLbtc = useWalletStore((state) => state.totalBtc);
+  const activeWalletId = useWalletStore((state) => state.activeWalletId);
+  const wallets = useWalletStore((state) => state.wallets);
+  const switchWallet = useWalletStore((state) => state.switchWallet);
+  const addErrorToast = useToastStore((state) => state.addErrorToast);
   //
   const [balancesSorted, setBalancesSorted] = useState<[string, Balance][]>([]);
   const [presentRestorationLoader, dismissRestorationLoader] = useIonLoading();
@@ -114,6 +122,17 @@ export const Wallet: React.FC<RouteComponentProps> = ({ history }) => {
     })();
   }, [fetchAssetData, markets]);
 
+  const handleSwitchWallet = async (walletId: string) => {
+    if (walletId === activeWalletId) return;
+    try {
+      if (isFetchingUtxos || isFetchingTransactions) throw AppIsBusy;
+      await switchWallet(walletId);
+    } catch (err) {
+      console.error(err);
+      if (err instanceof AppError) addErrorToast(err);
+    }
+  };
+
   useEffect(() => {
     const balancesToDisplay: [string, Balance][] = [];
     if (!Object.keys(balances ?? {}).length) {
@@ -151,6 +170,29 @@ export const Wallet: React.FC<RouteComponentProps> = ({ history }) => {
               isFetchingUtxos || isFetchingMarkets || isFetchingTransactions ? <IonSpinner name="lines-small" /> : <></>
             }
           />
+          <IonRow className="wallet-switcher ion-align-items-center">
+            <IonCol size="8">
+              <IonItem className="input">
+                <IonSelect
+                  data-testid="wallet-switcher"
+                  interface="popover"
+                  value={activeWalletId}
+                  onIonChange={(e) => handleSwitchWallet(e.detail.value)}
+                >
+                  {Object.values(wallets).map((wallet) => (
+                    <IonSelectOption key={wallet.id} value={wallet.id}>
+                      {wallet.label}
+                    </IonSelectOption>
+                  ))}
+                </IonSelect>
+              </IonItem>
+            </IonCol>
+            <IonCol size="4" className="ion-text-right">
+              <IonButton fill="clear" className="sub-button" onClick={() => history.push(routerLinks.wallets)}>
+                Manage
+              </IonButton>
+            </IonCol>
+          </IonRow>
           <IonRow className="ion-margin-vertical ion-justify-content-center">
             <CircleTotalBalance
               totalBalance={totalLbtc?.value.toString() ?? '0.00'}
@@ -0,0 +1,264 @@
+import './style.scss';
+import {
+  IonButton,
+  IonCol,
+  IonContent,
+  IonGrid,
+  IonIcon,
+  IonInput,
+  IonItem,
+  IonList,
+  IonListHeader,
+  IonPage,
+  IonRow,
+  IonText,
+} from '@ionic/react';
+import * as bip39 from 'bip39';
+import { checkmarkOutline, trashOutline } from 'ionicons/icons';
+import React, { useState } from 'react';
+import type { RouteComponentProps } from 'react-router';
+
+import Header from '../../components/Header';
+import Loader from '../../components/Loader';
+import PageDescription from '../../components/PageDescription';
+import PinModal from '../../components/PinModal';
+import { routerLinks } from '../../routes';
+import { useAppStore } from '../../store/appStore';
+import { useToastStore } from '../../store/toastStore';
+import { useWalletStore } from '../../store/walletStore';
+import { checkPin } from '../../utils/actions';
+import { PIN_TIMEOUT_FAILURE, PIN_TIMEOUT_SUCCESS } from '../../utils/constants';
+import { decrypt } from '../../utils/crypto';
+import { AppError, AppIsBusy, IncorrectPINError, WalletCreationError } from '../../utils/errors';
+
+// another BIP84 account of the active wallet's seed, or a wallet of its own with a fresh mnemonic
+type NewWalletKind = 'account' | 'mnemonic';
+
+export const Wallets: React.FC<RouteComponentProps> = ({ history }) => {
+  const isFetchingUtxos = useAppStore((state) => state.isFetchingUtxos);
+  const isFetchingTransactions = useAppStore((state) => state.isFetchingTransactions);
+  const setIsBackupDone = useAppStore((state) => state.setIsBackupDone);
+  const addErrorToast = useToastStore((state) => state.addErrorToast);
+  const addSuccessToast = useToastStore((state) => state.addSuccessToast);
+  const activeWalletId = useWalletStore((state) => state.activeWalletId);
+  const encryptedMnemonic = useWalletStore((state) => state.encryptedMnemonic);
+  const encryptedPassphrase = useWalletStore((state) => state.encryptedPassphrase);
+  const isWatchOnly = useWalletStore((state) => state.isWatchOnly);
+  const wallets = useWalletStore((state) => state.wallets);
+  const walletsData = useWalletStore((state) => state.walletsData);
+  const createWallet = useWalletStore((state) => state.createWallet);
+  const generateMasterKeysAndPaths = useWalletStore((state) => state.generateMasterKeysAndPaths);
+  const removeWallet = useWalletStore((state) => state.removeWallet);
+  const renameWallet = useWalletStore((state) => state.renameWallet);
+  const setMnemonicEncrypted = useWalletStore((state) => state.setMnemonicEncrypted);
+  const subscribeAllScripts = useWalletStore((state) => state.subscribeAllScripts);
+  const switchWallet = useWalletStore((state) => state.switchWallet);
+  const sync = useWalletStore((state) => state.sync);
+  //
+  const [label, setLabel] = useState('');
+  const [newWalletKind, setNewWalletKind] = useState<NewWalletKind>();
+  const [loading, setLoading] = useState(false);
+  const [needReset, setNeedReset] = useState<boolean>(false);
+  const [isWrongPin, setIsWrongPin] = useState<boolean | null>(null);
+
+  const handleSwitch = async (walletId: string) => {
+    try {
+      if (isFetchingUtxos || isFetchingTransactions) throw AppIsBusy;
+      setLoading(true);
+      await switchWallet(walletId);
+      addSuccessToast(`Switched to ${wallets[walletId]?.label}`);
+    } catch (err) {
+      console.error(err);
+      if (err instanceof AppError) addErrorToast(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRemove = (walletId: string) => {
+    try {
+      removeWallet(walletId);
+      addSuccessToast('Wallet removed from this device');
+    } catch (err) {
+      console.error(err);
+      if (err instanceof AppError) addErrorToast(err);
+    }
+  };
+
+  // Next BIP84 account of the active wallet's seed, after those already added
+  const nextAccountIndex = async (mnemonic: string, pin: string): Promise<number> => {
+    let accountIndex = wallets[activeWalletId]?.accountIndex ?? 0;
+    for (const [walletId, data] of Object.entries(walletsData)) {
+      if (!data.encryptedMnemonic || (await decrypt(data.encryptedMnemonic, pin)) !== mnemonic) continue;
+      accountIndex = Math.max(accountIndex, wallets[walletId]?.accountIndex ?? 0);
+    }
+    return accountIndex + 1;
+  };
+
+  const onConfirmPin = async (pin: string) => {
+    if (!newWalletKind) return;
+    let mnemonic: string;
+    let passphrase: string | undefined;
+    let accountIndex = 0;
+    try {
+      // all wallets share the PIN, it is checked against one holding a mnemonic
+      const encrypted = encryptedMnemonic
+        ? { encryptedMnemonic, encryptedPassphrase }
+        : Object.values(walletsData).find((data) => data.encryptedMnemonic);
+      const encryptedCurrentMnemonic = encrypted?.encryptedMnemonic;
+      const currentMnemonic = encryptedCurrentMnemonic
+        ? await checkPin(() => decrypt(encryptedCurrentMnemonic, pin))
+        : undefined;
+      if (newWalletKind === 'account' && currentMnemonic) {
+        mnemonic = currentMnemonic;
+        // accounts of the seed share its passphrase
+        passphrase = encrypted?.encryptedPassphrase && (await decrypt(encrypted.encryptedPassphrase, pin));
+        accountIndex = await nextAccountIndex(currentMnemonic, pin);
+      } else {
+        mnemonic = bip39.generateMnemonic();
+      }
+      setIsWrongPin(false);
+    } catch (err) {
+      console.error(err);
+      setIsWrongPin(true);
+      setTimeout(() => {
+        setIsWrongPin(null);
+        setNeedReset(true);
+      }, PIN_TIMEOUT_FAILURE);
+      addErrorToast(IncorrectPINError);
+      return;
+    }
+    const previousWalletId = activeWalletId;
+    let walletId: string | undefined;
+    try {
+      setLoading(true);
+      walletId = await createWallet(label.trim() || `Wallet ${Object.keys(wallets).length + 1}`, accountIndex);
+      await setMnemonicEncrypted(mnemonic, pin, passphrase);
+      generateMasterKeysAndPaths(mnemonic, accountIndex, passphrase);
+      await sync();
+      await subscribeAllScripts();
+      addSuccessToast('Wallet added.');
+      setLabel('');
+      setTimeout(() => {
+        setIsWrongPin(null);
+        setNewWalletKind(undefined);
+      }, PIN_TIMEOUT_SUCCESS);
+      if (newWalletKind === 'mnemonic') {
+        // the fresh mnemonic is to be backed up
+        setIsBackupDone(false);
+        history.push({ pathname: routerLinks.showMnemonic, state: { mnemonic } });
+      }
+    } catch (err) {
+      console.error(err);
+      // the wallet left half made is dropped, the previous one being active again
+      if (walletId) {
+        await switchWallet(previousWalletId).catch(console.error);
+        if (useWalletStore.getState().activeWalletId !== walletId) removeWallet(walletId);
+      }
+      addErrorToast(err instanceof AppError ? err : WalletCreationError);
+      setNewWalletKind(undefined);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <IonPage id="wallets">
+      <Loader showLoading={loading} />
+      <PinModal
+        open={newWalletKind !== undefined}
+        title="Unlock your seed"
+        description={
+          newWalletKind === 'account'
+            ? 'Enter your secret PIN to add another account of your seed.'
+            : 'Enter your secret PIN to encrypt the mnemonic of the new wallet.'
+        }
+        onConfirm={onConfirmPin}
+        onClose={() => setNewWalletKind(undefined)}
+        isWrongPin={isWrongPin}
+        needReset={needReset}
+        setNeedReset={setNeedReset}
+        setIsWrongPin={setIsWrongPin}
+      />
+      <IonContent>
+        <IonGrid>
+          <Header hasBackButton={true} title="WALLETS" />
+          <PageDescription
+            description="Keep funds apart in separate wallets, each with its own addresses, balances and history. The same PIN unlocks all of them."
+            title="Your wallets"
+          />
+          <IonList>
+            {Object.values(wallets).map((wallet) => {
+              const isActive = wallet.id === activeWalletId;
+              return (
+                <IonItem className="list-item wallet-item" key={wallet.id}>
+                  <IonGrid>
+                    <IonRow className="ion-align-items-center">
+                      <IonCol size="7">
+                        <IonItem className="input">
+                          <IonInput
+                            debounce={500}
+                            value={wallet.label}
+                            onIonChange={(e) => {
+                              const newLabel = e.detail.value?.trim();
+                              if (newLabel && newLabel !== wallet.label) renameWallet(wallet.id, newLabel);
+                            }}
+                          />
+                        </IonItem>
+                        <div className="wallet-details">
+                          {(isActive ? isWatchOnly : walletsData[wallet.id]?.isWatchOnly)
+                            ? 'Watch-only'
+                            : `Account ${wallet.accountIndex}`}
+                        </div>
+                      </IonCol>
+                      <IonCol size="5" className="ion-text-right">
+                        {isActive ? (
+                          <IonText color="success">
+                            <IonIcon icon={checkmarkOutline} /> Active
+                          </IonText>
+                        ) : (
+                          <>
+                            <IonButton fill="clear" className="sub-button" onClick={() => handleSwitch(wallet.id)}>
+                              Switch
+                            </IonButton>
+                            <IonButton fill="clear" color="danger" onClick={() => handleRemove(wallet.id)}>
+                              <IonIcon icon={trashOutline} slot="icon-only" />
+                            </IonButton>
+                          </>
+                        )}
+                      </IonCol>
+                    </IonRow>
+                  </IonGrid>
+                </IonItem>
+              );
+            })}
+          </IonList>
+          <IonList>
+            <IonListHeader>Add a wallet</IonListHeader>
+            <IonItem className="input ion-margin-horizontal">
+              <IonInput
+                placeholder="Label, e.g. Business"
+                value={label}
+                onIonChange={(e) => setLabel(e.detail.value ?? '')}
+              />
+            </IonItem>
+          </IonList>
+          <IonRow className="ion-margin-vertical-x2">
+            <IonCol size="9" offset="1.5" sizeMd="6" offsetMd="3">
+              <IonButton
+                className="main-button"
+                disabled={isWatchOnly || loading}
+                onClick={() => setNewWalletKind('account')}
+              >
+                NEW ACCOUNT OF THIS SEED
+              </IonButton>
+              <IonButton className="sub-button" disabled={loading} onClick={() => setNewWalletKind('mnemonic')}>
+                NEW WALLET WITH ITS OWN SEED
+              </IonButton>
+            </IonCol>
+          </IonRow>
+        </IonGrid>
+      </IonContent>
+    </IonPage>
+  );
+};
@@ -0,0 +1,97 @@
+import { IonButton, IonCol, IonContent, IonGrid, IonInput, IonItem, IonPage, IonRow } from '@ionic/react';
+import React, { useState } from 'react';
+
+import Header from '../../components/Header';
+import Loader from '../../components/Loader';
+import PageDescription from '../../components/PageDescription';
+import { useAppStore } from '../../store/appStore';
+import { useToastStore } from '../../store/toastStore';
+import { useWalletStore } from '../../store/walletStore';
+import { AppError } from '../../utils/errors';
+
+export const WatchOnlyWallet: React.FC = () => {
+  const setIsBackupDone = useAppStore((state) => state.setIsBackupDone);
+  const addErrorToast = useToastStore((state) => state.addErrorToast);
+  const addSuccessToast = useToastStore((state) => state.addSuccessToast);
+  const importWatchOnlyAccount = useWalletStore((state) => state.importWatchOnlyAccount);
+  const setIsAuthorized = useWalletStore((state) => state.setIsAuthorized);
+  const sync = useWalletStore((state) => state.sync);
+  const subscribeAllScripts = useWalletStore((state) => state.subscribeAllScripts);
+  //
+  const [xpub, setXpub] = useState('');
+  const [masterBlindingKey, setMasterBlindingKey] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleImport = async () => {
+    try {
+      importWatchOnlyAccount(xpub.trim(), masterBlindingKey.trim());
+    } catch (err) {
+      console.error(err);
+      if (err instanceof AppError) addErrorToast(err);
+      return;
+    }
+    setLoading(true);
+    try {
+      addSuccessToast('Watch-only wallet imported.');
+      // there is no mnemonic to back up
+      setIsBackupDone(true);
+      setIsAuthorized(true);
+      await sync();
+      await subscribeAllScripts();
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <IonPage>
+      <Loader showLoading={loading} message="Importing watch-only wallet..." />
+      <IonContent className="watch-only-wallet">
+        <IonGrid>
+          <Header hasBackButton={true} title="WATCH-ONLY WALLET" />
+          <PageDescription
+            description="Paste the extended public key of your account and its SLIP-77 master blinding key. Balances and history are shown but nothing can be signed from this device."
+            title="Import a watch-only wallet"
+          />
+          <IonRow>
+            <IonCol>
+              <IonItem className="input">
+                <IonInput
+                  data-testid="watch-only-xpub"
+                  placeholder="xpub, zpub or vpub"
+                  value={xpub}
+                  onIonChange={(e) => setXpub(e.detail.value ?? '')}
+                />
+              </IonItem>
+            </IonCol>
+          </IonRow>
+          <IonRow>
+            <IonCol>
+              <IonItem className="input">
+                <IonInput
+                  data-testid="watch-only-master-blinding-key"
+                  placeholder="Master blinding key (hex)"
+                  value={masterBlindingKey}
+                  onIonChange={(e) => setMasterBlindingKey(e.detail.value ?? '')}
+                />
+              </IonItem>
+            </IonCol>
+          </IonRow>
+          <IonRow className="ion-margin-vertical-x2">
+            <IonCol size="9" offset="1.5" sizeMd="6" offsetMd="3">
+              <IonButton
+                disabled={!xpub.trim() || !masterBlindingKey.trim() || loading}
+                onClick={handleImport}
+                className="main-button"
+              >
+                IMPORT
+              </IonButton>
+            </IonCol>
+          </IonRow>
+        </IonGrid>
+      </IonContent>
+    </IonPage>
+  );
+};
@@ -6,38 +6,49 @@ import {
   IonGrid,
   IonInput,
   IonItem,
+  IonLabel,
   IonPage,
   IonRow,
+  IonSelect,
+  IonSelectOption,
   useIonViewDidLeave,
 } from '@ionic/react';
 import Decimal from 'decimal.js';
 import React, { useEffect, useState } from 'react';
 import type { RouteComponentProps } from 'react-router';
-import { useParams } from 'react-router';
+import { useHistory, useParams } from 'react-router';
 
 import ButtonsMainSub from '../../components/ButtonsMainSub';
+import CoinControlRow from '../../components/CoinControlRow';
+import FeeRateSelector from '../../components/FeeRateSelector';
+import { useFeeRateEstimation } from '../../components/FeeRateSelector/hooks';
 import Header from '../../components/Header';
 import Loader from '../../components/Loader';
 import PinModal from '../../components/PinModal';
+import WatchOnlyNotice from '../../components/WatchOnlyNotice';
 import WithdrawRow from '../../components/WithdrawRow';
 import { IconQR } from '../../components/icons';
+import { routerLinks } from '../../routes';
 import { BlinderService } from '../../services/blinderService';
 import { chainSource } from '../../services/chainSource';
 import { SignerService } from '../../services/signerService';
+import { topupClient } from '../../services/topupClient';
 import { useAssetStore } from '../../store/assetStore';
 import { useSettingsStore } from '../../store/settingsStore';
 import { useToastStore } from '../../store/toastStore';
 import type { Recipient } from '../../store/walletStore';
-import { useWalletStore } from '../../store/walletStore';
+import { clearSelectedOutpointsOfAsset, getSelectedOutpointsOfAsset, useWalletStore } from '../../store/walletStore';
+import { checkPin } from '../../utils/actions';
 import { decodeBip21 } from '../../utils/bip21';
 import type { LbtcUnit, NetworkString } from '../../utils/constants';
-import { LBTC_ASSET, PIN_TIMEOUT_FAILURE, PIN_TIMEOUT_SUCCESS } from '../../utils/constants';
+import { DEFAULT_FEE_PRESET, LBTC_ASSET, PIN_TIMEOUT_FAILURE, PIN_TIMEOUT_SUCCESS } from '../../utils/constants';
 import { decrypt } from '../../utils/crypto';
-import { IncorrectPINError, WithdrawTxError } from '../../utils/errors';
+import { AppError, IncorrectPINError, WithdrawTxError } from '../../utils/errors';
 import { isLbtc, isLbtcTicker } from '../../utils/helpers';
 import { onPressEnterKeyCloseKeyboard } from '../../utils/keyboard';
-import { makeSendPset } from '../../utils/transaction';
-import { fromLbtcToUnit, fromSatoshi, toSatoshi } from '../../utils/unitConversion';
+import { estimateSendVirtualSize, makeSendPset, quoteTopupFee } from '../../utils/transaction';
+import { fromLbtcToUnit, fromSatoshi, fromSatoshiFixed, toSatoshi } from '../../utils/unitConversion';
+import type { PsetLocationState } from '../Pset';
 
 type LocationState = {
   address: string;
@@ -52,13 +63,20 @@ export const Withdrawal: React.FC<RouteComponentProps<any, any, LocationState>>
   const assets = useAssetStore((state) => state.assets);
   const network = useSettingsStore((state) => state.network);
   const lbtcUnit = useSettingsStore((state) => state.lbtcUnit);
+  const feeRates = useSettingsStore((state) => state.feeRates);
+  const setFeeRate = useSettingsStore((state) => state.setFeeRate);
   const addErrorToast = useToastStore((state) => state.addErrorToast);
   const addSuccessToast = useToastStore((state) => state.addSuccessToast);
   const balances = useWalletStore((state) => state.balances);
   const encryptedMnemonic = useWalletStore((state) => state.encryptedMnemonic);
   const unlockOutpoints = useWalletStore((state) => state.unlockOutpoints);
+  // the route props history is typed with the state of this page
+  const psetHistory = useHistory<PsetLocationState>();
   const sync = useWalletStore((state) => state.sync);
   const subscribeAllScripts = useWalletStore((state) => state.subscribeAllScripts);
+  const addSentRecipients = useWalletStore((state) => state.addSentRecipients);
+  const selectedOutpoints = useWalletStore((state) => state.selectedOutpoints);
+  const isWatchOnly = useWalletStore((state) => state.isWatchOnly);
   //
   const { asset_id } = useParams<{ asset_id: string }>();
   const [amount, setAmount] = useState<string>('');
@@ -69,6 +87,14 @@ export const Withdrawal: React.FC<RouteComponentProps<any, any, LocationState>>
   const [modalOpen, setModalOpen] = useState(false);
   const [isWrongPin, setIsWrongPin] = useState<boolean | null>(null);
   const [isMaxSend, toggleIsMaxSend] = useState<boolean>(false);
+  const [feeAssetHash, setFeeAssetHash] = useState<string>(LBTC_ASSET[network].assetHash);
+  // assets accepted by the topup service to pay the fees
+  const [topupAssets, setTopupAssets] = useState<string[]>([]);
+  const [estimatedVirtualSize, setEstimatedVirtualSize] = useState<number>();
+  // fee in feeAssetHash quoted by the topup service before the PIN, the most the topup may cost
+  const [topupFee, setTopupFee] = useState<number>();
+  const feeRate = feeRates[asset_id] ?? { preset: DEFAULT_FEE_PRESET };
+  const { presetRates, satsPerVByte } = useFeeRateEstimation(feeRate);
 
   useIonViewDidLeave(() => {
     setRecipientAddress('');
@@ -81,6 +107,43 @@ export const Withdrawal: React.FC<RouteComponentProps<any, any, LocationState>>
     }
   }, [location]);
 
+  useEffect(() => {
+    setFeeAssetHash(LBTC_ASSET[network].assetHash);
+    topupClient
+      .listAssets()
+      .then(setTopupAssets)
+      .catch((err) => {
+        console.error(err);
+        setTopupAssets([]);
+      });
+  }, [network]);
+
+  // Live size estimation of the transaction, to preview the fee
+  useEffect(() => {
+    const value = Number(amount);
+    if (!recipientAddress || !(value > 0) || value > Number(balances?.[asset_id]?.value ?? 0)) {
+      setEstimatedVirtualSize(undefined);
+      return;
+    }
+    const recipient = {
+      address: recipientAddress.trim(),
+      asset: asset_id,
+      value: toSatoshi(
+        value,
+        assets[asset_id]?.precision,
+        isLbtcTicker(assets[asset_id]?.ticker || '') ? lbtcUnit : undefined
+      ),
+    };
+    estimateSendVirtualSize([recipient], getSelectedOutpointsOfAsset(asset_id))
+      .then(setEstimatedVirtualSize)
+      .catch(() => setEstimatedVirtualSize(undefined));
+  }, [amount, asset_id, assets, balances, lbtcUnit, recipientAddress, selectedOutpoints]);
+
+  const feeAssets = [
+    LBTC_ASSET[network].assetHash,
+    ...topupAssets.filter((asset) => !isLbtc(asset, network) && balances?.[asset]?.sats),
+  ];
+
   // Check amount validity
   useEffect(() => {
     try {
@@ -90,9 +153,17 @@ export const Withdrawal: React.FC<RouteComponentProps<any, any, LocationState>>
         return;
       }
       //
-      const LBTCBalance = +balances[LBTC_ASSET[network].assetHash]?.value ?? 0;
-      if (!LBTCBalance || LBTCBalance === 0) {
-        setError('You need LBTC to pay fees');
+      const feeAssetBalance = balances[feeAssetHash]?.sats ?? 0;
+      if (!feeAssetBalance && isLbtc(feeAssetHash, network)) {
+        setError(
+          topupAssets.some((asset) => balances[asset]?.sats)
+            ? 'You need LBTC to pay fees, or pay them in another asset'
+            : 'You need LBTC to pay fees'
+        );
+        return;
+      }
+      if (!feeAssetBalance) {
+        setError(`You need ${assets[feeAssetHash]?.ticker ?? 'this asset'} to pay fees`);
         return;
       }
       // No error
@@ -100,7 +171,7 @@ export const Withdrawal: React.FC<RouteComponentProps<any, any, LocationState>>
     } catch (err) {
       console.error(err);
     }
-  }, [amount, asset_id, assets, balances, lbtcUnit, network]);
+  }, [amount, asset_id, assets, balances, feeAssetHash, lbtcUnit, network, topupAssets]);
 
   const getRecipient = (): Recipient => ({
     address: recipientAddress?.trim(),
@@ -118,6 +189,50 @@ export const Withdrawal: React.FC<RouteComponentProps<any, any, LocationState>>
     return recipientAddress !== '';
   };
 
+  // Blinded but unsigned, to be signed by another wallet or device
+  const exportUnsignedPset = async () => {
+    try {
+      if (!isValid()) return;
+      setLoading(true);
+      const { pset } = await makeSendPset(
+        [getRecipient()],
+        feeAssetHash,
+        isMaxSend,
+        satsPerVByte,
+        getSelectedOutpointsOfAsset(asset_id)
+      );
+      const blindedPset = await new BlinderService().blindPset(pset);
+      psetHistory.push(routerLinks.pset, { pset: blindedPset.toBase64() });
+    } catch (err) {
+      console.error(err);
+      addErrorToast(err instanceof AppError ? err : WithdrawTxError);
+      unlockOutpoints();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // A fee paid in another asset is quoted before asking for the PIN
+  const openPinModal = async () => {
+    if (isLbtc(feeAssetHash, network)) {
+      setTopupFee(undefined);
+      setModalOpen(true);
+      return;
+    }
+    try {
+      setLoading(true);
+      setTopupFee(
+        await quoteTopupFee([getRecipient()], feeAssetHash, satsPerVByte, getSelectedOutpointsOfAsset(asset_id))
+      );
+      setModalOpen(true);
+    } catch (err) {
+      console.error(err);
+      addErrorToast(err instanceof AppError ? err : WithdrawTxError);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const createTxAndBroadcast = async (pin: string) => {
     try {
       if (!isValid()) return;
@@ -125,7 +240,7 @@ export const Withdrawal: React.FC<RouteComponentProps<any, any, LocationState>>
       try {
         // Check pin
         if (!encryptedMnemonic) throw new Error('No mnemonic found in wallet');
-        await decrypt(encryptedMnemonic, pin);
+        await checkPin(() => decrypt(encryptedMnemonic, pin));
         setIsWrongPin(false);
         setTimeout(() => {
           setIsWrongPin(null);
@@ -134,7 +249,15 @@ export const Withdrawal: React.FC<RouteComponentProps<any, any, LocationState>>
       } catch (_) {
         throw IncorrectPINError;
       }
-      const { pset, feeAmount } = await makeSendPset([getRecipient()], LBTC_ASSET[network].assetHash, isMaxSend);
+      const recipient = getRecipient();
+      const { pset, feeAmount, recipientVouts } = await makeSendPset(
+        [recipient],
+        feeAssetHash,
+        isMaxSend,
+        satsPerVByte,
+        getSelectedOutpointsOfAsset(asset_id),
+        topupFee
+      );
       const blinder = new BlinderService();
       const blindedPset = await blinder.blindPset(pset);
       const signer = await SignerService.fromPassword(pin);
@@ -142,8 +265,26 @@ export const Withdrawal: React.FC<RouteComponentProps<any, any, LocationState>>
       const toBroadcast = signer.finalizeAndExtract(signedPset);
       // Broadcast tx
       const txid = await chainSource.broadcastTransaction(toBroadcast);
+      clearSelectedOutpointsOfAsset(asset_id);
+      // the fee of a max send is deducted from the amount
+      addSentRecipients(txid, [
+        {
+          ...recipient,
+          value: isMaxSend && asset_id === feeAssetHash ? recipient.value - feeAmount : recipient.value,
+          vout: recipientVouts[0],
+        },
+      ]);
       const actualAmount =
-        isMaxSend && isLbtc(asset_id, network) ? `-${Number(amount) - fromSatoshi(feeAmount)}` : `-${amount}`;
+        isMaxSend && asset_id === feeAssetHash
+          ? `-${
+              Number(amount) -
+              fromSatoshi(
+                feeAmount,
+                assets[feeAssetHash]?.precision,
+                isLbtc(feeAssetHash, network) ? lbtcUnit : undefined
+              )
+            }`
+          : `-${amount}`;
       addSuccessToast(`Transaction broadcasted. ${actualAmount} ${assets[asset_id]?.ticker} sent.`);
       history.replace(`/transaction/${txid}`, {
         address: recipientAddress,
@@ -159,7 +300,7 @@ export const Withdrawal: React.FC<RouteComponentProps<any, any, LocationState>>
         setIsWrongPin(null);
         setNeedReset(true);
       }, PIN_TIMEOUT_FAILURE);
-      addErrorToast(WithdrawTxError);
+      addErrorToast(err instanceof AppError ? err : WithdrawTxError);
       // Revert to previous state
       await unlockOutpoints();
       await sync();
@@ -177,6 +318,14 @@ export const Withdrawal: React.FC<RouteComponentProps<any, any, LocationState>>
         title="Unlock your seed"
         description={`Enter your secret PIN to send ${amount} ${
           isLbtcTicker(assets[asset_id]?.ticker || '') ? lbtcUnit : assets[asset_id]?.ticker
+        }${
+          topupFee !== undefined
+            ? `, paying ${fromSatoshiFixed(
+                topupFee,
+                assets[feeAssetHash]?.precision,
+                assets[feeAssetHash]?.precision
+              )} ${assets[feeAssetHash]?.ticker} of fees`
+            : ''
         }.`}
         onConfirm={createTxAndBroadcast}
         onClose={() => {
@@ -251,17 +400,52 @@ export const Withdrawal: React.FC<RouteComponentProps<any, any, LocationState>>
             </IonButton>
           </IonItem>
 
+          {feeAssets.length > 1 && (
+            <IonItem className="input ion-margin-horizontal">
+              <IonLabel>Pay fees in</IonLabel>
+              <IonSelect value={feeAssetHash} onIonChange={(e) => setFeeAssetHash(e.detail.value)}>
+                {feeAssets.map((asset) => (
+                  <IonSelectOption key={asset} value={asset}>
+                    {assets[asset]?.ticker ?? asset.slice(0, 8)}
+                  </IonSelectOption>
+                ))}
+              </IonSelect>
+            </IonItem>
+          )}
+
+          <CoinControlRow asset={asset_id} />
+
+          <FeeRateSelector
+            feeRate={feeRate}
+            onFeeRateChange={(newFeeRate) => setFeeRate(asset_id, newFeeRate)}
+            presetRates={presetRates}
+            satsPerVByte={satsPerVByte}
+            virtualSize={estimatedVirtualSize}
+            feeNote={!isLbtc(feeAssetHash, network) ? `, paid in ${assets[feeAssetHash]?.ticker}` : undefined}
+          />
+
+          <WatchOnlyNotice />
           <IonRow className="ion-margin-vertical-x2">
             <IonCol>
               <ButtonsMainSub
                 mainTitle="CONFIRM"
                 subTitle="CANCEL"
-                mainOnClick={() => setModalOpen(true)}
-                mainDisabled={!isValid()}
+                mainOnClick={openPinModal}
+                mainDisabled={!isValid() || isWatchOnly}
                 subOnClick={history.goBack}
               />
             </IonCol>
           </IonRow>
+          <IonRow className="ion-text-center">
+            <IonCol>
+              <IonButton fill="clear" onClick={() => history.push(routerLinks.batchSend)}>
+                Send to several recipients
+              </IonButton>
+              <IonButton fill="clear" disabled={!isValid()} onClick={exportUnsignedPset}>
+                Export unsigned PSET
+              </IonButton>
+            </IonCol>
+          </IonRow>
         </IonGrid>
       </IonContent>
     </IonPage>
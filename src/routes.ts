@@ -1,20 +1,28 @@
 import { IconExchange, IconSettings, IconWallet } from './components/icons';
 import { Backup } from './pages/Backup';
+import { BatchSend } from './pages/BatchSend';
 import { ClaimPegin } from './pages/ClaimPegin';
+import { Coins } from './pages/Coins';
+import { Consolidate } from './pages/Consolidate';
 import DeepRestoration from './pages/DeepRestoration';
 import DeleteMnemonic from './pages/DeleteMnemonic';
 import Deposit from './pages/Deposit';
 import { Exchange } from './pages/Exchange';
 import { Explorers } from './pages/Explorers';
 import Faq from './pages/Faq';
+import { LimitOrders } from './pages/LimitOrders';
 import { LiquidityProviders } from './pages/LiquidityProvider';
+import { Markets } from './pages/Markets';
 import { Operations } from './pages/Operations';
 import Privacy from './pages/Privacy';
+import { Pset } from './pages/Pset';
 import QRScanner from './pages/QRScanner';
 import { Receive } from './pages/Receive';
 import Settings from './pages/Settings';
 import Account from './pages/Settings/Account';
+import CoinSelection from './pages/Settings/CoinSelection';
 import Network from './pages/Settings/Network';
+import Slippage from './pages/Settings/Slippage';
 import { WalletInfo } from './pages/Settings/WalletInfo';
 import { ShowMnemonic } from './pages/ShowMnemonic';
 import ShowMnemonicSettings from './pages/ShowMnemonic/show-mnemonic-settings';
@@ -24,16 +32,24 @@ import { TradeHistory } from './pages/TradeHistory';
 import { TradeSummary } from './pages/TradeSummary';
 import TransactionDetails from './pages/TransactionDetails';
 import { Wallet } from './pages/Wallet';
+import { Wallets } from './pages/Wallets';
 import { Withdrawal } from './pages/Withdrawal';
 
 export const routerLinks = {
   wallet: '/wallet',
+  wallets: '/wallets',
   exchange: '/exchange',
   tradeSummary: '/tradesummary/:txid',
   history: '/history',
+  limitOrders: '/limit-orders',
+  markets: '/markets',
   operations: '/operations/:asset_id',
   transactionDetails: '/transaction/:txid',
   withdrawal: '/withdraw/:asset_id',
+  batchSend: '/withdraw-batch',
+  coins: '/coins',
+  consolidate: '/consolidate',
+  pset: '/pset',
   receive: '/receive',
   qrScanner: '/qrscanner/:asset_id',
   backup: '/backup',
@@ -54,6 +70,8 @@ export const routerLinks = {
   explorers: '/settings/explorers',
   network: '/settings/network',
   torProxy: '/settings/tor-proxy',
+  slippage: '/settings/slippage',
+  coinSelection: '/settings/coin-selection',
 };
 
 export const ROUTES = [
@@ -73,6 +91,10 @@ export const ROUTES = [
     path: routerLinks.wallet,
     component: Wallet,
   },
+  {
+    path: routerLinks.wallets,
+    component: Wallets,
+  },
   {
     path: routerLinks.exchange,
     component: Exchange,
@@ -85,6 +107,14 @@ export const ROUTES = [
     path: routerLinks.history,
     component: TradeHistory,
   },
+  {
+    path: routerLinks.limitOrders,
+    component: LimitOrders,
+  },
+  {
+    path: routerLinks.markets,
+    component: Markets,
+  },
   {
     path: routerLinks.tradeSummary,
     component: TradeSummary,
@@ -93,6 +123,22 @@ export const ROUTES = [
     path: routerLinks.withdrawal,
     component: Withdrawal,
   },
+  {
+    path: routerLinks.batchSend,
+    component: BatchSend,
+  },
+  {
+    path: routerLinks.coins,
+    component: Coins,
+  },
+  {
+    path: routerLinks.consolidate,
+    component: Consolidate,
+  },
+  {
+    path: routerLinks.pset,
+    component: Pset,
+  },
   {
     path: routerLinks.receive,
     component: Receive,
@@ -161,6 +207,14 @@ export const ROUTES = [
     path: routerLinks.torProxy,
     component: TorProxy,
   },
+  {
+    path: routerLinks.slippage,
+    component: Slippage,
+  },
+  {
+    path: routerLinks.coinSelection,
+    component: CoinSelection,
+  },
 ];
 
 export const TABS = [
@@ -27,10 +27,11 @@ export class BitcoinService {
   }
 
   static async fromPin(pin: string): Promise<BitcoinService> {
-    const encryptedMnemonic = useWalletStore.getState().encryptedMnemonic;
+    const { encryptedMnemonic, encryptedPassphrase } = useWalletStore.getState();
     if (!encryptedMnemonic) throw new Error('No mnemonic found in wallet');
     const decryptedMnemonic = await decrypt(encryptedMnemonic, pin);
-    const masterNode = bip32.fromSeed(await mnemonicToSeed(decryptedMnemonic));
+    const passphrase = encryptedPassphrase && (await decrypt(encryptedPassphrase, pin));
+    const masterNode = bip32.fromSeed(await mnemonicToSeed(decryptedMnemonic, passphrase));
     return new BitcoinService(masterNode);
   }
 
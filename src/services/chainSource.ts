@@ -4,6 +4,9 @@ import { ElectrumWS } from 'ws-electrumx-client';
 
 import { useSettingsStore } from '../store/settingsStore';
 
+import { EsploraChainSource } from './esploraChainSource';
+import { FailoverChainSource } from './failoverChainSource';
+
 export interface ChainSource {
   subscribeScriptStatus(
     script: Buffer,
@@ -24,6 +27,8 @@ export interface ChainSource {
 
   getRelayFee(): Promise<number>;
 
+  isHealthy(): Promise<boolean>;
+
   createWebsocketInstance(): void;
 }
 
@@ -78,18 +83,20 @@ export function deserializeBlockHeader(hex: string): BlockHeader {
 }
 
 const BroadcastTransaction = 'blockchain.transaction.broadcast'; // returns txid
-const EstimateFee = 'blockchain.estimatefee'; // returns fee rate in sats/kBytes
+const EstimateFee = 'blockchain.estimatefee'; // returns fee rate in BTC/kB, -1 if no estimation
 const GetBlockHeader = 'blockchain.block.header'; // returns block header as hex string
 const GetHistoryMethod = 'blockchain.scripthash.get_history';
 const GetTransactionMethod = 'blockchain.transaction.get';
 const SubscribeStatusMethod = 'blockchain.scripthash'; // ElectrumWS automatically adds '.subscribe'
 const GetRelayFeeMethod = 'blockchain.relayfee';
 
+const WebsocketNotInstantiatedError = new Error('electrum websocket not instantiated');
+
 export class WsElectrumChainSource implements ChainSource {
   private ws?: ElectrumWS;
 
   async fetchTransactions(txids: string[]): Promise<{ txid: string; hex: string }[]> {
-    if (!this.ws) return [];
+    if (!this.ws) throw WebsocketNotInstantiatedError;
     const responses = await this.ws.batchRequest<string[]>(
       ...txids.map((txid) => ({ method: GetTransactionMethod, params: [txid] }))
     );
@@ -105,7 +112,7 @@ export class WsElectrumChainSource implements ChainSource {
     script: Buffer,
     callback: (scripthash: string, status: string | null) => Promise<void>
   ): Promise<void> {
-    if (!this.ws) return;
+    if (!this.ws) throw WebsocketNotInstantiatedError;
     const scriptHash = toScriptHash(script);
     await this.ws.subscribe(
       SubscribeStatusMethod,
@@ -119,7 +126,7 @@ export class WsElectrumChainSource implements ChainSource {
   }
 
   async fetchHistories(scripts: Buffer[]): Promise<GetHistoryResponse[]> {
-    if (!this.ws) return [];
+    if (!this.ws) throw WebsocketNotInstantiatedError;
     const scriptsHashes = scripts.map((s) => toScriptHash(s));
     return await this.ws.batchRequest<GetHistoryResponse[]>(
       ...scriptsHashes.map((s) => ({ method: GetHistoryMethod, params: [s] }))
@@ -127,26 +134,30 @@ export class WsElectrumChainSource implements ChainSource {
   }
 
   async fetchBlockHeader(height: number): Promise<BlockHeader> {
-    if (!this.ws) return {} as BlockHeader;
+    if (!this.ws) throw WebsocketNotInstantiatedError;
     const hex = await this.ws.request<string>(GetBlockHeader, height);
     return deserializeBlockHeader(hex);
   }
 
   async estimateFees(targetNumberBlocks: number): Promise<number> {
-    if (!this.ws) return 0;
+    if (!this.ws) throw WebsocketNotInstantiatedError;
     return await this.ws.request<number>(EstimateFee, targetNumberBlocks);
   }
 
   async broadcastTransaction(hex: string): Promise<string> {
-    if (!this.ws) return '';
+    if (!this.ws) throw WebsocketNotInstantiatedError;
     return this.ws.request<string>(BroadcastTransaction, hex);
   }
 
   async getRelayFee(): Promise<number> {
-    if (!this.ws) return 0;
+    if (!this.ws) throw WebsocketNotInstantiatedError;
     return this.ws.request<number>(GetRelayFeeMethod);
   }
 
+  async isHealthy(): Promise<boolean> {
+    return !!this.ws && this.ws.isConnected();
+  }
+
   createWebsocketInstance(): void {
     const websocketExplorerURL = useSettingsStore.getState().websocketExplorerURL;
     this.ws = new ElectrumWS(websocketExplorerURL);
@@ -155,7 +166,14 @@ export class WsElectrumChainSource implements ChainSource {
 }
 
 await sleep(1500); // wait for the app to be initialized
-export const chainSource = new WsElectrumChainSource();
+// Electrum websocket is preferred, Esplora REST API is used as fallback
+export const chainSource = new FailoverChainSource([
+  new WsElectrumChainSource(),
+  new EsploraChainSource(() => {
+    const { explorerLiquidAPI, electrsBatchAPI, network } = useSettingsStore.getState();
+    return { explorerUrl: explorerLiquidAPI, batchServerUrl: electrsBatchAPI, network };
+  }),
+]);
 
 function toScriptHash(script: Buffer): string {
   return crypto.sha256(script).reverse().toString('hex');
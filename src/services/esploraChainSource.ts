@@ -0,0 +1,214 @@
+import axios from 'axios';
+import { address, crypto, networks } from 'liquidjs-lib';
+
+import type { NetworkString } from '../utils/constants';
+
+import type { BlockHeader, ChainSource, GetHistoryResponse } from './chainSource';
+
+// Liquid nodes relay transactions paying at least 0.1 sat/vB, expressed in BTC/kB like electrum 'blockchain.relayfee'
+const LIQUID_MIN_RELAY_FEE = 0.000001;
+// Esplora returns at most 25 confirmed txs per page of /scripthash/:hash/txs/chain
+const ESPLORA_CHAIN_PAGE_SIZE = 25;
+const DEFAULT_POLLING_INTERVAL = 30_000;
+
+export interface EsploraOptions {
+  explorerUrl: string;
+  batchServerUrl?: string;
+  network: NetworkString;
+}
+
+interface EsploraTx {
+  txid: string;
+  status: {
+    confirmed: boolean;
+    block_height?: number;
+  };
+}
+
+interface EsploraBlock {
+  id: string;
+  height: number;
+  version: number;
+  timestamp: number;
+  previousblockhash: string;
+  merkle_root: string;
+}
+
+interface ScriptPolling {
+  timer?: ReturnType<typeof setInterval>;
+  status: string | null;
+}
+
+/**
+ * ChainSource backed by the Esplora REST API (explorerLiquidAPI).
+ * Histories are fetched in batch from the electrs-batch-server when available.
+ * Esplora has no push notifications so script subscriptions are emulated by polling.
+ */
+export class EsploraChainSource implements ChainSource {
+  private readonly getOptions: () => EsploraOptions;
+  private readonly pollingInterval: number;
+  private pollings = new Map<string, ScriptPolling>();
+
+  constructor(getOptions: () => EsploraOptions, pollingInterval = DEFAULT_POLLING_INTERVAL) {
+    this.getOptions = getOptions;
+    this.pollingInterval = pollingInterval;
+  }
+
+  private get explorerUrl(): string {
+    return this.getOptions().explorerUrl.replace(/\/$/, '');
+  }
+
+  private get batchServerUrl(): string | undefined {
+    return this.getOptions().batchServerUrl?.replace(/\/$/, '');
+  }
+
+  async subscribeScriptStatus(
+    script: Buffer,
+    callback: (scripthash: string, status: string | null) => Promise<void>
+  ): Promise<void> {
+    const scriptHash = toScriptHash(script);
+    await this.unsubscribeScriptStatus(script);
+    const poll = async (polling: ScriptPolling) => {
+      try {
+        const [history] = await this.fetchHistories([script]);
+        const status = computeScriptStatus(history);
+        if (status === polling.status) return;
+        polling.status = status;
+        await callback(scriptHash, status);
+      } catch (err) {
+        console.error((err as Error).message);
+      }
+    };
+    // Like electrum, notify the current status right after subscribing
+    const [history] = await this.fetchHistories([script]);
+    const polling: ScriptPolling = { status: computeScriptStatus(history) };
+    polling.timer = setInterval(() => poll(polling), this.pollingInterval);
+    this.pollings.set(scriptHash, polling);
+    await callback(scriptHash, polling.status);
+  }
+
+  async unsubscribeScriptStatus(script: Buffer): Promise<void> {
+    const scriptHash = toScriptHash(script);
+    const polling = this.pollings.get(scriptHash);
+    if (!polling) return;
+    clearInterval(polling.timer);
+    this.pollings.delete(scriptHash);
+  }
+
+  async fetchHistories(scripts: Buffer[]): Promise<GetHistoryResponse[]> {
+    if (this.batchServerUrl) {
+      try {
+        return await this.fetchHistoriesFromBatchServer(scripts);
+      } catch (err) {
+        console.debug(`electrs batch server failed, fallback to esplora: ${(err as Error).message}`);
+      }
+    }
+    return Promise.all(scripts.map((script) => this.fetchScriptHistory(script)));
+  }
+
+  async fetchTransactions(txids: string[]): Promise<{ txid: string; hex: string }[]> {
+    return Promise.all(
+      txids.map(async (txid) => {
+        const { data: hex } = await axios.get<string>(`${this.explorerUrl}/tx/${txid}/hex`);
+        return { txid, hex };
+      })
+    );
+  }
+
+  async fetchBlockHeader(height: number): Promise<BlockHeader> {
+    const { data: hash } = await axios.get<string>(`${this.explorerUrl}/block-height/${height}`);
+    const { data: block } = await axios.get<EsploraBlock>(`${this.explorerUrl}/block/${hash}`);
+    return {
+      version: block.version,
+      previousBlockHash: block.previousblockhash,
+      merkleRoot: block.merkle_root,
+      timestamp: block.timestamp,
+      height: block.height,
+    };
+  }
+
+  // returns fee rate in BTC/kB to match electrum 'blockchain.estimatefee'
+  async estimateFees(targetNumberBlocks: number): Promise<number> {
+    const { data } = await axios.get<Record<string, number>>(`${this.explorerUrl}/fee-estimates`);
+    const targets = Object.keys(data)
+      .map(Number)
+      .sort((a, b) => a - b);
+    if (targets.length === 0) return LIQUID_MIN_RELAY_FEE;
+    // use the closest estimation that confirms at least as fast as requested
+    const target = [...targets].reverse().find((t) => t <= targetNumberBlocks) ?? targets[0];
+    const satsPerVByte = data[target.toString()];
+    return Math.max((satsPerVByte * 1000) / 10 ** 8, LIQUID_MIN_RELAY_FEE);
+  }
+
+  async broadcastTransaction(hex: string): Promise<string> {
+    const { data: txid } = await axios.post<string>(`${this.explorerUrl}/tx`, hex, {
+      headers: { 'Content-Type': 'text/plain' },
+    });
+    return txid;
+  }
+
+  async getRelayFee(): Promise<number> {
+    return LIQUID_MIN_RELAY_FEE;
+  }
+
+  async isHealthy(): Promise<boolean> {
+    try {
+      await axios.get(`${this.explorerUrl}/blocks/tip/height`, { timeout: 5000 });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Esplora is stateless, nothing to instantiate
+  createWebsocketInstance(): void {
+    return;
+  }
+
+  private async fetchScriptHistory(script: Buffer): Promise<GetHistoryResponse> {
+    const scriptHash = toScriptHash(script);
+    const { data: txs } = await axios.get<EsploraTx[]>(`${this.explorerUrl}/scripthash/${scriptHash}/txs`);
+    // the first call returns mempool txs + the first page of confirmed txs
+    let lastPage = txs.filter((tx) => tx.status.confirmed);
+    while (lastPage.length === ESPLORA_CHAIN_PAGE_SIZE) {
+      const lastSeenTxid = lastPage[lastPage.length - 1].txid;
+      const { data: nextPage } = await axios.get<EsploraTx[]>(
+        `${this.explorerUrl}/scripthash/${scriptHash}/txs/chain/${lastSeenTxid}`
+      );
+      txs.push(...nextPage);
+      lastPage = nextPage;
+    }
+    return txs.map(toHistoryItem);
+  }
+
+  // electrs-batch-server indexes histories by unconfidential address
+  private async fetchHistoriesFromBatchServer(scripts: Buffer[]): Promise<GetHistoryResponse[]> {
+    const network = networks[this.getOptions().network];
+    const addresses = scripts.map((s) => address.fromOutputScript(s, network));
+    const { data } = await axios.post<{ address: string; transaction: EsploraTx[] }[]>(
+      `${this.batchServerUrl}/addresses/transactions`,
+      { addresses }
+    );
+    return addresses.map((addr) => {
+      const result = data.find((r) => r.address === addr);
+      if (!result) throw new Error(`missing history for address ${addr}`);
+      return result.transaction.map(toHistoryItem);
+    });
+  }
+}
+
+function toHistoryItem(tx: EsploraTx): GetHistoryResponse[number] {
+  // electrum uses height 0 for unconfirmed txs
+  return { tx_hash: tx.txid, height: tx.status.confirmed ? tx.status.block_height ?? 0 : 0 };
+}
+
+// https://electrumx.readthedocs.io/en/latest/protocol-basics.html#status
+export function computeScriptStatus(history: GetHistoryResponse): string | null {
+  if (history.length === 0) return null;
+  const concatenated = history.map(({ tx_hash, height }) => `${tx_hash}:${height}:`).join('');
+  return crypto.sha256(Buffer.from(concatenated)).toString('hex');
+}
+
+function toScriptHash(script: Buffer): string {
+  return crypto.sha256(script).reverse().toString('hex');
+}
@@ -0,0 +1,125 @@
+import type { BlockHeader, ChainSource, GetHistoryResponse } from './chainSource';
+
+const DEFAULT_HEALTH_CHECK_INTERVAL = 30_000;
+
+type ScriptStatusCallback = (scripthash: string, status: string | null) => Promise<void>;
+
+/**
+ * ChainSource delegating to a list of sources ordered by priority.
+ * Requests go to the active source and fail over to the next ones on error.
+ * Periodic health checks switch back to the preferred source once it recovers.
+ * Script subscriptions are moved to the new active source on every switch.
+ */
+export class FailoverChainSource implements ChainSource {
+  private readonly sources: ChainSource[];
+  private readonly healthCheckInterval: number;
+  private activeIndex = 0;
+  private healthCheckTimer?: ReturnType<typeof setInterval>;
+  private subscriptions = new Map<string, { script: Buffer; callback: ScriptStatusCallback }>();
+
+  constructor(sources: ChainSource[], healthCheckInterval = DEFAULT_HEALTH_CHECK_INTERVAL) {
+    if (sources.length === 0) throw new Error('At least one chain source is required');
+    this.sources = sources;
+    this.healthCheckInterval = healthCheckInterval;
+  }
+
+  get activeSource(): ChainSource {
+    return this.sources[this.activeIndex];
+  }
+
+  async subscribeScriptStatus(script: Buffer, callback: ScriptStatusCallback): Promise<void> {
+    await this.withFailover((source) => source.subscribeScriptStatus(script, callback));
+    this.subscriptions.set(script.toString('hex'), { script, callback });
+  }
+
+  async unsubscribeScriptStatus(script: Buffer): Promise<void> {
+    this.subscriptions.delete(script.toString('hex'));
+    await this.activeSource.unsubscribeScriptStatus(script);
+  }
+
+  fetchHistories(scripts: Buffer[]): Promise<GetHistoryResponse[]> {
+    return this.withFailover((source) => source.fetchHistories(scripts));
+  }
+
+  fetchTransactions(txids: string[]): Promise<{ txid: string; hex: string }[]> {
+    return this.withFailover((source) => source.fetchTransactions(txids));
+  }
+
+  fetchBlockHeader(height: number): Promise<BlockHeader> {
+    return this.withFailover((source) => source.fetchBlockHeader(height));
+  }
+
+  estimateFees(targetNumberBlocks: number): Promise<number> {
+    return this.withFailover((source) => source.estimateFees(targetNumberBlocks));
+  }
+
+  broadcastTransaction(hex: string): Promise<string> {
+    return this.withFailover((source) => source.broadcastTransaction(hex));
+  }
+
+  getRelayFee(): Promise<number> {
+    return this.withFailover((source) => source.getRelayFee());
+  }
+
+  // healthy if at least one of the sources is
+  async isHealthy(): Promise<boolean> {
+    const results = await Promise.all(this.sources.map((source) => source.isHealthy().catch(() => false)));
+    return results.some(Boolean);
+  }
+
+  createWebsocketInstance(): void {
+    this.sources.forEach((source) => source.createWebsocketInstance());
+    this.startHealthChecks();
+  }
+
+  // Switch to the preferred healthy source
+  async checkHealth(): Promise<void> {
+    const results = await Promise.all(this.sources.map((source) => source.isHealthy().catch(() => false)));
+    const firstHealthyIndex = results.findIndex(Boolean);
+    if (firstHealthyIndex === -1) {
+      console.warn('no healthy chain source available');
+      return;
+    }
+    if (firstHealthyIndex !== this.activeIndex) await this.switchTo(firstHealthyIndex);
+  }
+
+  startHealthChecks(): void {
+    this.stopHealthChecks();
+    this.healthCheckTimer = setInterval(() => {
+      this.checkHealth().catch(console.error);
+    }, this.healthCheckInterval);
+  }
+
+  stopHealthChecks(): void {
+    if (this.healthCheckTimer) clearInterval(this.healthCheckTimer);
+    this.healthCheckTimer = undefined;
+  }
+
+  private async switchTo(index: number): Promise<void> {
+    const previous = this.activeSource;
+    this.activeIndex = index;
+    console.debug(`chain source switched to source #${index}`);
+    for (const { script, callback } of this.subscriptions.values()) {
+      await previous.unsubscribeScriptStatus(script).catch(console.error);
+      await this.activeSource.subscribeScriptStatus(script, callback).catch(console.error);
+    }
+  }
+
+  // Try the active source first, then the others by priority.
+  // If all sources fail, the error of the active source is thrown.
+  private async withFailover<T>(fn: (source: ChainSource) => Promise<T>): Promise<T> {
+    const order = [this.activeIndex, ...this.sources.keys()].filter((i, pos, arr) => arr.indexOf(i) === pos);
+    let firstError: unknown;
+    for (const index of order) {
+      try {
+        const result = await fn(this.sources[index]);
+        if (index !== this.activeIndex) await this.switchTo(index);
+        return result;
+      } catch (err) {
+        console.debug(`chain source #${index} failed: ${(err as Error).message}`);
+        if (firstError === undefined) firstError = err;
+      }
+    }
+    throw firstError;
+  }
+}
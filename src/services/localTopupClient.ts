@@ -0,0 +1,94 @@
+import zkp from '@vulpemventures/secp256k1-zkp';
+import ECPairFactory from 'ecpair';
+import type { TxOutput } from 'liquidjs-lib';
+import {
+  Creator,
+  crypto,
+  ElementsValue,
+  Finalizer,
+  networks,
+  payments,
+  Pset,
+  script as bscript,
+  Signer,
+  Transaction,
+  Updater,
+} from 'liquidjs-lib';
+
+import type { NetworkString } from '../utils/constants';
+
+import type { Topup, TopupClient, TopupRequest } from './topupClient';
+
+const TOPUP_EXPIRY = 60_000;
+
+export interface LocalTopupOptions {
+  network: NetworkString;
+  // key of the p2wpkh utxos below
+  privateKey: Buffer;
+  // unconfidential L-BTC utxos
+  utxos: { txid: string; vout: number; witnessUtxo: TxOutput }[];
+  // satoshis of each supported asset per L-BTC satoshi
+  rates: Record<string, number>;
+  // taken on top of the rate, 0.01 is 1%
+  spread?: number;
+}
+
+/**
+ * Stand-in TopupClient signing topups with a local key, to be used in tests and on regtest.
+ * Each topup spends a single utxo so that its input and the output paying the service share index 0.
+ */
+export class LocalTopupClient implements TopupClient {
+  private readonly options: LocalTopupOptions;
+
+  constructor(options: LocalTopupOptions) {
+    this.options = options;
+  }
+
+  async listAssets(): Promise<string[]> {
+    return Object.keys(this.options.rates);
+  }
+
+  async topupWithAsset({ assetHash, estimatedTxSize, millisatsPerByte }: TopupRequest): Promise<Topup> {
+    const { network, privateKey, utxos, rates, spread = 0 } = this.options;
+    const rate = rates[assetHash];
+    if (!rate) throw new Error(`asset ${assetHash} not supported`);
+    const feeAmount = Math.ceil((estimatedTxSize * millisatsPerByte) / 1000);
+    const utxo = utxos.find(({ witnessUtxo }) => ElementsValue.fromBytes(witnessUtxo.value).number >= feeAmount);
+    if (!utxo) throw new Error('not enough L-BTC to pay the fee');
+    const utxoValue = ElementsValue.fromBytes(utxo.witnessUtxo.value).number;
+    const amountWithoutSpread = Math.ceil(feeAmount * rate);
+    const assetAmount = Math.ceil(amountWithoutSpread * (1 + spread));
+    //
+    const { ecc } = await zkp();
+    const keyPair = ECPairFactory(ecc).fromPrivateKey(privateKey);
+    const script = payments.p2wpkh({ pubkey: keyPair.publicKey, network: networks[network] }).output!;
+    const lbtc = networks[network].assetHash;
+    const sighashType = Transaction.SIGHASH_SINGLE | Transaction.SIGHASH_ANYONECANPAY;
+    const updater = new Updater(Creator.newPset())
+      .addInputs([{ txid: utxo.txid, txIndex: utxo.vout, witnessUtxo: utxo.witnessUtxo, sighashType }])
+      .addOutputs([{ asset: assetHash, amount: assetAmount, script }]);
+    if (utxoValue > feeAmount) {
+      updater.addOutputs([{ asset: lbtc, amount: utxoValue - feeAmount, script }]);
+    }
+    updater.addOutputs([{ asset: lbtc, amount: feeAmount }]);
+    //
+    const signer = new Signer(updater.pset);
+    const signature = keyPair.sign(signer.pset.getInputPreimage(0, sighashType));
+    signer.addSignature(
+      0,
+      { partialSig: { pubkey: keyPair.publicKey, signature: bscript.signature.encode(signature, sighashType) } },
+      Pset.ECDSASigValidator(ecc)
+    );
+    const finalizer = new Finalizer(signer.pset);
+    finalizer.finalize();
+    const partial = finalizer.pset.toBase64();
+    return {
+      topupId: crypto.sha256(Buffer.from(partial, 'base64')).toString('hex'),
+      partial,
+      assetHash,
+      assetAmount,
+      assetSpread: assetAmount - amountWithoutSpread,
+      expiry: Date.now() + TOPUP_EXPIRY,
+    };
+  }
+}
@@ -9,6 +9,7 @@ import { Psbt } from 'liquidjs-lib/src/psbt';
 import type { ScriptDetails } from '../store/walletStore';
 import { useWalletStore } from '../store/walletStore';
 import { decrypt } from '../utils/crypto';
+import { WatchOnlyWalletError } from '../utils/errors';
 
 export interface SignerInterface {
   signPset(pset: Pset): Promise<string>;
@@ -28,11 +29,13 @@ export class SignerService implements SignerInterface {
   static async fromPassword(password: string): Promise<SignerService> {
     const zkpLib = await zkp();
     const { ecc } = zkpLib;
-    const encryptedMnemonic = useWalletStore.getState().encryptedMnemonic;
+    const { encryptedMnemonic, encryptedPassphrase, isWatchOnly } = useWalletStore.getState();
+    if (isWatchOnly) throw WatchOnlyWalletError;
     if (!encryptedMnemonic) throw new Error('No mnemonic found in wallet');
     const decryptedMnemonic = await decrypt(encryptedMnemonic, password);
+    const passphrase = encryptedPassphrase && (await decrypt(encryptedPassphrase, password));
     const bip32 = BIP32Factory(ecc);
-    const masterNode = bip32.fromSeed(await mnemonicToSeed(decryptedMnemonic));
+    const masterNode = bip32.fromSeed(await mnemonicToSeed(decryptedMnemonic, passphrase));
     return new SignerService(masterNode);
   }
 
@@ -0,0 +1,46 @@
+import axios from 'axios';
+
+import type { Topup, TopupClient, TopupRequest } from './topupClient';
+
+interface TaxiTopupResponse {
+  topup: {
+    topupId: string;
+    partial: string;
+    assetHash: string;
+    assetAmount: string;
+    assetSpread: string;
+  };
+  expiry: string; // unix timestamp in seconds
+}
+
+/**
+ * TopupClient backed by the REST API of a Liquid Taxi server.
+ */
+export class TaxiTopupClient implements TopupClient {
+  private readonly getUrl: () => string;
+
+  constructor(getUrl: () => string) {
+    this.getUrl = getUrl;
+  }
+
+  private get url(): string {
+    return this.getUrl().replace(/\/$/, '');
+  }
+
+  async listAssets(): Promise<string[]> {
+    const { data } = await axios.get<{ assets: { assetHash: string }[] }>(`${this.url}/v1/assets`);
+    return data.assets.map(({ assetHash }) => assetHash);
+  }
+
+  async topupWithAsset(request: TopupRequest): Promise<Topup> {
+    const { data } = await axios.post<TaxiTopupResponse>(`${this.url}/v1/asset/topup`, request);
+    return {
+      topupId: data.topup.topupId,
+      partial: data.topup.partial,
+      assetHash: data.topup.assetHash,
+      assetAmount: Number(data.topup.assetAmount),
+      assetSpread: Number(data.topup.assetSpread),
+      expiry: Number(data.expiry) * 1000,
+    };
+  }
+}
@@ -1,22 +1,26 @@
 import axios from 'axios';
 
+import type { GetMarketPriceResponse as GetMarketPriceResponseV1 } from '../../api-spec/protobuf/gen/js/tdex/v1/trade_pb';
 import { TradeType as TradeTypeV1 } from '../../api-spec/protobuf/gen/js/tdex/v1/types_pb';
 import type { Preview as PreviewV1 } from '../../api-spec/protobuf/gen/js/tdex/v1/types_pb';
+import type { GetMarketPriceResponse as GetMarketPriceResponseV2 } from '../../api-spec/protobuf/gen/js/tdex/v2/trade_pb';
 import type { Preview as PreviewV2 } from '../../api-spec/protobuf/gen/js/tdex/v2/types_pb';
 import { TradeType as TradeTypeV2 } from '../../api-spec/protobuf/gen/js/tdex/v2/types_pb';
 import { config } from '../../store/config';
 import type { CoinSelectionForTrade, ScriptDetails } from '../../store/walletStore';
 import type { NetworkString } from '../../utils/constants';
-import { AppError, NoMarketsAvailableForSelectedPairError } from '../../utils/errors';
+import { AppError, NoMarketsAvailableForSelectedPairError, NoTradeRouteAvailableError } from '../../utils/errors';
 import type { SignerInterface } from '../signerService';
 
 import * as tdex from './index';
+import type { SlippageCheck } from './slippage';
 import { TraderClient as TraderClientV1 } from './v1/client.web';
 import { Discoverer as DiscovererV1 } from './v1/discoverer';
 import {
   bestBalanceDiscovery as bestBalanceDiscoveryV1,
   bestPriceDiscovery as bestPriceDiscoveryV1,
   combineDiscovery as combineDiscoveryV1,
+  reputationDiscovery as reputationDiscoveryV1,
 } from './v1/discovery';
 import type { Discovery as DiscoveryV1 } from './v1/discovery';
 import { Trade as TradeV1 } from './v1/trade.web';
@@ -33,10 +37,12 @@ import {
   bestBalanceDiscovery as bestBalanceDiscoveryV2,
   bestPriceDiscovery as bestPriceDiscoveryV2,
   combineDiscovery as combineDiscoveryV2,
+  reputationDiscovery as reputationDiscoveryV2,
+  splitOrderDiscovery as splitOrderDiscoveryV2,
 } from './v2/discovery';
 import type { Discovery as DiscoveryV2 } from './v2/discovery';
 import { Trade as TradeV2 } from './v2/trade.web';
-import type { TDEXMarket as TDEXMarketV2, TradeOrder as TradeOrderV2 } from './v2/tradeCore';
+import type { TDEXMarket as TDEXMarketV2, TradeEvent, TradeOrder as TradeOrderV2 } from './v2/tradeCore';
 
 //
 const TDexRegistryMainnet = 'https://raw.githubusercontent.com/tdex-network/tdex-registry/master/registry.json';
@@ -89,6 +95,8 @@ export function createDiscovererV1(
  * @param addressForChangeOutput
  * @param addressForSwapOutput
  * @param masterBlindingKey
+ * @param onTradeEvent called on each step of the swap protocol
+ * @param slippageCheck previewed amounts and maximum slippage allowed before signing
  */
 export async function makeTradeV1(
   order: TradeOrderV1,
@@ -100,7 +108,9 @@ export async function makeTradeV1(
   network: NetworkString,
   addressForChangeOutput: ScriptDetails,
   addressForSwapOutput: ScriptDetails,
-  torProxy?: string
+  torProxy?: string,
+  onTradeEvent?: (event: TradeEvent) => void,
+  slippageCheck?: SlippageCheck
 ): Promise<string> {
   const trader = new TradeV1(
     {
@@ -110,6 +120,8 @@ export async function makeTradeV1(
       chain: network,
       masterBlindingKey,
       signer: signer,
+      onTradeEvent,
+      slippageCheck,
     },
     torProxy
   );
@@ -123,6 +135,7 @@ export async function makeTradeV1(
     return txid;
   } catch (err) {
     console.error('trade error:', err);
+    if (err instanceof AppError) throw err;
     throw new AppError(0, (err as Error).message);
   }
 }
@@ -171,6 +184,14 @@ export async function previewTradeV1(order: TradeOrderV1, sats: number, asset: s
   return response[0];
 }
 
+export async function getMarketPriceV1(
+  market: TDEXMarketV1,
+  torProxy = config.torProxy
+): Promise<GetMarketPriceResponseV1> {
+  const client = new TraderClientV1(market.provider.endpoint, torProxy);
+  return client.getMarketPrice(market);
+}
+
 // Protos v2
 
 export async function getMarketsFromProviderV2(
@@ -218,6 +239,8 @@ export function createDiscovererV2(
  * @param addressForChangeOutput
  * @param addressForSwapOutput
  * @param masterBlindingKey
+ * @param onTradeEvent called on each step of the swap protocol
+ * @param slippageCheck previewed amounts and maximum slippage allowed before signing
  */
 export async function makeTradeV2(
   order: TradeOrderV2,
@@ -229,7 +252,9 @@ export async function makeTradeV2(
   network: NetworkString,
   addressForChangeOutput: ScriptDetails,
   addressForSwapOutput: ScriptDetails,
-  torProxy?: string
+  torProxy?: string,
+  onTradeEvent?: (event: TradeEvent) => void,
+  slippageCheck?: SlippageCheck
 ): Promise<string> {
   const trader = new TradeV2(
     {
@@ -239,6 +264,8 @@ export async function makeTradeV2(
       chain: network,
       masterBlindingKey,
       signer: signer,
+      onTradeEvent,
+      slippageCheck,
     },
     torProxy
   );
@@ -252,6 +279,7 @@ export async function makeTradeV2(
     return txid;
   } catch (err) {
     console.error('trade error:', err);
+    if (err instanceof AppError) throw err;
     throw new AppError(0, (err as Error).message);
   }
 }
@@ -302,6 +330,14 @@ export async function previewTradeV2(order: TradeOrderV2, sats: number, asset: s
   return response[0];
 }
 
+export async function getMarketPriceV2(
+  market: TDEXMarketV2,
+  torProxy = config.torProxy
+): Promise<GetMarketPriceResponseV2> {
+  const client = new TraderClientV2(market.provider.endpoint, torProxy);
+  return client.getMarketPrice(market);
+}
+
 //
 
 // Find all assets in markets tradable with the asset `asset`
@@ -353,14 +389,33 @@ export async function getProvidersFromTDexRegistry(network: NetworkString): Prom
   return reg;
 }
 
+// Scores of the providers used to rank orders, and the minimum score to be used at all
+export interface ReputationOpts {
+  getScore: (providerEndpoint: string) => number;
+  minScore?: number;
+}
+
+// Whether the provider of the order may be used, its score being at least the minimum one if set
+function isReputableOrder(order: TradeOrderV1 | TradeOrderV2, reputation?: ReputationOpts): boolean {
+  return (
+    reputation?.minScore === undefined || reputation.getScore(order.market.provider.endpoint) >= reputation.minScore
+  );
+}
+
 export function discoverBestOrder(
   markets: { v1: TDEXMarketV1[]; v2: TDEXMarketV2[] },
   sendAsset?: string,
-  receiveAsset?: string
+  receiveAsset?: string,
+  reputation?: ReputationOpts
 ): (sats: number, asset: string) => Promise<TradeOrderV1 | TradeOrderV2> {
   if (!sendAsset || !receiveAsset) throw new Error('unable to compute orders for selected market');
-  const allPossibleOrdersV1 = tdex.computeOrdersV1(markets.v1, sendAsset, receiveAsset);
-  const allPossibleOrdersV2 = tdex.computeOrdersV2(markets.v2, sendAsset, receiveAsset);
+  // skipped providers are filtered out first, not to be returned by any of the fallbacks below
+  const allPossibleOrdersV1 = tdex
+    .computeOrdersV1(markets.v1, sendAsset, receiveAsset)
+    .filter((order) => isReputableOrder(order, reputation));
+  const allPossibleOrdersV2 = tdex
+    .computeOrdersV2(markets.v2, sendAsset, receiveAsset)
+    .filter((order) => isReputableOrder(order, reputation));
   if (allPossibleOrdersV1.length === 0 && allPossibleOrdersV2.length === 0) {
     console.error(`markets not found for pair ${sendAsset}-${receiveAsset}`);
     throw NoMarketsAvailableForSelectedPairError;
@@ -373,12 +428,24 @@ export function discoverBestOrder(
     try {
       const discovererV1 = tdex.createDiscovererV1(
         allPossibleOrdersV1,
-        combineDiscoveryV1(bestPriceDiscoveryV1, bestBalanceDiscoveryV1),
+        reputation
+          ? combineDiscoveryV1(
+              reputationDiscoveryV1(reputation.getScore, reputation.minScore),
+              bestPriceDiscoveryV1,
+              bestBalanceDiscoveryV1
+            )
+          : combineDiscoveryV1(bestPriceDiscoveryV1, bestBalanceDiscoveryV1),
         async (err) => console.debug(err)
       );
       const discovererV2 = tdex.createDiscovererV2(
         allPossibleOrdersV2,
-        combineDiscoveryV2(bestPriceDiscoveryV2, bestBalanceDiscoveryV2),
+        reputation
+          ? combineDiscoveryV2(
+              reputationDiscoveryV2(reputation.getScore, reputation.minScore),
+              bestPriceDiscoveryV2,
+              bestBalanceDiscoveryV2
+            )
+          : combineDiscoveryV2(bestPriceDiscoveryV2, bestBalanceDiscoveryV2),
         async (err) => console.debug(err)
       );
       const bestOrdersV1 = await discovererV1.discover({ asset, amount: sats });
@@ -388,8 +455,239 @@ export function discoverBestOrder(
       return bestOrdersV2[0] ?? bestOrdersV1[0];
     } catch (err) {
       console.error(err);
-      return allPossibleOrdersV1[0];
+      return allPossibleOrdersV1[0] ?? allPossibleOrdersV2[0];
+    }
+  };
+}
+
+export interface TradeRouteLeg {
+  order: TradeOrderV1 | TradeOrderV2;
+  send: { asset: string; sats: number };
+  // amount returned by the preview, trading fees (v2 only) are not deducted
+  receive: { asset: string; sats: number };
+  fee: { asset: string; sats: number };
+}
+
+export interface TradeRoute {
+  legs: TradeRouteLeg[];
+}
+
+// Trade of the same pair split across several providers, each part is a separate swap
+export interface TradeSplit {
+  parts: TradeRouteLeg[];
+}
+
+// Preview an order and normalize the result of both protocol versions
+export async function previewTradeRouteLeg(
+  order: TradeOrderV1 | TradeOrderV2,
+  sats: number,
+  asset: string,
+  sendAsset: string,
+  receiveAsset: string
+): Promise<TradeRouteLeg> {
+  let amount, feeSats;
+  if (isTradeOrderV2(order)) {
+    const preview = await previewTradeV2(order, sats, asset);
+    if (!preview) throw new Error('no preview available');
+    amount = Number(preview.amount);
+    feeSats = Number(preview.feeAmount);
+  } else {
+    const preview = await previewTradeV1(order, sats, asset);
+    if (!preview) throw new Error('no preview available');
+    amount = Number(preview.amount);
+    feeSats = 0;
+  }
+  const isSendKnown = asset === sendAsset;
+  return {
+    order,
+    send: { asset: sendAsset, sats: isSendKnown ? sats : amount },
+    receive: { asset: receiveAsset, sats: isSendKnown ? amount : sats },
+    fee: { asset: receiveAsset, sats: feeSats },
+  };
+}
+
+// Previews of the first leg of a route sized by its received amount, to cover its own fee
+const MAX_ROUTE_LEG_PREVIEWS = 3;
+
+// Amount received at the end of the leg, trading fees deducted
+export function getNetReceivedSats(leg: TradeRouteLeg): number {
+  return leg.receive.sats - leg.fee.sats;
+}
+
+// Find all assets that can be used as intermediate step to trade `sendAsset` for `receiveAsset`
+export function getIntermediateAssets(
+  markets: { v1: TDEXMarketV1[]; v2: TDEXMarketV2[] },
+  sendAsset: string,
+  receiveAsset: string
+): string[] {
+  return getTradablesAssets(markets, sendAsset).filter(
+    (asset) => asset !== receiveAsset && getTradablesAssets(markets, asset).includes(receiveAsset)
+  );
+}
+
+// Find all assets tradable with the asset `asset` directly or through one intermediate asset
+export function getRoutableAssets(markets: { v1: TDEXMarketV1[]; v2: TDEXMarketV2[] }, asset: string): string[] {
+  const routable = getTradablesAssets(markets, asset);
+  for (const intermediate of [...routable]) {
+    for (const tradable of getTradablesAssets(markets, intermediate)) {
+      if (tradable !== asset && !routable.includes(tradable)) routable.push(tradable);
     }
+  }
+  return routable;
+}
+
+export function hasDirectMarket(
+  markets: { v1: TDEXMarketV1[]; v2: TDEXMarketV2[] },
+  sendAsset?: string,
+  receiveAsset?: string
+): boolean {
+  if (!sendAsset || !receiveAsset) return false;
+  return getTradablesAssets(markets, sendAsset).includes(receiveAsset);
+}
+
+/**
+ * Find the best 2-hop route to trade `sendAsset` for `receiveAsset`
+ * Every intermediate asset is tried, each leg using the best order of its pair.
+ * The best route maximizes the received amount, or minimizes the sent amount if `asset` is the receive asset.
+ * @param markets the set of available markets
+ * @param sendAsset the asset to sent
+ * @param receiveAsset the asset to receive
+ * @param reputation scores of the providers, used to discover the order of each leg
+ */
+export function discoverBestRoute(
+  markets: { v1: TDEXMarketV1[]; v2: TDEXMarketV2[] },
+  sendAsset?: string,
+  receiveAsset?: string,
+  reputation?: ReputationOpts
+): (sats: number, asset: string) => Promise<TradeRoute> {
+  if (!sendAsset || !receiveAsset) throw new Error('unable to compute routes for selected market');
+  const intermediateAssets = getIntermediateAssets(markets, sendAsset, receiveAsset);
+  if (intermediateAssets.length === 0) {
+    console.error(`trade routes not found for pair ${sendAsset}-${receiveAsset}`);
+    throw NoTradeRouteAvailableError;
+  }
+  const computeRoute = async (intermediateAsset: string, sats: number, asset: string): Promise<TradeRoute> => {
+    if (asset === sendAsset) {
+      const firstOrder = await tdex.discoverBestOrder(
+        markets,
+        sendAsset,
+        intermediateAsset,
+        reputation
+      )(sats, sendAsset);
+      const firstLeg = await previewTradeRouteLeg(firstOrder, sats, sendAsset, sendAsset, intermediateAsset);
+      const intermediateSats = getNetReceivedSats(firstLeg);
+      const secondOrder = await tdex.discoverBestOrder(
+        markets,
+        intermediateAsset,
+        receiveAsset,
+        reputation
+      )(intermediateSats, intermediateAsset);
+      const secondLeg = await previewTradeRouteLeg(
+        secondOrder,
+        intermediateSats,
+        intermediateAsset,
+        intermediateAsset,
+        receiveAsset
+      );
+      return { legs: [firstLeg, secondLeg] };
+    }
+    const secondOrder = await tdex.discoverBestOrder(
+      markets,
+      intermediateAsset,
+      receiveAsset,
+      reputation
+    )(sats, receiveAsset);
+    const secondLeg = await previewTradeRouteLeg(secondOrder, sats, receiveAsset, intermediateAsset, receiveAsset);
+    const firstOrder = await tdex.discoverBestOrder(
+      markets,
+      sendAsset,
+      intermediateAsset,
+      reputation
+    )(secondLeg.send.sats, intermediateAsset);
+    // the first leg must deliver what the second one sends, its own fee deducted
+    // the fee growing with the amount, the leg is previewed again until it delivers enough
+    let firstLeg = await previewTradeRouteLeg(
+      firstOrder,
+      secondLeg.send.sats,
+      intermediateAsset,
+      sendAsset,
+      intermediateAsset
+    );
+    for (let i = 0; getNetReceivedSats(firstLeg) < secondLeg.send.sats; i++) {
+      if (i === MAX_ROUTE_LEG_PREVIEWS) throw NoTradeRouteAvailableError;
+      firstLeg = await previewTradeRouteLeg(
+        firstOrder,
+        secondLeg.send.sats + firstLeg.fee.sats,
+        intermediateAsset,
+        sendAsset,
+        intermediateAsset
+      );
+    }
+    return { legs: [firstLeg, secondLeg] };
+  };
+  return async (sats: number, asset: string): Promise<TradeRoute> => {
+    const results = await Promise.allSettled(intermediateAssets.map((a) => computeRoute(a, sats, asset)));
+    const routes = results
+      .map((result) => {
+        if (result.status === 'fulfilled') return result.value;
+        console.debug(result.reason);
+        return undefined;
+      })
+      .filter((route): route is TradeRoute => !!route);
+    if (routes.length === 0) throw NoTradeRouteAvailableError;
+    const isBetter =
+      asset === sendAsset
+        ? (a: TradeRoute, b: TradeRoute) => getNetReceivedSats(a.legs[1]) > getNetReceivedSats(b.legs[1])
+        : (a: TradeRoute, b: TradeRoute) => a.legs[0].send.sats < b.legs[0].send.sats;
+    return routes.reduce((best, route) => (isBetter(route, best) ? route : best));
+  };
+}
+
+// Splitting is only supported by protos v2 markets
+export function canSplitOrder(
+  markets: { v1: TDEXMarketV1[]; v2: TDEXMarketV2[] },
+  sendAsset?: string,
+  receiveAsset?: string
+): boolean {
+  if (!sendAsset || !receiveAsset) return false;
+  return tdex.computeOrdersV2(markets.v2, sendAsset, receiveAsset).length > 1;
+}
+
+/**
+ * Split the trade across several providers to get the best total
+ * Used when no single provider has enough liquidity for the requested amount
+ * @param markets the set of available markets
+ * @param sendAsset the asset to sent
+ * @param receiveAsset the asset to receive
+ * @param reputation providers scoring below the minimum score are not used
+ */
+export function discoverBestSplit(
+  markets: { v1: TDEXMarketV1[]; v2: TDEXMarketV2[] },
+  sendAsset?: string,
+  receiveAsset?: string,
+  reputation?: ReputationOpts
+): (sats: number, asset: string) => Promise<TradeSplit> {
+  if (!sendAsset || !receiveAsset) throw new Error('unable to compute orders for selected market');
+  const allPossibleOrdersV2 = tdex
+    .computeOrdersV2(markets.v2, sendAsset, receiveAsset)
+    .filter((order) => isReputableOrder(order, reputation));
+  if (allPossibleOrdersV2.length === 0) {
+    console.error(`markets not found for pair ${sendAsset}-${receiveAsset}`);
+    throw NoMarketsAvailableForSelectedPairError;
+  }
+  return async (sats: number, asset: string): Promise<TradeSplit> => {
+    const splitOrders = await splitOrderDiscoveryV2(allPossibleOrdersV2, { asset, amount: sats }, async (err) =>
+      console.debug(err)
+    );
+    const isSendKnown = asset === sendAsset;
+    return {
+      parts: splitOrders.map(({ order, amount, previewAmount, feeAmount }) => ({
+        order,
+        send: { asset: sendAsset, sats: isSendKnown ? amount : previewAmount },
+        receive: { asset: receiveAsset, sats: isSendKnown ? previewAmount : amount },
+        fee: { asset: receiveAsset, sats: feeAmount },
+      })),
+    };
   };
 }
 
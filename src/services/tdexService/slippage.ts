@@ -0,0 +1,89 @@
+import zkp from '@vulpemventures/secp256k1-zkp';
+import type { TxOutput } from 'liquidjs-lib';
+import { AssetHash, confidential, ElementsValue } from 'liquidjs-lib';
+
+import { SlippageExceededError, SwapAcceptMismatchError } from '../../utils/errors';
+import { isConfidentialOutput } from '../../utils/helpers';
+
+// Amounts of a trade as returned by TradeCore.preview
+// amountToReceive includes the trade fee paid in the received asset, if any
+export interface TradeAmounts {
+  amountToBeSent: number;
+  amountToReceive: number;
+  tradeFeeAmount?: number;
+}
+
+// Output of ours in a SwapRequest, the swap one or a change
+export interface RequestedOutput {
+  script: string;
+  asset: string;
+  amount: number;
+  // to unblind the output once the provider has blinded it
+  blindingPrivateKey?: string;
+}
+
+export interface SlippageCheck {
+  // amounts previewed to the user
+  expected: TradeAmounts;
+  // maximum deviation allowed, in percent
+  maxSlippage: number;
+}
+
+/**
+ * Deviation, in percent, of the trade previewed when trading from the expected one.
+ * Only a deviation at the expense of the trader counts: sending more or receiving less.
+ * @param expected the amounts previewed to the user
+ * @param previewed the amounts previewed when trading
+ */
+export function computeSlippage(expected: TradeAmounts, previewed: TradeAmounts): number {
+  const expectedReceived = expected.amountToReceive - (expected.tradeFeeAmount ?? 0);
+  const previewedReceived = previewed.amountToReceive - (previewed.tradeFeeAmount ?? 0);
+  const receivedDeviation = expectedReceived > 0 ? (expectedReceived - previewedReceived) / expectedReceived : 0;
+  const sentDeviation =
+    expected.amountToBeSent > 0 ? (previewed.amountToBeSent - expected.amountToBeSent) / expected.amountToBeSent : 0;
+  return Math.max(receivedDeviation, sentDeviation, 0) * 100;
+}
+
+// Throws SlippageExceededError if the trade previewed when trading deviates too much from the expected one
+// the deviation itself is reported by the 'previewed' trade event, feeding the provider reputation
+export function checkSlippage({ expected, maxSlippage }: SlippageCheck, previewed: TradeAmounts): void {
+  if (computeSlippage(expected, previewed) > maxSlippage) throw SlippageExceededError;
+}
+
+// Asset and value of an output of ours, unblinded with its key if confidential
+async function unblindAmount(output: TxOutput, blindingPrivateKey?: string): Promise<{ asset: string; value: number }> {
+  if (!isConfidentialOutput(output)) {
+    return { asset: AssetHash.fromBytes(output.asset).hex, value: ElementsValue.fromBytes(output.value).number };
+  }
+  if (!blindingPrivateKey) throw SwapAcceptMismatchError;
+  const lib = new confidential.Confidential(await zkp());
+  const unblinded = lib.unblindOutputWithKey(output, Buffer.from(blindingPrivateKey, 'hex'));
+  return { asset: AssetHash.fromBytes(unblinded.asset).hex, value: parseInt(unblinded.value, 10) };
+}
+
+// Throws SwapAcceptMismatchError unless the transaction accepted by the provider pays each script of ours
+// at least the requested amount of each asset, checked before signing it
+export async function checkAcceptedOutputs(outputs: TxOutput[], requested: RequestedOutput[]): Promise<void> {
+  const requestedAmounts: Record<string, number> = {}; // script:asset, amount
+  const blindingPrivateKeys: Record<string, string | undefined> = {}; // script, key
+  for (const { script, asset, amount, blindingPrivateKey } of requested) {
+    requestedAmounts[`${script}:${asset}`] = (requestedAmounts[`${script}:${asset}`] ?? 0) + amount;
+    blindingPrivateKeys[script] = blindingPrivateKey;
+  }
+  const paidAmounts: Record<string, number> = {};
+  for (const output of outputs) {
+    const script = output.script.toString('hex');
+    if (!(script in blindingPrivateKeys)) continue;
+    let unblinded: { asset: string; value: number };
+    try {
+      unblinded = await unblindAmount(output, blindingPrivateKeys[script]);
+    } catch (err) {
+      console.error(err);
+      throw SwapAcceptMismatchError;
+    }
+    paidAmounts[`${script}:${unblinded.asset}`] = (paidAmounts[`${script}:${unblinded.asset}`] ?? 0) + unblinded.value;
+  }
+  for (const [key, amount] of Object.entries(requestedAmounts)) {
+    if ((paidAmounts[key] ?? 0) < amount) throw SwapAcceptMismatchError;
+  }
+}
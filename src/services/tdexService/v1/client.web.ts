@@ -5,6 +5,7 @@ import { SwapAccept, SwapComplete, SwapRequest } from '../../../api-spec/protobu
 import * as messages from '../../../api-spec/protobuf/gen/js/tdex/v1/trade_pb';
 import type {
   GetMarketBalanceResponse,
+  GetMarketPriceResponse,
   ListMarketsResponse,
   PreviewTradeRequest,
   PreviewTradeResponse,
@@ -109,4 +110,11 @@ export class TraderClient implements TraderClientInterface {
     const call = await this.client.getMarketBalance(request);
     return call.response.balance;
   }
+
+  async getMarketPrice({ baseAsset, quoteAsset }: types.Market): Promise<GetMarketPriceResponse> {
+    const market = types.Market.create({ baseAsset, quoteAsset });
+    const request = messages.GetMarketPriceRequest.create({ market });
+    const call = await this.client.getMarketPrice(request);
+    return call.response;
+  }
 }
@@ -27,6 +27,17 @@ export function combineDiscovery(...discoveries: Discovery[]): Discovery {
   };
 }
 
+// reputationDiscovery ranks the orders by the score of their provider, best first.
+// Orders of providers scoring below minScore are skipped, if set.
+export function reputationDiscovery(getScore: (providerEndpoint: string) => number, minScore?: number): Discovery {
+  return async (orders: TradeOrder[]) =>
+    orders
+      .map((order) => ({ order, score: getScore(order.market.provider.endpoint) }))
+      .filter(({ score }) => minScore === undefined || score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .map(({ order }) => order);
+}
+
 // bestBalanceDiscovery returns the clients with the greater balance.
 // according to trade's type: BUY = max base balance, SELL = max quote balance.
 export const bestBalanceDiscovery: Discovery = async (
@@ -1,11 +1,16 @@
 import { networks } from 'liquidjs-lib';
 
-import { SwapAccept as SwapAcceptV1 } from '../../../api-spec/protobuf/gen/js/tdex/v1/swap_pb';
+import {
+  SwapAccept as SwapAcceptV1,
+  SwapRequest as SwapRequestV1,
+} from '../../../api-spec/protobuf/gen/js/tdex/v1/swap_pb';
 import { TradeType } from '../../../api-spec/protobuf/gen/js/tdex/v1/types_pb';
 import type { CoinSelectionForTrade, ScriptDetails } from '../../../store/walletStore';
 import type { NetworkString } from '../../../utils/constants';
 import { decodePsbt, isRawTransaction, isValidAmount } from '../../../utils/transaction';
 import type { SignerInterface } from '../../signerService';
+import type { RequestedOutput, SlippageCheck } from '../slippage';
+import { checkAcceptedOutputs, checkSlippage, computeSlippage } from '../slippage';
 
 import type TraderClientInterface from './clientInterface';
 import type { CoreInterface } from './core';
@@ -20,6 +25,8 @@ export interface TDEXProvider {
 
 export interface TDEXProviderWithVersion extends TDEXProvider {
   version: 'v1' | 'v2';
+  // added by URL, kept when providers are refetched from the registry
+  isUserAdded?: boolean;
 }
 
 export interface MarketInterface {
@@ -46,6 +53,15 @@ export interface TradeOrder {
   traderClient: TraderClientInterface;
 }
 
+// Steps of the swap protocol, emitted while trading
+export type TradeEvent =
+  // slippage of the amounts previewed when trading versus the ones shown to the user, in percent
+  | { type: 'previewed'; slippage?: number }
+  | { type: 'proposed'; swapRequestId: string }
+  | { type: 'accepted'; swapAcceptId: string }
+  | { type: 'completed' }
+  | { type: 'broadcast'; txid: string };
+
 export interface TradeInterface extends CoreInterface {
   coinSelectionForTrade: CoinSelectionForTrade;
 }
@@ -57,6 +73,9 @@ export interface TradeOpts {
   chain: NetworkString;
   masterBlindingKey: string;
   signer: SignerInterface;
+  onTradeEvent?: (event: TradeEvent) => void;
+  // abort the trade if the amounts previewed when trading deviate too much from the ones shown to the user
+  slippageCheck?: SlippageCheck;
 }
 
 export interface BuySellOpts {
@@ -74,6 +93,8 @@ export class TradeCore extends Core implements TradeInterface {
   coinSelectionForTrade: CoinSelectionForTrade;
   masterBlindingKey: string;
   signer: SignerInterface;
+  onTradeEvent?: (event: TradeEvent) => void;
+  slippageCheck?: SlippageCheck;
 
   constructor(args: TradeOpts, factoryTraderClient: TraderClientInterfaceFactory) {
     super(args);
@@ -83,6 +104,8 @@ export class TradeCore extends Core implements TradeInterface {
     this.client = factoryTraderClient(args.providerUrl);
     this.masterBlindingKey = args.masterBlindingKey;
     this.signer = args.signer;
+    this.onTradeEvent = args.onTradeEvent;
+    this.slippageCheck = args.slippageCheck;
   }
 
   validate(args: TradeOpts): void {
@@ -255,6 +278,13 @@ export class TradeCore extends Core implements TradeInterface {
       amount: amountInSatoshis,
       asset: assetHash,
     });
+    // abort before proposing the trade, not to have the provider reserve its liquidity for nothing
+    const previewed = { amountToBeSent, amountToReceive };
+    this.onTradeEvent?.({
+      type: 'previewed',
+      slippage: this.slippageCheck && computeSlippage(this.slippageCheck.expected, previewed),
+    });
+    if (this.slippageCheck) checkSlippage(this.slippageCheck, previewed);
     const swapTx = new SwapTransaction({
       network: networks[this.chain],
       masterBlindingKey: this.masterBlindingKey,
@@ -279,6 +309,7 @@ export class TradeCore extends Core implements TradeInterface {
       inputBlindingKeys: swapTx.inputBlindingKeys,
       outputBlindingKeys: swapTx.outputBlindingKeys,
     });
+    this.onTradeEvent?.({ type: 'proposed', swapRequestId: SwapRequestV1.fromBinary(swapRequestSerialized).id });
 
     // 0 === Buy === receiving base_asset; 1 === sell === receiving base_asset
     let swapAcceptSerialized: Uint8Array;
@@ -287,6 +318,27 @@ export class TradeCore extends Core implements TradeInterface {
     } catch (e) {
       throw e;
     }
+    const swapAcceptMessage = SwapAcceptV1.fromBinary(swapAcceptSerialized);
+    if (swapAcceptMessage.requestId !== SwapRequestV1.fromBinary(swapRequestSerialized).id) {
+      throw new Error('SwapRequest.id and SwapAccept.request_id are not the same');
+    }
+    // the transaction to sign must pay our swap and change outputs as requested
+    const requested: RequestedOutput[] = [
+      {
+        script: addressForSwapOutput.script,
+        asset: assetToReceive,
+        amount: amountToReceive,
+        blindingPrivateKey: addressForSwapOutput.blindingPrivateKey,
+      },
+      ...(this.coinSelectionForTrade.changeOutputs ?? []).map(({ asset, amount }) => ({
+        script: addressForChangeOutput.script,
+        asset,
+        amount,
+        blindingPrivateKey: addressForChangeOutput.blindingPrivateKey,
+      })),
+    ];
+    await checkAcceptedOutputs(decodePsbt(swapAcceptMessage.transaction).transaction.outs, requested);
+    this.onTradeEvent?.({ type: 'accepted', swapAcceptId: swapAcceptMessage.id });
 
     return swapAcceptSerialized;
   }
@@ -311,6 +363,7 @@ export class TradeCore extends Core implements TradeInterface {
       message: swapAcceptSerialized,
       psetBase64OrHex: signedHex,
     });
+    this.onTradeEvent?.({ type: 'completed' });
     // Trader call the completeTrade endpoint to finalize the swap
     let txid: string;
     try {
@@ -318,6 +371,7 @@ export class TradeCore extends Core implements TradeInterface {
     } catch (e) {
       throw e;
     }
+    this.onTradeEvent?.({ type: 'broadcast', txid });
     return txid;
   }
 }
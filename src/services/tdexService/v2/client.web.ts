@@ -4,6 +4,7 @@ import { Tdexv2ContentType } from '../../../api-spec/openapi/swagger/v2/transpor
 import { SwapAccept, SwapComplete, SwapRequest } from '../../../api-spec/protobuf/gen/js/tdex/v2/swap_pb';
 import type {
   GetMarketBalanceResponse,
+  GetMarketPriceResponse,
   ListMarketsResponse,
   PreviewTradeRequest,
   PreviewTradeResponse,
@@ -121,4 +122,11 @@ export class TraderClient implements TraderClientInterface {
     const call = await this.client.getMarketBalance(request);
     return call.response.balance;
   }
+
+  async getMarketPrice({ baseAsset, quoteAsset }: types.Market): Promise<GetMarketPriceResponse> {
+    const market = types.Market.create({ baseAsset, quoteAsset });
+    const request = messages.GetMarketPriceRequest.create({ market });
+    const call = await this.client.getMarketPrice(request);
+    return call.response;
+  }
 }
@@ -1,5 +1,6 @@
 import type {
   GetMarketBalanceResponse,
+  GetMarketPriceResponse,
   ListMarketsResponse,
   PreviewTradeRequest,
   PreviewTradeResponse,
@@ -25,4 +26,6 @@ export default interface TraderClientInterface {
   previewTrade(arg: PreviewTradeRequest): Promise<PreviewTradeResponse['previews']>;
 
   getMarketBalance({ baseAsset, quoteAsset }: Market): Promise<GetMarketBalanceResponse['balance']>;
+
+  getMarketPrice({ baseAsset, quoteAsset }: Market): Promise<GetMarketPriceResponse>;
 }
@@ -27,6 +27,17 @@ export function combineDiscovery(...discoveries: Discovery[]): Discovery {
   };
 }
 
+// reputationDiscovery ranks the orders by the score of their provider, best first.
+// Orders of providers scoring below minScore are skipped, if set.
+export function reputationDiscovery(getScore: (providerEndpoint: string) => number, minScore?: number): Discovery {
+  return async (orders: TradeOrder[]) =>
+    orders
+      .map((order) => ({ order, score: getScore(order.market.provider.endpoint) }))
+      .filter(({ score }) => minScore === undefined || score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .map(({ order }) => order);
+}
+
 // bestBalanceDiscovery returns the clients with the greater balance.
 // according to trade's type: BUY = max base balance, SELL = max quote balance.
 export const bestBalanceDiscovery: Discovery = async (
@@ -128,3 +139,114 @@ export const bestPriceDiscovery: Discovery = async (
   const bestAmount = sorted[0].amount;
   return sorted.filter(({ amount }) => amount === bestAmount).map(({ order }) => order);
 };
+
+// Part of an amount allocated to an order by a split discovery
+export interface SplitOrder {
+  order: TradeOrder;
+  // amount of `DiscoveryOpts.asset` allocated to the order
+  amount: number;
+  // previewed amount of the other asset of the pair
+  previewAmount: number;
+  // previewed fee, substracted from the receiving amount
+  feeAmount: number;
+}
+
+export type SplitDiscovery = (
+  orders: TradeOrder[],
+  discoveryOpts: DiscoveryOpts,
+  errorHandler?: (err: any) => Promise<void>
+) => Promise<SplitOrder[]>;
+
+const SPLIT_STEPS = 4;
+
+// splitOrderDiscovery splits the amount across the orders to get the best total.
+// The amount is allocated in SPLIT_STEPS chunks, each chunk going to the order with the best marginal price.
+// Markets balances are used to skip orders which can't fill their allocation.
+export const splitOrderDiscovery: SplitDiscovery = async (
+  orders: TradeOrder[],
+  opts: DiscoveryOpts,
+  errorHandler?: (err: any) => Promise<void>
+) => {
+  // balance of the asset sent by the provider: BUY = base balance, SELL = quote balance
+  const balancesResults = await Promise.allSettled(
+    orders.map(({ traderClient, market, type }) =>
+      traderClient.getMarketBalance(market).then((balance) => {
+        if (!balance)
+          throw new Error(
+            `no balances for market ${market.baseAsset}/${market.quoteAsset} using provider: ${traderClient.providerUrl}`
+          );
+        return Number(type === TradeType.BUY ? balance.baseAmount : balance.quoteAmount);
+      })
+    )
+  );
+  const candidates: { order: TradeOrder; balance: number }[] = [];
+  for (const [index, result] of balancesResults.entries()) {
+    if (result.status === 'fulfilled') {
+      if (result.value > 0) candidates.push({ order: orders[index], balance: result.value });
+    } else if (errorHandler) {
+      await errorHandler(result.reason || 'an unknwon error occurs when trying to fetch balance');
+    }
+  }
+  if (candidates.length === 0 || opts.amount <= 0) {
+    throw new Error('Not enough liquidity across providers for the requested amount');
+  }
+
+  // if the amount is the one to send, maximize the received amount minus fees
+  // otherwise minimize the amount to send
+  const { order: firstOrder } = candidates[0];
+  const sentAsset = firstOrder.type === TradeType.BUY ? firstOrder.market.quoteAsset : firstOrder.market.baseAsset;
+  const isSentAmount = opts.asset === sentAsset;
+  const valueOf = (split?: SplitOrder) => {
+    if (!split) return 0;
+    return isSentAmount ? split.previewAmount - split.feeAmount : split.previewAmount;
+  };
+
+  const allocations = new Map<TradeOrder, SplitOrder>();
+  const steps = Math.min(SPLIT_STEPS, opts.amount);
+  const stepAmount = Math.floor(opts.amount / steps);
+  for (let step = 0; step < steps; step++) {
+    const chunk = step === steps - 1 ? opts.amount - stepAmount * (steps - 1) : stepAmount;
+    const splitsResults = await Promise.allSettled(
+      candidates.map(async ({ order, balance }): Promise<SplitOrder> => {
+        const amount = (allocations.get(order)?.amount ?? 0) + chunk;
+        if (!isSentAmount && amount > balance)
+          throw new Error(`not enough balance in ${order.traderClient.providerUrl}`);
+        const [preview] = await order.traderClient.previewTrade({
+          market: order.market,
+          type: order.type,
+          amount: amount.toString(),
+          asset: opts.asset,
+          feeAsset: order.type === TradeType.BUY ? order.market.baseAsset : order.market.quoteAsset,
+        });
+        const split = { order, amount, previewAmount: Number(preview.amount), feeAmount: Number(preview.feeAmount) };
+        if (isSentAmount && split.previewAmount > balance) {
+          throw new Error(`not enough balance in ${order.traderClient.providerUrl}`);
+        }
+        return split;
+      })
+    );
+    if (errorHandler) {
+      const rejectedResults = splitsResults.filter((result) => result.status === 'rejected');
+      for (const result of rejectedResults) {
+        await errorHandler(
+          (result as PromiseRejectedResult).reason || 'an unknown error occurs when trying to fetch price'
+        );
+      }
+    }
+    const splits = splitsResults
+      .filter((result): result is PromiseFulfilledResult<SplitOrder> => result.status === 'fulfilled')
+      .map(({ value }) => value);
+    if (splits.length === 0) {
+      throw new Error('Not enough liquidity across providers for the requested amount');
+    }
+    const marginalValue = (split: SplitOrder) => valueOf(split) - valueOf(allocations.get(split.order));
+    const best = splits.reduce((best, split) => {
+      const isBetter = isSentAmount
+        ? marginalValue(split) > marginalValue(best)
+        : marginalValue(split) < marginalValue(best);
+      return isBetter ? split : best;
+    });
+    allocations.set(best.order, best);
+  }
+  return Array.from(allocations.values());
+};
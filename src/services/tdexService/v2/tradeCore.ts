@@ -1,11 +1,13 @@
 import { networks } from 'liquidjs-lib';
 
-import { SwapAccept } from '../../../api-spec/protobuf/gen/js/tdex/v2/swap_pb';
+import { SwapAccept, SwapRequest } from '../../../api-spec/protobuf/gen/js/tdex/v2/swap_pb';
 import { TradeType } from '../../../api-spec/protobuf/gen/js/tdex/v2/types_pb';
 import type { CoinSelectionForTrade, ScriptDetails } from '../../../store/walletStore';
 import type { NetworkString } from '../../../utils/constants';
 import { decodePset, isRawTransaction, isValidAmount } from '../../../utils/transaction';
 import type { SignerInterface } from '../../signerService';
+import type { RequestedOutput, SlippageCheck } from '../slippage';
+import { checkAcceptedOutputs, checkSlippage, computeSlippage } from '../slippage';
 
 import type TraderClientInterface from './clientInterface';
 import type { CoreInterface } from './core';
@@ -20,6 +22,8 @@ export interface TDEXProvider {
 
 export interface TDEXProviderWithVersion extends TDEXProvider {
   version: 'v1' | 'v2';
+  // added by URL, kept when providers are refetched from the registry
+  isUserAdded?: boolean;
 }
 
 export interface MarketInterface {
@@ -43,6 +47,15 @@ export interface TradeOrder {
   traderClient: TraderClientInterface;
 }
 
+// Steps of the swap protocol, emitted while trading
+export type TradeEvent =
+  // slippage of the amounts previewed when trading versus the ones shown to the user, in percent
+  | { type: 'previewed'; slippage?: number }
+  | { type: 'proposed'; swapRequestId: string }
+  | { type: 'accepted'; swapAcceptId: string }
+  | { type: 'completed' }
+  | { type: 'broadcast'; txid: string };
+
 export interface TradeInterface extends CoreInterface {
   coinSelectionForTrade: CoinSelectionForTrade;
 }
@@ -54,6 +67,9 @@ export interface TradeOpts {
   chain: NetworkString;
   masterBlindingKey: string;
   signer: SignerInterface;
+  onTradeEvent?: (event: TradeEvent) => void;
+  // abort the trade if the amounts previewed when trading deviate too much from the ones shown to the user
+  slippageCheck?: SlippageCheck;
 }
 
 export interface BuySellOpts {
@@ -71,6 +87,8 @@ export class TradeCore extends Core implements TradeInterface {
   coinSelectionForTrade: CoinSelectionForTrade;
   masterBlindingKey: string;
   signer: SignerInterface;
+  onTradeEvent?: (event: TradeEvent) => void;
+  slippageCheck?: SlippageCheck;
 
   constructor(args: TradeOpts, factoryTraderClient: TraderClientInterfaceFactory) {
     super(args);
@@ -80,6 +98,8 @@ export class TradeCore extends Core implements TradeInterface {
     this.client = factoryTraderClient(args.providerUrl);
     this.masterBlindingKey = args.masterBlindingKey;
     this.signer = args.signer;
+    this.onTradeEvent = args.onTradeEvent;
+    this.slippageCheck = args.slippageCheck;
   }
 
   validate(args: TradeOpts): void {
@@ -262,6 +282,13 @@ export class TradeCore extends Core implements TradeInterface {
       amount: amountInSatoshis,
       asset: assetHash,
     });
+    // abort before proposing the trade, not to have the provider reserve its liquidity for nothing
+    const previewed = { amountToBeSent, amountToReceive, tradeFeeAmount };
+    this.onTradeEvent?.({
+      type: 'previewed',
+      slippage: this.slippageCheck && computeSlippage(this.slippageCheck.expected, previewed),
+    });
+    if (this.slippageCheck) checkSlippage(this.slippageCheck, previewed);
     const swapTx = new SwapTransaction({
       network: networks[this.chain],
       masterBlindingKey: this.masterBlindingKey,
@@ -285,12 +312,34 @@ export class TradeCore extends Core implements TradeInterface {
       outputBlindingKeys: swapTx.outputBlindingKeys,
       unblindedInputs: this.coinSelectionForTrade.unblindedInputs,
     });
+    this.onTradeEvent?.({ type: 'proposed', swapRequestId: SwapRequest.fromBinary(swapRequestSerialized).id });
     const swapAccept = await this.client.proposeTrade(
       market,
       tradeType,
       swapRequestSerialized,
       tradeFeeAmount.toString()
     );
+    const swapAcceptMessage = SwapAccept.fromBinary(swapAccept);
+    if (swapAcceptMessage.requestId !== SwapRequest.fromBinary(swapRequestSerialized).id) {
+      throw new Error('SwapRequest.id and SwapAccept.request_id are not the same');
+    }
+    // the transaction to sign must pay our swap and change outputs as requested
+    const requested: RequestedOutput[] = [
+      {
+        script: addressForSwapOutput.script,
+        asset: assetToReceive,
+        amount: amountToReceiveMinusFee,
+        blindingPrivateKey: addressForSwapOutput.blindingPrivateKey,
+      },
+      ...(this.coinSelectionForTrade.changeOutputs ?? []).map(({ asset, amount }) => ({
+        script: addressForChangeOutput.script,
+        asset,
+        amount,
+        blindingPrivateKey: addressForChangeOutput.blindingPrivateKey,
+      })),
+    ];
+    await checkAcceptedOutputs(decodePset(swapAcceptMessage.transaction).unsignedTx().outs, requested);
+    this.onTradeEvent?.({ type: 'accepted', swapAcceptId: swapAcceptMessage.id });
     return swapAccept;
   }
 
@@ -312,8 +361,11 @@ export class TradeCore extends Core implements TradeInterface {
       message: swapAcceptSerialized,
       psetBase64OrHex: signedHex,
     });
+    this.onTradeEvent?.({ type: 'completed' });
     // Trader call the completeTrade endpoint to finalize the swap
     // return txid
-    return await this.client.completeTrade(swapCompleteSerialized);
+    const txid = await this.client.completeTrade(swapCompleteSerialized);
+    this.onTradeEvent?.({ type: 'broadcast', txid });
+    return txid;
   }
 }
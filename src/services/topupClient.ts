@@ -0,0 +1,34 @@
+import { useSettingsStore } from '../store/settingsStore';
+import { TAXI_API_URL } from '../utils/constants';
+
+import { TaxiTopupClient } from './taxiTopupClient';
+
+export interface TopupRequest {
+  assetHash: string;
+  // virtual size of the final transaction, topup included
+  estimatedTxSize: number;
+  millisatsPerByte: number;
+}
+
+export interface Topup {
+  topupId: string;
+  // Base64 pset holding the L-BTC inputs of the topup service, signed with SIGHASH_SINGLE | SIGHASH_ANYONECANPAY,
+  // the output paying the service in assetHash, its L-BTC change and the fee output
+  // Inputs and outputs of the partial must keep their indexes in the final transaction
+  partial: string;
+  assetHash: string;
+  // amount to pay in assetHash, spread included, in satoshis
+  assetAmount: number;
+  assetSpread: number;
+  // unix timestamp in milliseconds after which the topup inputs may be spent elsewhere
+  expiry: number;
+}
+
+// Pays the L-BTC network fee of a transaction in exchange for an output in another asset
+export interface TopupClient {
+  listAssets(): Promise<string[]>;
+
+  topupWithAsset(request: TopupRequest): Promise<Topup>;
+}
+
+export const topupClient: TopupClient = new TaxiTopupClient(() => TAXI_API_URL[useSettingsStore.getState().network]);
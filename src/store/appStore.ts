@@ -1,15 +1,25 @@
 import { create } from 'zustand';
 import { createJSONStorage, devtools, persist } from 'zustand/middleware';
 
+import { pinLockoutDelay } from '../utils/password';
+
 import { storage } from './capacitorPersistentStorage';
 
 interface AppState {
+  // wrong PINs or passwords entered in a row, reset by the right one
+  failedPinAttempts: number;
   isAppInitialized: boolean;
   isBackupDone: boolean;
   isFetchingUtxos: boolean;
   isFetchingMarkets: boolean;
   isFetchingTransactions: boolean;
+  // the wallet is locked by the auto-lock, to be unlocked with the PIN
+  isLocked: boolean;
   isSignedUp: boolean;
+  // operations in flight behind a loader, the auto-lock waiting for them to settle
+  pendingOperations: number;
+  // timestamp before which no PIN can be entered
+  pinLockedUntil?: number;
   restorationProgress?: {
     nProcessingScript: number;
     nTotalScripts: number;
@@ -17,36 +27,66 @@ interface AppState {
 }
 
 interface AppActions {
+  // returns the number of failed attempts in a row
+  addFailedPinAttempt: () => number;
+  addPendingOperation: () => void;
+  removePendingOperation: () => void;
+  resetFailedPinAttempts: () => void;
   setIsAppInitialized: (isAppInitialized: boolean) => void;
   setIsBackupDone: (isBackupDone: boolean) => void;
   setIsFetchingUtxos: (isFetchingUtxos: boolean) => void;
   setIsFetchingMarkets: (isFetchingMarkets: boolean) => void;
   setIsFetchingTransactions: (isFetchingTransactions: boolean) => void;
+  setIsLocked: (isLocked: boolean) => void;
   setIsSignedUp: (isSignedUp: boolean) => void;
   setRestorationProgress: (nProcessingScript: number, nTotalScripts: number) => void;
   resetAppStore: () => void;
 }
 
 const initialState: AppState = {
+  failedPinAttempts: 0,
   isAppInitialized: false,
   isBackupDone: false,
   isFetchingUtxos: false,
   isFetchingMarkets: false,
   isFetchingTransactions: false,
+  isLocked: false,
   isSignedUp: false,
+  pendingOperations: 0,
 };
 
 export const useAppStore = create<AppState & AppActions>()(
   devtools(
     persist(
-      (set) => ({
+      (set, get) => ({
         ...initialState,
+        addFailedPinAttempt: () => {
+          const failedPinAttempts = get().failedPinAttempts + 1;
+          const delay = pinLockoutDelay(failedPinAttempts);
+          set(
+            { failedPinAttempts, pinLockedUntil: delay ? Date.now() + delay : undefined },
+            false,
+            'addFailedPinAttempt'
+          );
+          return failedPinAttempts;
+        },
+        addPendingOperation: () =>
+          set((state) => ({ pendingOperations: state.pendingOperations + 1 }), false, 'addPendingOperation'),
+        removePendingOperation: () =>
+          set(
+            (state) => ({ pendingOperations: Math.max(state.pendingOperations - 1, 0) }),
+            false,
+            'removePendingOperation'
+          ),
+        resetFailedPinAttempts: () =>
+          set({ failedPinAttempts: 0, pinLockedUntil: undefined }, false, 'resetFailedPinAttempts'),
         setIsAppInitialized: (isAppInitialized) => set({ isAppInitialized }, false, 'setIsAppInitialized'),
         setIsBackupDone: (isBackupDone) => set({ isBackupDone }, false, 'setIsBackupDone'),
         setIsFetchingUtxos: (isFetchingUtxos) => set({ isFetchingUtxos }, false, 'setIsFetchingUtxos'),
         setIsFetchingMarkets: (isFetchingMarkets) => set({ isFetchingMarkets }, false, 'setIsFetchingMarkets'),
         setIsFetchingTransactions: (isFetchingTransactions) =>
           set({ isFetchingTransactions }, false, 'setIsFetchingTransactions'),
+        setIsLocked: (isLocked) => set({ isLocked }, false, 'setIsLocked'),
         setIsSignedUp: (isSignedUp) => set({ isSignedUp }, false, 'setIsSignedUp'),
         setRestorationProgress: (nProcessingScript, nTotalScripts) =>
           set(
@@ -64,6 +104,14 @@ export const useAppStore = create<AppState & AppActions>()(
       {
         name: 'app',
         storage: createJSONStorage(() => storage),
+        // operations in flight do not survive an app restart
+        partialize: ({ pendingOperations: _, ...state }) => state,
+        // a lock set while restoring the wallet store is kept, whichever store is restored first
+        merge: (persisted, current) => ({
+          ...current,
+          ...(persisted as Partial<AppState>),
+          isLocked: current.isLocked || !!(persisted as Partial<AppState> | undefined)?.isLocked,
+        }),
       }
     ),
     { name: 'store', store: 'app' }
@@ -46,6 +46,8 @@ export type Pegins = Record<ClaimScript, Pegin>;
 interface BitcoinState {
   currentBtcBlockHeight: number;
   pegins: Pegins;
+  // pegins of the wallets other than the active one, whose pegins are at the top level
+  walletsPegins: Record<string, Pegins>; // walletId, pegins
   // Global state necessary for modal to be triggered by toast
   modalClaimPegin: { isOpen?: boolean; claimScriptToClaim?: string };
 }
@@ -54,9 +56,11 @@ interface BitcoinActions {
   checkIfClaimablePeginUtxo: () => Promise<void>;
   fetchCurrentBtcBlockHeight: () => Promise<void>;
   fetchAndUpdateDepositPeginUtxos: () => Promise<void>;
+  removeWalletPegins: (walletId: string) => void;
   restorePeginsFromDepositAddress: (depositAddress: string) => Promise<void>;
   setDepositPeginUtxo: (utxo: DepositPeginUtxo, depositAddress: Pegin['depositAddress']) => void;
   setModalClaimPegin: (modalClaimPegins: { isOpen?: boolean; claimScriptToClaim?: string }) => void; // TODO: handle multiple pegins?
+  switchWalletPegins: (fromWalletId: string, toWalletId: string) => void;
   upsertPegins: (pegins: Pegins) => void;
   resetBitcoinStore: () => void;
 }
@@ -64,6 +68,7 @@ interface BitcoinActions {
 const initialState: BitcoinState = {
   currentBtcBlockHeight: 0,
   pegins: {},
+  walletsPegins: {},
   modalClaimPegin: { isOpen: false, claimScriptToClaim: undefined },
 };
 
@@ -93,7 +98,8 @@ export const useBitcoinStore = create<BitcoinState & BitcoinActions>()(
               }
             }
           }
-          if (hasClaimablePeginUtxo) {
+          // a watch-only wallet cannot sign the claim
+          if (hasClaimablePeginUtxo && !useWalletStore.getState().isWatchOnly) {
             if (!toasts.some((t) => t.type === 'claim-pegin')) {
               addClaimPeginToast();
               // UGLY HACK ///
@@ -140,6 +146,16 @@ export const useBitcoinStore = create<BitcoinState & BitcoinActions>()(
           }
           if (utxoBtcUpdatedCount > 0) console.debug(`${utxoBtcUpdatedCount} btc utxos updated`);
         },
+        removeWalletPegins: (walletId) => {
+          set(
+            (state) => {
+              const { [walletId]: _, ...walletsPegins } = state.walletsPegins;
+              return { walletsPegins };
+            },
+            false,
+            'removeWalletPegins'
+          );
+        },
         restorePeginsFromDepositAddress: async (depositAddress) => {
           const addErrorToast = useToastStore.getState().addErrorToast;
           try {
@@ -190,6 +206,21 @@ export const useBitcoinStore = create<BitcoinState & BitcoinActions>()(
           );
         },
         setModalClaimPegin: (modalClaimPegin) => set({ modalClaimPegin }, false, 'setModalClaimPegin'),
+        // The claim modal is closed, its pegin being claimed to the wallet it was made in
+        switchWalletPegins: (fromWalletId, toWalletId) => {
+          set(
+            (state) => {
+              const { [toWalletId]: pegins = {}, ...others } = state.walletsPegins;
+              return {
+                pegins,
+                walletsPegins: { ...others, [fromWalletId]: state.pegins },
+                modalClaimPegin: { isOpen: false, claimScriptToClaim: undefined },
+              };
+            },
+            false,
+            'switchWalletPegins'
+          );
+        },
         upsertPegins: (pegins) => {
           set(
             (state) => {
@@ -0,0 +1,210 @@
+import { create } from 'zustand';
+import { createJSONStorage, devtools, persist } from 'zustand/middleware';
+
+import type { TradeRouteLeg } from '../services/tdexService';
+import { computeOrdersV2, getNetReceivedSats, previewTradeRouteLeg } from '../services/tdexService';
+import { makeid } from '../utils/helpers';
+
+import { storage } from './capacitorPersistentStorage';
+import { useSettingsStore } from './settingsStore';
+import { useTdexStore } from './tdexStore';
+import { useToastStore } from './toastStore';
+
+export enum LimitOrderStatus {
+  // waiting for the price target
+  Open = 'open',
+  // price target reached, executed once the user enters the PIN
+  Triggered = 'triggered',
+  Cancelled = 'cancelled',
+  Expired = 'expired',
+}
+
+export interface LimitOrder {
+  id: string;
+  createdAt: number;
+  expiresAt: number;
+  send: { asset: string; sats: number };
+  receiveAsset: string;
+  // price target, trading fees deducted
+  minReceiveSats: number;
+  status: LimitOrderStatus;
+  lastCheckedAt?: number;
+  // best amount previewed at the last check, trading fees deducted
+  lastPreviewSats?: number;
+  triggeredAt?: number;
+  // trade made once triggered
+  txid?: string;
+  error?: string;
+}
+
+interface LimitOrderState {
+  limitOrders: Record<string, LimitOrder>; // id, order
+  // orders of the wallets other than the active one, whose orders are at the top level
+  walletsLimitOrders: Record<string, Record<string, LimitOrder>>; // walletId, orders
+  // Global state necessary for PIN modal to be opened by the polling
+  modalLimitOrder: { isOpen: boolean; orderId?: string };
+}
+
+interface LimitOrderActions {
+  addLimitOrder: (
+    order: Pick<LimitOrder, 'send' | 'receiveAsset' | 'minReceiveSats' | 'expiresAt'>
+  ) => LimitOrder['id'];
+  cancelLimitOrder: (id: string) => void;
+  checkLimitOrders: () => Promise<void>;
+  removeWalletLimitOrders: (walletId: string) => void;
+  reopenLimitOrder: (id: string) => void;
+  setLimitOrderExecuted: (id: string, txid: string) => void;
+  setLimitOrderError: (id: string, error: string) => void;
+  setModalLimitOrder: (modalLimitOrder: { isOpen: boolean; orderId?: string }) => void;
+  switchWalletLimitOrders: (fromWalletId: string, toWalletId: string) => void;
+  resetLimitOrderStore: () => void;
+}
+
+const initialState: LimitOrderState = {
+  limitOrders: {},
+  walletsLimitOrders: {},
+  modalLimitOrder: { isOpen: false, orderId: undefined },
+};
+
+// Avoid overlapping checks if previews are slower than the polling interval
+let isCheckingLimitOrders = false;
+
+// Preview the order on every provider supporting protos v2, returns the best trade
+export async function previewLimitOrder(order: LimitOrder): Promise<TradeRouteLeg | undefined> {
+  const markets = useTdexStore.getState().markets;
+  const torProxy = useSettingsStore.getState().torProxy;
+  const tradeOrders = computeOrdersV2(markets.v2, order.send.asset, order.receiveAsset, torProxy);
+  const previews = await Promise.allSettled(
+    tradeOrders.map((tradeOrder) =>
+      previewTradeRouteLeg(tradeOrder, order.send.sats, order.send.asset, order.send.asset, order.receiveAsset)
+    )
+  );
+  let best: TradeRouteLeg | undefined;
+  for (const preview of previews) {
+    if (preview.status === 'rejected') {
+      console.debug(preview.reason);
+      continue;
+    }
+    if (!best || getNetReceivedSats(preview.value) > getNetReceivedSats(best)) best = preview.value;
+  }
+  return best;
+}
+
+export const useLimitOrderStore = create<LimitOrderState & LimitOrderActions>()(
+  devtools(
+    persist(
+      (set, get) => {
+        const updateLimitOrder = (id: string, update: Partial<LimitOrder>, actionName: string) => {
+          set(
+            (state) => {
+              const order = state.limitOrders[id];
+              if (!order) return state;
+              return { limitOrders: { ...state.limitOrders, [id]: { ...order, ...update } } };
+            },
+            false,
+            actionName
+          );
+        };
+
+        return {
+          ...initialState,
+          addLimitOrder: (order) => {
+            const id = makeid(16);
+            set(
+              (state) => ({
+                limitOrders: {
+                  ...state.limitOrders,
+                  [id]: { ...order, id, createdAt: Date.now(), status: LimitOrderStatus.Open },
+                },
+              }),
+              false,
+              'addLimitOrder'
+            );
+            return id;
+          },
+          cancelLimitOrder: (id) => updateLimitOrder(id, { status: LimitOrderStatus.Cancelled }, 'cancelLimitOrder'),
+          checkLimitOrders: async () => {
+            if (isCheckingLimitOrders) return;
+            isCheckingLimitOrders = true;
+            try {
+              const now = Date.now();
+              // Triggered orders not executed yet expire as well
+              const pending = Object.values(get().limitOrders).filter(
+                (order) =>
+                  order.status === LimitOrderStatus.Open || (order.status === LimitOrderStatus.Triggered && !order.txid)
+              );
+              for (const order of pending.filter((o) => o.expiresAt <= now)) {
+                updateLimitOrder(order.id, { status: LimitOrderStatus.Expired }, 'expireLimitOrder');
+              }
+              const open = pending.filter((o) => o.status === LimitOrderStatus.Open && o.expiresAt > now);
+              for (const order of open) {
+                const best = await previewLimitOrder(order);
+                const lastPreviewSats = best ? getNetReceivedSats(best) : undefined;
+                const isTargetMet = lastPreviewSats !== undefined && lastPreviewSats >= order.minReceiveSats;
+                updateLimitOrder(
+                  order.id,
+                  isTargetMet
+                    ? {
+                        lastCheckedAt: Date.now(),
+                        lastPreviewSats,
+                        status: LimitOrderStatus.Triggered,
+                        triggeredAt: Date.now(),
+                      }
+                    : { lastCheckedAt: Date.now(), lastPreviewSats },
+                  isTargetMet ? 'triggerLimitOrder' : 'checkLimitOrder'
+                );
+                // Prompt for the PIN, one order at a time, unless the wallet of the order was switched during the check
+                if (isTargetMet && !get().modalLimitOrder.isOpen && get().limitOrders[order.id]) {
+                  useToastStore.getState().addSuccessToast('Limit order price target reached!');
+                  get().setModalLimitOrder({ isOpen: true, orderId: order.id });
+                }
+              }
+            } finally {
+              isCheckingLimitOrders = false;
+            }
+          },
+          removeWalletLimitOrders: (walletId) => {
+            set(
+              (state) => {
+                const { [walletId]: _, ...walletsLimitOrders } = state.walletsLimitOrders;
+                return { walletsLimitOrders };
+              },
+              false,
+              'removeWalletLimitOrders'
+            );
+          },
+          // Price target not met anymore when executing, wait for the next trigger
+          reopenLimitOrder: (id) =>
+            updateLimitOrder(id, { status: LimitOrderStatus.Open, triggeredAt: undefined }, 'reopenLimitOrder'),
+          setLimitOrderExecuted: (id, txid) =>
+            updateLimitOrder(id, { txid, error: undefined }, 'setLimitOrderExecuted'),
+          setLimitOrderError: (id, error) => updateLimitOrder(id, { error }, 'setLimitOrderError'),
+          setModalLimitOrder: (modalLimitOrder) => set({ modalLimitOrder }, false, 'setModalLimitOrder'),
+          // The PIN modal is closed, its order being traded with the coins of the wallet it was made in
+          switchWalletLimitOrders: (fromWalletId, toWalletId) => {
+            set(
+              (state) => {
+                const { [toWalletId]: limitOrders = {}, ...others } = state.walletsLimitOrders;
+                return {
+                  limitOrders,
+                  walletsLimitOrders: { ...others, [fromWalletId]: state.limitOrders },
+                  modalLimitOrder: { isOpen: false, orderId: undefined },
+                };
+              },
+              false,
+              'switchWalletLimitOrders'
+            );
+          },
+          resetLimitOrderStore: () => set(initialState, false, 'resetLimitOrderStore'),
+        };
+      },
+      {
+        name: 'limitOrder',
+        storage: createJSONStorage(() => storage),
+        // the PIN modal is not restored on app restart, triggered orders can be executed from the limit orders page
+        partialize: (state) => ({ limitOrders: state.limitOrders, walletsLimitOrders: state.walletsLimitOrders }),
+      }
+    ),
+    { name: 'store', store: 'limitOrder' }
+  )
+);
@@ -0,0 +1,114 @@
+import { create } from 'zustand';
+import { createJSONStorage, devtools, persist } from 'zustand/middleware';
+
+import { getMarketPriceV1, getMarketPriceV2 } from '../services/tdexService';
+import type { TDEXMarket as TDEXMarketV1 } from '../services/tdexService/v1/tradeCore';
+import type { TDEXMarket as TDEXMarketV2 } from '../services/tdexService/v2/tradeCore';
+import { DEFAULT_PRICE_HISTORY_RETENTION, PRICE_SNAPSHOT_MIN_INTERVAL } from '../utils/constants';
+
+import { storage } from './capacitorPersistentStorage';
+import { useSettingsStore } from './settingsStore';
+
+export interface MarketSnapshot {
+  timestamp: number;
+  // quote asset per base asset, undefined if the provider did not answer GetMarketPrice
+  spotPrice?: number;
+  baseAmount: number;
+  quoteAmount: number;
+}
+
+export interface MarketHistory {
+  providerName: string;
+  baseAsset: string;
+  quoteAsset: string;
+  snapshots: MarketSnapshot[]; // sorted by timestamp
+}
+
+interface PriceHistoryState {
+  histories: Record<string, MarketHistory>; // market key, history
+  // in milliseconds
+  retention: number;
+}
+
+interface PriceHistoryActions {
+  recordMarketSnapshots: (markets: { v1: TDEXMarketV1[]; v2: TDEXMarketV2[] }) => Promise<void>;
+  setRetention: (retention: number) => void;
+  resetPriceHistoryStore: () => void;
+}
+
+const initialState: PriceHistoryState = {
+  histories: {},
+  retention: DEFAULT_PRICE_HISTORY_RETENTION,
+};
+
+export const getMarketKey = (endpoint: string, baseAsset: string, quoteAsset: string): string =>
+  `${endpoint}|${baseAsset}|${quoteAsset}`;
+
+// Drop snapshots older than the retention, and histories left empty
+const pruneHistories = (histories: Record<string, MarketHistory>, retention: number) => {
+  const minTimestamp = Date.now() - retention;
+  const pruned: Record<string, MarketHistory> = {};
+  for (const [key, history] of Object.entries(histories)) {
+    const snapshots = history.snapshots.filter((snapshot) => snapshot.timestamp >= minTimestamp);
+    if (snapshots.length > 0) pruned[key] = { ...history, snapshots };
+  }
+  return pruned;
+};
+
+export const usePriceHistoryStore = create<PriceHistoryState & PriceHistoryActions>()(
+  devtools(
+    persist(
+      (set, get) => ({
+        ...initialState,
+        recordMarketSnapshots: async (markets) => {
+          const torProxy = useSettingsStore.getState().torProxy;
+          const now = Date.now();
+          const isDue = ({ provider, baseAsset, quoteAsset }: TDEXMarketV1 | TDEXMarketV2) => {
+            const snapshots = get().histories[getMarketKey(provider.endpoint, baseAsset, quoteAsset)]?.snapshots;
+            return !snapshots?.length || snapshots[snapshots.length - 1].timestamp + PRICE_SNAPSHOT_MIN_INTERVAL <= now;
+          };
+          const dueMarketsV1 = markets.v1.filter(isDue);
+          const dueMarketsV2 = markets.v2.filter(isDue);
+          const dueMarkets = [...dueMarketsV1, ...dueMarketsV2];
+          if (dueMarkets.length === 0) return;
+          const prices = await Promise.allSettled([
+            ...dueMarketsV1.map((market) => getMarketPriceV1(market, torProxy)),
+            ...dueMarketsV2.map((market) => getMarketPriceV2(market, torProxy)),
+          ]);
+          set(
+            (state) => {
+              const histories = { ...state.histories };
+              dueMarkets.forEach((market, index) => {
+                const key = getMarketKey(market.provider.endpoint, market.baseAsset, market.quoteAsset);
+                const price = prices[index];
+                const snapshot: MarketSnapshot = {
+                  timestamp: now,
+                  spotPrice: price.status === 'fulfilled' ? price.value.spotPrice : undefined,
+                  baseAmount: Number(market.baseAmount ?? 0),
+                  quoteAmount: Number(market.quoteAmount ?? 0),
+                };
+                histories[key] = {
+                  providerName: market.provider.name,
+                  baseAsset: market.baseAsset,
+                  quoteAsset: market.quoteAsset,
+                  snapshots: [...(histories[key]?.snapshots ?? []), snapshot],
+                };
+              });
+              return { histories: pruneHistories(histories, state.retention) };
+            },
+            false,
+            'recordMarketSnapshots'
+          );
+        },
+        setRetention: (retention) =>
+          set((state) => ({ retention, histories: pruneHistories(state.histories, retention) }), false, 'setRetention'),
+        resetPriceHistoryStore: () => set(initialState, false, 'resetPriceHistoryStore'),
+      }),
+      {
+        name: 'priceHistory',
+        storage: createJSONStorage(() => storage),
+      }
+    ),
+    { name: 'store', store: 'priceHistory' }
+  )
+);
@@ -0,0 +1,115 @@
+import { create } from 'zustand';
+import { createJSONStorage, devtools, persist } from 'zustand/middleware';
+
+import type { ReputationOpts } from '../services/tdexService';
+import { MAX_REPUTATION_DEVIATION, MIN_PROVIDER_REPUTATION } from '../utils/constants';
+
+import { storage } from './capacitorPersistentStorage';
+import { useSettingsStore } from './settingsStore';
+
+export interface ProviderReputation {
+  completedTrades: number;
+  failedProposals: number;
+  timeouts: number;
+  // number of trades whose deviation from the preview is known
+  deviationSamples: number;
+  // average deviation of the amounts previewed when trading versus the ones shown, in percent
+  averageDeviation: number;
+  updatedAt: number;
+}
+
+export type TradeOutcome = 'completed' | 'failed' | 'timeout';
+
+interface ReputationState {
+  reputations: Record<string, ProviderReputation>; // provider endpoint, reputation
+}
+
+interface ReputationActions {
+  recordTradeOutcome: (providerEndpoint: string, outcome: TradeOutcome, deviation?: number) => void;
+  resetProviderReputation: (providerEndpoint: string) => void;
+  resetReputationStore: () => void;
+}
+
+const initialState: ReputationState = {
+  reputations: {},
+};
+
+const emptyReputation: ProviderReputation = {
+  completedTrades: 0,
+  failedProposals: 0,
+  timeouts: 0,
+  deviationSamples: 0,
+  averageDeviation: 0,
+  updatedAt: 0,
+};
+
+// Score from 0 to 100, unknown providers score 100
+// A virtual completed trade is counted so that a single failure does not skip a new provider
+export function getReputationScore(reputation?: ProviderReputation): number {
+  if (!reputation) return 100;
+  const { completedTrades, failedProposals, timeouts, averageDeviation } = reputation;
+  const successRate = (completedTrades + 1) / (completedTrades + failedProposals + timeouts + 1);
+  const deviationPenalty = Math.min(averageDeviation / MAX_REPUTATION_DEVIATION, 1);
+  return Math.round(successRate * (1 - deviationPenalty) * 100);
+}
+
+// Options of reputationDiscovery, according to the settings
+export function getReputationDiscoveryOpts(): ReputationOpts {
+  const { reputations } = useReputationStore.getState();
+  return {
+    getScore: (providerEndpoint) => getReputationScore(reputations[providerEndpoint]),
+    minScore: useSettingsStore.getState().skipLowReputationProviders ? MIN_PROVIDER_REPUTATION : undefined,
+  };
+}
+
+export const useReputationStore = create<ReputationState & ReputationActions>()(
+  devtools(
+    persist(
+      (set) => ({
+        ...initialState,
+        recordTradeOutcome: (providerEndpoint, outcome, deviation) => {
+          set(
+            (state) => {
+              const reputation = state.reputations[providerEndpoint] ?? emptyReputation;
+              const deviationSamples = reputation.deviationSamples + (deviation !== undefined ? 1 : 0);
+              return {
+                reputations: {
+                  ...state.reputations,
+                  [providerEndpoint]: {
+                    completedTrades: reputation.completedTrades + (outcome === 'completed' ? 1 : 0),
+                    failedProposals: reputation.failedProposals + (outcome === 'failed' ? 1 : 0),
+                    timeouts: reputation.timeouts + (outcome === 'timeout' ? 1 : 0),
+                    deviationSamples,
+                    averageDeviation:
+                      deviation !== undefined
+                        ? (reputation.averageDeviation * reputation.deviationSamples + deviation) / deviationSamples
+                        : reputation.averageDeviation,
+                    updatedAt: Date.now(),
+                  },
+                },
+              };
+            },
+            false,
+            'recordTradeOutcome'
+          );
+        },
+        resetProviderReputation: (providerEndpoint) => {
+          set(
+            (state) => {
+              const { [providerEndpoint]: _, ...reputations } = state.reputations;
+              return { reputations };
+            },
+            false,
+            'resetProviderReputation'
+          );
+        },
+        resetReputationStore: () => set(initialState, false, 'resetReputationStore'),
+      }),
+      {
+        name: 'reputation',
+        storage: createJSONStorage(() => storage),
+      }
+    ),
+    { name: 'store', store: 'reputation' }
+  )
+);
@@ -1,8 +1,14 @@
 import { create } from 'zustand';
 import { createJSONStorage, devtools, persist } from 'zustand/middleware';
 
-import type { LbtcUnit, NetworkString } from '../utils/constants';
-import { CURRENCIES, LBTC_UNITS } from '../utils/constants';
+import type { CoinSelectionStrategy, FeePreset, LbtcUnit, NetworkString } from '../utils/constants';
+import {
+  CURRENCIES,
+  DEFAULT_AUTO_LOCK_TIMEOUT,
+  DEFAULT_COIN_SELECTION_STRATEGY,
+  DEFAULT_MAX_SLIPPAGE,
+  LBTC_UNITS,
+} from '../utils/constants';
 
 import { storage } from './capacitorPersistentStorage';
 import { config } from './config';
@@ -13,10 +19,25 @@ export interface Currency {
   ticker: 'eur' | 'usd' | 'cad' | 'btc';
 }
 
+export interface FeeRate {
+  preset: FeePreset | 'custom';
+  // custom fee rate, in sat/vB
+  satsPerVByte?: number;
+}
+
 export interface SettingsState {
+  // idle period locking the wallet, in milliseconds, never locked if null
+  autoLockTimeout: number | null;
+  coinSelectionStrategy: CoinSelectionStrategy;
   currency: Currency;
   defaultProvider: string;
+  // last fee rate chosen to send each asset
+  feeRates: Record<string, FeeRate>; // assetHash, fee rate
   lbtcUnit: LbtcUnit;
+  // maximum deviation from the trade preview, in percent
+  maxSlippage: number;
+  // skip the providers whose reputation score is below MIN_PROVIDER_REPUTATION
+  skipLowReputationProviders: boolean;
   explorerLiquidAPI: string;
   explorerBitcoinAPI: string;
   explorerBitcoinUI: string;
@@ -25,9 +46,13 @@ export interface SettingsState {
   network: NetworkString;
   torProxy: string;
   websocketExplorerURL: string;
+  // failed PIN attempts in a row erasing the wallet, never if undefined
+  wipeAfterFailedAttempts?: number;
 }
 
 interface SettingsActions {
+  setAutoLockTimeout: (autoLockTimeout: number | null) => void;
+  setCoinSelectionStrategy: (coinSelectionStrategy: CoinSelectionStrategy) => void;
   setCurrency: (currency: Currency) => void;
   setDefaultProvider: (defaultProvider: string) => void;
   setElectrsBatchApi: (electrsBatchAPI: string) => void;
@@ -35,17 +60,26 @@ interface SettingsActions {
   setExplorerBitcoinAPI: (explorerBitcoinAPI: string) => void;
   setExplorerBitcoinUI: (url: string) => void;
   setExplorerLiquidUI: (url: string) => void;
+  setFeeRate: (assetHash: string, feeRate: FeeRate) => void;
   setLbtcDenomination: (lbtcUnit: LbtcUnit) => void;
+  setMaxSlippage: (maxSlippage: number) => void;
   setNetwork: (network: NetworkString) => void;
+  setSkipLowReputationProviders: (skipLowReputationProviders: boolean) => void;
   setTorProxy: (url: string) => void;
   setWebsocketExplorerURL: (websocketExplorerURL: string) => void;
+  setWipeAfterFailedAttempts: (wipeAfterFailedAttempts?: number) => void;
   resetSettingsStore: () => void;
 }
 
 const initialState: SettingsState = {
+  autoLockTimeout: DEFAULT_AUTO_LOCK_TIMEOUT,
+  coinSelectionStrategy: DEFAULT_COIN_SELECTION_STRATEGY,
   currency: CURRENCIES[0],
   defaultProvider: config.defaultProvider.endpoint,
+  feeRates: {},
   lbtcUnit: LBTC_UNITS[0],
+  maxSlippage: DEFAULT_MAX_SLIPPAGE,
+  skipLowReputationProviders: false,
   explorerLiquidAPI: config.explorers.explorerLiquidAPI,
   explorerBitcoinAPI: config.explorers.explorerBitcoinAPI,
   explorerBitcoinUI: config.explorers.explorerBitcoinUI,
@@ -61,6 +95,9 @@ export const useSettingsStore = create<SettingsState & SettingsActions>()(
     persist(
       (set) => ({
         ...initialState,
+        setAutoLockTimeout: (autoLockTimeout) => set({ autoLockTimeout }, false, 'setAutoLockTimeout'),
+        setCoinSelectionStrategy: (coinSelectionStrategy) =>
+          set({ coinSelectionStrategy }, false, 'setCoinSelectionStrategy'),
         setCurrency: (currency) => set({ currency }, false, 'setCurrency'),
         setDefaultProvider: (defaultProvider) => set({ defaultProvider }, false, 'setDefaultProvider'),
         setElectrsBatchApi: (electrsBatchAPI) => set({ electrsBatchAPI }, false, 'setElectrsBatchApi'),
@@ -68,11 +105,18 @@ export const useSettingsStore = create<SettingsState & SettingsActions>()(
         setExplorerBitcoinAPI: (explorerBitcoinAPI) => set({ explorerBitcoinAPI }, false, 'setExplorerBitcoinAPI'),
         setExplorerBitcoinUI: (explorerBitcoinUI) => set({ explorerBitcoinUI }, false, 'setExplorerBitcoinUI'),
         setExplorerLiquidUI: (explorerLiquidUI) => set({ explorerLiquidUI }, false, 'setExplorerLiquidUI'),
+        setFeeRate: (assetHash, feeRate) =>
+          set((state) => ({ feeRates: { ...state.feeRates, [assetHash]: feeRate } }), false, 'setFeeRate'),
         setLbtcDenomination: (lbtcUnit) => set({ lbtcUnit }, false, 'setLbtcDenomination'),
+        setMaxSlippage: (maxSlippage) => set({ maxSlippage }, false, 'setMaxSlippage'),
         setNetwork: (network) => set({ network }, false, 'setNetwork'),
+        setSkipLowReputationProviders: (skipLowReputationProviders) =>
+          set({ skipLowReputationProviders }, false, 'setSkipLowReputationProviders'),
         setTorProxy: (torProxy) => set({ torProxy }, false, 'setTorProxy'),
         setWebsocketExplorerURL: (websocketExplorerURL) =>
           set({ websocketExplorerURL }, false, 'setWebsocketExplorerURL'),
+        setWipeAfterFailedAttempts: (wipeAfterFailedAttempts) =>
+          set({ wipeAfterFailedAttempts }, false, 'setWipeAfterFailedAttempts'),
         resetSettingsStore: () => set(initialState, false, 'resetSettingsStore'),
       }),
       {
@@ -13,19 +13,30 @@ import type {
   TDEXMarket as TDEXMarketV1,
 } from '../services/tdexService/v1/tradeCore';
 import type { TDEXMarket as TDEXMarketV2 } from '../services/tdexService/v2/tradeCore';
-import { TDEXRegistryError } from '../utils/errors';
+import { InvalidUrl, ProviderAlreadyExistsError, ProviderUnreachableError, TDEXRegistryError } from '../utils/errors';
 
 import { storage } from './capacitorPersistentStorage';
 import { defaultProviderEndpoints } from './config';
+import { usePriceHistoryStore } from './priceHistoryStore';
 import { useSettingsStore } from './settingsStore';
 import { useToastStore } from './toastStore';
 
+export interface ProviderHealth {
+  // of the last successful markets fetch, in milliseconds
+  latency?: number;
+  lastSuccessAt?: number;
+  lastErrorAt?: number;
+  lastError?: string;
+}
+
 interface TdexState {
   providers: TDEXProviderWithVersion[];
   markets: { v1: TDEXMarketV1[]; v2: TDEXMarketV2[] };
+  providerHealth: Record<string, ProviderHealth>; // endpoint, health
 }
 
 export interface TdexActions {
+  addCustomProvider: (name: string, endpoint: string) => Promise<TDEXProviderWithVersion>;
   addProviders: (providers: TDEXProviderWithVersion[]) => void;
   clearMarkets: () => void;
   clearProviders: () => void;
@@ -41,13 +52,80 @@ export interface TdexActions {
 const initialState: TdexState = {
   providers: [],
   markets: { v1: [], v2: [] },
+  providerHealth: {},
 };
 
+// Fetch the markets of a provider, recording its health
+async function fetchMarketsOfProvider(
+  p: TDEXProviderWithVersion,
+  torProxy: string
+): Promise<TDEXMarketV1[] | TDEXMarketV2[]> {
+  const setProviderHealth = (health: ProviderHealth) =>
+    useTdexStore.setState(
+      (state) => ({
+        providerHealth: {
+          ...state.providerHealth,
+          [p.endpoint]: { ...state.providerHealth[p.endpoint], ...health },
+        },
+      }),
+      false,
+      'setProviderHealth'
+    );
+  const start = Date.now();
+  try {
+    const markets =
+      p.version === 'v1' ? await getMarketsFromProviderV1(p, torProxy) : await getMarketsFromProviderV2(p, torProxy);
+    setProviderHealth({ latency: Date.now() - start, lastSuccessAt: Date.now() });
+    return markets;
+  } catch (err) {
+    setProviderHealth({ lastErrorAt: Date.now(), lastError: (err as Error).message });
+    throw err;
+  }
+}
+
 export const useTdexStore = create<TdexState & TdexActions>()(
   devtools(
     persist(
       (set, get) => ({
         ...initialState,
+        addCustomProvider: async (name, endpoint) => {
+          let url: URL;
+          try {
+            url = new URL(endpoint.trim());
+          } catch {
+            throw InvalidUrl;
+          }
+          if (!url.hostname.endsWith('.onion') && url.protocol !== 'https:') throw InvalidUrl;
+          // Without trailing slash, as in the registry
+          const providerEndpoint = url.toString().replace(/\/+$/, '');
+          if (get().providers.some((p) => p.endpoint === providerEndpoint)) throw ProviderAlreadyExistsError;
+          const version = await get().getProtoVersion(providerEndpoint);
+          const provider: TDEXProviderWithVersion = {
+            name: name.trim(),
+            endpoint: providerEndpoint,
+            version,
+            isUserAdded: true,
+          };
+          let markets: TDEXMarketV1[] | TDEXMarketV2[];
+          try {
+            markets = await fetchMarketsOfProvider(provider, useSettingsStore.getState().torProxy);
+          } catch (err) {
+            console.error(err);
+            throw ProviderUnreachableError;
+          }
+          set(
+            (state) => ({
+              providers: [...state.providers, provider],
+              markets: {
+                v1: version === 'v1' ? [...state.markets.v1, ...(markets as TDEXMarketV1[])] : state.markets.v1,
+                v2: version === 'v2' ? [...state.markets.v2, ...(markets as TDEXMarketV2[])] : state.markets.v2,
+              },
+            }),
+            false,
+            'addCustomProvider'
+          );
+          return provider;
+        },
         addProviders: (providers) => {
           set(
             (state) => {
@@ -64,10 +142,15 @@ export const useTdexStore = create<TdexState & TdexActions>()(
           );
         },
         clearMarkets: () => set({ markets: { v1: [], v2: [] } }, false, 'clearMarkets'),
-        clearProviders: () => set({ providers: [] }, false, 'clearProviders'),
+        // User-added providers are not listed in the registry, keep them
+        clearProviders: () =>
+          set((state) => ({ providers: state.providers.filter((p) => p.isUserAdded) }), false, 'clearProviders'),
         deleteProvider: (provider: TDEXProvider) => {
           set(
-            (state) => ({ providers: state.providers.filter((p) => p.endpoint !== provider.endpoint) }),
+            (state) => {
+              const { [provider.endpoint]: _, ...providerHealth } = state.providerHealth;
+              return { providers: state.providers.filter((p) => p.endpoint !== provider.endpoint), providerHealth };
+            },
             false,
             'deleteProvider'
           );
@@ -76,15 +159,7 @@ export const useTdexStore = create<TdexState & TdexActions>()(
           const torProxy = useSettingsStore.getState().torProxy;
           const marketsV1ToAdd: TDEXMarketV1[] = [];
           const marketsV2ToAdd: TDEXMarketV2[] = [];
-          const allMarkets = await Promise.allSettled(
-            get().providers.map((p) => {
-              if (p.version === 'v1') {
-                return getMarketsFromProviderV1(p, torProxy);
-              } else {
-                return getMarketsFromProviderV2(p, torProxy);
-              }
-            })
-          );
+          const allMarkets = await Promise.allSettled(get().providers.map((p) => fetchMarketsOfProvider(p, torProxy)));
           allMarkets
             .map((promise) => (promise.status === 'fulfilled' && promise.value ? promise.value : []))
             .forEach((markets) => {
@@ -107,6 +182,11 @@ export const useTdexStore = create<TdexState & TdexActions>()(
             false,
             'fetchMarkets'
           );
+          // Do not await so that price requests don't delay the markets
+          usePriceHistoryStore
+            .getState()
+            .recordMarketSnapshots({ v1: marketsV1ToAdd, v2: marketsV2ToAdd })
+            .catch(console.error);
         },
         fetchProviders: async () => {
           const network = useSettingsStore.getState().network;
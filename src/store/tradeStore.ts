@@ -0,0 +1,218 @@
+import { create } from 'zustand';
+import { createJSONStorage, devtools, persist } from 'zustand/middleware';
+
+import type { TradeEvent } from '../services/tdexService/v2/tradeCore';
+import { makeid } from '../utils/helpers';
+
+import { storage } from './capacitorPersistentStorage';
+import type { TxDetails } from './walletStore';
+
+export enum TradeState {
+  // SwapRequest sent to the provider
+  Proposed = 'proposed',
+  // SwapAccept received from the provider
+  Accepted = 'accepted',
+  // SwapComplete signed and sent to the provider
+  Completed = 'completed',
+  // transaction broadcasted by the provider
+  Broadcast = 'broadcast',
+  // transaction confirmed on chain
+  Confirmed = 'confirmed',
+  Failed = 'failed',
+}
+
+export interface TradeRecord {
+  id: string;
+  // trades of the same multi-hop route or split order
+  group?: { id: string; kind: 'route' | 'split' };
+  createdAt: number;
+  updatedAt: number;
+  provider: { name: string; endpoint: string };
+  protoVersion: 'v1' | 'v2';
+  market: { baseAsset: string; quoteAsset: string };
+  type: 'BUY' | 'SELL';
+  preview: {
+    sent: { asset: string; sats: number };
+    received: { asset: string; sats: number };
+    fee?: { asset: string; sats: number };
+  };
+  swapRequestId?: string;
+  swapAcceptId?: string;
+  txid?: string;
+  state: TradeState;
+  transitions: { state: TradeState; timestamp: number }[];
+  error?: string;
+}
+
+interface TradeStoreState {
+  trades: Record<string, TradeRecord>; // id, trade
+  // trades of the wallets other than the active one, whose trades are at the top level
+  walletsTrades: Record<string, Record<string, TradeRecord>>; // walletId, trades
+}
+
+interface TradeStoreActions {
+  addTrade: (trade: Omit<TradeRecord, 'id' | 'createdAt' | 'updatedAt' | 'state' | 'transitions'>) => TradeRecord['id'];
+  applyTradeEvent: (id: string, event: TradeEvent) => void;
+  failTrade: (id: string, error: string) => void;
+  getTradeByTxid: (txid: string) => TradeRecord | undefined;
+  getTradesOfGroup: (groupId: string) => TradeRecord[];
+  getTradeByIdOrTxid: (idOrTxid: string) => TradeRecord | undefined;
+  removeWalletTrades: (walletId: string) => void;
+  setConfirmedTrades: (txs: Record<string, TxDetails>) => void;
+  switchWalletTrades: (fromWalletId: string, toWalletId: string) => void;
+  resetTradeStore: () => void;
+}
+
+const initialState: TradeStoreState = {
+  trades: {},
+  walletsTrades: {},
+};
+
+// States that can't be left anymore
+const finalStates = [TradeState.Confirmed, TradeState.Failed];
+
+export function makeTradeGroupId(): string {
+  return makeid(16);
+}
+
+// Amount received at the end of the trade, trading fees deducted
+export function getTradeReceivedSats(trade: TradeRecord): number {
+  return trade.preview.received.sats - (trade.preview.fee?.sats ?? 0);
+}
+
+// Sent and received amounts of a trade or of a group of trades (sorted by creation)
+// Failed trades of a group are ignored, unless all of them failed
+export function summarizeTrades(trades: TradeRecord[]): {
+  sent: { asset: string; sats: number };
+  received: { asset: string; sats: number };
+} {
+  const succeeded = trades.filter((trade) => trade.state !== TradeState.Failed);
+  const counted = succeeded.length > 0 ? succeeded : trades;
+  const first = counted[0];
+  const last = counted[counted.length - 1];
+  if (first.group?.kind === 'split') {
+    return {
+      sent: { asset: first.preview.sent.asset, sats: counted.reduce((sum, t) => sum + t.preview.sent.sats, 0) },
+      received: {
+        asset: first.preview.received.asset,
+        sats: counted.reduce((sum, t) => sum + getTradeReceivedSats(t), 0),
+      },
+    };
+  }
+  // single trade or route, the sent asset is the one of the first trade and the received one of the last trade
+  return {
+    sent: first.preview.sent,
+    received: { asset: last.preview.received.asset, sats: getTradeReceivedSats(last) },
+  };
+}
+
+export const useTradeStore = create<TradeStoreState & TradeStoreActions>()(
+  devtools(
+    persist(
+      (set, get) => {
+        const transition = (id: string, state: TradeState, update: Partial<TradeRecord>, actionName: string) => {
+          set(
+            (s) => {
+              const trade = s.trades[id];
+              if (!trade || finalStates.includes(trade.state)) return s;
+              const now = Date.now();
+              // the same state can be reached several times, like retries of SwapComplete
+              const transitions =
+                trade.state === state ? trade.transitions : [...trade.transitions, { state, timestamp: now }];
+              return {
+                trades: {
+                  ...s.trades,
+                  [id]: { ...trade, ...update, state, transitions, updatedAt: now },
+                },
+              };
+            },
+            false,
+            actionName
+          );
+        };
+
+        return {
+          ...initialState,
+          addTrade: (trade) => {
+            const id = makeid(16);
+            const now = Date.now();
+            set(
+              (state) => ({
+                trades: {
+                  ...state.trades,
+                  [id]: {
+                    ...trade,
+                    id,
+                    createdAt: now,
+                    updatedAt: now,
+                    state: TradeState.Proposed,
+                    transitions: [{ state: TradeState.Proposed, timestamp: now }],
+                  },
+                },
+              }),
+              false,
+              'addTrade'
+            );
+            return id;
+          },
+          applyTradeEvent: (id, event) => {
+            switch (event.type) {
+              // the trade is only journaled from its proposal
+              case 'previewed':
+                return;
+              case 'proposed':
+                return transition(id, TradeState.Proposed, { swapRequestId: event.swapRequestId }, 'tradeProposed');
+              case 'accepted':
+                return transition(id, TradeState.Accepted, { swapAcceptId: event.swapAcceptId }, 'tradeAccepted');
+              case 'completed':
+                return transition(id, TradeState.Completed, {}, 'tradeCompleted');
+              case 'broadcast':
+                return transition(id, TradeState.Broadcast, { txid: event.txid }, 'tradeBroadcast');
+            }
+          },
+          failTrade: (id, error) => transition(id, TradeState.Failed, { error }, 'failTrade'),
+          getTradeByTxid: (txid) => Object.values(get().trades).find((trade) => trade.txid === txid),
+          getTradeByIdOrTxid: (idOrTxid) => get().trades[idOrTxid] ?? get().getTradeByTxid(idOrTxid),
+          getTradesOfGroup: (groupId) =>
+            Object.values(get().trades)
+              .filter((trade) => trade.group?.id === groupId)
+              .sort((a, b) => a.createdAt - b.createdAt),
+          removeWalletTrades: (walletId) => {
+            set(
+              (state) => {
+                const { [walletId]: _, ...walletsTrades } = state.walletsTrades;
+                return { walletsTrades };
+              },
+              false,
+              'removeWalletTrades'
+            );
+          },
+          setConfirmedTrades: (txs) => {
+            const toConfirm = Object.values(get().trades).filter(
+              (trade) => trade.state === TradeState.Broadcast && trade.txid && txs[trade.txid]?.height > 0
+            );
+            for (const trade of toConfirm) {
+              transition(trade.id, TradeState.Confirmed, {}, 'setConfirmedTrades');
+            }
+          },
+          switchWalletTrades: (fromWalletId, toWalletId) => {
+            set(
+              (state) => {
+                const { [toWalletId]: trades = {}, ...others } = state.walletsTrades;
+                return { trades, walletsTrades: { ...others, [fromWalletId]: state.trades } };
+              },
+              false,
+              'switchWalletTrades'
+            );
+          },
+          resetTradeStore: () => set(initialState, false, 'resetTradeStore'),
+        };
+      },
+      {
+        name: 'trade',
+        storage: createJSONStorage(() => storage),
+      }
+    ),
+    { name: 'store', store: 'trade' }
+  )
+);
@@ -14,9 +14,17 @@ import { createJSONStorage, devtools, persist } from 'zustand/middleware';
 import type { UnblindedInput } from '../api-spec/protobuf/gen/js/tdex/v2/types_pb';
 import type { GetHistoryResponse } from '../services/chainSource';
 import { chainSource } from '../services/chainSource';
-import { getBaseDerivationPath, LBTC_ASSET, LBTC_COINGECKOID } from '../utils/constants';
+import { coinSelectors } from '../utils/coinSelection';
+import type { LockMode } from '../utils/constants';
+import { DEFAULT_LOCK_MODE, getBaseDerivationPath, LBTC_ASSET, LBTC_COINGECKOID } from '../utils/constants';
 import type { Encrypted } from '../utils/crypto';
-import { decrypt, encrypt } from '../utils/crypto';
+import { decrypt, encrypt, isOutdatedEncryption } from '../utils/crypto';
+import {
+  ActiveWalletRemovalError,
+  InvalidMasterBlindingKeyError,
+  InvalidXpubError,
+  SelectedCoinsInsufficientError,
+} from '../utils/errors';
 import { toXpub } from '../utils/fromXpub';
 import {
   getIndexAndIsChangeFromAddress,
@@ -24,6 +32,7 @@ import {
   isLbtc,
   isLcad,
   isUsdt,
+  makeid,
   outpointStrToOutpoint,
   outpointToString,
   retryWithDelay,
@@ -34,10 +43,10 @@ import { useAppStore } from './appStore';
 import { useAssetStore } from './assetStore';
 import { useBitcoinStore } from './bitcoinStore';
 import { storage } from './capacitorPersistentStorage';
+import { useLimitOrderStore } from './limitOrderStore';
 import { useRateStore } from './rateStore';
 import { useSettingsStore } from './settingsStore';
-
-let coinSelect = require('coinselect');
+import { useTradeStore } from './tradeStore';
 
 export type PubKeyWithRelativeDerivationPath = {
   publicKey: Buffer;
@@ -110,6 +119,11 @@ export interface Recipient {
   address: string;
 }
 
+export interface SentRecipient extends Recipient {
+  // output paying the recipient, several ones may pay the same address
+  vout: number;
+}
+
 // assetHash => {
 // satoshi amount computed from utxos,
 // value is formatted value, either in fiat for fiat, or in favorite bitcoin unit for bitcoin
@@ -135,27 +149,74 @@ interface Account {
 const accountNames = ['main', 'test', 'legacy'] as const;
 export type AccountName = (typeof accountNames)[number];
 
+export interface WalletInfo {
+  id: string;
+  label: string;
+  // BIP84 account of the seed, wallets sharing a seed use different ones
+  accountIndex: number;
+}
+
 interface WalletState {
   accounts?: Partial<Record<AccountName, Account>>;
+  activeWalletId: string;
   balances?: Balances;
   encryptedMnemonic?: Encrypted;
+  // BIP39 passphrase extending the mnemonic, encrypted with the same PIN
+  encryptedPassphrase?: Encrypted;
   isAuthorized: boolean;
+  // imported from an account xpub and the master blinding key, without any private key
+  isWatchOnly: boolean;
+  // shared by the wallets, their mnemonics being encrypted with the same PIN or password
+  lockMode: LockMode;
+  // coins excluded from automatic coin selection
+  frozenOutpoints: string[];
   lockedOutpoints: string[];
   masterBlindingKey: string;
   outputHistory: Record<string, UnblindedOutput>; // outpointStr, utxo
   scriptDetails: Record<string, ScriptDetails>; // script, scriptDetails
+  // coins picked by the user for the next send or trade
+  selectedOutpoints: string[];
+  // recipients of our sends, their blinding keys being needed to replace the transaction
+  sentRecipients: Record<string, SentRecipient[]>; // txid, recipients
   txs: Record<string, TxDetails>; // txid, transaction
+  utxoLabels: Record<string, string>; // outpointStr, label
   totalBtc?: { sats: number; value: number; counterValue?: string };
   txsHeuristic?: Record<string, TxHeuristic>; // txid, TxHeuristic
+  wallets: Record<string, WalletInfo>; // walletId, WalletInfo
+  // state of the wallets other than the active one, whose state is at the top level
+  walletsData: Record<string, WalletData>; // walletId, WalletData
 }
 
+// Fields making up the state of a single wallet
+const walletDataKeys = [
+  'accounts',
+  'balances',
+  'encryptedMnemonic',
+  'encryptedPassphrase',
+  'isWatchOnly',
+  'frozenOutpoints',
+  'lockedOutpoints',
+  'masterBlindingKey',
+  'outputHistory',
+  'scriptDetails',
+  'selectedOutpoints',
+  'sentRecipients',
+  'txs',
+  'utxoLabels',
+  'totalBtc',
+  'txsHeuristic',
+] as const;
+type WalletData = Pick<WalletState, (typeof walletDataKeys)[number]>;
+
 interface WalletActions {
+  addSentRecipients: (txid: string, recipients: SentRecipient[]) => void;
   addScriptDetails: (scriptDetails: ScriptDetails) => void;
-  changePin: (currentPIN: string, newPIN: string) => Promise<void>;
+  changePin: (currentPIN: string, newPIN: string, lockMode?: LockMode) => Promise<void>;
   computeBalances: () => Promise<void>;
   computeUtxosFromTxs: () => UnblindedOutput[];
   computeHeuristicFromTx: (txDetails: TxDetails, assetHash?: string) => Promise<TxHeuristic>;
   computeHeuristicFromPegins: () => TxHeuristic[] | undefined;
+  createWallet: (label: string, accountIndex?: number) => Promise<string>;
   createP2PWKHScript: ({ publicKey, derivationPath }: PubKeyWithRelativeDerivationPath) => [string, ScriptDetails];
   decryptMnemonic: (pin: string) => Promise<string>;
   deriveBatchPublicKeys: (
@@ -165,48 +226,104 @@ interface WalletActions {
     accountName: AccountName
   ) => PubKeyWithRelativeDerivationPath[];
   deriveBlindingKey: (script: Buffer) => { publicKey: Buffer; privateKey: Buffer };
-  generateMasterKeysAndPaths: (mnemonic: string) => void;
+  freezeOutpoint: (outpointStr: string) => void;
+  generateMasterKeysAndPaths: (mnemonic: string, accountIndex?: number, passphrase?: string) => void;
   getNextAddress: (isInternal: boolean, dryRun?: boolean) => Promise<ScriptDetails>;
   getWitnessUtxo: (txid: string, vout: number) => UpdaterInput['witnessUtxo'];
+  importWatchOnlyAccount: (xpub: string, masterBlindingKey: string) => void;
   lockOutpoint: (outpoint: Outpoint) => string;
-  selectUtxos: (targets: Recipient[], lock: boolean) => Promise<CoinSelection>;
+  removeWallet: (walletId: string) => void;
+  renameWallet: (walletId: string, label: string) => void;
+  selectUtxos: (targets: Recipient[], lock: boolean, selectedOutpoints?: string[]) => Promise<CoinSelection>;
   setIsAuthorized: (isAuthorized: boolean) => void;
-  setMnemonicEncrypted: (mnemonic: string, pin: string) => Promise<void>;
+  setMnemonicEncrypted: (mnemonic: string, pin: string, passphrase?: string) => Promise<void>;
   setOutputs: () => Promise<void>;
+  setSelectedOutpoints: (selectedOutpoints: string[]) => void;
+  setUtxoLabel: (outpointStr: string, label: string) => void;
   subscribeScript: (script: Buffer, isLastScript?: boolean) => Promise<void>;
   subscribeAllScripts: () => Promise<void>;
+  switchWallet: (walletId: string) => Promise<void>;
   sync: (gapLimit?: number) => Promise<void>;
   resetWalletStore: () => void;
   resetWalletForRestoration: () => void;
+  replaceTransaction: (replacedTxid: string, txid: string, recipients: SentRecipient[]) => void;
   unblindUtxos: (outputs: Output[]) => Promise<(UnblindingData | Error)[]>;
+  unfreezeOutpoint: (outpointStr: string) => void;
   unlockOutpoint: (outpointStr: string) => void;
   unlockOutpoints: () => void;
+  unsubscribeAllScripts: () => Promise<void>;
 }
 
-const initialState: WalletState = {
+export const DEFAULT_WALLET_ID = 'default';
+
+const initialWalletData: WalletData = {
   accounts: undefined,
   balances: undefined,
   encryptedMnemonic: undefined,
-  isAuthorized: false,
+  encryptedPassphrase: undefined,
+  isWatchOnly: false,
+  frozenOutpoints: [],
   lockedOutpoints: [],
   masterBlindingKey: '',
   outputHistory: {},
   scriptDetails: {},
+  selectedOutpoints: [],
+  sentRecipients: {},
   totalBtc: undefined,
   txs: {},
+  utxoLabels: {},
   txsHeuristic: undefined,
 };
 
+const initialState: WalletState = {
+  ...initialWalletData,
+  activeWalletId: DEFAULT_WALLET_ID,
+  isAuthorized: false,
+  lockMode: DEFAULT_LOCK_MODE,
+  wallets: { [DEFAULT_WALLET_ID]: { id: DEFAULT_WALLET_ID, label: 'My wallet', accountIndex: 0 } },
+  walletsData: {},
+};
+
+const pickWalletData = (state: WalletState): WalletData =>
+  Object.fromEntries(walletDataKeys.map((key) => [key, state[key]])) as WalletData;
+
+// Trades, limit orders and pegins are kept by their own stores, swapped along with the wallet state
+function switchWalletRecords(fromWalletId: string, toWalletId: string): void {
+  useTradeStore.getState().switchWalletTrades(fromWalletId, toWalletId);
+  useLimitOrderStore.getState().switchWalletLimitOrders(fromWalletId, toWalletId);
+  useBitcoinStore.getState().switchWalletPegins(fromWalletId, toWalletId);
+}
+
 const GAP_LIMIT = 20;
 
 const bip32 = BIP32Factory(ecc);
 const slip77 = SLIP77Factory(ecc);
 
+// Coins picked by the user to send `asset`
+export function getSelectedOutpointsOfAsset(asset: string): string[] {
+  const { selectedOutpoints, outputHistory } = useWalletStore.getState();
+  return selectedOutpoints.filter((outpointStr) => outputHistory[outpointStr]?.blindingData?.asset === asset);
+}
+
+// Forget the coins picked to send `asset`, once spent
+export function clearSelectedOutpointsOfAsset(asset: string): void {
+  const picked = getSelectedOutpointsOfAsset(asset);
+  const { selectedOutpoints, setSelectedOutpoints } = useWalletStore.getState();
+  setSelectedOutpoints(selectedOutpoints.filter((outpointStr) => !picked.includes(outpointStr)));
+}
+
 export const useWalletStore = create<WalletState & WalletActions>()(
   devtools(
     persist(
       (set, get) => ({
         ...initialState,
+        addSentRecipients: (txid, recipients) => {
+          set(
+            (state) => ({ sentRecipients: { ...state.sentRecipients, [txid]: recipients } }),
+            false,
+            'addSentRecipients'
+          );
+        },
         addScriptDetails: (scriptDetails: ScriptDetails) => {
           set(
             (state) => {
@@ -231,12 +348,34 @@ export const useWalletStore = create<WalletState & WalletActions>()(
             'addScriptDetails'
           );
         },
-        changePin: async (currentPIN: string, newPIN: string) => {
-          const encryptedMnemonic = get().encryptedMnemonic;
+        // lockMode is the one of newPIN, the current one being kept if not given
+        changePin: async (currentPIN: string, newPIN: string, lockMode = get().lockMode) => {
+          const { encryptedMnemonic, encryptedPassphrase } = get();
           if (!encryptedMnemonic) throw new Error('No mnemonic found in wallet');
-          const decryptedMnemonic = await decrypt(encryptedMnemonic, currentPIN);
-          const newEncryptedMnemonic = await encrypt(decryptedMnemonic, newPIN);
-          set({ encryptedMnemonic: newEncryptedMnemonic }, false, 'changePin');
+          const reencrypt = async (encrypted?: Encrypted) =>
+            encrypted && encrypt(await decrypt(encrypted, currentPIN), newPIN);
+          const newEncryptedMnemonic = await reencrypt(encryptedMnemonic);
+          const newEncryptedPassphrase = await reencrypt(encryptedPassphrase);
+          // the PIN unlocks every wallet of the install
+          const walletsData = { ...get().walletsData };
+          for (const [walletId, data] of Object.entries(walletsData)) {
+            if (!data.encryptedMnemonic) continue;
+            walletsData[walletId] = {
+              ...data,
+              encryptedMnemonic: await reencrypt(data.encryptedMnemonic),
+              encryptedPassphrase: await reencrypt(data.encryptedPassphrase),
+            };
+          }
+          set(
+            {
+              encryptedMnemonic: newEncryptedMnemonic,
+              encryptedPassphrase: newEncryptedPassphrase,
+              lockMode,
+              walletsData,
+            },
+            false,
+            'changePin'
+          );
         },
         createP2PWKHScript({ publicKey, derivationPath }: PubKeyWithRelativeDerivationPath): [string, ScriptDetails] {
           const network = useSettingsStore.getState().network;
@@ -527,22 +666,71 @@ export const useWalletStore = create<WalletState & WalletActions>()(
           }
           return txs;
         },
+        // Register a new empty wallet and make it the active one, its keys are to be generated or imported next
+        createWallet: async (label, accountIndex = 0) => {
+          await get().unsubscribeAllScripts();
+          const walletId = makeid(16);
+          switchWalletRecords(get().activeWalletId, walletId);
+          set(
+            (state) => ({
+              ...initialWalletData,
+              activeWalletId: walletId,
+              wallets: { ...state.wallets, [walletId]: { id: walletId, label, accountIndex } },
+              walletsData: { ...state.walletsData, [state.activeWalletId]: pickWalletData(state) },
+            }),
+            false,
+            'createWallet'
+          );
+          return walletId;
+        },
         decryptMnemonic: async (pin: string) => {
-          const encryptedMnemonic = get().encryptedMnemonic;
+          const { encryptedMnemonic, encryptedPassphrase, walletsData } = get();
           if (!encryptedMnemonic) throw new Error('No mnemonic found in wallet');
-          return decrypt(encryptedMnemonic, pin);
+          const mnemonic = await decrypt(encryptedMnemonic, pin);
+          // blobs of a former format are migrated once the PIN is known to be right
+          // the PIN unlocks every wallet of the install, their blobs are migrated at once
+          const isOutdated = (encrypted?: Encrypted) => !!encrypted && isOutdatedEncryption(encrypted);
+          const blobs = [encryptedMnemonic, encryptedPassphrase].concat(
+            Object.values(walletsData).flatMap((data) => [data.encryptedMnemonic, data.encryptedPassphrase])
+          );
+          if (!blobs.some(isOutdated)) return mnemonic;
+          const migrate = async (encrypted?: Encrypted, decrypted?: string) =>
+            encrypted && isOutdatedEncryption(encrypted)
+              ? encrypt(decrypted ?? (await decrypt(encrypted, pin)), pin)
+              : encrypted;
+          const migratedWalletsData = { ...walletsData };
+          for (const [walletId, data] of Object.entries(walletsData)) {
+            if (!isOutdated(data.encryptedMnemonic) && !isOutdated(data.encryptedPassphrase)) continue;
+            migratedWalletsData[walletId] = {
+              ...data,
+              encryptedMnemonic: await migrate(data.encryptedMnemonic),
+              encryptedPassphrase: await migrate(data.encryptedPassphrase),
+            };
+          }
+          set(
+            {
+              encryptedMnemonic: await migrate(encryptedMnemonic, mnemonic),
+              encryptedPassphrase: await migrate(encryptedPassphrase),
+              walletsData: migratedWalletsData,
+            },
+            false,
+            'decryptMnemonic'
+          );
+          return mnemonic;
         },
         deriveBatchPublicKeys: (start, end, isInternal, accountName) => {
           const network = useSettingsStore.getState().network;
           const chain = isInternal ? 1 : 0;
           const results: PubKeyWithRelativeDerivationPath[] = [];
-          const node = bip32.fromBase58(get().accounts?.[accountName]?.masterPublicKey ?? '');
+          const account = get().accounts?.[accountName];
+          const node = bip32.fromBase58(account?.masterPublicKey ?? '');
+          const baseDerivationPath = account?.derivationPath ?? getBaseDerivationPath(accountName, network);
           for (let i = start; i < end; i++) {
             const child = node.derive(chain).derive(i);
             if (!child.publicKey) throw new Error('Could not derive public key');
             results.push({
               publicKey: child.publicKey,
-              derivationPath: `${getBaseDerivationPath(accountName, network)}/${chain}/${i}`,
+              derivationPath: `${baseDerivationPath}/${chain}/${i}`,
             });
           }
           return results;
@@ -553,18 +741,18 @@ export const useWalletStore = create<WalletState & WalletActions>()(
           if (!derived.publicKey || !derived.privateKey) throw new Error('Could not derive blinding key');
           return { publicKey: derived.publicKey, privateKey: derived.privateKey };
         },
-        generateMasterKeysAndPaths: (mnemonic: string) => {
-          const seed = mnemonicToSeedSync(mnemonic);
+        generateMasterKeysAndPaths: (mnemonic: string, accountIndex = 0, passphrase?: string) => {
+          const seed = mnemonicToSeedSync(mnemonic, passphrase);
           // Generate all main, test and legacy accounts
           // Necessary for restoration and switching network without asking pin
           const masterPublicKeyMain = bip32
             .fromSeed(seed)
-            .derivePath(getBaseDerivationPath('main', 'liquid'))
+            .derivePath(getBaseDerivationPath('main', 'liquid', accountIndex))
             .neutered()
             .toBase58();
           const masterPublicKeyTest = bip32
             .fromSeed(seed)
-            .derivePath(getBaseDerivationPath('test', 'testnet'))
+            .derivePath(getBaseDerivationPath('test', 'testnet', accountIndex))
             .neutered()
             .toBase58();
           const masterPublicKeyLegacy = bip32
@@ -578,16 +766,20 @@ export const useWalletStore = create<WalletState & WalletActions>()(
                 // use xpub format for all networks to be more compatible with all other wallets that only uses xpub in Liquid (specter)
                 main: {
                   masterPublicKey: toXpub(masterPublicKeyMain),
-                  derivationPath: getBaseDerivationPath('main', 'liquid'),
+                  derivationPath: getBaseDerivationPath('main', 'liquid', accountIndex),
                 },
                 test: {
                   masterPublicKey: toXpub(masterPublicKeyTest),
-                  derivationPath: getBaseDerivationPath('test', 'testnet'),
-                },
-                legacy: {
-                  masterPublicKey: toXpub(masterPublicKeyLegacy),
-                  derivationPath: getBaseDerivationPath('legacy', 'liquid'),
+                  derivationPath: getBaseDerivationPath('test', 'testnet', accountIndex),
                 },
+                // the legacy path has no account index, it belongs to the first account only
+                legacy:
+                  accountIndex === 0
+                    ? {
+                        masterPublicKey: toXpub(masterPublicKeyLegacy),
+                        derivationPath: getBaseDerivationPath('legacy', 'liquid'),
+                      }
+                    : undefined,
               },
             },
             false,
@@ -637,16 +829,102 @@ export const useWalletStore = create<WalletState & WalletActions>()(
           }
           return scriptDetails[1];
         },
+        freezeOutpoint: (outpointStr) => {
+          set(
+            (state) => ({
+              frozenOutpoints: [...state.frozenOutpoints.filter((outpoint) => outpoint !== outpointStr), outpointStr],
+              selectedOutpoints: state.selectedOutpoints.filter((outpoint) => outpoint !== outpointStr),
+            }),
+            false,
+            'freezeOutpoint'
+          );
+        },
         getWitnessUtxo: (txid: string, vout: number) => {
           const txDetails = get().txs[txid];
           if (!txDetails || !txDetails.hex) return undefined;
           return Transaction.fromHex(txDetails.hex).outs[vout];
         },
+        // Account of the current network from any SLIP-132 extended public key
+        importWatchOnlyAccount: (xpub, masterBlindingKey) => {
+          const network = useSettingsStore.getState().network;
+          const accountName = network === 'liquid' ? 'main' : 'test';
+          let masterPublicKey: string;
+          try {
+            masterPublicKey = toXpub(xpub);
+            // private extended keys are rejected by fromBase58 once given a public version
+            bip32.fromBase58(masterPublicKey);
+          } catch (err) {
+            throw InvalidXpubError;
+          }
+          try {
+            if (!/^[0-9a-fA-F]{64}$/.test(masterBlindingKey)) throw new Error('invalid hex');
+            slip77.fromMasterBlindingKey(masterBlindingKey);
+          } catch (err) {
+            throw InvalidMasterBlindingKeyError;
+          }
+          set(
+            {
+              accounts: {
+                [accountName]: { masterPublicKey, derivationPath: getBaseDerivationPath(accountName, network) },
+              },
+              encryptedMnemonic: undefined,
+              encryptedPassphrase: undefined,
+              isWatchOnly: true,
+              masterBlindingKey: masterBlindingKey.toLowerCase(),
+            },
+            false,
+            'importWatchOnlyAccount'
+          );
+        },
         lockOutpoint: ({ txid, vout }) => {
           const outpointStr = outpointToString({ txid, vout });
-          set(() => ({ lockedOutpoints: [outpointStr] }), false, 'lockOutpoint');
+          set((state) => ({ lockedOutpoints: [...state.lockedOutpoints, outpointStr] }), false, 'lockOutpoint');
           return outpointStr;
         },
+        removeWallet: (walletId) => {
+          if (walletId === get().activeWalletId) throw ActiveWalletRemovalError;
+          set(
+            (state) => {
+              const { [walletId]: _, ...wallets } = state.wallets;
+              const { [walletId]: __, ...walletsData } = state.walletsData;
+              return { wallets, walletsData };
+            },
+            false,
+            'removeWallet'
+          );
+          useTradeStore.getState().removeWalletTrades(walletId);
+          useLimitOrderStore.getState().removeWalletLimitOrders(walletId);
+          useBitcoinStore.getState().removeWalletPegins(walletId);
+        },
+        renameWallet: (walletId, label) => {
+          set(
+            (state) => ({ wallets: { ...state.wallets, [walletId]: { ...state.wallets[walletId], label } } }),
+            false,
+            'renameWallet'
+          );
+        },
+        // Forget a transaction replaced by a fee bump, its outputs will never exist
+        // recipients are the ones of the replacement, paid by outputs that may have moved
+        replaceTransaction: (replacedTxid, txid, recipients) => {
+          set(
+            (state) => {
+              const { [replacedTxid]: _, ...txs } = state.txs;
+              const outputHistory = Object.fromEntries(
+                Object.entries(state.outputHistory).filter(
+                  ([outpointStr]) => !outpointStr.startsWith(`${replacedTxid}:`)
+                )
+              );
+              const { [replacedTxid]: __, ...sentRecipients } = state.sentRecipients;
+              return {
+                txs,
+                outputHistory,
+                sentRecipients: recipients.length > 0 ? { ...sentRecipients, [txid]: recipients } : sentRecipients,
+              };
+            },
+            false,
+            'replaceTransaction'
+          );
+        },
         // Reset all except mnemonic / master keys
         resetWalletForRestoration: () => {
           set(
@@ -672,6 +950,7 @@ export const useWalletStore = create<WalletState & WalletActions>()(
                 scriptDetails: {},
                 balances: undefined,
                 lockedOutpoints: [],
+                selectedOutpoints: [],
                 totalBtc: undefined,
                 txs: {},
                 txsHeuristic: undefined,
@@ -686,16 +965,20 @@ export const useWalletStore = create<WalletState & WalletActions>()(
           set(initialState, false, 'resetWalletStore');
         },
         // Coin selection
-        selectUtxos: async (targets, lock = false) => {
+        // Targets with coins among selectedOutpoints spend all of them, the others use automatic selection
+        selectUtxos: async (targets, lock = false, selectedOutpoints = []) => {
           const availableUtxos = get().computeUtxosFromTxs();
           const onlyWithUnblindingData = availableUtxos.filter((utxo) => utxo.blindingData);
+          const { frozenOutpoints } = get();
+          const coinSelector = coinSelectors[useSettingsStore.getState().coinSelectionStrategy];
           // accumulate targets with same asset
           targets = targets.reduce((acc, target) => {
             const existingTarget = acc.find((t) => t.asset === target.asset);
             if (existingTarget) {
               existingTarget.value += target.value;
             } else {
-              acc.push(target);
+              // copy so that the caller's recipients are left untouched
+              acc.push({ ...target });
             }
             return acc;
           }, [] as Recipient[]);
@@ -703,35 +986,30 @@ export const useWalletStore = create<WalletState & WalletActions>()(
           const selectedUtxos: UnblindedOutput[] = [];
           const changeOutputs: { asset: string; amount: number }[] = [];
           for (const target of targets) {
-            const utxos = onlyWithUnblindingData.filter((utxo) => utxo.blindingData?.asset === target.asset);
-            const { inputs, outputs } = coinSelect(
-              utxos.map((utxo) => ({
-                txId: utxo.txid,
-                vout: utxo.vout,
-                value: utxo.blindingData?.value,
-              })),
-              [{ address: 'fake', value: target.value }],
-              0
+            const pickedUtxos = onlyWithUnblindingData.filter(
+              (utxo) => utxo.blindingData?.asset === target.asset && selectedOutpoints.includes(outpointToString(utxo))
             );
-            if (inputs) {
-              selectedUtxos.push(
-                ...(inputs as { txId: string; vout: number }[]).map(
-                  (input) =>
-                    onlyWithUnblindingData.find(
-                      (utxo) => utxo.txid === input.txId && utxo.vout === input.vout
-                    ) as UnblindedOutput
-                )
-              );
+            if (pickedUtxos.length > 0) {
+              const total = pickedUtxos.reduce((sum, utxo) => sum + (utxo.blindingData?.value ?? 0), 0);
+              if (total < target.value) throw SelectedCoinsInsufficientError;
+              selectedUtxos.push(...pickedUtxos);
+              if (total > target.value) changeOutputs.push({ asset: target.asset, amount: total - target.value });
+              continue;
             }
-            if (outputs) {
-              changeOutputs.push(
-                ...outputs
-                  .filter((output: any) => output.address === undefined) // only add change outputs
-                  .map((output: { value: number }) => ({
-                    asset: target.asset,
-                    amount: output.value,
-                  }))
-              );
+            const coins = onlyWithUnblindingData
+              .filter(
+                (utxo) => utxo.blindingData?.asset === target.asset && !frozenOutpoints.includes(outpointToString(utxo))
+              )
+              .map((utxo) => ({
+                utxo,
+                outpoint: outpointToString(utxo),
+                value: utxo.blindingData?.value ?? 0,
+                script: get().getWitnessUtxo(utxo.txid, utxo.vout)?.script.toString('hex') ?? '',
+              }));
+            const selection = coinSelector(coins, target.value);
+            if (selection) {
+              selectedUtxos.push(...selection.coins.map(({ utxo }) => utxo));
+              if (selection.change > 0) changeOutputs.push({ asset: target.asset, amount: selection.change });
             }
           }
           if (lock) {
@@ -746,9 +1024,21 @@ export const useWalletStore = create<WalletState & WalletActions>()(
           };
         },
         setIsAuthorized: (isAuthorized: boolean) => set({ isAuthorized }, false, 'setIsAuthorized'),
-        setMnemonicEncrypted: async (mnemonic, pin) => {
+        setSelectedOutpoints: (selectedOutpoints) => set({ selectedOutpoints }, false, 'setSelectedOutpoints'),
+        setUtxoLabel: (outpointStr, label) => {
+          set(
+            (state) => {
+              const { [outpointStr]: _, ...utxoLabels } = state.utxoLabels;
+              return { utxoLabels: label ? { ...utxoLabels, [outpointStr]: label } : utxoLabels };
+            },
+            false,
+            'setUtxoLabel'
+          );
+        },
+        setMnemonicEncrypted: async (mnemonic, pin, passphrase) => {
           const encryptedMnemonic = await encrypt(mnemonic, pin);
-          set({ encryptedMnemonic }, false, 'setMnemonicEncrypted');
+          const encryptedPassphrase = passphrase ? await encrypt(passphrase, pin) : undefined;
+          set({ encryptedMnemonic, encryptedPassphrase }, false, 'setMnemonicEncrypted');
         },
         setOutputs: async () => {
           const txsObj = get().txs;
@@ -812,6 +1102,7 @@ export const useWalletStore = create<WalletState & WalletActions>()(
                 Object.entries(txsObj).map(([txid, tx]) => [txid, { ...tx, ...historyObj[txid] }])
               );
               set((state) => ({ txs: { ...state.txs, ...txsAndHistory } }), false, 'subscribeScript/txs');
+              useTradeStore.getState().setConfirmedTrades(txsAndHistory);
               await get().setOutputs();
               if (isLastScript) await finalize();
             } catch (err) {
@@ -845,6 +1136,27 @@ export const useWalletStore = create<WalletState & WalletActions>()(
           };
           await subscribeAllScriptsFn();
         },
+        switchWallet: async (walletId) => {
+          const { activeWalletId, walletsData } = get();
+          if (walletId === activeWalletId || !walletsData[walletId]) return;
+          await get().unsubscribeAllScripts();
+          switchWalletRecords(activeWalletId, walletId);
+          set(
+            (state) => {
+              const { [walletId]: data, ...others } = state.walletsData;
+              return {
+                ...data,
+                activeWalletId: walletId,
+                walletsData: { ...others, [state.activeWalletId]: pickWalletData(state) },
+              };
+            },
+            false,
+            'switchWallet'
+          );
+          // the wallet may have been used elsewhere, or on another network, since it was last active
+          await get().sync();
+          await get().subscribeAllScripts();
+        },
         sync: async (gapLimit = GAP_LIMIT) => {
           const network = useSettingsStore.getState().network;
           const txidHeight: Map<string, number | undefined> = new Map();
@@ -853,6 +1165,8 @@ export const useWalletStore = create<WalletState & WalletActions>()(
           const walletChains = [0, 1];
           const accounts = ['legacy', network === 'liquid' ? 'main' : 'test'] as const;
           for (const account of accounts) {
+            // watch-only wallets only hold the account they were imported with
+            if (!get().accounts?.[account]?.masterPublicKey) continue;
             let nextExternalIndex = 0;
             let nextInternalIndex = 0;
             for (const i of walletChains) {
@@ -976,6 +1290,13 @@ export const useWalletStore = create<WalletState & WalletActions>()(
           }
           return unblindingResults;
         },
+        unfreezeOutpoint: (outpointStr) => {
+          set(
+            (state) => ({ frozenOutpoints: state.frozenOutpoints.filter((outpoint) => outpoint !== outpointStr) }),
+            false,
+            'unfreezeOutpoint'
+          );
+        },
         unlockOutpoint: (outpointStr: string) => {
           set(
             (state) => ({
@@ -988,10 +1309,24 @@ export const useWalletStore = create<WalletState & WalletActions>()(
         unlockOutpoints: () => {
           set({ lockedOutpoints: [] }, false, 'unlockOutpoints');
         },
+        unsubscribeAllScripts: async () => {
+          for (const script of Object.keys(get().scriptDetails)) {
+            await chainSource.unsubscribeScriptStatus(Buffer.from(script, 'hex')).catch(console.error);
+          }
+        },
       }),
       {
         name: 'wallet',
         storage: createJSONStorage(() => storage),
+        // a wallet protected by a PIN is locked when the app starts, even if it was left unlocked
+        onRehydrateStorage: () => (state) => {
+          if (!state?.isAuthorized) return;
+          const hasPin =
+            !!state.encryptedMnemonic || Object.values(state.walletsData).some((data) => data.encryptedMnemonic);
+          if (!hasPin) return;
+          useAppStore.getState().setIsLocked(true);
+          state.setIsAuthorized(false);
+        },
       }
     ),
     { name: 'store', store: 'wallet' }
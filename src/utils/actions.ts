@@ -1,19 +1,52 @@
 import { useAppStore } from '../store/appStore';
 import { useAssetStore } from '../store/assetStore';
 import { useBitcoinStore } from '../store/bitcoinStore';
+import { useLimitOrderStore } from '../store/limitOrderStore';
+import { usePriceHistoryStore } from '../store/priceHistoryStore';
 import { useRateStore } from '../store/rateStore';
+import { useReputationStore } from '../store/reputationStore';
 import { useSettingsStore } from '../store/settingsStore';
 import { useTdexStore } from '../store/tdexStore';
 import { useToastStore } from '../store/toastStore';
+import { useTradeStore } from '../store/tradeStore';
 import { useWalletStore } from '../store/walletStore';
 
+import { PinLockedOutError, WalletErasedError } from './errors';
+
 export function resetAllStores(): void {
   useAppStore.getState().resetAppStore();
   useAssetStore.getState().resetAssetStore();
   useBitcoinStore.getState().resetBitcoinStore();
+  useLimitOrderStore.getState().resetLimitOrderStore();
+  usePriceHistoryStore.getState().resetPriceHistoryStore();
   useRateStore.getState().resetRateStore();
+  useReputationStore.getState().resetReputationStore();
   useSettingsStore.getState().resetSettingsStore();
   useTdexStore.getState().resetTdexStore();
   useToastStore.getState().resetToastStore();
+  useTradeStore.getState().resetTradeStore();
   useWalletStore.getState().resetWalletStore();
 }
+
+// Checks a PIN with the decryption run by check, counting the wrong ones towards the lockout and the optional wipe
+// Only check is guarded, the failures of what is done next with the right PIN are not failed attempts
+// During a lockout, no PIN is checked at all
+export async function checkPin<T>(check: () => Promise<T>): Promise<T> {
+  const { addFailedPinAttempt, resetFailedPinAttempts, pinLockedUntil } = useAppStore.getState();
+  if (pinLockedUntil && pinLockedUntil > Date.now()) throw PinLockedOutError;
+  let result: T;
+  try {
+    result = await check();
+  } catch (err) {
+    const failedAttempts = addFailedPinAttempt();
+    const { wipeAfterFailedAttempts } = useSettingsStore.getState();
+    if (wipeAfterFailedAttempts && failedAttempts >= wipeAfterFailedAttempts) {
+      // same reset as the deletion of the mnemonic from the settings
+      resetAllStores();
+      useToastStore.getState().addErrorToast(WalletErasedError);
+    }
+    throw err;
+  }
+  resetFailedPinAttempts();
+  return result;
+}
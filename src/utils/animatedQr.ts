@@ -0,0 +1,45 @@
+// Payloads too large for a single QR code, like PSETs, are shown as a loop of codes
+// Each frame is "p<index>of<total> <chunk>", index starting at 1
+export const QR_FRAME_SIZE = 400;
+
+const FRAME_REGEX = /^p(\d+)of(\d+) (.*)$/s;
+
+export interface QrFrame {
+  index: number;
+  total: number;
+  chunk: string;
+}
+
+// A payload fitting in one code is left as is
+export function toQrFrames(data: string, frameSize = QR_FRAME_SIZE): string[] {
+  if (data.length <= frameSize) return [data];
+  const total = Math.ceil(data.length / frameSize);
+  const frames: string[] = [];
+  for (let i = 0; i < total; i++) {
+    frames.push(`p${i + 1}of${total} ${data.slice(i * frameSize, (i + 1) * frameSize)}`);
+  }
+  return frames;
+}
+
+// undefined if the content is not a frame, being a whole payload
+export function parseQrFrame(content: string): QrFrame | undefined {
+  const match = content.match(FRAME_REGEX);
+  if (!match) return undefined;
+  const index = Number(match[1]);
+  const total = Number(match[2]);
+  if (index < 1 || index > total) return undefined;
+  return { index, total, chunk: match[3] };
+}
+
+// The payload once every frame has been scanned, in any order, undefined while some are missing
+export function joinQrFrames(frames: QrFrame[]): string | undefined {
+  if (frames.length === 0) return undefined;
+  const total = frames[0].total;
+  if (frames.some((frame) => frame.total !== total)) throw new Error('QR frames of different payloads');
+  const chunks: string[] = [];
+  for (const { index, chunk } of frames) chunks[index - 1] = chunk;
+  for (let i = 0; i < total; i++) {
+    if (chunks[i] === undefined) return undefined;
+  }
+  return chunks.join('');
+}
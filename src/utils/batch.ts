@@ -0,0 +1,34 @@
+import type { Asset } from '../store/assetStore';
+
+export interface BatchRow {
+  address: string;
+  asset: string;
+  // in the unit displayed to the user, as typed
+  amount: string;
+}
+
+// Parse a CSV of "address,asset,amount" lines, asset being either a ticker or an asset hash
+// A header line and blank lines are skipped, as is the byte order mark written by spreadsheet apps
+export function parseBatchCsv(csv: string, assets: Record<string, Asset>): BatchRow[] {
+  const rows: BatchRow[] = [];
+  const lines = csv
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .map((line) => line.trim());
+  // the header is the first line that is not blank
+  const headerIndex = lines.findIndex((line) => line !== '');
+  for (const [index, line] of lines.entries()) {
+    if (!line) continue;
+    const columns = line.split(/[,;]/).map((column) => column.trim().replace(/^"|"$/g, ''));
+    if (columns.length !== 3) throw new Error(`Line ${index + 1}: expected address, asset and amount`);
+    const [address, assetOrTicker, amount] = columns;
+    if (index === headerIndex && isNaN(Number(amount))) continue;
+    rows.push({ address, asset: findAssetHash(assetOrTicker, assets) ?? assetOrTicker, amount });
+  }
+  return rows;
+}
+
+function findAssetHash(assetOrTicker: string, assets: Record<string, Asset>): string | undefined {
+  if (assets[assetOrTicker]) return assetOrTicker;
+  return Object.values(assets).find(({ ticker }) => ticker?.toLowerCase() === assetOrTicker.toLowerCase())?.assetHash;
+}
@@ -0,0 +1,115 @@
+import type { CoinSelectionStrategy } from './constants';
+
+const coinSelect = require('coinselect');
+
+// Bound of the exact match search, to keep the selection instant on wallets with many coins
+const BNB_MAX_TRIES = 100_000;
+
+export interface SelectableCoin {
+  // txid:vout
+  outpoint: string;
+  value: number;
+  // hex output script, coins sharing it were received on the same address
+  script: string;
+}
+
+export interface CoinSelectorResult<C extends SelectableCoin> {
+  coins: C[];
+  change: number;
+}
+
+// Select coins of a single asset covering target, undefined if the coins are not enough
+// Fees are paid by a separate L-BTC target so selectors only have to match the value
+export type CoinSelector = <C extends SelectableCoin>(coins: C[], target: number) => CoinSelectorResult<C> | undefined;
+
+const sum = (coins: SelectableCoin[]) => coins.reduce((total, coin) => total + coin.value, 0);
+
+const toResult = <C extends SelectableCoin>(coins: C[], target: number): CoinSelectorResult<C> => ({
+  coins,
+  change: sum(coins) - target,
+});
+
+// Largest coins first, ties broken by outpoint so that the selection is deterministic
+const byValueDesc = (a: SelectableCoin, b: SelectableCoin) =>
+  b.value - a.value || (a.outpoint < b.outpoint ? -1 : a.outpoint > b.outpoint ? 1 : 0);
+
+// Fewest inputs, linking as few coins together as possible
+export const largestFirst: CoinSelector = (coins, target) => {
+  const selected: typeof coins = [];
+  let total = 0;
+  for (const coin of [...coins].sort(byValueDesc)) {
+    if (total >= target) break;
+    selected.push(coin);
+    total += coin.value;
+  }
+  if (total < target) return undefined;
+  return toResult(selected, target);
+};
+
+// Depth-first search of a set of coins matching target exactly, so that no change output is made
+// Falls back to largest first if there is no exact match
+export const branchAndBound: CoinSelector = (coins, target) => {
+  const sorted = [...coins].sort(byValueDesc);
+  // remaining[i] is the value of the coins from i to the end, to prune the branches which can't reach target
+  const remaining: number[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) remaining[i] = sorted[i].value + (remaining[i + 1] ?? 0);
+  const selection: boolean[] = [];
+  let tries = 0;
+  const search = (index: number, total: number): boolean => {
+    if (total === target) return true;
+    if (index >= sorted.length || total > target || total + remaining[index] < target) return false;
+    if (++tries > BNB_MAX_TRIES) return false;
+    // inclusion branch first, reaching target with fewer inputs
+    selection[index] = true;
+    if (search(index + 1, total + sorted[index].value)) return true;
+    selection[index] = false;
+    return search(index + 1, total);
+  };
+  if (target > 0 && search(0, 0)) {
+    return toResult(
+      sorted.filter((_, index) => selection[index]),
+      target
+    );
+  }
+  return largestFirst(coins, target);
+};
+
+// Spend all the coins of a single address when possible, the smallest address covering target
+// Otherwise whole addresses are added largest first, never leaving coins of a spent address behind
+export const avoidAddressMixing: CoinSelector = (coins, target) => {
+  const byScript = new Map<string, typeof coins>();
+  for (const coin of [...coins].sort(byValueDesc)) {
+    byScript.set(coin.script, [...(byScript.get(coin.script) ?? []), coin]);
+  }
+  const groups = Array.from(byScript.values()).sort((a, b) => sum(b) - sum(a) || byValueDesc(a[0], b[0]));
+  const single = groups.filter((group) => sum(group) >= target).pop();
+  if (single) return toResult(single, target);
+  const selected: typeof coins = [];
+  for (const group of groups) {
+    if (sum(selected) >= target) break;
+    selected.push(...group);
+  }
+  if (sum(selected) < target) return undefined;
+  return toResult(selected, target);
+};
+
+// coinselect's blackjack, then accumulative, algorithms over the coins sorted by value
+export const blackjack: CoinSelector = (coins, target) => {
+  const { inputs } = coinSelect(
+    coins.map((coin, index) => ({ index, value: coin.value })),
+    [{ address: 'fake', value: target }],
+    0
+  );
+  if (!inputs) return undefined;
+  return toResult(
+    (inputs as { index: number }[]).map(({ index }) => coins[index]),
+    target
+  );
+};
+
+export const coinSelectors: Record<CoinSelectionStrategy, CoinSelector> = {
+  'branch-and-bound': branchAndBound,
+  'largest-first': largestFirst,
+  'avoid-address-mixing': avoidAddressMixing,
+  blackjack,
+};
@@ -160,11 +160,113 @@ export const CURRENCIES: Currency[] = [
 export const LBTC_UNITS = ['L-BTC', 'L-mBTC', 'L-bits', 'L-sats'] as const;
 export type LbtcUnit = (typeof LBTC_UNITS)[number];
 
+// BIP39 mnemonic lengths, each 3 words adding 32 bits of entropy
+export const MNEMONIC_WORD_COUNTS = [12, 15, 18, 21, 24] as const;
+export type MnemonicWordCount = (typeof MNEMONIC_WORD_COUNTS)[number];
+export const mnemonicStrength = (wordCount: MnemonicWordCount): number => (wordCount / 3) * 32;
+
+// maximum slippage between trade preview and completion, in percent
+export const DEFAULT_MAX_SLIPPAGE = 1;
+export const MAX_SLIPPAGE_PRESETS = [0.5, 1, 2, 5];
+
+// provider reputation score, from 0 to 100
+export const MIN_PROVIDER_REPUTATION = 50;
+// average deviation from the preview, in percent, at which the score drops to 0
+export const MAX_REPUTATION_DEVIATION = 10;
+
+export const LIMIT_ORDERS_POLLING_INTERVAL = 60_000;
+export const LIMIT_ORDER_EXPIRIES = [
+  { label: '1 hour', duration: 60 * 60 * 1000 },
+  { label: '1 day', duration: 24 * 60 * 60 * 1000 },
+  { label: '1 week', duration: 7 * 24 * 60 * 60 * 1000 },
+  { label: '30 days', duration: 30 * 24 * 60 * 60 * 1000 },
+];
+
+// market snapshots are recorded at most once per interval
+export const PRICE_SNAPSHOT_MIN_INTERVAL = 5 * 60 * 1000;
+export const PRICE_HISTORY_RETENTIONS = [
+  { label: '1 week', duration: 7 * 24 * 60 * 60 * 1000 },
+  { label: '1 month', duration: 31 * 24 * 60 * 60 * 1000 },
+  { label: '3 months', duration: 92 * 24 * 60 * 60 * 1000 },
+];
+export const DEFAULT_PRICE_HISTORY_RETENTION = PRICE_HISTORY_RETENTIONS[1].duration;
+export const PRICE_CHART_RANGES = [
+  { label: '1D', duration: 24 * 60 * 60 * 1000 },
+  { label: '1W', duration: 7 * 24 * 60 * 60 * 1000 },
+  { label: '1M', duration: 31 * 24 * 60 * 60 * 1000 },
+];
+
+// confirmation targets of the fee rate presets, in blocks of one minute
+export type FeePreset = 'slow' | 'normal' | 'fast';
+export const FEE_PRESETS: { preset: FeePreset; label: string; targetBlocks: number }[] = [
+  { preset: 'slow', label: 'Slow', targetBlocks: 10 },
+  { preset: 'normal', label: 'Normal', targetBlocks: 3 },
+  { preset: 'fast', label: 'Fast', targetBlocks: 1 },
+];
+export const DEFAULT_FEE_PRESET: FeePreset = 'normal';
+
+// coin selection algorithms, see utils/coinSelection
+export type CoinSelectionStrategy = 'branch-and-bound' | 'largest-first' | 'avoid-address-mixing' | 'blackjack';
+export const COIN_SELECTION_STRATEGIES: { strategy: CoinSelectionStrategy; label: string; description: string }[] = [
+  {
+    strategy: 'branch-and-bound',
+    label: 'Exact match',
+    description:
+      'Looks for coins matching the amount exactly so that no change is made, else spends the largest coins.',
+  },
+  {
+    strategy: 'largest-first',
+    label: 'Largest first',
+    description: 'Spends the largest coins first, linking as few coins together as possible.',
+  },
+  {
+    strategy: 'avoid-address-mixing',
+    label: 'Avoid mixing addresses',
+    description: 'Spends all the coins received on one address rather than coins of several addresses.',
+  },
+  {
+    strategy: 'blackjack',
+    label: 'Blackjack',
+    description: 'Adds the largest coins not overshooting the amount, else accumulates the largest coins.',
+  },
+];
+export const DEFAULT_COIN_SELECTION_STRATEGY: CoinSelectionStrategy = 'branch-and-bound';
+
+// Liquid Taxi servers paying network fees in exchange for other assets
+export const TAXI_API_URL: Record<NetworkString, string> = {
+  liquid: 'https://grpc.liquid.taxi:18000',
+  testnet: 'https://grpc.liquid.taxi:19000',
+  regtest: 'http://localhost:8000',
+};
+// virtual size added to a transaction by a taxi topup: its input and two explicit outputs,
+// plus the input and confidential change output paying the taxi in the fee asset
+export const TAXI_TOPUP_VSIZE = 1500;
+
 export const TOAST_TIMEOUT_SUCCESS = 4000;
 export const TOAST_TIMEOUT_FAILURE = 4000;
 export const PIN_TIMEOUT_SUCCESS = 800;
 export const PIN_TIMEOUT_FAILURE = 2000;
 
+// How the mnemonic is encrypted and unlocked, a PIN of a number of digits or a password
+export type LockMode = { type: 'pin'; length: number } | { type: 'password' };
+export const DEFAULT_LOCK_MODE: LockMode = { type: 'pin', length: 6 };
+export const PIN_LENGTHS = [6, 8, 10, 12];
+export const MIN_PASSWORD_LENGTH = 8;
+// wrong PINs allowed in a row before the lockouts, doubling from PIN_LOCKOUT_BASE_DELAY up to PIN_LOCKOUT_MAX_DELAY
+export const FREE_PIN_ATTEMPTS = 3;
+export const PIN_LOCKOUT_BASE_DELAY = 30_000;
+export const PIN_LOCKOUT_MAX_DELAY = 24 * 60 * 60 * 1000;
+// choices of failed attempts in a row erasing the wallet
+export const WIPE_AFTER_FAILED_ATTEMPTS = [5, 10, 15, 20];
+// idle periods locking the wallet, which is also locked when the app goes to the background
+export const AUTO_LOCK_TIMEOUTS = [
+  { label: '1 minute', duration: 60 * 1000 },
+  { label: '5 minutes', duration: 5 * 60 * 1000 },
+  { label: '15 minutes', duration: 15 * 60 * 1000 },
+  { label: '1 hour', duration: 60 * 60 * 1000 },
+];
+export const DEFAULT_AUTO_LOCK_TIMEOUT = AUTO_LOCK_TIMEOUTS[1].duration;
+
 export function getBitcoinJSNetwork(chain: NetworkString): bitcoinJS.networks.Network {
   if (chain === 'liquid') {
     return bitcoinJS.networks.bitcoin;
@@ -202,7 +304,8 @@ export const BASE_DERIVATION_PATH_MAINNET = "m/84'/1776'/0'";
 export const BASE_DERIVATION_PATH_TESTNET = "m/84'/1'/0'";
 export const BASE_DERIVATION_PATH_LEGACY = "m/84'/0'/0'";
 
-export function getBaseDerivationPath(account: AccountName, network: NetworkString): string {
+// accountIndex is the hardened BIP84 account of main and test, legacy only having the first one
+export function getBaseDerivationPath(account: AccountName, network: NetworkString, accountIndex = 0): string {
   let derivationPath = '';
   if (account === 'legacy') {
     derivationPath = BASE_DERIVATION_PATH_LEGACY;
@@ -212,6 +315,7 @@ export function getBaseDerivationPath(account: AccountName, network: NetworkStri
     } else {
       derivationPath = BASE_DERIVATION_PATH_TESTNET;
     }
+    derivationPath = derivationPath.replace(/0'$/, `${accountIndex}'`);
   }
   return derivationPath;
 }
@@ -6,9 +6,18 @@ export const r = 8;
 export const p = 1;
 export const klen = 32;
 
+// 0: aes-256-cbc with a static IV, no version field in the blobs written before versioning
+// 1: aes-256-gcm with a random IV and an authentication tag
+export type EncryptionVersion = 0 | 1;
+export const ENCRYPTION_VERSION: EncryptionVersion = 1;
+
 export interface Encrypted {
   data: string;
   options: ScryptOptions;
+  version?: EncryptionVersion;
+  // hex, from version 1
+  iv?: string;
+  tag?: string;
 }
 
 export interface ScryptOptions {
@@ -19,62 +28,81 @@ export interface ScryptOptions {
   klen: number;
 }
 
+const GCM_IV_LENGTH = 12;
+
 function defaultScryptOptions(): ScryptOptions {
   return {
     N: 16384,
     r: 8,
     p: 1,
     klen: 32,
-    salt: randomSalt(32),
+    salt: crypto.randomBytes(32).toString('hex'),
   };
 }
 
-function randomSalt(length: number): string {
-  let result = '';
-  const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-  const charactersLength = characters.length;
-  for (let i = 0; i < length; i++) {
-    result += characters.charAt(Math.floor(Math.random() * charactersLength));
-  }
-  return result;
-}
+const legacyIv = 'f341557fcf9b9286';
 
-const iv = 'f341557fcf9b9286';
+// Blobs to be encrypted again with the current version once the password is known
+export function isOutdatedEncryption(encryptedData: Encrypted): boolean {
+  return (encryptedData.version ?? 0) < ENCRYPTION_VERSION;
+}
 
 /**
- * encrypt data using scrypt + aes256-cbc
+ * encrypt data using scrypt + aes-256-gcm
  * @param payload
  * @param password
  */
 export async function encrypt(payload: string, password: string): Promise<Encrypted> {
   const options = defaultScryptOptions();
-  const passwordDerived = await passwordToKey(password, options);
-  const hash = crypto.createHash('sha256').update(passwordDerived);
-  const secret = hash.digest();
-  const key = crypto.createCipheriv('aes-256-cbc', secret, iv);
-  let encrypted = key.update(payload, 'utf8', 'base64');
-  encrypted += key.final('base64');
+  const secret = Buffer.from(await passwordToKey(password, options));
+  const iv = crypto.randomBytes(GCM_IV_LENGTH);
+  const cipher = crypto.createCipheriv('aes-256-gcm', secret, iv);
+  const encrypted = Buffer.concat([cipher.update(payload, 'utf8'), cipher.final()]);
   return {
-    data: encrypted,
+    data: encrypted.toString('base64'),
     options,
+    version: ENCRYPTION_VERSION,
+    iv: iv.toString('hex'),
+    tag: cipher.getAuthTag().toString('hex'),
   };
 }
 
 /**
- * Decrypt data using aes-256 & scrypt
+ * Decrypt data using aes-256 & scrypt, in the format of the version of the data
  * @param encryptedData encrypted data to decrypt
  * @param password password using to decrypt
  */
 export async function decrypt(encryptedData: Encrypted, password: string): Promise<string> {
+  switch (encryptedData.version ?? 0) {
+    case 0:
+      return decryptV0(encryptedData, password);
+    case 1:
+      return decryptV1(encryptedData, password);
+    default:
+      throw new Error(`Unsupported encryption version ${encryptedData.version}`);
+  }
+}
+
+async function decryptV0(encryptedData: Encrypted, password: string): Promise<string> {
   const passwordDerived = await passwordToKey(password, encryptedData.options);
   const hash = crypto.createHash('sha256').update(passwordDerived);
   const secret = hash.digest();
-  const key = crypto.createDecipheriv('aes-256-cbc', secret, iv);
+  const key = crypto.createDecipheriv('aes-256-cbc', secret, legacyIv);
   let decrypted = key.update(encryptedData.data, 'base64', 'utf8');
   decrypted += key.final('utf8');
   return decrypted;
 }
 
+async function decryptV1(encryptedData: Encrypted, password: string): Promise<string> {
+  if (!encryptedData.iv || !encryptedData.tag) throw new Error('Missing IV or authentication tag');
+  const secret = Buffer.from(await passwordToKey(password, encryptedData.options));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', secret, Buffer.from(encryptedData.iv, 'hex'));
+  decipher.setAuthTag(Buffer.from(encryptedData.tag, 'hex'));
+  // final throws if the tag does not match, on a wrong password or altered data
+  const decrypted = Buffer.concat([decipher.update(Buffer.from(encryptedData.data, 'base64')), decipher.final()]);
+  return decrypted.toString('utf8');
+}
+
 async function passwordToKey(password: string, options: ScryptOptions): Promise<Uint8Array> {
   return scrypt(
     prepareForScrypt(password),
@@ -53,3 +53,81 @@ export const ExplorerError = new AppError(
   27,
   'Cannot fetch data from blockchain explorer. Consider switching to an other one if the problem persists'
 );
+// Multi-hop trades
+export const NoTradeRouteAvailableError = new AppError(28, 'No trade route available for selected trading pair');
+export const TradeRouteIncompleteError = new AppError(
+  29,
+  'Only the first swap of the trade route has been completed, the intermediate asset is in your wallet'
+);
+export const SplitTradeIncompleteError = new AppError(
+  30,
+  'Only some parts of the trade split across providers have been completed'
+);
+//
+export const SlippageExceededError = new AppError(
+  31,
+  'The price moved beyond your maximum slippage since the preview. Trade has been aborted'
+);
+// Limit orders
+export const LimitOrderTargetNotMetError = new AppError(
+  32,
+  'The price target of the limit order is not met anymore. The order is open again'
+);
+// Custom providers
+export const ProviderAlreadyExistsError = new AppError(33, 'This provider already exists');
+export const ProviderUnreachableError = new AppError(34, 'The provider did not respond to the list of markets');
+// Coin control
+export const SelectedCoinsInsufficientError = new AppError(35, 'The selected coins do not cover the amount to send');
+export const NothingToConsolidateError = new AppError(36, 'Pick at least two coins to consolidate');
+export const ConsolidationFeeTooHighError = new AppError(
+  37,
+  'The network fee is higher than the L-BTC available to consolidate the coins'
+);
+// Fee bumping
+export const TransactionNotReplaceableError = new AppError(
+  38,
+  'This transaction cannot be replaced, it is either confirmed, spent by another one or not only made of your coins'
+);
+export const FeeBumpTooHighError = new AppError(39, 'The change of this transaction cannot pay the higher fee');
+// Watch-only wallets
+export const WatchOnlyWalletError = new AppError(40, 'This wallet is watch-only, it cannot sign transactions');
+export const InvalidXpubError = new AppError(41, 'Invalid extended public key');
+export const InvalidMasterBlindingKeyError = new AppError(
+  42,
+  'Invalid master blinding key, 64 hexadecimal characters expected'
+);
+// Multiple wallets
+export const ActiveWalletRemovalError = new AppError(
+  43,
+  'The active wallet cannot be removed, switch to another one first'
+);
+// PSET import/export
+export const InvalidPsetError = new AppError(44, 'Invalid PSET, a base64 PSET or a signed transaction hex is expected');
+export const PsetV0NotSupportedError = new AppError(45, 'PSET v0 is not supported, export a PSET v2 from your signer');
+export const PsetNotSignedError = new AppError(46, 'The PSET is not fully signed yet');
+// Lock modes
+export const PinLengthError = new AppError(47, 'PIN must contain as many digits as set in the security settings');
+export const PasswordTooShortError = new AppError(48, 'Password must contain at least 8 characters');
+// Brute-force protection
+export const PinLockedOutError = new AppError(49, 'Too many failed attempts, wait before entering your PIN again');
+export const WalletErasedError = new AppError(
+  50,
+  'Too many failed attempts, the wallet has been erased from this device'
+);
+// Fees paid in another asset
+export const TopupAboveQuoteError = new AppError(
+  51,
+  'The fee asked by the topup service is higher than the one quoted, review it again'
+);
+// Imported PSETs
+export const PsetUnsafeSighashError = new AppError(
+  52,
+  'Inputs of your wallet would be signed with a sighash letting anyone redirect their funds, the PSET cannot be signed'
+);
+// Trades
+export const SwapAcceptMismatchError = new AppError(
+  53,
+  'The transaction accepted by the provider does not pay the amounts requested. Trade has been aborted'
+);
+// Multiple wallets
+export const WalletCreationError = new AppError(54, 'The wallet could not be added, try again');
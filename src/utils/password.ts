@@ -0,0 +1,44 @@
+import type { LockMode } from './constants';
+import { FREE_PIN_ATTEMPTS, MIN_PASSWORD_LENGTH, PIN_LOCKOUT_BASE_DELAY, PIN_LOCKOUT_MAX_DELAY } from './constants';
+import { PasswordTooShortError, PinDigitsError, PinLengthError } from './errors';
+import type { AppError } from './errors';
+
+export interface PasswordStrength {
+  // 0 (very weak) to 4 (very strong)
+  score: 0 | 1 | 2 | 3 | 4;
+  label: string;
+  // estimated bits of entropy
+  bits: number;
+}
+
+const STRENGTH_LABELS = ['Very weak', 'Weak', 'Fair', 'Strong', 'Very strong'];
+// lower bounds in bits of the scores above 0
+const STRENGTH_THRESHOLDS = [28, 36, 60, 80];
+
+// Error of a PIN or password not matching the lock mode, undefined if it does
+export function validatePassword(password: string, lockMode: LockMode): AppError | undefined {
+  if (lockMode.type === 'password') {
+    return password.length >= MIN_PASSWORD_LENGTH ? undefined : PasswordTooShortError;
+  }
+  if (new RegExp(`^\\d{${lockMode.length}}$`).test(password)) return undefined;
+  return lockMode.length === 6 ? PinDigitsError : PinLengthError;
+}
+
+// Brute-force resistance estimated from the length and the classes of characters used
+// Repetitions and dictionary words are not detected, the estimate is an upper bound
+export function passwordStrength(password: string): PasswordStrength {
+  let poolSize = 0;
+  if (/\d/.test(password)) poolSize += 10;
+  if (/[a-z]/.test(password)) poolSize += 26;
+  if (/[A-Z]/.test(password)) poolSize += 26;
+  if (/[^\da-zA-Z]/.test(password)) poolSize += 33;
+  const bits = poolSize ? Math.round(password.length * Math.log2(poolSize)) : 0;
+  const score = STRENGTH_THRESHOLDS.filter((threshold) => bits >= threshold).length as PasswordStrength['score'];
+  return { score, label: STRENGTH_LABELS[score], bits };
+}
+
+// Milliseconds to wait before the next attempt, doubling with each failure after the free ones
+export function pinLockoutDelay(failedAttempts: number): number {
+  if (failedAttempts < FREE_PIN_ATTEMPTS) return 0;
+  return Math.min(PIN_LOCKOUT_BASE_DELAY * 2 ** (failedAttempts - FREE_PIN_ATTEMPTS), PIN_LOCKOUT_MAX_DELAY);
+}
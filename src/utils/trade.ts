@@ -0,0 +1,174 @@
+import { Buffer } from 'buffer';
+
+import { TradeType } from '../api-spec/protobuf/gen/js/tdex/v2/types_pb';
+import type { UnblindedInput } from '../api-spec/protobuf/gen/js/tdex/v2/types_pb';
+import type { SignerInterface } from '../services/signerService';
+import { makeTradeV1, makeTradeV2 } from '../services/tdexService';
+import type { SlippageCheck } from '../services/tdexService/slippage';
+import type { TradeOrder as TradeOrderV1 } from '../services/tdexService/v1/tradeCore';
+import type { TradeEvent, TradeOrder as TradeOrderV2 } from '../services/tdexService/v2/tradeCore';
+import { useReputationStore } from '../store/reputationStore';
+import { useSettingsStore } from '../store/settingsStore';
+import { useTdexStore } from '../store/tdexStore';
+import type { TradeRecord } from '../store/tradeStore';
+import { useTradeStore } from '../store/tradeStore';
+import type { CoinSelectionForTrade, ScriptDetails, UnblindingData } from '../store/walletStore';
+import { useWalletStore } from '../store/walletStore';
+
+import { SlippageExceededError } from './errors';
+import { outpointToString } from './helpers';
+
+export function toUnblindedInput(input: UnblindingData, index: number): UnblindedInput {
+  return {
+    index: index,
+    asset: input.asset,
+    amount: input.value.toString(),
+    assetBlinder: Buffer.from(input.assetBlindingFactor, 'hex').reverse().toString('hex'),
+    amountBlinder: Buffer.from(input.valueBlindingFactor, 'hex').reverse().toString('hex'),
+  };
+}
+
+// select wallet coins to send `sats` of `asset`, among selectedOutpoints if some are of `asset`
+export async function selectCoinsForTrade(
+  sats: number,
+  asset: string,
+  selectedOutpoints?: string[]
+): Promise<CoinSelectionForTrade> {
+  const { utxos, changeOutputs } = await useWalletStore.getState().selectUtxos(
+    [
+      {
+        address: '',
+        value: sats,
+        asset: asset,
+      },
+    ],
+    true,
+    selectedOutpoints
+  );
+  let witnessUtxos: CoinSelectionForTrade['witnessUtxos'] = {};
+  for (const utxo of utxos) {
+    const witnessUtxo = await useWalletStore.getState().getWitnessUtxo(utxo.txid, utxo.vout);
+    if (witnessUtxo) {
+      witnessUtxos[
+        outpointToString({
+          txid: utxo.txid,
+          vout: utxo.vout,
+        })
+      ] = witnessUtxo;
+    }
+  }
+  const unblindedWitnessUtxos = await useWalletStore.getState().unblindUtxos(Object.values(witnessUtxos));
+  const unblindedInputs = unblindedWitnessUtxos
+    .map((input, index) => (input instanceof Error ? undefined : toUnblindedInput(input, index)))
+    .filter((input): input is UnblindedInput => !!input);
+  return {
+    witnessUtxos,
+    changeOutputs,
+    unblindedInputs,
+  };
+}
+
+// grpc-web and axios timeouts
+const isTimeoutError = (err: unknown): boolean => /timeout|timed out|deadline/i.test((err as Error)?.message ?? '');
+
+// Whether the provider is to blame for a failed trade, given the last step reached
+// Its preview and the deviation of it, its answer to the proposal and the transaction accepted are blamed,
+// not the coin selection, the signature or the broadcast of the completed swap
+function isProviderFailure(err: unknown, lastEvent?: TradeEvent['type']): boolean {
+  switch (lastEvent) {
+    case undefined:
+    case 'proposed':
+      return true;
+    case 'previewed':
+      return err === SlippageExceededError;
+    default:
+      return false;
+  }
+}
+
+// propose and complete tdex trade
+// broadcast via liquid explorer
+// every step is recorded in the trade journal
+export async function makeTrade(
+  order: TradeOrderV1 | TradeOrderV2,
+  known: { amount: number; asset: string },
+  coinSelectionForTrade: CoinSelectionForTrade,
+  signer: SignerInterface,
+  journal: Pick<TradeRecord, 'preview' | 'group'>
+): Promise<{ txid: string; addressForSwapOutput: ScriptDetails }> {
+  // Dry run address generation
+  const addressForChangeOutput = await useWalletStore.getState().getNextAddress(true, true);
+  if (!addressForChangeOutput.confidentialAddress) throw new Error('No address for change');
+  const addressForSwapOutput = await useWalletStore.getState().getNextAddress(false, true);
+  if (!addressForSwapOutput.confidentialAddress) throw new Error('No address for output');
+  const version = await useTdexStore.getState().getProtoVersion(order.traderClient.providerUrl);
+  const tradeId = useTradeStore.getState().addTrade({
+    ...journal,
+    provider: { name: order.market.provider.name, endpoint: order.market.provider.endpoint },
+    protoVersion: version,
+    market: { baseAsset: order.market.baseAsset, quoteAsset: order.market.quoteAsset },
+    type: order.type === TradeType.BUY ? 'BUY' : 'SELL',
+  });
+  // slippage of the amounts previewed when trading, feeds the provider reputation
+  let slippage: number | undefined;
+  let lastEvent: TradeEvent['type'] | undefined;
+  const onTradeEvent = (event: TradeEvent) => {
+    lastEvent = event.type;
+    if (event.type === 'previewed') slippage = event.slippage;
+    useTradeStore.getState().applyTradeEvent(tradeId, event);
+  };
+  const slippageCheck: SlippageCheck = {
+    expected: {
+      amountToBeSent: journal.preview.sent.sats,
+      amountToReceive: journal.preview.received.sats,
+      tradeFeeAmount: journal.preview.fee?.sats,
+    },
+    maxSlippage: useSettingsStore.getState().maxSlippage,
+  };
+  const { explorerLiquidAPI, network, torProxy } = useSettingsStore.getState();
+  const { masterBlindingKey } = useWalletStore.getState();
+  try {
+    let txid;
+    if (version === 'v1') {
+      txid = await makeTradeV1(
+        order as TradeOrderV1,
+        known,
+        explorerLiquidAPI,
+        coinSelectionForTrade,
+        signer,
+        masterBlindingKey,
+        network,
+        addressForChangeOutput,
+        addressForSwapOutput,
+        torProxy,
+        onTradeEvent,
+        slippageCheck
+      );
+    } else {
+      txid = await makeTradeV2(
+        order as TradeOrderV2,
+        known,
+        explorerLiquidAPI,
+        coinSelectionForTrade,
+        signer,
+        masterBlindingKey,
+        network,
+        addressForChangeOutput,
+        addressForSwapOutput,
+        torProxy,
+        onTradeEvent,
+        slippageCheck
+      );
+    }
+    useReputationStore.getState().recordTradeOutcome(order.market.provider.endpoint, 'completed', slippage);
+    return { txid, addressForSwapOutput };
+  } catch (err) {
+    useTradeStore.getState().failTrade(tradeId, (err as Error).message);
+    if (isProviderFailure(err, lastEvent)) {
+      useReputationStore
+        .getState()
+        .recordTradeOutcome(order.market.provider.endpoint, isTimeoutError(err) ? 'timeout' : 'failed', slippage);
+    }
+    throw err;
+  }
+}
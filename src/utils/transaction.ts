@@ -1,17 +1,44 @@
 import { Buffer } from 'buffer';
 import type { UpdaterInput, UpdaterOutput } from 'liquidjs-lib';
-import { Pset, address, Creator, networks, payments, Transaction, Updater } from 'liquidjs-lib';
+import {
+  Pset,
+  address,
+  AssetHash,
+  Creator,
+  ElementsValue,
+  Extractor,
+  Finalizer,
+  networks,
+  payments,
+  Transaction,
+  Updater,
+} from 'liquidjs-lib';
 import { getScriptType, ScriptType } from 'liquidjs-lib/src/address';
 import { varSliceSize, varuint } from 'liquidjs-lib/src/bufferutils';
 import { Psbt } from 'liquidjs-lib/src/psbt';
 
 import { chainSource } from '../services/chainSource';
+import type { Topup, TopupClient } from '../services/topupClient';
+import { topupClient } from '../services/topupClient';
 import { useSettingsStore } from '../store/settingsStore';
-import type { Recipient, TxHeuristic } from '../store/walletStore';
+import type { FeeRate } from '../store/settingsStore';
+import type { Outpoint, Recipient, SentRecipient, TxHeuristic, UnblindedOutput } from '../store/walletStore';
 import { useWalletStore } from '../store/walletStore';
 
+import { FEE_PRESETS, TAXI_TOPUP_VSIZE } from './constants';
+import {
+  ConsolidationFeeTooHighError,
+  FeeBumpTooHighError,
+  NothingToConsolidateError,
+  TopupAboveQuoteError,
+  TransactionNotReplaceableError,
+} from './errors';
+import { outpointToString } from './helpers';
+
 const FEE_OUTPUT_SIZE = 33 + 9 + 1 + 1; // unconf fee output size
 const INPUT_BASE_SIZE = 40; // 32 bytes for outpoint, 4 bytes for sequence, 4 for index
+// signals opt-in replace-by-fee (BIP125) so that the fee of our sends can be bumped
+const RBF_SEQUENCE = 0xfffffffd;
 
 function txBaseSize(inScriptSigsSize: number[], outNonWitnessesSize: number[]): number {
   const inSize = inScriptSigsSize.reduce((a, b) => a + b + INPUT_BASE_SIZE, 0);
@@ -45,7 +72,7 @@ function estimateScriptSigSize(type: ScriptType): number {
 
 // estimate pset virtual size after signing, take confidential outputs into account
 // aims to estimate the fee amount needed to be paid before blinding or signing the pset
-function estimateVirtualSize(pset: Pset, withFeeOutput: boolean): number {
+export function estimateVirtualSize(pset: Pset, withFeeOutput: boolean): number {
   const inScriptSigsSize = [];
   const inWitnessesSize = [];
   for (const input of pset.inputs) {
@@ -90,21 +117,60 @@ function estimateVirtualSize(pset: Pset, withFeeOutput: boolean): number {
   return (weight + 3) / 4;
 }
 
+// fee rate in sat/vB of the given choice, never below the min relay fee
+export async function estimateFeeRate({ preset, satsPerVByte }: FeeRate): Promise<number> {
+  if (!chainSource) throw new Error('chain source not found, cannot estimate fee');
+  // chain sources return BTC per kB
+  const minRate = ((await chainSource.getRelayFee()) * 10 ** 8) / 1000;
+  if (preset === 'custom') return Math.max(satsPerVByte ?? minRate, minRate);
+  const { targetBlocks } = FEE_PRESETS.find((feePreset) => feePreset.preset === preset) ?? FEE_PRESETS[1];
+  const estimated = ((await chainSource.estimateFees(targetBlocks)) * 10 ** 8) / 1000;
+  return Math.max(estimated, minRate);
+}
+
+// fee rate in sats per 1000 bytes, the chosen one or the min relay fee plus a margin
+async function getSats1000Bytes(satsPerVByte?: number): Promise<number> {
+  if (satsPerVByte !== undefined) return satsPerVByte * 1000;
+  if (!chainSource) throw new Error('chain source not found, cannot estimate fee');
+  // we add 50% to the min relay fee in order to be sure that the transaction will be accepted by the network
+  return (await chainSource.getRelayFee()) * 1.5 * 10 ** 8;
+}
+
 type MakeSendPsetResult = {
   pset: Pset;
-  feeAmount: number; // fee amount in satoshi
+  feeAmount: number; // fee amount in satoshi of the fee asset
+  recipientVouts: number[]; // output paying each recipient
 };
 
 // create a pset with the given recipients and data recipients
 // select utxos from the main accounts
+// fees in an asset other than L-BTC are paid through a topup of the given client
+// satsPerVByte defaults to the min relay fee plus a margin
+// selectedOutpoints are the coins picked by the user to pay the recipients
+// maxTopupAmount is the topup fee quoted to the user, a higher one being rejected
 export async function makeSendPset(
   recipients: Recipient[],
   feeAssetHash: string,
-  deductFeeFromAmount = false
+  deductFeeFromAmount = false,
+  satsPerVByte?: number,
+  selectedOutpoints?: string[],
+  maxTopupAmount?: number,
+  topup: TopupClient = topupClient
 ): Promise<MakeSendPsetResult> {
   const pset = Creator.newPset();
   let network = useSettingsStore.getState().network;
-  const coinSelection = await useWalletStore.getState().selectUtxos(recipients, true);
+  if (feeAssetHash !== networks[network].assetHash) {
+    return makeTaxiSendPset(
+      recipients,
+      feeAssetHash,
+      deductFeeFromAmount,
+      satsPerVByte,
+      selectedOutpoints,
+      maxTopupAmount,
+      topup
+    );
+  }
+  const coinSelection = await useWalletStore.getState().selectUtxos(recipients, true, selectedOutpoints);
   const ins: UpdaterInput[] = [];
   const outs: UpdaterOutput[] = [];
   // get witness utxos
@@ -122,6 +188,7 @@ export async function makeSendPset(
       txid: utxo.txid,
       txIndex: utxo.vout,
       sighashType: Transaction.SIGHASH_ALL,
+      sequence: RBF_SEQUENCE,
       witnessUtxo: witnessUtxos[i],
     }))
   );
@@ -157,10 +224,8 @@ export async function makeSendPset(
   if (!chainSource) throw new Error('chain source not found, cannot estimate fee');
   // create the updater
   const updater = new Updater(pset).addInputs(ins).addOutputs(outs);
-  // we add 50% to the min relay fee in order to be sure that the transaction will be accepted by the network
   // some inputs and outputs may be added later to pay the fees
-  const relayFee = (await chainSource.getRelayFee()) * 1.5;
-  const sats1000Bytes = relayFee * 10 ** 8;
+  const sats1000Bytes = await getSats1000Bytes(satsPerVByte);
   const estimatedSize = estimateVirtualSize(updater.pset, true);
   let feeAmount = Math.ceil(estimatedSize * (sats1000Bytes / 1000));
   const newIns = [];
@@ -217,6 +282,7 @@ export async function makeSendPset(
             txid: utxo.txid,
             txIndex: utxo.vout,
             sighashType: Transaction.SIGHASH_ALL,
+            sequence: RBF_SEQUENCE,
             witnessUtxo: newWitnessUtxos[i],
           }))
         );
@@ -258,15 +324,322 @@ export async function makeSendPset(
           ]);
         }
       }
-      // taxi fee
-    } else {
-      throw new Error('taxi topup not supported');
     }
   }
 
   return {
     pset: updater.pset,
     feeAmount,
+    // the recipients come first, the fee and change outputs being added after them
+    recipientVouts: recipients.map((_, index) => index),
+  };
+}
+
+function toUpdaterInputs(utxos: UnblindedOutput[]): UpdaterInput[] {
+  return utxos.map(({ txid, vout }) => {
+    const txHex = useWalletStore.getState().txs[txid].hex;
+    return {
+      txid,
+      txIndex: vout,
+      sighashType: Transaction.SIGHASH_ALL,
+      sequence: RBF_SEQUENCE,
+      witnessUtxo: txHex ? Transaction.fromHex(txHex).outs[vout] : undefined,
+    };
+  });
+}
+
+function toUpdaterOutput(recipient: Recipient, blinderIndex: number): UpdaterOutput {
+  const network = useSettingsStore.getState().network;
+  const updaterOut: UpdaterOutput = {
+    asset: recipient.asset,
+    amount: recipient.value,
+    script: address.toOutputScript(recipient.address, networks[network]),
+  };
+  if (address.isConfidential(recipient.address)) {
+    updaterOut.blinderIndex = blinderIndex;
+    updaterOut.blindingPublicKey = address.fromConfidential(recipient.address).blindingKey;
+  }
+  return updaterOut;
+}
+
+// topup paying the L-BTC fee of a transaction sending to the recipients, without locking any coin
+async function requestTopup(
+  recipients: Recipient[],
+  feeAssetHash: string,
+  satsPerVByte: number | undefined,
+  selectedOutpoints: string[] | undefined,
+  topupService: TopupClient
+): Promise<Topup> {
+  // sats per 1000 bytes is millisats per byte
+  const millisatsPerByte = Math.ceil(await getSats1000Bytes(satsPerVByte));
+  // estimate the size of the final transaction from the one without topup
+  const { utxos } = await useWalletStore.getState().selectUtxos(recipients, false, selectedOutpoints);
+  const withoutTopup = new Updater(Creator.newPset())
+    .addInputs(toUpdaterInputs(utxos))
+    .addOutputs(recipients.map((recipient) => toUpdaterOutput(recipient, 0)));
+  const topup = await topupService.topupWithAsset({
+    assetHash: feeAssetHash,
+    estimatedTxSize: Math.ceil(estimateVirtualSize(withoutTopup.pset, false)) + TAXI_TOPUP_VSIZE,
+    millisatsPerByte,
+  });
+  if (topup.assetHash !== feeAssetHash) throw new Error('topup asset does not match the fee asset');
+  if (topup.expiry <= Date.now()) throw new Error('topup expired');
+  return topup;
+}
+
+// fee in feeAssetHash of a transaction sending to the recipients, to be shown before asking for the PIN
+export async function quoteTopupFee(
+  recipients: Recipient[],
+  feeAssetHash: string,
+  satsPerVByte?: number,
+  selectedOutpoints?: string[],
+  topup: TopupClient = topupClient
+): Promise<number> {
+  return (await requestTopup(recipients, feeAssetHash, satsPerVByte, selectedOutpoints, topup)).assetAmount;
+}
+
+// pay the L-BTC fee with a topup bought in feeAssetHash
+// the topup inputs and outputs come first so that their SIGHASH_SINGLE signatures stay valid
+async function makeTaxiSendPset(
+  recipients: Recipient[],
+  feeAssetHash: string,
+  deductFeeFromAmount: boolean,
+  satsPerVByte: number | undefined,
+  selectedOutpoints: string[] | undefined,
+  maxTopupAmount: number | undefined,
+  topupService: TopupClient
+): Promise<MakeSendPsetResult> {
+  const topup = await requestTopup(recipients, feeAssetHash, satsPerVByte, selectedOutpoints, topupService);
+  if (maxTopupAmount !== undefined && topup.assetAmount > maxTopupAmount) throw TopupAboveQuoteError;
+  // the taxi is paid either from the amount sent or with more coins
+  const outputs = recipients.map((recipient) => ({ ...recipient }));
+  const targets = [...recipients];
+  if (deductFeeFromAmount) {
+    const deducted = outputs.find((output) => output.asset === feeAssetHash);
+    if (!deducted || deducted.value <= topup.assetAmount) throw new Error('amount too low to pay the fee');
+    deducted.value -= topup.assetAmount;
+  } else {
+    targets.push({ asset: feeAssetHash, value: topup.assetAmount, address: '' });
+  }
+  const coinSelection = await useWalletStore.getState().selectUtxos(targets, true, selectedOutpoints);
+  const pset = Pset.fromBase64(topup.partial);
+  // our outputs are blinded by our first input
+  const blinderIndex = pset.globals.inputCount;
+  const recipientsStartIndex = pset.globals.outputCount;
+  const outs = outputs.map((output) => toUpdaterOutput(output, blinderIndex));
+  for (const { asset, amount } of coinSelection.changeOutputs ?? []) {
+    const changeScriptDetail = await useWalletStore.getState().getNextAddress(true);
+    outs.push({
+      asset,
+      amount,
+      script: Buffer.from(changeScriptDetail.script, 'hex'),
+      blinderIndex,
+      blindingPublicKey: changeScriptDetail.blindingPublicKey
+        ? Buffer.from(changeScriptDetail.blindingPublicKey, 'hex')
+        : undefined,
+    });
+  }
+  const updater = new Updater(pset).addInputs(toUpdaterInputs(coinSelection.utxos)).addOutputs(outs);
+  return {
+    pset: updater.pset,
+    feeAmount: topup.assetAmount,
+    recipientVouts: recipients.map((_, index) => recipientsStartIndex + index),
+  };
+}
+
+// virtual size of a transaction sending to the recipients, without locking any coin
+// the inputs that may be added to pay the fees are not taken into account
+export async function estimateSendVirtualSize(recipients: Recipient[], selectedOutpoints?: string[]): Promise<number> {
+  const { utxos, changeOutputs } = await useWalletStore.getState().selectUtxos(recipients, false, selectedOutpoints);
+  const outs = recipients.map((recipient) => toUpdaterOutput(recipient, 0));
+  for (const { asset, amount } of changeOutputs ?? []) {
+    const changeScriptDetail = await useWalletStore.getState().getNextAddress(true, true);
+    outs.push({
+      asset,
+      amount,
+      script: Buffer.from(changeScriptDetail.script, 'hex'),
+      blinderIndex: 0,
+      blindingPublicKey: changeScriptDetail.blindingPublicKey
+        ? Buffer.from(changeScriptDetail.blindingPublicKey, 'hex')
+        : undefined,
+    });
+  }
+  const updater = new Updater(Creator.newPset()).addInputs(toUpdaterInputs(utxos)).addOutputs(outs);
+  return estimateVirtualSize(updater.pset, true);
+}
+
+type MakeConsolidationPsetResult = Omit<MakeSendPsetResult, 'recipientVouts'> & {
+  // coins spent, including the L-BTC ones paying the fee
+  inputCount: number;
+  // one coin per asset
+  outputCount: number;
+};
+
+// Max number of fee coins selections, each one adding inputs and then fees
+const MAX_CONSOLIDATION_FEE_SELECTIONS = 5;
+
+// sweep the given coins into a single fresh internal address, one output per asset
+// the fee is deducted from the L-BTC swept, else paid with more L-BTC coins whose change is swept too
+// dryRun neither locks the coins nor persists the address, to preview the consolidation
+export async function makeConsolidationPset(
+  outpoints: string[],
+  satsPerVByte?: number,
+  dryRun = false
+): Promise<MakeConsolidationPsetResult> {
+  const network = useSettingsStore.getState().network;
+  const lbtc = networks[network].assetHash;
+  const { computeUtxosFromTxs, getNextAddress, selectUtxos } = useWalletStore.getState();
+  const utxos = computeUtxosFromTxs().filter(
+    (utxo) => utxo?.blindingData && outpoints.includes(outpointToString(utxo))
+  );
+  if (utxos.length < 2) throw NothingToConsolidateError;
+  const { script, blindingPublicKey } = await getNextAddress(true, dryRun);
+  const toConsolidationOutput = (asset: string, amount: number): UpdaterOutput => ({
+    asset,
+    amount,
+    script: Buffer.from(script, 'hex'),
+    blinderIndex: 0,
+    blindingPublicKey: blindingPublicKey ? Buffer.from(blindingPublicKey, 'hex') : undefined,
+  });
+  const sats1000Bytes = await getSats1000Bytes(satsPerVByte);
+  const makePset = (inputs: UnblindedOutput[], amounts: Record<string, number>) =>
+    new Updater(Creator.newPset())
+      .addInputs(toUpdaterInputs(inputs))
+      .addOutputs(Object.entries(amounts).map(([asset, amount]) => toConsolidationOutput(asset, amount))).pset;
+  const feeOf = (pset: Pset) => Math.ceil(estimateVirtualSize(pset, true) * (sats1000Bytes / 1000));
+  //
+  const inputs = [...utxos];
+  const amounts: Record<string, number> = {};
+  for (const utxo of utxos) {
+    const { asset, value } = utxo.blindingData!;
+    amounts[asset] = (amounts[asset] ?? 0) + value;
+  }
+  if (amounts[lbtc] === undefined) {
+    // the fee coins are selected for the fee of the pset including them, until they cover it
+    let feeUtxos: UnblindedOutput[] = [];
+    let feeUtxosValue = 0;
+    for (let i = 0; ; i++) {
+      const feeAmount = feeOf(makePset([...utxos, ...feeUtxos], { ...amounts, [lbtc]: 1 }));
+      if (feeUtxos.length > 0 && feeUtxosValue >= feeAmount) break;
+      if (i === MAX_CONSOLIDATION_FEE_SELECTIONS) throw ConsolidationFeeTooHighError;
+      feeUtxos = (await selectUtxos([{ asset: lbtc, value: feeAmount, address: '' }], false)).utxos;
+      feeUtxosValue = feeUtxos.reduce((sum, utxo) => sum + (utxo.blindingData?.value ?? 0), 0);
+      if (feeUtxosValue < feeAmount) throw ConsolidationFeeTooHighError;
+    }
+    inputs.push(...feeUtxos);
+    amounts[lbtc] = feeUtxosValue;
+  }
+  const feeAmount = feeOf(makePset(inputs, amounts));
+  if (amounts[lbtc] < feeAmount) throw ConsolidationFeeTooHighError;
+  amounts[lbtc] -= feeAmount;
+  if (amounts[lbtc] === 0) delete amounts[lbtc];
+  const updater = new Updater(makePset(inputs, amounts)).addOutputs([{ asset: lbtc, amount: feeAmount }]);
+  if (!dryRun) {
+    const { lockOutpoint, unlockOutpoint } = useWalletStore.getState();
+    const lockedOutpoints = inputs.map((utxo) => lockOutpoint(utxo));
+    setTimeout(() => lockedOutpoints.forEach((outpointStr) => unlockOutpoint(outpointStr)), 60_000);
+  }
+  return {
+    pset: updater.pset,
+    feeAmount,
+    inputCount: inputs.length,
+    outputCount: Object.keys(amounts).length,
+  };
+}
+
+type MakeBumpFeePsetResult = Omit<MakeSendPsetResult, 'recipientVouts'> & {
+  // recipients of the replaced transaction with the outputs of the replacement paying them
+  recipients: SentRecipient[];
+};
+
+// rebuild an unconfirmed transaction of ours with the same inputs and a fee rate of satsPerVByte
+// the fee increase is taken from the L-BTC change, recipients are paid the same amounts
+export async function makeBumpFeePset(txid: string, satsPerVByte: number): Promise<MakeBumpFeePsetResult> {
+  const network = useSettingsStore.getState().network;
+  const lbtc = networks[network].assetHash;
+  const { txs, outputHistory, scriptDetails, sentRecipients, getWitnessUtxo } = useWalletStore.getState();
+  const txDetails = txs[txid];
+  if (!txDetails?.hex || txDetails.height > 0) throw TransactionNotReplaceableError;
+  // replacing a transaction evicts the ones spending its outputs
+  const isSpent = Object.values(txs).some(({ hex }) =>
+    Transaction.fromHex(hex).ins.some((input) => Buffer.from(input.hash).reverse().toString('hex') === txid)
+  );
+  if (isSpent) throw TransactionNotReplaceableError;
+  const tx = Transaction.fromHex(txDetails.hex);
+  const ins: UpdaterInput[] = tx.ins.map((input) => {
+    const prevTxid = Buffer.from(input.hash).reverse().toString('hex');
+    const witnessUtxo = getWitnessUtxo(prevTxid, input.index);
+    if (!witnessUtxo || !outputHistory[outpointToString({ txid: prevTxid, vout: input.index })]) {
+      throw TransactionNotReplaceableError;
+    }
+    return {
+      txid: prevTxid,
+      txIndex: input.index,
+      sighashType: Transaction.SIGHASH_ALL,
+      sequence: RBF_SEQUENCE,
+      witnessUtxo,
+    };
+  });
+  const recipients = sentRecipients[txid] ?? [];
+  // recipients are told apart by their outputs, as several of them or our own change may share an address
+  const isPaid = ({ address: recipientAddress, vout }: SentRecipient) =>
+    tx.outs[vout]?.script.equals(address.toOutputScript(recipientAddress, networks[network]));
+  if (!recipients.every(isPaid)) throw TransactionNotReplaceableError;
+  const outs: UpdaterOutput[] = [];
+  const bumpedRecipients: SentRecipient[] = [];
+  let oldFeeAmount = 0;
+  // index in outs of the L-BTC change paying the fee increase
+  let changeIndex = -1;
+  for (const [vout, output] of tx.outs.entries()) {
+    if (output.script.length === 0) {
+      oldFeeAmount = ElementsValue.fromBytes(output.value).number;
+      continue;
+    }
+    const recipient = recipients.find((r) => r.vout === vout);
+    if (recipient) {
+      bumpedRecipients.push({ ...recipient, vout: outs.length });
+      outs.push(toUpdaterOutput(recipient, 0));
+      continue;
+    }
+    const blindingData = outputHistory[outpointToString({ txid, vout })]?.blindingData;
+    if (!blindingData) throw TransactionNotReplaceableError;
+    const { blindingPublicKey } = scriptDetails[output.script.toString('hex')] ?? {};
+    if (blindingData.asset === lbtc && (changeIndex === -1 || blindingData.value > outs[changeIndex].amount)) {
+      changeIndex = outs.length;
+    }
+    outs.push({
+      asset: blindingData.asset,
+      amount: blindingData.value,
+      script: output.script,
+      blinderIndex: 0,
+      blindingPublicKey: blindingPublicKey ? Buffer.from(blindingPublicKey, 'hex') : undefined,
+    });
+  }
+  if (changeIndex === -1) throw FeeBumpTooHighError;
+  if (!chainSource) throw new Error('chain source not found, cannot estimate fee');
+  // the replacement pays at least the replaced fee plus the relay fee of its own size (BIP125)
+  const minRelayRate = ((await chainSource.getRelayFee()) * 10 ** 8) / 1000;
+  const estimatedSize = estimateVirtualSize(new Updater(Creator.newPset()).addInputs(ins).addOutputs(outs).pset, true);
+  const feeAmount = Math.max(
+    Math.ceil(estimatedSize * satsPerVByte),
+    oldFeeAmount + Math.ceil(estimatedSize * minRelayRate)
+  );
+  const change = outs[changeIndex];
+  if (change.amount < feeAmount - oldFeeAmount) throw FeeBumpTooHighError;
+  change.amount -= feeAmount - oldFeeAmount;
+  if (change.amount === 0) {
+    outs.splice(changeIndex, 1);
+    for (const recipient of bumpedRecipients) {
+      if (recipient.vout > changeIndex) recipient.vout -= 1;
+    }
+  }
+  const updater = new Updater(Creator.newPset())
+    .addInputs(ins)
+    .addOutputs([...outs, { asset: lbtc, amount: feeAmount }]);
+  return {
+    pset: updater.pset,
+    feeAmount,
+    recipients: bumpedRecipients,
   };
 }
 
@@ -323,6 +696,77 @@ export function isRawTransaction(tx: string): boolean {
   }
 }
 
+export interface DecodedPsetInput extends Outpoint {
+  // known for the coins of our wallet only
+  asset?: string;
+  value?: number;
+  isOwned: boolean;
+  isSigned: boolean;
+  // the one of the PSET, SIGHASH_ALL by default
+  sighashType: number;
+}
+
+export interface DecodedPsetOutput {
+  address?: string;
+  asset?: string;
+  value: number;
+  isOwned: boolean;
+  isFee: boolean;
+}
+
+// Inputs and outputs of a pset labelled as ours or foreign, to be reviewed before signing
+export function decodePsetDetails(pset: Pset): { inputs: DecodedPsetInput[]; outputs: DecodedPsetOutput[] } {
+  const { scriptDetails, outputHistory } = useWalletStore.getState();
+  const network = useSettingsStore.getState().network;
+  const inputs = pset.inputs.map((input) => {
+    const outpoint = { txid: Buffer.from(input.previousTxid).reverse().toString('hex'), vout: input.previousTxIndex };
+    const script = input.witnessUtxo?.script.toString('hex');
+    const blindingData = outputHistory[outpointToString(outpoint)]?.blindingData;
+    return {
+      ...outpoint,
+      asset: blindingData?.asset,
+      value: blindingData?.value,
+      isOwned: !!script && !!scriptDetails[script],
+      isSigned: !!input.finalScriptWitness || (input.partialSigs ?? []).length > 0,
+      sighashType: input.sighashType || Transaction.SIGHASH_ALL,
+    };
+  });
+  const outputs = pset.outputs.map((output) => {
+    const script = output.script?.toString('hex') ?? '';
+    let outputAddress = scriptDetails[script]?.confidentialAddress;
+    if (!outputAddress && output.script) {
+      try {
+        const unconfidential = address.fromOutputScript(output.script, networks[network]);
+        outputAddress = output.blindingPubkey
+          ? address.toConfidential(unconfidential, output.blindingPubkey)
+          : unconfidential;
+      } catch (ignore) {
+        // non standard script
+      }
+    }
+    return {
+      address: outputAddress,
+      asset: output.asset ? AssetHash.fromBytes(output.asset).hex : undefined,
+      value: output.value,
+      isOwned: !!scriptDetails[script],
+      isFee: script === '',
+    };
+  });
+  return { inputs, outputs };
+}
+
+// Only SIGHASH_ALL commits to every input and output, any other sighash lets the signed input be spent elsewhere
+export function hasUnsafeSighash({ isOwned, isSigned, sighashType }: DecodedPsetInput): boolean {
+  return isOwned && !isSigned && sighashType !== Transaction.SIGHASH_ALL;
+}
+
+// Hex of the transaction of a pset whose inputs are all signed, the pset is left untouched
+export function extractSignedTransaction(pset: Pset): string {
+  const finalizer = new Finalizer(Pset.fromBase64(pset.toBase64()));
+  finalizer.finalize();
+  return Extractor.extract(finalizer.pset).toHex();
+}
+
 export function psetToBlindingPrivateKeys(pset: Pset): Buffer[] {
   const scriptDetails = useWalletStore.getState().scriptDetails;
   const blindingPrivateKeys: Buffer[] = [];
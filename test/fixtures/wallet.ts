@@ -0,0 +1,63 @@
+import type { TxOutput } from 'liquidjs-lib';
+import { AssetHash, ElementsValue, networks, Transaction } from 'liquidjs-lib';
+
+import { useSettingsStore } from '../../src/store/settingsStore';
+import type { ScriptDetails } from '../../src/store/walletStore';
+import { useWalletStore } from '../../src/store/walletStore';
+
+export const mnemonic = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+export const pin = '123456';
+export const lbtc = networks.regtest.assetHash;
+
+const ZERO = '00'.repeat(32);
+
+export interface FundedCoin {
+  txid: string;
+  vout: number;
+  asset: string;
+  value: number;
+  scriptDetails: ScriptDetails;
+}
+
+// Unconfidential output, its unblinding data having zero blinding factors
+export function unconfidentialOutput(script: Buffer, asset: string, value: number): TxOutput {
+  return {
+    script,
+    value: ElementsValue.fromNumber(value).bytes,
+    asset: AssetHash.fromHex(asset).bytes,
+    nonce: Buffer.of(0x00),
+  };
+}
+
+// Regtest wallet of the mnemonic above, each coin being received on a fresh address in its own transaction
+// chainSource must be mocked with a subscribeScriptStatus resolving without calling back
+export async function setupWallet(coins: { asset: string; value: number }[]): Promise<FundedCoin[]> {
+  useSettingsStore.setState({ network: 'regtest' });
+  const { resetWalletStore, generateMasterKeysAndPaths, setMnemonicEncrypted, getNextAddress } =
+    useWalletStore.getState();
+  resetWalletStore();
+  generateMasterKeysAndPaths(mnemonic);
+  await setMnemonicEncrypted(mnemonic, pin);
+  const funded: FundedCoin[] = [];
+  for (const [index, { asset, value }] of coins.entries()) {
+    const scriptDetails = await getNextAddress(false);
+    const tx = new Transaction();
+    tx.addInput(Buffer.alloc(32, index + 1), 0);
+    const output = unconfidentialOutput(Buffer.from(scriptDetails.script, 'hex'), asset, value);
+    tx.addOutput(output.script, output.value, output.asset, output.nonce);
+    const txid = tx.getId();
+    useWalletStore.setState((state) => ({
+      txs: { ...state.txs, [txid]: { hex: tx.toHex(), height: index + 1 } },
+      outputHistory: {
+        ...state.outputHistory,
+        [`${txid}:0`]: {
+          txid,
+          vout: 0,
+          blindingData: { asset, value, assetBlindingFactor: ZERO, valueBlindingFactor: ZERO },
+        },
+      },
+    }));
+    funded.push({ txid, vout: 0, asset, value, scriptDetails });
+  }
+  return funded;
+}